@@ -17,6 +17,7 @@ import NOVAQDashboard from './pages/NOVAQDashboard'
 import GoogleCallback from './pages/GoogleCallback'
 import ModelChat from './pages/ModelChat'
 import Coordinator from './pages/Coordinator'
+import StarterPacks from './pages/StarterPacks'
 import Landing from './pages/Landing'
 import About from './pages/About'
 import Pricing from './pages/Pricing'
@@ -65,6 +66,11 @@ function App() {
                       <Coordinator />
                     </ProtectedRoute>
                   } />
+                  <Route path="/starter-packs" element={
+                    <ProtectedRoute>
+                      <StarterPacks />
+                    </ProtectedRoute>
+                  } />
                   <Route path="/agents" element={
                     <ProtectedRoute>
                       <Agents />
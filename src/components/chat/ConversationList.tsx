@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import type { ConversationSession } from '../../services/llmService';
+import { getConversationTitle, nanosToDate, searchConversations } from '../../services/conversationStore';
+
+interface ConversationListProps {
+  conversations: ConversationSession[];
+  currentId?: string;
+  onSelect: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => Promise<void>;
+  onTogglePin: (sessionId: string, pinned: boolean) => Promise<void>;
+  onDelete: (sessionId: string) => Promise<void>;
+}
+
+const iconButtonClassName = 'p-1 rounded text-text-secondary hover:text-text-primary hover:bg-surface-light transition-colors';
+
+export const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  currentId,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete
+}) => {
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const results = searchConversations(conversations, query);
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const { id, title } = renaming;
+    setRenaming(null);
+    await onRename(id, title);
+  };
+
+  const confirmDelete = async (session: ConversationSession) => {
+    if (!window.confirm(`Delete "${getConversationTitle(session)}"? This cannot be undone.`)) return;
+    await onDelete(session.session_id);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="p-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages..."
+          className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-sm text-text-primary"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {conversations.length === 0 ? (
+          <div className="text-center text-text-secondary mt-8">
+            <p className="text-sm">No conversations yet</p>
+            <p className="text-xs mt-1">Start a new chat to begin</p>
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-center text-sm text-text-secondary mt-8">No conversations match "{query}"</p>
+        ) : (
+          results.map(({ session, snippet }) => (
+            <div
+              key={session.session_id}
+              className={`group p-3 rounded-lg cursor-pointer mb-2 transition-colors ${
+                currentId === session.session_id
+                  ? 'bg-secondary/20 border border-secondary/30'
+                  : 'hover:bg-surface'
+              }`}
+              onClick={() => onSelect(session.session_id)}
+            >
+              <div className="flex items-center gap-2">
+                {session.pinned && <span className="text-xs" title="Pinned">📌</span>}
+                {renaming?.id === session.session_id ? (
+                  <input
+                    autoFocus
+                    value={renaming.title}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setRenaming({ id: session.session_id, title: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 bg-primary border border-border rounded text-sm text-text-primary"
+                  />
+                ) : (
+                  <span className="flex-1 text-sm text-text-primary truncate">{getConversationTitle(session)}</span>
+                )}
+                <div className="hidden group-hover:flex items-center" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    className={iconButtonClassName}
+                    title="Rename"
+                    onClick={() => setRenaming({ id: session.session_id, title: getConversationTitle(session) })}
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    className={iconButtonClassName}
+                    title={session.pinned ? 'Unpin' : 'Pin'}
+                    onClick={() => onTogglePin(session.session_id, !session.pinned)}
+                  >
+                    {session.pinned ? '📍' : '📌'}
+                  </button>
+                  <button
+                    className={iconButtonClassName}
+                    title="Delete"
+                    onClick={() => confirmDelete(session)}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+              {snippet && <p className="text-xs text-text-secondary mt-1 line-clamp-2">{snippet}</p>}
+              <div className="text-xs text-text-muted mt-1">
+                {nanosToDate(session.last_activity).toLocaleDateString()} • {session.messages.length} messages
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
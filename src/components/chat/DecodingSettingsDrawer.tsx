@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import {
+  DECODING_LIMITS,
+  DECODING_PRESETS,
+  matchDecodingPreset,
+  parseDecodingDraft,
+  toDecodingDraft,
+  type DecodingField,
+  type DecodingSettings
+} from '../../services/decodingSettings';
+
+interface DecodingSettingsDrawerProps {
+  settings: DecodingSettings;
+  onApply: (settings: DecodingSettings) => Promise<void> | void;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ field: DecodingField; label: string; step: number; placeholder?: string; help: string }> = [
+  { field: 'max_tokens', label: 'Max reply tokens', step: 1, help: 'Longest reply the model may write' },
+  { field: 'temperature', label: 'Temperature', step: 0.05, help: 'Higher is more varied; 0 always picks the likeliest token' },
+  { field: 'top_p', label: 'Top-p', step: 0.05, help: 'Sample only from the most likely tokens covering this share' },
+  { field: 'top_k', label: 'Top-k', step: 1, placeholder: 'Model default', help: 'Sample only from this many of the most likely tokens' },
+  { field: 'repetition_penalty', label: 'Repetition penalty', step: 0.05, help: 'Above 1 discourages repeating earlier text' },
+  { field: 'seed', label: 'Seed', step: 1, placeholder: 'Random', help: 'A fixed seed makes replies reproducible' },
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border rounded-lg text-text-primary text-sm';
+
+// Side panel for the sampling settings of a chat; changes apply from the next message
+export const DecodingSettingsDrawer: React.FC<DecodingSettingsDrawerProps> = ({ settings, onApply, onClose }) => {
+  const [draft, setDraft] = useState(() => toDecodingDraft(settings));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { settings: parsed, errors } = parseDecodingDraft(draft);
+  const activePreset = parsed ? matchDecodingPreset(parsed) : undefined;
+
+  const apply = async () => {
+    if (!parsed) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onApply(parsed);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="w-full max-w-sm h-full bg-surface border-l border-border flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-text-primary">Advanced settings</h3>
+            <p className="text-xs text-text-secondary">Applies from the next message</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-text-secondary hover:text-text-primary" title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {DECODING_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setDraft(toDecodingDraft(preset.settings))}
+                title={preset.description}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+                  activePreset?.id === preset.id
+                    ? 'bg-secondary/20 border-secondary text-text-primary'
+                    : 'border-border text-text-secondary hover:bg-surface-light'
+                }`}
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-text-muted">
+            {activePreset ? activePreset.description : 'Custom settings'}
+          </p>
+
+          {FIELDS.map(({ field, label, step, placeholder, help }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-text-primary mb-1">{label}</label>
+              <input
+                type="number"
+                className={`${inputClassName} ${errors[field] ? 'border-accent-error' : 'border-border'}`}
+                value={draft[field]}
+                min={DECODING_LIMITS[field].min}
+                max={DECODING_LIMITS[field].max}
+                step={step}
+                placeholder={placeholder}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+              />
+              <p className={`text-xs mt-1 ${errors[field] ? 'text-accent-error' : 'text-text-secondary'}`}>
+                {errors[field] ?? help}
+              </p>
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-accent-error">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-border flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={apply}
+            disabled={!parsed || saving}
+            className="px-4 py-2 bg-secondary text-white rounded-lg hover:bg-secondary/80 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { WORKFLOW_ACTIONS, getWorkflowAction, validateActionConfig } from '../../services/workflowActions';
+
+interface ActionConfigFormProps {
+  actionType?: string;
+  actionConfig?: Record<string, unknown>;
+  onChange: (actionType: string, actionConfig: Record<string, unknown>) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary';
+
+export const ActionConfigForm: React.FC<ActionConfigFormProps> = ({
+  actionType,
+  actionConfig = {},
+  onChange
+}) => {
+  const action = getWorkflowAction(actionType);
+  const errors = action ? validateActionConfig(action, actionConfig) : [];
+
+  const updateField = (key: string, value: string) => {
+    onChange(actionType || '', { ...actionConfig, [key]: value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">
+          Action Type
+        </label>
+        <select
+          className={inputClassName}
+          value={action ? action.type : ''}
+          onChange={(e) => onChange(e.target.value, {})}
+        >
+          <option value="" disabled>Select an action...</option>
+          {WORKFLOW_ACTIONS.map(definition => (
+            <option key={definition.type} value={definition.type}>{definition.label}</option>
+          ))}
+        </select>
+        {action && <p className="text-xs text-text-secondary mt-1">{action.description}</p>}
+      </div>
+
+      {action?.fields.map(field => {
+        const value = actionConfig[field.key];
+        const displayValue = value === undefined ? '' : String(value);
+
+        return (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              {field.label}{field.required && <span className="text-accent-error"> *</span>}
+            </label>
+            {field.type === 'select' ? (
+              <select
+                className={inputClassName}
+                value={displayValue || String(field.defaultValue ?? '')}
+                onChange={(e) => updateField(field.key, e.target.value)}
+              >
+                {field.options?.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            ) : field.type === 'textarea' ? (
+              <textarea
+                className={`${inputClassName} font-mono text-sm`}
+                rows={4}
+                placeholder={field.placeholder}
+                value={displayValue}
+                onChange={(e) => updateField(field.key, e.target.value)}
+              />
+            ) : (
+              <input
+                type={field.type === 'number' ? 'number' : 'text'}
+                className={inputClassName}
+                placeholder={field.placeholder ?? (field.defaultValue !== undefined ? String(field.defaultValue) : undefined)}
+                min={field.min}
+                max={field.max}
+                value={displayValue}
+                onChange={(e) => updateField(field.key, e.target.value)}
+              />
+            )}
+            {field.help && <p className="text-xs text-text-secondary mt-1">{field.help}</p>}
+          </div>
+        );
+      })}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-accent-error space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
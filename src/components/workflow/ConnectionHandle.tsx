@@ -1,5 +1,6 @@
 import React from 'react';
 import type { ConnectionHandle as ConnectionHandleType } from '../../hooks/useConnectionManager';
+import { getPortDataTypeLabel, type PortDataType } from '../../services/workflowPorts';
 
 interface ConnectionHandleProps {
   handle: ConnectionHandleType;
@@ -7,18 +8,30 @@ interface ConnectionHandleProps {
   isValidTarget: boolean;
   isHovered: boolean;
   isSnapping: boolean;
+  // Why the connection being dragged cannot end here
+  rejection?: string | null;
   onMouseDown: (handle: ConnectionHandleType, event: React.MouseEvent) => void;
   onMouseEnter: (handle: ConnectionHandleType) => void;
   onMouseLeave: () => void;
   className?: string;
 }
 
+// Output handles are outlined in the colour of the data they emit
+const DATA_TYPE_BORDERS: Record<PortDataType, string> = {
+  text: 'border-sky-300',
+  json: 'border-amber-300',
+  boolean: 'border-pink-300',
+  'agent-result': 'border-violet-300',
+  'trigger-signal': 'border-yellow-300',
+};
+
 export const ConnectionHandleComponent: React.FC<ConnectionHandleProps> = ({
   handle,
   isConnecting,
   isValidTarget,
   isHovered,
   isSnapping,
+  rejection,
   onMouseDown,
   onMouseEnter,
   onMouseLeave,
@@ -27,7 +40,9 @@ export const ConnectionHandleComponent: React.FC<ConnectionHandleProps> = ({
   const getHandleClasses = () => {
     let classes = 'absolute w-4 h-4 rounded-full border-2 cursor-pointer transition-all duration-200 hover:scale-110 ';
     
-    if (isSnapping) {
+    if (isSnapping && rejection) {
+      classes += 'bg-red-500 border-red-500 shadow-lg scale-125 cursor-not-allowed ';
+    } else if (isSnapping) {
       classes += 'bg-green-400 border-green-400 shadow-lg scale-125 animate-pulse ';
     } else if (isConnecting && isValidTarget) {
       classes += 'bg-blue-400 border-blue-400 hover:scale-125 animate-pulse ';
@@ -38,7 +53,7 @@ export const ConnectionHandleComponent: React.FC<ConnectionHandleProps> = ({
     } else {
       classes += handle.type === 'input' 
         ? 'bg-white border-indigo-400 hover:bg-indigo-400 hover:border-indigo-400 '
-        : 'bg-indigo-400 border-indigo-400 hover:bg-indigo-500 hover:border-indigo-500 ';
+        : `bg-indigo-400 ${handle.dataType ? DATA_TYPE_BORDERS[handle.dataType] : 'border-indigo-400'} hover:bg-indigo-500 `;
     }
     
     return classes + className;
@@ -48,9 +63,13 @@ export const ConnectionHandleComponent: React.FC<ConnectionHandleProps> = ({
     if (isConnecting && isValidTarget) {
       return 'Drop to connect';
     } else if (isConnecting && !isValidTarget) {
-      return 'Invalid target';
+      return rejection || 'Invalid target';
+    } else if (handle.type === 'input') {
+      return handle.accepts ? `Connection input - takes ${handle.accepts.map(getPortDataTypeLabel).join(', ')}` : 'Connection input';
     } else {
-      return handle.type === 'input' ? 'Connection input' : 'Drag to connect';
+      const dataType = handle.dataType ? ` (${getPortDataTypeLabel(handle.dataType)})` : '';
+      if (handle.label) return `${handle.label} branch${dataType} - drag to connect`;
+      return `Drag to connect${dataType}`;
     }
   };
 
@@ -77,9 +96,16 @@ export const ConnectionHandleComponent: React.FC<ConnectionHandleProps> = ({
         handle.type === 'input' ? 'bg-indigo-400' : 'bg-white'
       }`} />
       
+      {/* Port label for named outputs */}
+      {handle.label && (
+        <span className="absolute top-4 left-1/2 -translate-x-1/2 text-[10px] font-semibold text-text-secondary pointer-events-none select-none">
+          {handle.label}
+        </span>
+      )}
+      
       {/* Connection indicator */}
       {isSnapping && (
-        <div className="absolute -inset-2 rounded-full bg-green-400/30 animate-ping" />
+        <div className={`absolute -inset-2 rounded-full ${rejection ? 'bg-red-500/30' : 'bg-green-400/30 animate-ping'}`} />
       )}
     </div>
   );
@@ -1,43 +1,32 @@
 import React from 'react';
 import type { DragConnection } from '../../hooks/useConnectionManager';
+import type { WorkflowConnection, WorkflowNode } from '../../services/workflowTypes';
+import { NODE_HEIGHT, NODE_WIDTH, getActiveRoute } from '../../services/workflowLayout';
 
 // Types
-interface WorkflowNode {
-  id: string;
-  type: 'agent' | 'trigger' | 'action' | 'condition';
-  position: { x: number; y: number };
-  data: {
-    label: string;
-    description?: string;
-    agentId?: string;
-    config?: Record<string, any>;
-  };
-}
-
-interface WorkflowConnection {
-  id: string;
-  sourceId: string;
-  targetId: string;
-  sourceHandle?: string;
-  targetHandle?: string;
-  path?: string;
-}
-
 interface ConnectionLayerProps {
   connections: WorkflowConnection[];
   nodes: WorkflowNode[];
   dragConnection: DragConnection | null;
+  // The dragged connection is over a handle it cannot connect to
+  isDragRejected?: boolean;
+  // Connections flagged by workflow validation
+  invalidConnectionIds?: Set<string>;
   onDeleteConnection: (connectionId: string) => void;
-  calculateConnectionPath: (sourceNode: WorkflowNode, targetNode: WorkflowNode) => string;
+  calculateConnectionPath: (sourceNode: WorkflowNode, targetNode: WorkflowNode, connection: WorkflowConnection) => string;
 }
 
 export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
   connections,
   nodes,
   dragConnection,
+  isDragRejected = false,
+  invalidConnectionIds,
   onDeleteConnection,
   calculateConnectionPath
 }) => {
+  const dragColor = isDragRejected ? '#ef4444' : '#10b981';
+
   // Calculate path for drag connection
   const getDragConnectionPath = () => {
     if (!dragConnection) return '';
@@ -76,8 +65,22 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
     return `M ${sourceX} ${sourceY} C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${targetX} ${targetY}`;
   };
 
+  // Routed connections put their controls in the middle of the lanes they run through
+  const getMidpoint = (connection: WorkflowConnection, sourceNode: WorkflowNode, targetNode: WorkflowNode) => {
+    const waypoints = getActiveRoute(connection, sourceNode.position, targetNode.position)?.waypoints;
+    if (waypoints && waypoints.length > 0) {
+      const lane = Math.floor(waypoints.length / 4) * 2;
+      return { x: (waypoints[lane].x + waypoints[lane + 1].x) / 2, y: waypoints[lane].y };
+    }
+    return {
+      x: (sourceNode.position.x + targetNode.position.x + NODE_WIDTH) / 2,
+      y: (sourceNode.position.y + targetNode.position.y + NODE_HEIGHT) / 2,
+    };
+  };
+
   return (
-    <svg className="absolute inset-0 pointer-events-none w-full h-full" style={{ zIndex: 1 }}>
+    // Lives in the zoomed canvas layer; connections may reach past its box
+    <svg className="absolute inset-0 pointer-events-none w-full h-full overflow-visible" style={{ zIndex: 1 }}>
       <defs>
         {/* Regular connection arrow */}
         <marker id="arrowhead" markerWidth="12" markerHeight="8"
@@ -108,9 +111,9 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
 
         if (!sourceNode || !targetNode) return null;
 
-        const path = calculateConnectionPath(sourceNode, targetNode);
-        const midX = (sourceNode.position.x + targetNode.position.x) / 2 + 80;
-        const midY = (sourceNode.position.y + targetNode.position.y) / 2 + 40;
+        const path = calculateConnectionPath(sourceNode, targetNode, connection);
+        const { x: midX, y: midY } = getMidpoint(connection, sourceNode, targetNode);
+        const isInvalid = invalidConnectionIds?.has(connection.id) ?? false;
 
         return (
           <g key={connection.id}>
@@ -126,8 +129,9 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
             {/* Main connection path */}
             <path
               d={path}
-              stroke="#6366f1"
+              stroke={isInvalid ? '#ef4444' : '#6366f1'}
               strokeWidth="3"
+              strokeDasharray={isInvalid ? '6,4' : undefined}
               fill="none"
               markerEnd="url(#arrowhead)"
               className="hover:stroke-blue-400 transition-colors duration-200"
@@ -191,7 +195,7 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
           {/* Animated background path */}
           <path
             d={getDragConnectionPath()}
-            stroke="rgba(16, 185, 129, 0.3)"
+            stroke={isDragRejected ? 'rgba(239, 68, 68, 0.3)' : 'rgba(16, 185, 129, 0.3)'}
             strokeWidth="8"
             fill="none"
             strokeDasharray="12,8"
@@ -201,7 +205,7 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
           {/* Main drag path */}
           <path
             d={getDragConnectionPath()}
-            stroke="#10b981"
+            stroke={dragColor}
             strokeWidth="3"
             fill="none"
             strokeDasharray="8,4"
@@ -223,7 +227,7 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
             cy={dragConnection.targetPosition.y}
             r="8"
             fill="none"
-            stroke="#10b981"
+            stroke={dragColor}
             strokeWidth="2"
             className="animate-ping"
           />
@@ -231,7 +235,7 @@ export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
             cx={dragConnection.targetPosition.x}
             cy={dragConnection.targetPosition.y}
             r="4"
-            fill="#10b981"
+            fill={dragColor}
           />
         </g>
       )}
@@ -0,0 +1,119 @@
+import React from 'react';
+import { MERGE_STRATEGIES, DEFAULT_SCORE_EXPRESSION, getJoinConfig, validateJoinConfig } from '../../services/workflowJoin';
+import { configString, type WorkflowNode } from '../../services/workflowTypes';
+
+interface JoinConfigFormProps {
+  node: WorkflowNode;
+  branchCount: number;
+  onChange: (changes: Record<string, unknown>) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary';
+
+export const JoinConfigForm: React.FC<JoinConfigFormProps> = ({
+  node,
+  branchCount,
+  onChange
+}) => {
+  const config = getJoinConfig(node);
+  const error = validateJoinConfig(config, branchCount);
+  const strategy = MERGE_STRATEGIES.find(s => s.value === config.mergeStrategy);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">
+          Wait For
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            className={inputClassName}
+            value={config.joinMode}
+            onChange={(e) => onChange({ joinMode: e.target.value })}
+          >
+            <option value="all">All branches ({branchCount})</option>
+            <option value="n_of_m">The first N branches</option>
+          </select>
+          {config.joinMode === 'n_of_m' && (
+            <input
+              type="number"
+              min={1}
+              max={Math.max(branchCount, 1)}
+              className={`${inputClassName} w-24`}
+              value={config.required}
+              onChange={(e) => onChange({ required: Number(e.target.value) })}
+            />
+          )}
+        </div>
+        <p className="text-xs text-text-secondary mt-1">
+          {config.joinMode === 'n_of_m'
+            ? `Continues once ${config.required} of ${branchCount} branches completed; later branches are not merged.`
+            : 'Continues once every connected branch has finished.'}
+        </p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">
+          Merge Strategy
+        </label>
+        <select
+          className={inputClassName}
+          value={config.mergeStrategy}
+          onChange={(e) => onChange({ mergeStrategy: e.target.value })}
+        >
+          {MERGE_STRATEGIES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {strategy && <p className="text-xs text-text-secondary mt-1">{strategy.description}</p>}
+      </div>
+
+      {config.mergeStrategy === 'concat' && (
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            Separator
+          </label>
+          <input
+            className={inputClassName}
+            value={config.separator.replace(/\n/g, '\\n')}
+            onChange={(e) => onChange({ separator: e.target.value.replace(/\\n/g, '\n') })}
+          />
+        </div>
+      )}
+
+      {config.mergeStrategy === 'best_of' && (
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-2">
+            Score Expression
+          </label>
+          <input
+            className={`${inputClassName} font-mono text-sm`}
+            placeholder={DEFAULT_SCORE_EXPRESSION}
+            value={configString(node.data.config, 'scoreExpression') || ''}
+            onChange={(e) => onChange({ scoreExpression: e.target.value })}
+          />
+          <p className="text-xs text-text-secondary mt-1">
+            Evaluated per branch with <code>output</code> set to its text; the highest number wins.
+          </p>
+        </div>
+      )}
+
+      <label className="flex items-start gap-2 text-sm text-text-primary">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={config.useSwarmRouting}
+          onChange={(e) => onChange({ useSwarmRouting: e.target.checked })}
+        />
+        <span>
+          Use swarm routing
+          <span className="block text-xs text-text-secondary">
+            Asks the coordinator for the best agents with the top_k and window_ms from the swarm policy on the Agents page, then merges only their branches.
+          </span>
+        </span>
+      </label>
+
+      {error && <p className="text-xs text-accent-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { FAILURE_MODES, MAX_RETRIES, getNodePolicy, validateNodePolicy } from '../../services/workflowNodePolicy';
+import { configRecord, type WorkflowNode } from '../../services/workflowTypes';
+
+interface NodePolicyFormProps {
+  node: WorkflowNode;
+  onChange: (policy: Record<string, unknown>) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary';
+
+export const NodePolicyForm: React.FC<NodePolicyFormProps> = ({
+  node,
+  onChange
+}) => {
+  const raw = configRecord(node.data.config, 'policy') ?? {};
+  const policy = getNodePolicy(node);
+  const error = validateNodePolicy(node);
+  const failureMode = FAILURE_MODES.find(mode => mode.value === policy.onFailure);
+
+  const updateField = (key: string, value: unknown) => onChange({ ...raw, [key]: value });
+  const displayValue = (key: string) => raw[key] === undefined ? '' : String(raw[key]);
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4">
+      <h4 className="text-sm font-semibold text-text-primary">Failure Handling</h4>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs text-text-secondary mb-1">Timeout (ms)</label>
+          <input
+            type="number"
+            min={1}
+            className={inputClassName}
+            placeholder="None"
+            value={displayValue('timeoutMs')}
+            onChange={(e) => updateField('timeoutMs', e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-text-secondary mb-1">Retries</label>
+          <input
+            type="number"
+            min={0}
+            max={MAX_RETRIES}
+            className={inputClassName}
+            placeholder="0"
+            value={displayValue('maxRetries')}
+            onChange={(e) => updateField('maxRetries', e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-text-secondary mb-1">Backoff (ms)</label>
+          <input
+            type="number"
+            min={0}
+            className={inputClassName}
+            placeholder={String(policy.backoffMs)}
+            value={displayValue('backoffMs')}
+            onChange={(e) => updateField('backoffMs', e.target.value)}
+            disabled={policy.maxRetries === 0}
+          />
+        </div>
+      </div>
+      {policy.maxRetries > 0 && (
+        <p className="text-xs text-text-secondary">
+          Retries after {policy.backoffMs}ms, doubling the wait after every failed attempt.
+        </p>
+      )}
+
+      <div>
+        <label className="block text-xs text-text-secondary mb-1">When it still fails</label>
+        <select
+          className={inputClassName}
+          value={policy.onFailure}
+          onChange={(e) => updateField('onFailure', e.target.value)}
+        >
+          {FAILURE_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+        {failureMode && <p className="text-xs text-text-secondary mt-1">{failureMode.description}</p>}
+      </div>
+
+      {error && <p className="text-xs text-accent-error">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import {
+  getDefaultParameterValues,
+  getStarterPackTasks,
+  validateStarterPackParameters,
+  type StarterPack
+} from '../../services/workflowStarterPacks';
+
+interface StarterPackDialogProps {
+  pack: StarterPack;
+  // Whether agents can be created now; otherwise they are created on the first run
+  canCreateAgents: boolean;
+  onCreate: (
+    values: Record<string, string>,
+    createAgents: boolean,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary text-sm';
+
+export const StarterPackDialog: React.FC<StarterPackDialogProps> = ({
+  pack,
+  canCreateAgents,
+  onCreate,
+  onClose
+}) => {
+  const [values, setValues] = useState(() => getDefaultParameterValues(pack));
+  const [createAgents, setCreateAgents] = useState(canCreateAgents);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const issues = validateStarterPackParameters(pack, values);
+  const tasks = getStarterPackTasks(pack);
+
+  const create = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      await onCreate(values, createAgents && canCreateAgents, (done, total) => setProgress({ done, total }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the workflow');
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface rounded-2xl border border-border max-w-lg w-full mx-4 max-h-[640px] flex flex-col">
+        <div className="p-6 border-b border-border">
+          <h3 className="text-lg font-bold text-text-primary">{pack.icon} {pack.title}</h3>
+          <p className="text-sm text-text-secondary">{pack.description}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {pack.parameters.map(parameter => (
+            <div key={parameter.key}>
+              <label className="block text-sm font-medium text-text-primary mb-1">
+                {parameter.label}{parameter.required && <span className="text-accent-error"> *</span>}
+              </label>
+              {parameter.multiline ? (
+                <textarea
+                  className={`${inputClassName} h-20`}
+                  value={values[parameter.key] ?? ''}
+                  placeholder={parameter.placeholder}
+                  onChange={(e) => setValues(prev => ({ ...prev, [parameter.key]: e.target.value }))}
+                />
+              ) : (
+                <input
+                  className={inputClassName}
+                  value={values[parameter.key] ?? ''}
+                  placeholder={parameter.placeholder}
+                  onChange={(e) => setValues(prev => ({ ...prev, [parameter.key]: e.target.value }))}
+                />
+              )}
+              {parameter.description && (
+                <p className="text-xs text-text-secondary mt-1">{parameter.description}</p>
+              )}
+            </div>
+          ))}
+
+          <label className="flex items-start gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={createAgents}
+              disabled={!canCreateAgents}
+              onChange={(e) => setCreateAgents(e.target.checked)}
+            />
+            <span>
+              Create {tasks.length} agent{tasks.length !== 1 ? 's' : ''} now ({tasks.join(', ')})
+              <span className="block text-xs text-text-secondary">
+                {canCreateAgents
+                  ? 'Otherwise each agent is created from its instructions on the first run.'
+                  : 'Connect your wallet to create agents now; otherwise they are created on the first run.'}
+              </span>
+            </span>
+          </label>
+
+          {progress && progress.total > 0 && (
+            <p className="text-sm text-text-secondary">
+              Creating agents… {progress.done}/{progress.total}
+            </p>
+          )}
+          {error && <p className="text-sm text-accent-error">{error}</p>}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-border">
+          <button
+            onClick={create}
+            disabled={issues.length > 0 || progress !== null}
+            title={issues.join('\n') || undefined}
+            className="flex-1 px-4 py-2 bg-secondary text-white rounded-lg hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+          >
+            {progress ? 'Creating…' : 'Create Workflow'}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={progress !== null}
+            className="flex-1 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
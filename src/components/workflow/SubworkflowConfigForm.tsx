@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { SubworkflowDefinition, SubworkflowPort } from '../../services/workflowSubworkflows';
+
+interface SubworkflowConfigFormProps {
+  label: string;
+  definition: SubworkflowDefinition;
+  onSaveToLibrary: (name: string) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary';
+
+const PortList: React.FC<{ title: string; ports: SubworkflowPort[]; empty: string }> = ({ title, ports, empty }) => (
+  <div>
+    <div className="text-sm font-medium text-text-primary mb-2">{title}</div>
+    {ports.length === 0 ? (
+      <p className="text-xs text-text-secondary">{empty}</p>
+    ) : (
+      <ul className="space-y-1">
+        {ports.map(port => (
+          <li key={port.key} className="flex items-center justify-between text-xs bg-primary border border-border rounded px-2 py-1">
+            <span className="font-mono text-text-primary">{port.key}</span>
+            <span className="text-text-secondary truncate ml-2">{port.label}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export const SubworkflowConfigForm: React.FC<SubworkflowConfigFormProps> = ({
+  label,
+  definition,
+  onSaveToLibrary
+}) => {
+  const [name, setName] = useState(label);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+
+  const save = async () => {
+    setStatus('saving');
+    try {
+      await onSaveToLibrary(name);
+      setStatus('saved');
+    } catch {
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-sm font-medium text-text-primary mb-2">Steps</div>
+        <ul className="space-y-1">
+          {definition.nodes.map(node => (
+            <li key={node.id} className="text-xs text-text-secondary">
+              <span className="text-text-primary">{node.data.label}</span> • {node.type}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <PortList title="Inputs" ports={definition.inputs} empty="No inputs; runs as soon as the workflow starts." />
+      <PortList title="Outputs" ports={definition.outputs} empty="No outputs; nothing downstream can connect." />
+
+      <div>
+        <label className="block text-sm font-medium text-text-primary mb-2">
+          Save to My Sub-workflows
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            className={inputClassName}
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setStatus('idle');
+            }}
+          />
+          <button
+            onClick={save}
+            disabled={status === 'saving' || !name.trim()}
+            className="px-3 py-2 bg-secondary text-white rounded-lg text-sm disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+        <p className="text-xs text-text-secondary mt-1">
+          {status === 'saved' ? 'Saved. Drag it from the node palette into any workflow.' :
+           status === 'failed' ? 'Could not save to the library.' :
+           'Keeps a copy of these steps to reuse in other workflows.'}
+        </p>
+      </div>
+    </div>
+  );
+};
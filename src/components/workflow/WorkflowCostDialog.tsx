@@ -0,0 +1,133 @@
+import React from 'react';
+import type { TokenQuotaCheck, WorkflowCostEstimate } from '../../services/workflowCost';
+
+interface WorkflowCostDialogProps {
+  workflowName: string;
+  estimate: WorkflowCostEstimate | null;
+  quota: TokenQuotaCheck | null;
+  isLoading: boolean;
+  // Set when the estimate or quota could not be fetched at all
+  error: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatCost = (amount: bigint) => `${amount.toLocaleString()} ICP`;
+
+const priorityOf = (priority: object) => Object.keys(priority)[0];
+
+export const WorkflowCostDialog: React.FC<WorkflowCostDialogProps> = ({
+  workflowName,
+  estimate,
+  quota,
+  isLoading,
+  error,
+  onConfirm,
+  onCancel
+}) => {
+  const failedNodes = estimate?.nodes.filter(node => node.error) ?? [];
+  const overQuota = quota !== null && !quota.allowed;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface rounded-2xl border border-border max-w-2xl w-full mx-4 max-h-[600px] flex flex-col">
+        <div className="p-6 border-b border-border">
+          <h3 className="text-lg font-bold text-text-primary">Estimated Cost</h3>
+          <p className="text-sm text-text-secondary">{workflowName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {isLoading ? (
+            <p className="text-center text-text-secondary py-6">Requesting quotes...</p>
+          ) : (
+            <>
+              {error && <p className="text-sm text-accent-error">{error}</p>}
+
+              {estimate && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-text-secondary border-b border-border">
+                      <th className="py-2">Node</th>
+                      <th className="py-2 text-right">Tokens</th>
+                      <th className="py-2">Priority</th>
+                      <th className="py-2 text-right">Multiplier</th>
+                      <th className="py-2 text-right">Protocol fee</th>
+                      <th className="py-2 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {estimate.nodes.map(node => (
+                      <tr key={node.nodeId} className="border-b border-border/50 text-text-primary">
+                        <td className="py-2">{node.label}</td>
+                        <td className="py-2 text-right">{node.spec.estimated_tokens.toLocaleString()}</td>
+                        <td className="py-2">{priorityOf(node.spec.priority)}</td>
+                        {node.quote ? (
+                          <>
+                            <td className="py-2 text-right">×{node.quote.priority_multiplier.toFixed(2)}</td>
+                            <td className="py-2 text-right">{formatCost(node.quote.protocol_fee)}</td>
+                            <td className="py-2 text-right">{formatCost(node.quote.estimated_cost)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={3} className="py-2 text-right text-accent-error" title={node.error}>
+                            Quote unavailable
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="font-semibold text-text-primary">
+                      <td className="py-2">Total</td>
+                      <td className="py-2 text-right">{estimate.totalTokens.toLocaleString()}</td>
+                      <td />
+                      <td />
+                      <td className="py-2 text-right">{formatCost(estimate.totalProtocolFee)}</td>
+                      <td className="py-2 text-right">{formatCost(estimate.totalCost)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              )}
+              {failedNodes.length > 0 && (
+                <p className="text-xs text-accent-warning">
+                  {failedNodes.length} node{failedNodes.length === 1 ? '' : 's'} could not be quoted and are not included in the total.
+                </p>
+              )}
+              <p className="text-xs text-text-secondary">
+                Token counts are estimated from each agent's instructions; replies and upstream input add to the real usage.
+              </p>
+
+              {quota && (
+                <div className={`rounded-lg border p-3 text-sm ${overQuota ? 'border-accent-error text-accent-error' : 'border-border text-text-primary'}`}>
+                  <div className="font-medium">{overQuota ? 'Over your quota' : 'Within your quota'}</div>
+                  {quota.reason && <div className="text-xs">{quota.reason}</div>}
+                  {quota.tokensRemaining !== undefined && (
+                    <div className="text-xs text-text-secondary mt-1">
+                      {quota.tokensRemaining.toLocaleString()} tokens, {quota.inferencesRemaining?.toLocaleString()} inferences and{' '}
+                      {quota.agentsRemaining?.toLocaleString()} agent creations remaining
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-border">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isLoading || overQuota}
+            className="px-4 py-2 bg-accent-success/20 text-accent-success rounded-lg hover:bg-accent-success/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Run Workflow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import type { NodeRunState, WorkflowRunSession } from '../../hooks/useWorkflowDebugger';
+import type { Workflow } from '../../services/workflowTypes';
+
+interface WorkflowDebugPanelProps {
+  session: WorkflowRunSession;
+  workflow: Workflow;
+  onStep: () => void;
+  onContinue: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const RUN_STATE_STYLES: Record<NodeRunState, string> = {
+  pending: 'bg-text-secondary/20 text-text-secondary',
+  paused: 'bg-accent-warning/20 text-accent-warning',
+  running: 'bg-blue-500/20 text-blue-400',
+  done: 'bg-accent-success/20 text-accent-success',
+  failed: 'bg-accent-error/20 text-accent-error',
+  skipped: 'bg-text-secondary/10 text-text-secondary',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '(none)';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+const ValueBlock: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+  <div>
+    <div className="text-xs text-text-secondary mb-1">{title}</div>
+    <pre className="text-xs bg-primary border border-border rounded-lg p-2 max-h-48 overflow-auto whitespace-pre-wrap break-words text-text-primary">
+      {formatValue(value)}
+    </pre>
+  </div>
+);
+
+export const WorkflowDebugPanel: React.FC<WorkflowDebugPanelProps> = ({
+  session,
+  workflow,
+  onStep,
+  onContinue,
+  onStop,
+  onClose
+}) => {
+  const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null);
+  const pausedNode = workflow.nodes.find(node => node.id === session.pausedNodeId);
+  const isActive = session.status === 'running' || session.status === 'paused';
+  const labelOf = (nodeId: string) => workflow.nodes.find(node => node.id === nodeId)?.data.label ?? nodeId;
+
+  // Nodes in the order they were reached, then the ones still pending
+  const visited = Object.keys(session.inputs).concat(
+    Object.keys(session.results).filter(nodeId => !(nodeId in session.inputs))
+  );
+  const rows = visited.concat(workflow.nodes.map(node => node.id).filter(id => !visited.includes(id)));
+
+  return (
+    <div className="border-t border-border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h4 className="font-semibold text-text-primary">{session.debug ? 'Debugger' : 'Run'}</h4>
+          <span className="text-xs text-text-secondary">
+            {session.status === 'paused' && pausedNode ? `Paused before "${pausedNode.data.label}"` : session.status}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {session.debug && isActive && (
+            <>
+              <button
+                onClick={onStep}
+                disabled={session.status !== 'paused'}
+                className="px-3 py-1 text-sm bg-secondary/20 text-secondary rounded-lg hover:bg-secondary/30 disabled:opacity-50"
+              >
+                Step
+              </button>
+              <button
+                onClick={onContinue}
+                disabled={session.status !== 'paused'}
+                className="px-3 py-1 text-sm bg-accent-success/20 text-accent-success rounded-lg hover:bg-accent-success/30 disabled:opacity-50"
+              >
+                Continue
+              </button>
+              <button
+                onClick={onStop}
+                className="px-3 py-1 text-sm bg-accent-error/20 text-accent-error rounded-lg hover:bg-accent-error/30"
+              >
+                Stop
+              </button>
+            </>
+          )}
+          {!isActive && (
+            <button onClick={onClose} className="px-3 py-1 text-sm text-text-secondary hover:text-text-primary">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      {session.error && <p className="text-sm text-accent-error">{session.error}</p>}
+
+      {pausedNode && (
+        <ValueBlock
+          title={`Resolved input for "${pausedNode.data.label}"`}
+          value={(session.inputs[pausedNode.id] || []).map(input => ({
+            from: labelOf(input.nodeId),
+            port: input.port,
+            output: input.output,
+          }))}
+        />
+      )}
+      {pausedNode && session.scopes[pausedNode.id] && (
+        <ValueBlock title="Template context" value={session.scopes[pausedNode.id]} />
+      )}
+
+      <div className="space-y-1 max-h-80 overflow-y-auto">
+        {rows.map(nodeId => {
+          const state = session.nodeStates[nodeId] ?? 'pending';
+          const result = session.results[nodeId];
+          const isExpanded = expandedNodeId === nodeId;
+
+          return (
+            <div key={nodeId} className="rounded-lg border border-border">
+              <button
+                onClick={() => setExpandedNodeId(isExpanded ? null : nodeId)}
+                className="w-full flex items-center justify-between px-3 py-2 text-left"
+              >
+                <span className="text-sm text-text-primary">{labelOf(nodeId)}</span>
+                <span className="flex items-center gap-2">
+                  {result && (
+                    <span className="text-xs text-text-secondary">{result.finishedAt - result.startedAt}ms</span>
+                  )}
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${RUN_STATE_STYLES[state]}`}>{state}</span>
+                </span>
+              </button>
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-2">
+                  <ValueBlock
+                    title="Input"
+                    value={session.inputs[nodeId]?.map(input => ({ from: labelOf(input.nodeId), port: input.port, output: input.output }))}
+                  />
+                  {session.scopes[nodeId] && <ValueBlock title="Template context" value={session.scopes[nodeId]} />}
+                  {result?.error && <ValueBlock title="Error" value={result.error} />}
+                  {result?.attempts && result.attempts.length > 1 && <ValueBlock title="Attempts" value={result.attempts} />}
+                  {result?.output !== undefined && <ValueBlock title="Output" value={result.output} />}
+                  {result?.metadata && <ValueBlock title="Metadata" value={result.metadata} />}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
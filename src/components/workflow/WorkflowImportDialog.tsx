@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+
+interface WorkflowImportDialogProps {
+  fileName: string;
+  // Validation problems; when present the import cannot continue
+  issues: string[];
+  // Agent IDs in the file that the importing principal does not own
+  unknownAgentIds: string[];
+  availableAgentIds: string[];
+  onConfirm: (mapping: Record<string, string | null>) => void;
+  onClose: () => void;
+}
+
+const CREATE_NEW = '';
+
+export const WorkflowImportDialog: React.FC<WorkflowImportDialogProps> = ({
+  fileName,
+  issues,
+  unknownAgentIds,
+  availableAgentIds,
+  onConfirm,
+  onClose
+}) => {
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+
+  const confirm = () => {
+    onConfirm(Object.fromEntries(
+      unknownAgentIds.map(id => [id, mapping[id] ? mapping[id] : null])
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface rounded-2xl border border-border max-w-lg w-full mx-4 max-h-[600px] flex flex-col">
+        <div className="p-6 border-b border-border">
+          <h3 className="text-lg font-bold text-text-primary">Import Workflow</h3>
+          <p className="text-sm text-text-secondary">{fileName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {issues.length > 0 ? (
+            <div>
+              <p className="text-sm text-accent-error mb-2">
+                This file can't be imported ({issues.length} problem{issues.length !== 1 ? 's' : ''}):
+              </p>
+              <ul className="text-xs text-accent-error font-mono space-y-1 list-disc pl-5">
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-text-secondary">
+                These agents don't belong to your account. Pick one of your agents to use instead,
+                or let the workflow create a new agent from the node's instructions on its next run.
+              </p>
+              {unknownAgentIds.map(agentId => (
+                <div key={agentId}>
+                  <label className="block text-xs font-mono text-text-primary mb-1 truncate">{agentId}</label>
+                  <select
+                    className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary text-sm"
+                    value={mapping[agentId] ?? CREATE_NEW}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [agentId]: e.target.value }))}
+                  >
+                    <option value={CREATE_NEW}>Create a new agent</option>
+                    {availableAgentIds.map(id => (
+                      <option key={id} value={id}>{id}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-border">
+          {issues.length === 0 && (
+            <button
+              onClick={confirm}
+              className="flex-1 px-4 py-2 bg-secondary text-white rounded-lg hover:shadow-lg transition-all duration-300"
+            >
+              Import
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            {issues.length > 0 ? 'Close' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
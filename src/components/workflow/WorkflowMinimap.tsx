@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import type { WorkflowNode } from '../../services/workflowTypes';
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  getVisibleBounds,
+  getWorkflowBounds,
+  type CanvasViewport,
+  type Point
+} from '../../services/workflowLayout';
+
+interface WorkflowMinimapProps {
+  nodes: WorkflowNode[];
+  viewport: CanvasViewport;
+  canvasSize: { width: number; height: number };
+  // Called with the workflow point to centre the canvas on
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_WIDTH = 192;
+const MINIMAP_HEIGHT = 128;
+const MARGIN = 40;
+
+export const WorkflowMinimap: React.FC<WorkflowMinimapProps> = ({
+  nodes,
+  viewport,
+  canvasSize,
+  onNavigate
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const visible = getVisibleBounds(viewport, canvasSize);
+  const content = getWorkflowBounds(nodes) ?? visible;
+
+  // Show the nodes and the visible area together
+  const left = Math.min(content.x, visible.x) - MARGIN;
+  const top = Math.min(content.y, visible.y) - MARGIN;
+  const width = Math.max(content.x + content.width, visible.x + visible.width) + MARGIN - left;
+  const height = Math.max(content.y + content.height, visible.y + visible.height) + MARGIN - top;
+
+  const navigate = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    onNavigate({ x: point.x, y: point.y });
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-10 bg-surface/90 border border-border rounded-lg shadow-lg overflow-hidden">
+      <svg
+        ref={svgRef}
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        viewBox={`${left} ${top} ${width} ${height}`}
+        className="cursor-pointer"
+        onMouseDown={navigate}
+        onMouseMove={(e) => e.buttons === 1 && navigate(e)}
+      >
+        {nodes.map(node => (
+          <rect
+            key={node.id}
+            x={node.position.x}
+            y={node.position.y}
+            width={NODE_WIDTH}
+            height={NODE_HEIGHT}
+            rx={12}
+            fill="#6366f1"
+            fillOpacity={0.7}
+          />
+        ))}
+        <rect
+          x={visible.x}
+          y={visible.y}
+          width={visible.width}
+          height={visible.height}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          className="text-text-primary"
+        />
+      </svg>
+    </div>
+  );
+};
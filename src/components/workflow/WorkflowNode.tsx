@@ -1,20 +1,14 @@
 import React, { memo } from 'react';
-import type { ConnectionHandle } from '../../hooks/useConnectionManager';
+import { getConnectionRejection, type ConnectionHandle } from '../../hooks/useConnectionManager';
 import { ConnectionHandleComponent } from './ConnectionHandle';
+import { configString, type WorkflowNode as WorkflowNodeType } from '../../services/workflowTypes';
+import { getWorkflowAction } from '../../services/workflowActions';
+import type { WorkflowIssue } from '../../services/workflowValidation';
+import type { NodeRunState } from '../../hooks/useWorkflowDebugger';
+import { MERGE_STRATEGIES, getJoinConfig } from '../../services/workflowJoin';
+import { getSubworkflowDefinition } from '../../services/workflowSubworkflows';
 
 // Types
-interface WorkflowNodeType {
-  id: string;
-  type: 'agent' | 'trigger' | 'action' | 'condition';
-  position: { x: number; y: number };
-  data: {
-    label: string;
-    description?: string;
-    agentId?: string;
-    config?: Record<string, any>;
-  };
-}
-
 interface NodeType {
   type: string;
   label: string;
@@ -27,35 +21,81 @@ interface WorkflowNodeProps {
   nodeType: NodeType | undefined;
   handles: ConnectionHandle[];
   isConnecting: boolean;
+  // Handle the connection being dragged starts from
+  connectionSource?: ConnectionHandle | null;
   hoveredHandle: string | null;
   snapTarget: { handle: { id: string } } | null;
-  onNodeClick: (node: WorkflowNodeType) => void;
+  issues?: WorkflowIssue[];
+  runState?: NodeRunState;
+  hasBreakpoint?: boolean;
+  isSelected?: boolean;
+  onNodeClick: (node: WorkflowNodeType, event: React.MouseEvent) => void;
   onNodeDragStart: (node: WorkflowNodeType) => void;
   onConnectionStart: (handle: ConnectionHandle, event: React.MouseEvent) => void;
   onHandleMouseEnter: (handleId: string) => void;
   onHandleMouseLeave: () => void;
+  onToggleBreakpoint?: (nodeId: string) => void;
 }
 
+// Live run state takes precedence over validation highlighting
+const RUN_STATE_RINGS: Record<NodeRunState, string> = {
+  pending: 'ring-2 ring-text-secondary/40 opacity-70',
+  paused: 'ring-4 ring-accent-warning',
+  running: 'ring-4 ring-blue-400 animate-pulse',
+  done: 'ring-2 ring-accent-success',
+  failed: 'ring-4 ring-accent-error',
+  skipped: 'opacity-40',
+};
+
+const joinSummary = (node: WorkflowNodeType) => {
+  const config = getJoinConfig(node);
+  const strategy = MERGE_STRATEGIES.find(s => s.value === config.mergeStrategy)?.label;
+  return `${config.joinMode === 'n_of_m' ? `First ${config.required}` : 'All'} • ${strategy}${config.useSwarmRouting ? ' • swarm' : ''}`;
+};
+
+// Handle types follow upstream wiring, which the node's own props do not show
+const handleSignature = (handles: ConnectionHandle[]) =>
+  handles.map(handle => `${handle.id}:${handle.dataType ?? ''}`).join('|');
+
+const subworkflowSummary = (node: WorkflowNodeType) => {
+  const definition = getSubworkflowDefinition(node);
+  if (!definition) return 'Empty';
+  return `${definition.nodes.length} steps • ${definition.inputs.length} in / ${definition.outputs.length} out`;
+};
+
 export const WorkflowNodeComponent = memo<WorkflowNodeProps>(({
   node,
   nodeType,
   handles,
   isConnecting,
+  connectionSource = null,
   hoveredHandle,
   snapTarget,
+  issues = [],
+  runState,
+  hasBreakpoint = false,
+  isSelected = false,
   onNodeClick,
   onNodeDragStart,
   onConnectionStart,
   onHandleMouseEnter,
-  onHandleMouseLeave
+  onHandleMouseLeave,
+  onToggleBreakpoint
 }) => {
+  const hasError = issues.some(issue => issue.severity === 'error');
+  const action = node.type === 'action' ? getWorkflowAction(configString(node.data.config, 'actionType')) : undefined;
+  const condition = node.type === 'condition' ? configString(node.data.config, 'condition') : undefined;
+
   return (
     <div key={node.id}>
       {/* Node */}
       <div
         className={`absolute w-40 h-24 rounded-xl border border-border shadow-lg cursor-pointer bg-gradient-to-r ${
           nodeType?.color || 'from-gray-500 to-gray-600'
-        } flex flex-col items-center justify-center text-white font-semibold text-sm hover:shadow-xl transition-all duration-300`}
+        } flex flex-col items-center justify-center text-white font-semibold text-sm hover:shadow-xl transition-all duration-300 ${
+          runState ? RUN_STATE_RINGS[runState] :
+          issues.length === 0 ? '' : hasError ? 'ring-2 ring-accent-error' : 'ring-2 ring-accent-warning'
+        } ${isSelected ? 'outline-dashed outline-2 outline-offset-4 outline-secondary-light' : ''}`}
         style={{
           left: node.position.x,
           top: node.position.y,
@@ -63,12 +103,38 @@ export const WorkflowNodeComponent = memo<WorkflowNodeProps>(({
         onClick={(e) => {
           e.stopPropagation();
           if (!isConnecting) {
-            onNodeClick(node);
+            onNodeClick(node, e);
           }
         }}
         draggable={!isConnecting}
         onDragStart={() => !isConnecting && onNodeDragStart(node)}
       >
+        {/* Breakpoint toggle */}
+        {onToggleBreakpoint && (
+          <button
+            className={`absolute -top-2 -left-2 w-4 h-4 rounded-full border-2 border-white/60 transition-opacity ${
+              hasBreakpoint ? 'bg-accent-error opacity-100' : 'bg-transparent opacity-30 hover:opacity-100'
+            }`}
+            title={hasBreakpoint ? 'Remove breakpoint' : 'Pause debug runs before this node'}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleBreakpoint(node.id);
+            }}
+          />
+        )}
+
+        {/* Validation badge */}
+        {issues.length > 0 && (
+          <div
+            className={`absolute -top-2 -right-2 w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold ${
+              hasError ? 'bg-accent-error' : 'bg-accent-warning'
+            }`}
+            title={issues.map(issue => issue.message).join('\n')}
+          >
+            {issues.length}
+          </div>
+        )}
+
         {/* Node Header */}
         <div className="flex items-center justify-between w-full px-3 py-1 border-b border-white/20">
           <span className="text-xs font-medium">{node.data.label}</span>
@@ -94,6 +160,18 @@ export const WorkflowNodeComponent = memo<WorkflowNodeProps>(({
                 </div>
               ) : node.type === 'agent' && node.data.config?.instructions ? (
                 'Configured'
+              ) : action ? (
+                action.label
+              ) : node.type === 'join' ? (
+                joinSummary(node)
+              ) : node.type === 'subworkflow' ? (
+                subworkflowSummary(node)
+              ) : node.type === 'parallel' ? (
+                'Fan out'
+              ) : condition ? (
+                <span className="block max-w-[8rem] truncate font-mono" title={condition}>
+                  {condition}
+                </span>
               ) : (
                 'Click to configure'
               )}
@@ -103,23 +181,24 @@ export const WorkflowNodeComponent = memo<WorkflowNodeProps>(({
       </div>
 
       {/* Connection Handles */}
-      {handles.map((handle) => (
-        <ConnectionHandleComponent
-          key={handle.id}
-          handle={handle}
-          isConnecting={isConnecting}
-          isValidTarget={
-            isConnecting && 
-            handle.nodeId !== node.id &&
-            handle.type === 'input' // Only inputs can be valid targets
-          }
-          isHovered={hoveredHandle === handle.id}
-          isSnapping={snapTarget?.handle.id === handle.id}
-          onMouseDown={onConnectionStart}
-          onMouseEnter={(handle) => onHandleMouseEnter(handle.id)}
-          onMouseLeave={onHandleMouseLeave}
-        />
-      ))}
+      {handles.map((handle) => {
+        // Only handles of another node, facing the other way and taking the dragged data are valid targets
+        const rejection = isConnecting && connectionSource ? getConnectionRejection(connectionSource, handle) : null;
+        return (
+          <ConnectionHandleComponent
+            key={handle.id}
+            handle={handle}
+            isConnecting={isConnecting}
+            isValidTarget={isConnecting && !!connectionSource && rejection === null}
+            isHovered={hoveredHandle === handle.id}
+            isSnapping={snapTarget?.handle.id === handle.id}
+            rejection={rejection}
+            onMouseDown={onConnectionStart}
+            onMouseEnter={(handle) => onHandleMouseEnter(handle.id)}
+            onMouseLeave={onHandleMouseLeave}
+          />
+        );
+      })}
     </div>
   );
 }, (prevProps, nextProps) => {
@@ -131,8 +210,14 @@ export const WorkflowNodeComponent = memo<WorkflowNodeProps>(({
     prevProps.node.data.label === nextProps.node.data.label &&
     JSON.stringify(prevProps.node.data.config) === JSON.stringify(nextProps.node.data.config) &&
     prevProps.isConnecting === nextProps.isConnecting &&
+    prevProps.connectionSource?.id === nextProps.connectionSource?.id &&
+    handleSignature(prevProps.handles) === handleSignature(nextProps.handles) &&
     prevProps.hoveredHandle === nextProps.hoveredHandle &&
-    prevProps.snapTarget?.handle.id === nextProps.snapTarget?.handle.id
+    prevProps.snapTarget?.handle.id === nextProps.snapTarget?.handle.id &&
+    JSON.stringify(prevProps.issues) === JSON.stringify(nextProps.issues) &&
+    prevProps.runState === nextProps.runState &&
+    prevProps.hasBreakpoint === nextProps.hasBreakpoint &&
+    prevProps.isSelected === nextProps.isSelected
   );
 });
 
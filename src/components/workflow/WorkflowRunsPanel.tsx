@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import {
+  diffLines,
+  diffRuns,
+  formatRunOutput,
+  type WorkflowRunNodeRecord,
+  type WorkflowRunRecord,
+  type WorkflowRunStatus
+} from '../../services/workflowRunHistory';
+
+interface WorkflowRunsPanelProps {
+  workflowName: string;
+  runs: WorkflowRunRecord[];
+  isLoading: boolean;
+  isRunning: boolean;
+  onRerun: (run: WorkflowRunRecord) => void;
+  onDelete: (run: WorkflowRunRecord) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<WorkflowRunStatus, string> = {
+  completed: 'bg-accent-success/20 text-accent-success',
+  failed: 'bg-accent-error/20 text-accent-error',
+  cancelled: 'bg-accent-warning/20 text-accent-warning',
+};
+
+const NODE_BAR_STYLES: Record<WorkflowRunNodeRecord['status'], string> = {
+  completed: 'bg-accent-success',
+  failed: 'bg-accent-error',
+  skipped: 'bg-text-secondary/40',
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const triggerLabel = (run: WorkflowRunRecord) =>
+  run.trigger ? `${run.trigger.triggerType} trigger` : 'manual run';
+
+// Gantt-style view of when each node ran, relative to the whole run
+const RunTimeline: React.FC<{ run: WorkflowRunRecord }> = ({ run }) => {
+  const [expandedNodeId, setExpandedNodeId] = useState<string | null>(null);
+  const start = run.startedAt.getTime();
+  const total = Math.max(run.finishedAt.getTime() - start, 1);
+
+  return (
+    <div className="space-y-2">
+      {run.error && <p className="text-sm text-accent-error">{run.error}</p>}
+      {run.nodes.length === 0 && <p className="text-sm text-text-secondary">No node ran</p>}
+      {run.nodes.map(node => {
+        const isExpanded = expandedNodeId === node.nodeId;
+        const left = Math.min(((node.startedAt - start) / total) * 100, 99);
+        const width = Math.max(((node.finishedAt - node.startedAt) / total) * 100, 1);
+
+        return (
+          <div key={node.nodeId} className="rounded-lg border border-border">
+            <button
+              onClick={() => setExpandedNodeId(isExpanded ? null : node.nodeId)}
+              className="w-full p-2 text-left space-y-1"
+            >
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-text-primary">{node.label}</span>
+                <span className="text-text-secondary">
+                  {node.status}
+                  {node.attempts && node.attempts.length > 1 && ` after ${node.attempts.length} attempts`}
+                  {' • '}{formatDuration(node.finishedAt - node.startedAt)}
+                </span>
+              </div>
+              <div className="relative h-2 bg-primary rounded">
+                <div
+                  className={`absolute h-2 rounded ${NODE_BAR_STYLES[node.status]}`}
+                  style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+                />
+              </div>
+            </button>
+            {isExpanded && (
+              <div className="px-2 pb-2 space-y-2">
+                {node.error && <p className="text-xs text-accent-error">{node.error}</p>}
+                {node.attempts && node.attempts.length > 1 && (
+                  <ul className="text-xs text-text-secondary space-y-0.5">
+                    {node.attempts.map(attempt => (
+                      <li key={attempt.attempt}>
+                        Attempt {attempt.attempt} • {formatDuration(attempt.finishedAt - attempt.startedAt)} •{' '}
+                        {attempt.error ? <span className="text-accent-error">{attempt.error}</span> : 'succeeded'}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {(node.status === 'completed' || node.output !== undefined) && (
+                  <pre className="text-xs bg-primary border border-border rounded-lg p-2 max-h-48 overflow-auto whitespace-pre-wrap break-words text-text-primary">
+                    {formatRunOutput(node.output) || '(empty)'}
+                  </pre>
+                )}
+                {node.metadata && (
+                  <pre className="text-xs bg-primary border border-border rounded-lg p-2 max-h-32 overflow-auto whitespace-pre-wrap break-words text-text-secondary">
+                    {formatRunOutput(node.metadata)}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const RunDiff: React.FC<{ before: WorkflowRunRecord; after: WorkflowRunRecord }> = ({ before, after }) => {
+  const nodes = useMemo(() => diffRuns(before, after), [before, after]);
+  const changed = nodes.filter(node => node.change !== 'unchanged');
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-text-secondary">
+        {before.startedAt.toLocaleString()} → {after.startedAt.toLocaleString()} • {changed.length} of {nodes.length} nodes differ
+      </p>
+      {changed.map(node => (
+        <div key={node.nodeId} className="rounded-lg border border-border p-2 space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-text-primary">{node.label}</span>
+            <span className="text-text-secondary">
+              {node.change === 'changed' ? `${node.before!.status} → ${node.after!.status}` : node.change}
+            </span>
+          </div>
+          <pre className="text-xs bg-primary border border-border rounded-lg p-2 max-h-48 overflow-auto whitespace-pre-wrap break-words">
+            {diffLines(
+              formatRunOutput(node.before?.error ?? node.before?.output),
+              formatRunOutput(node.after?.error ?? node.after?.output)
+            ).map((line, index) => (
+              <div
+                key={index}
+                className={line.kind === 'added' ? 'text-accent-success' : line.kind === 'removed' ? 'text-accent-error' : 'text-text-secondary'}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const WorkflowRunsPanel: React.FC<WorkflowRunsPanelProps> = ({
+  workflowName,
+  runs,
+  isLoading,
+  isRunning,
+  onRerun,
+  onDelete,
+  onClose
+}) => {
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const openRun = runs.find(run => run.id === openRunId);
+  // Older run on the left of the diff
+  const compared = runs
+    .filter(run => compareIds.includes(run.id))
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+
+  const toggleCompare = (runId: string) => {
+    setCompareIds(prev => prev.includes(runId)
+      ? prev.filter(id => id !== runId)
+      : [...prev, runId].slice(-2));
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full max-w-md bg-surface border-l border-border shadow-2xl z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <div>
+          <h3 className="text-lg font-bold text-text-primary">Runs</h3>
+          <p className="text-sm text-text-secondary">{workflowName}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-text-secondary hover:text-text-primary"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {isComparing && compared.length === 2 ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <button onClick={() => setIsComparing(false)} className="text-sm text-secondary hover:underline">
+            ← All runs
+          </button>
+          <RunDiff before={compared[0]} after={compared[1]} />
+        </div>
+      ) : openRun ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <button onClick={() => setOpenRunId(null)} className="text-sm text-secondary hover:underline">
+              ← All runs
+            </button>
+            <button
+              onClick={() => onRerun(openRun)}
+              disabled={isRunning}
+              className="px-3 py-1 text-xs bg-secondary/20 text-secondary rounded-lg hover:bg-secondary/30 transition-colors disabled:opacity-50"
+            >
+              Re-run
+            </button>
+          </div>
+          <div className="text-xs text-text-secondary">
+            {openRun.startedAt.toLocaleString()} • {triggerLabel(openRun)} • {formatDuration(openRun.finishedAt.getTime() - openRun.startedAt.getTime())}
+          </div>
+          {Object.keys(openRun.triggerPayloads).length > 0 && (
+            <pre className="text-xs bg-primary border border-border rounded-lg p-2 max-h-32 overflow-auto whitespace-pre-wrap break-words text-text-secondary">
+              {formatRunOutput(openRun.triggerPayloads)}
+            </pre>
+          )}
+          <RunTimeline run={openRun} />
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {isLoading ? (
+              <p className="text-center text-text-secondary py-6">Loading runs...</p>
+            ) : runs.length === 0 ? (
+              <div className="text-center text-text-secondary py-6">
+                <p className="text-sm">No runs yet</p>
+                <p className="text-xs mt-1">Every execution of this workflow is recorded here</p>
+              </div>
+            ) : (
+              runs.map(run => (
+                <div
+                  key={run.id}
+                  className="flex items-center gap-3 p-3 rounded-lg bg-primary border border-border"
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(run.id)}
+                    onChange={() => toggleCompare(run.id)}
+                    title="Select two runs to compare"
+                  />
+                  <button onClick={() => setOpenRunId(run.id)} className="flex-1 text-left">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[run.status]}`}>{run.status}</span>
+                      <span className="text-sm text-text-primary">{run.startedAt.toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-text-secondary">
+                      {triggerLabel(run)} • {run.nodes.length} nodes • {formatDuration(run.finishedAt.getTime() - run.startedAt.getTime())}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => onDelete(run)}
+                    className="text-xs text-text-secondary hover:text-accent-error"
+                    title="Delete run"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+          {runs.length > 1 && (
+            <div className="p-4 border-t border-border">
+              <button
+                onClick={() => setIsComparing(true)}
+                disabled={compared.length !== 2}
+                className="w-full px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors disabled:opacity-50"
+              >
+                {compared.length === 2 ? 'Compare selected runs' : 'Select two runs to compare'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { getNodeTemplateKeys, validateVariableName } from '../../services/workflowTemplates';
+import type { Workflow } from '../../services/workflowTypes';
+
+interface WorkflowVariablesPanelProps {
+  workflow: Workflow;
+  onChange: (variables: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+interface VariableRow {
+  name: string;
+  value: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary';
+
+const toRows = (variables: Record<string, string> = {}): VariableRow[] =>
+  Object.entries(variables).map(([name, value]) => ({ name, value }));
+
+// Rows without a name are still being typed and are left out
+const toVariables = (rows: VariableRow[]): Record<string, string> =>
+  Object.fromEntries(rows.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value]));
+
+const sameVariables = (a: Record<string, string>, b: Record<string, string> = {}) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([name, value]) => b[name] === value);
+
+export const WorkflowVariablesPanel: React.FC<WorkflowVariablesPanelProps> = ({
+  workflow,
+  onChange,
+  onClose
+}) => {
+  const [rows, setRows] = useState(() => toRows(workflow.variables));
+  // Pick up changes made outside the panel, e.g. undo
+  const [synced, setSynced] = useState(workflow.variables);
+  if (workflow.variables !== synced) {
+    setSynced(workflow.variables);
+    if (!sameVariables(toVariables(rows), workflow.variables)) setRows(toRows(workflow.variables));
+  }
+
+  const nodeKeys = getNodeTemplateKeys(workflow);
+
+  const update = (next: VariableRow[]) => {
+    setRows(next);
+    onChange(toVariables(next));
+  };
+
+  const rowError = (row: VariableRow, index: number) => {
+    const name = row.name.trim();
+    if (!name) return row.value ? 'Name is required' : null;
+    if (rows.findIndex(other => other.name.trim() === name) !== index) return 'Duplicate name';
+    return validateVariableName(name);
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full max-w-md bg-surface border-l border-border shadow-2xl z-40 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <div>
+          <h3 className="text-lg font-bold text-text-primary">Variables</h3>
+          <p className="text-sm text-text-secondary">{workflow.name}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-text-secondary hover:text-text-primary"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <p className="text-xs text-text-secondary">
+          Use <code>{'{{vars.name}}'}</code> in agent instructions and action templates.
+        </p>
+
+        {rows.length === 0 && (
+          <p className="text-center text-sm text-text-secondary py-4">No variables yet</p>
+        )}
+        {rows.map((row, index) => {
+          const error = rowError(row, index);
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  className={`${inputClassName} font-mono`}
+                  placeholder="language"
+                  value={row.name}
+                  onChange={(e) => update(rows.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                />
+                <input
+                  className={inputClassName}
+                  placeholder="French"
+                  value={row.value}
+                  onChange={(e) => update(rows.map((r, i) => i === index ? { ...r, value: e.target.value } : r))}
+                />
+                <button
+                  onClick={() => update(rows.filter((_, i) => i !== index))}
+                  className="text-xs text-text-secondary hover:text-accent-error"
+                  title="Remove variable"
+                >
+                  ✕
+                </button>
+              </div>
+              {error && <p className="text-xs text-accent-error">{error}</p>}
+            </div>
+          );
+        })}
+        <button
+          onClick={() => setRows([...rows, { name: '', value: '' }])}
+          className="w-full px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+        >
+          Add variable
+        </button>
+
+        <div className="border-t border-border pt-4 space-y-2">
+          <h4 className="text-sm font-semibold text-text-primary">Other placeholders</h4>
+          <ul className="text-xs text-text-secondary space-y-1">
+            <li><code>{'{{input}}'}</code> upstream outputs joined as text</li>
+            <li><code>{'{{trigger.payload.<field>}}'}</code> payload of the trigger that fired</li>
+            {workflow.nodes.filter(node => node.type !== 'trigger').map(node => (
+              <li key={node.id}>
+                <code>{`{{nodes.${nodeKeys.get(node.id)}.output}}`}</code> output of "{node.data.label}"
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
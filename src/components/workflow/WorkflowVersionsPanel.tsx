@@ -0,0 +1,84 @@
+import React from 'react';
+import type { WorkflowVersion } from '../../services/workflowRepository';
+
+interface WorkflowVersionsPanelProps {
+  workflowName: string;
+  versions: WorkflowVersion[];
+  isLoading: boolean;
+  onRestore: (version: WorkflowVersion) => void;
+  onDelete: (version: WorkflowVersion) => void;
+  onClose: () => void;
+}
+
+export const WorkflowVersionsPanel: React.FC<WorkflowVersionsPanelProps> = ({
+  workflowName,
+  versions,
+  isLoading,
+  onRestore,
+  onDelete,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-surface rounded-2xl border border-border max-w-lg w-full mx-4 max-h-[600px] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <div>
+            <h3 className="text-lg font-bold text-text-primary">Version History</h3>
+            <p className="text-sm text-text-secondary">{workflowName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-text-secondary hover:text-text-primary"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <p className="text-center text-text-secondary py-6">Loading versions...</p>
+          ) : versions.length === 0 ? (
+            <div className="text-center text-text-secondary py-6">
+              <p className="text-sm">No saved versions yet</p>
+              <p className="text-xs mt-1">Every time you save, a snapshot is added here</p>
+            </div>
+          ) : (
+            versions.map((version, index) => (
+              <div
+                key={version.version}
+                className="flex items-center justify-between p-3 rounded-lg bg-primary border border-border"
+              >
+                <div>
+                  <div className="text-sm font-medium text-text-primary">
+                    Version {version.version}
+                    {index === 0 && <span className="ml-2 text-xs text-accent-success">latest</span>}
+                  </div>
+                  <div className="text-xs text-text-secondary">
+                    {version.savedAt.toLocaleString()} • {version.workflow.nodes.length} nodes • {version.workflow.connections.length} connections
+                  </div>
+                  {version.note && <div className="text-xs text-text-secondary italic">{version.note}</div>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onRestore(version)}
+                    className="px-3 py-1 text-xs bg-secondary/20 text-secondary rounded-lg hover:bg-secondary/30 transition-colors"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => onDelete(version)}
+                    className="px-3 py-1 text-xs bg-accent-error/20 text-accent-error rounded-lg hover:bg-accent-error/30 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
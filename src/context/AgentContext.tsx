@@ -11,7 +11,9 @@ import {
 } from '../utils/walletErrorHandler'
 import { Principal } from '@dfinity/principal'
 import { internetIdentityService, type IIv2User, type GoogleAccountInfo } from '../services/internetIdentityService'
-import { getLlmService, type LlmState, type QuantizedModel, type ConversationSession, LlmError } from '../services/llmService'
+import { getLlmService, type LlmState, type QuantizedModel, type ConversationSession, LlmError, LlmQuotaExceededError } from '../services/llmService'
+import { getConversationStore } from '../services/conversationStore'
+import type { DecodingSettings } from '../services/decodingSettings'
 
 // Define types for our canisters
 export interface CanisterIds {
@@ -54,8 +56,13 @@ interface AgentContextType {
   llmState: LlmState
   createLlmConversation: (model: QuantizedModel) => Promise<ConversationSession>
   sendLlmMessage: (message: string) => Promise<void>
+  stopLlmGeneration: () => void
   switchLlmModel: (model: QuantizedModel) => Promise<void>
   deleteLlmConversation: (sessionId: string) => Promise<void>
+  selectLlmConversation: (sessionId: string) => void
+  renameLlmConversation: (sessionId: string, title: string) => Promise<void>
+  pinLlmConversation: (sessionId: string, pinned: boolean) => Promise<void>
+  setLlmDecoding: (sessionId: string, decoding: DecodingSettings) => Promise<void>
 }
 
 interface AdminData {
@@ -103,6 +110,7 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
     availableModels: [],
     userQuota: null,
     isLoading: false,
+    streaming: null,
     error: null,
   })
 
@@ -192,6 +200,20 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
     }
   }, [principal])
 
+  // Load the principal's saved conversations
+  useEffect(() => {
+    let cancelled = false
+    const llmServiceInstance = getLlmService()
+    llmServiceInstance.setConversationStore(principal ? getConversationStore(principal) : null).then(() => {
+      if (cancelled) return
+      const { conversations, currentConversation, error } = llmServiceInstance.getState()
+      setLlmState(prev => ({ ...prev, conversations: new Map(conversations), currentConversation, error }))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [principal])
+
   // Internet Identity v2 authentication
   const connect = async (): Promise<boolean> => {
     setIsConnecting(true)
@@ -326,18 +348,23 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
 
   const sendLlmMessage = async (message: string): Promise<void> => {
     try {
-      setLlmState(prev => ({ ...prev, isLoading: true, error: null }))
-
       const llmServiceInstance = getLlmService()
-      await llmServiceInstance.sendMessage(message)
+      // Show the question straight away and the reply as it is generated
+      const sessionId = llmServiceInstance.getState().currentConversation?.session_id ?? ''
+      setLlmState(prev => ({ ...prev, isLoading: true, error: null, streaming: { session_id: sessionId, message, content: '' } }))
+      for await (const chunk of llmServiceInstance.streamMessage(message)) {
+        setLlmState(prev => ({ ...prev, streaming: { session_id: chunk.session_id, message, content: chunk.content } }))
+      }
 
       // Update local state with new messages
       const currentState = llmServiceInstance.getState()
       setLlmState(prev => ({
         ...prev,
-        conversations: currentState.conversations,
+        conversations: new Map(currentState.conversations),
         currentConversation: currentState.currentConversation,
-        isLoading: false,
+        userQuota: currentState.userQuota,
+        isLoading: currentState.isLoading,
+        streaming: currentState.streaming,
       }))
     } catch (error) {
       // Failed to send LLM message
@@ -345,12 +372,21 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
       setLlmState(prev => ({
         ...prev,
         isLoading: false,
-        error: { error: LlmError.InternalError, message: errorMessage }
+        streaming: null,
+        error: {
+          error: error instanceof LlmQuotaExceededError ? LlmError.QuotaExceeded : LlmError.InternalError,
+          message: errorMessage
+        }
       }))
       throw error
     }
   }
 
+  // The partial reply is kept; sendLlmMessage finishes once the service has saved it
+  const stopLlmGeneration = (): void => {
+    getLlmService().stopGenerating()
+  }
+
   const switchLlmModel = async (model: QuantizedModel): Promise<void> => {
     try {
       if (llmState.currentConversation) {
@@ -391,6 +427,32 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
     }
   }
 
+  // Copy the service's conversations into React state after a change
+  const syncLlmConversations = () => {
+    const { conversations, currentConversation } = getLlmService().getState()
+    setLlmState(prev => ({ ...prev, conversations: new Map(conversations), currentConversation }))
+  }
+
+  const selectLlmConversation = (sessionId: string): void => {
+    getLlmService().selectConversation(sessionId)
+    syncLlmConversations()
+  }
+
+  const renameLlmConversation = async (sessionId: string, title: string): Promise<void> => {
+    await getLlmService().renameConversation(sessionId, title)
+    syncLlmConversations()
+  }
+
+  const pinLlmConversation = async (sessionId: string, pinned: boolean): Promise<void> => {
+    await getLlmService().setConversationPinned(sessionId, pinned)
+    syncLlmConversations()
+  }
+
+  const setLlmDecoding = async (sessionId: string, decoding: DecodingSettings): Promise<void> => {
+    await getLlmService().setConversationDecoding(sessionId, decoding)
+    syncLlmConversations()
+  }
+
   const checkAdminStatus = async (): Promise<boolean> => {
     if (!isWalletAvailable || !principal) {
       setIsAdmin(false)
@@ -530,8 +592,13 @@ export const AgentProvider: React.FC<AgentProviderProps> = ({ children }) => {
         llmState,
         createLlmConversation,
         sendLlmMessage,
+        stopLlmGeneration,
         switchLlmModel,
         deleteLlmConversation,
+        selectLlmConversation,
+        renameLlmConversation,
+        pinLlmConversation,
+        setLlmDecoding,
       }}
     >
       {children}
@@ -0,0 +1,118 @@
+import { useState, useCallback, useEffect, useRef, type MouseEvent as ReactMouseEvent, type RefObject } from 'react';
+import {
+  DEFAULT_VIEWPORT,
+  centerOn,
+  fitViewport,
+  screenToWorld,
+  zoomAround,
+  type Bounds,
+  type CanvasViewport,
+  type Point
+} from '../services/workflowLayout';
+
+// Zoom factor per pixel of wheel scroll
+const WHEEL_ZOOM_RATE = 0.0015;
+const BUTTON_ZOOM_STEP = 1.2;
+
+// Zoom and pan state of the workflow canvas; resets when another workflow is opened
+export const useCanvasViewport = (canvasRef: RefObject<HTMLDivElement | null>, workflowId: string | undefined) => {
+  const [viewport, setViewport] = useState<CanvasViewport>(DEFAULT_VIEWPORT);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const panStartRef = useRef<{ pointer: Point; viewport: CanvasViewport } | null>(null);
+
+  const [viewedWorkflowId, setViewedWorkflowId] = useState(workflowId);
+  if (viewedWorkflowId !== workflowId) {
+    setViewedWorkflowId(workflowId);
+    setViewport(DEFAULT_VIEWPORT);
+  }
+
+  // Canvas-relative pointer position in screen pixels
+  const toCanvasPoint = useCallback((clientX: number, clientY: number): Point => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  }, [canvasRef]);
+
+  // Pointer position in workflow coordinates, i.e. where nodes and handles live
+  const toWorldPoint = useCallback((clientX: number, clientY: number): Point =>
+    screenToWorld(viewport, toCanvasPoint(clientX, clientY)),
+  [viewport, toCanvasPoint]);
+
+  // The canvas only exists while a workflow is open
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+
+    // Registered natively so the page does not scroll while zooming
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const anchor = toCanvasPoint(event.clientX, event.clientY);
+      setViewport(prev => zoomAround(prev, anchor, prev.zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_RATE)));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      observer.disconnect();
+      canvas.removeEventListener('wheel', handleWheel);
+    };
+  }, [canvasRef, workflowId, toCanvasPoint]);
+
+  // Drag the canvas until the mouse button is released anywhere on the page
+  const startPan = useCallback((event: ReactMouseEvent) => {
+    panStartRef.current = { pointer: { x: event.clientX, y: event.clientY }, viewport };
+    setIsPanning(true);
+
+    const handleMove = (move: MouseEvent) => {
+      const start = panStartRef.current;
+      if (!start) return;
+      setViewport({
+        ...start.viewport,
+        x: start.viewport.x + move.clientX - start.pointer.x,
+        y: start.viewport.y + move.clientY - start.pointer.y,
+      });
+    };
+    const handleUp = () => {
+      panStartRef.current = null;
+      setIsPanning(false);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [viewport]);
+
+  // Button zoom keeps the middle of the canvas in place
+  const zoomBy = useCallback((factor: number) => {
+    setViewport(prev => zoomAround(prev, { x: size.width / 2, y: size.height / 2 }, prev.zoom * factor));
+  }, [size]);
+
+  const zoomIn = useCallback(() => zoomBy(BUTTON_ZOOM_STEP), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / BUTTON_ZOOM_STEP), [zoomBy]);
+  const resetZoom = useCallback(() => zoomBy(1 / viewport.zoom), [zoomBy, viewport.zoom]);
+
+  const fitToBounds = useCallback((bounds: Bounds | null) => {
+    setViewport(bounds && size.width > 0 ? fitViewport(bounds, size) : DEFAULT_VIEWPORT);
+  }, [size]);
+
+  const centerAt = useCallback((point: Point) => {
+    setViewport(prev => centerOn(prev, point, size));
+  }, [size]);
+
+  return {
+    viewport,
+    size,
+    isPanning,
+    toWorldPoint,
+    startPan,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitToBounds,
+    centerAt,
+  };
+};
@@ -1,10 +1,14 @@
 import { useState, useCallback, useRef } from 'react';
+import { describePortMismatch, isPortCompatible, type PortDataType } from '../services/workflowPorts';
 
 export interface ConnectionHandle {
   id: string;
   nodeId: string;
   type: 'input' | 'output';
   position: { x: number; y: number };
+  label?: string; // Shown next to named ports such as condition branches
+  dataType?: PortDataType; // Outputs: what the port emits, unset when only known at run time
+  accepts?: PortDataType[]; // Inputs: what the port takes
 }
 
 export interface DragConnection {
@@ -17,8 +21,19 @@ export interface SnapTarget {
   handle: ConnectionHandle;
   distance: number;
   isValid: boolean;
+  // Why the connection would be refused
+  reason?: string;
 }
 
+// Why two handles cannot be connected, in either drag direction; null when they can
+export const getConnectionRejection = (from: ConnectionHandle, to: ConnectionHandle): string | null => {
+  if (from.nodeId === to.nodeId) return 'A node cannot connect to itself';
+  if (from.type === to.type) return `Both handles are ${from.type}s`;
+  const [output, input] = from.type === 'output' ? [from, to] : [to, from];
+  if (input.accepts?.length === 0) return 'This node takes no input';
+  return isPortCompatible(output.dataType, input.accepts) ? null : describePortMismatch(output.dataType!, input.accepts!);
+};
+
 export const useConnectionManager = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [dragConnection, setDragConnection] = useState<DragConnection | null>(null);
@@ -69,10 +84,13 @@ export const useConnectionManager = () => {
 
       if (distance <= SNAP_DISTANCE) {
         if (!bestTarget || distance < bestTarget.distance) {
+          // Incompatible ports still snap, so the canvas can say why they will not connect
+          const reason = getConnectionRejection(dragConnection.sourceHandle, handle);
           bestTarget = {
             handle,
             distance,
-            isValid: true
+            isValid: reason === null,
+            reason: reason ?? undefined
           };
         }
       }
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { getLlmService, type ConversationSession } from '../services/llmService';
+
+// Wait for a pause in typing before recounting the whole prompt
+const RECOUNT_DELAY_MS = 150;
+
+// Exact token count of the prompt a draft message would be sent as, conversation so far included
+export const usePromptTokenCount = (message: string, conversation: ConversationSession | null): number | null => {
+  const [count, setCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!message.trim()) {
+      setCount(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getLlmService().previewPrompt(message)
+        .then(prompt => {
+          if (!cancelled) setCount(prompt.tokenCount);
+        })
+        .catch(() => {
+          if (!cancelled) setCount(null);
+        });
+    }, RECOUNT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [message, conversation]);
+
+  return count;
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback, type MouseEvent as ReactMouseEvent } from 'react';
+import type { Bounds, Point } from '../services/workflowLayout';
+
+const toBounds = (a: Point, b: Point): Bounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// Rubber-band selection on the workflow canvas, in workflow coordinates
+export const useSelectionBox = (
+  toWorldPoint: (clientX: number, clientY: number) => Point,
+  onSelect: (bounds: Bounds, additive: boolean) => void
+) => {
+  const [selectionBox, setSelectionBox] = useState<Bounds | null>(null);
+
+  const startSelection = useCallback((event: ReactMouseEvent) => {
+    const start = toWorldPoint(event.clientX, event.clientY);
+    const additive = event.ctrlKey || event.metaKey;
+    setSelectionBox(toBounds(start, start));
+
+    const handleMove = (move: MouseEvent) => {
+      setSelectionBox(toBounds(start, toWorldPoint(move.clientX, move.clientY)));
+    };
+    const handleUp = (up: MouseEvent) => {
+      setSelectionBox(null);
+      onSelect(toBounds(start, toWorldPoint(up.clientX, up.clientY)), additive);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [toWorldPoint, onSelect]);
+
+  return { selectionBox, startSelection };
+};
@@ -0,0 +1,165 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  WorkflowCancelledError,
+  raceAbort,
+  type NodeExecutionResult,
+  type NodeInput,
+  type WorkflowRunOptions
+} from '../services/workflowEngine';
+import { buildTemplateScope, type TemplateScope } from '../services/workflowTemplates';
+import type { Workflow } from '../services/workflowTypes';
+
+export type NodeRunState = 'pending' | 'paused' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface WorkflowRunSession {
+  workflowId: string;
+  debug: boolean;
+  status: 'running' | 'paused' | 'finished' | 'failed' | 'cancelled';
+  nodeStates: Record<string, NodeRunState>;
+  inputs: Record<string, NodeInput[]>;
+  results: Record<string, NodeExecutionResult>;
+  // Data each node's templates were resolved against
+  scopes: Record<string, TemplateScope>;
+  pausedNodeId: string | null;
+  error?: string;
+}
+
+const RESULT_STATES: Record<NodeExecutionResult['status'], NodeRunState> = {
+  completed: 'done',
+  failed: 'failed',
+  skipped: 'skipped',
+};
+
+/**
+ * Live node states for runs started from the canvas, plus the step-through
+ * debugger: debug runs execute one node at a time and pause before a node
+ * when stepping or when it has a breakpoint.
+ */
+export const useWorkflowDebugger = () => {
+  const [session, setSession] = useState<WorkflowRunSession | null>(null);
+  const [breakpoints, setBreakpoints] = useState<Set<string>>(new Set());
+  const breakpointsRef = useRef(breakpoints);
+  breakpointsRef.current = breakpoints;
+
+  // Pending pause, resumed by step/continue or cancelled when another run takes over
+  const pauseRef = useRef<{ resume: () => void; cancel: () => void } | null>(null);
+  // Pause before every node rather than only at breakpoints
+  const steppingRef = useRef(false);
+
+  const toggleBreakpoint = useCallback((nodeId: string) => {
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  // End a run left waiting at a pause, which nothing could resume once the session is replaced
+  const cancelPause = useCallback(() => {
+    const pause = pauseRef.current;
+    pauseRef.current = null;
+    pause?.cancel();
+  }, []);
+
+  // Start tracking a run and return the engine hooks that report into it.
+  // Stopping the run through the signal also ends a pending pause, as does
+  // starting another run.
+  const instrument = useCallback((workflow: Workflow, debug: boolean, signal?: AbortSignal): WorkflowRunOptions => {
+    cancelPause();
+    steppingRef.current = debug;
+    setSession({
+      workflowId: workflow.id,
+      debug,
+      status: 'running',
+      nodeStates: Object.fromEntries(workflow.nodes.map(node => [node.id, 'pending' as NodeRunState])),
+      inputs: {},
+      results: {},
+      scopes: {},
+      pausedNodeId: null,
+    });
+    const scopeOf = (results: Record<string, NodeExecutionResult>, inputs: NodeInput[]) =>
+      buildTemplateScope(workflow, Object.values(results), inputs);
+
+    return {
+      // One node at a time so pauses and steps follow a single path
+      maxConcurrency: debug ? 1 : undefined,
+      onNodeEvent: (event) => setSession(prev => {
+        if (!prev || prev.workflowId !== workflow.id) return prev;
+        if (event.type === 'started') {
+          return {
+            ...prev,
+            nodeStates: { ...prev.nodeStates, [event.nodeId]: 'running' },
+            inputs: { ...prev.inputs, [event.nodeId]: event.inputs },
+            scopes: { ...prev.scopes, [event.nodeId]: scopeOf(prev.results, event.inputs) },
+          };
+        }
+        return {
+          ...prev,
+          nodeStates: { ...prev.nodeStates, [event.result.nodeId]: RESULT_STATES[event.result.status] },
+          results: { ...prev.results, [event.result.nodeId]: event.result },
+        };
+      }),
+      beforeNode: debug
+        ? (node, { inputs }) => {
+          if (!steppingRef.current && !breakpointsRef.current.has(node.id)) return;
+
+          setSession(prev => prev?.workflowId === workflow.id ? {
+            ...prev,
+            status: 'paused',
+            pausedNodeId: node.id,
+            nodeStates: { ...prev.nodeStates, [node.id]: 'paused' },
+            inputs: { ...prev.inputs, [node.id]: inputs },
+            scopes: { ...prev.scopes, [node.id]: scopeOf(prev.results, inputs) },
+          } : prev);
+          return raceAbort(new Promise<void>((resolve, reject) => {
+            pauseRef.current = { resume: resolve, cancel: () => reject(new WorkflowCancelledError()) };
+          }), signal);
+        }
+        : undefined,
+    };
+  }, [cancelPause]);
+
+  const resume = useCallback((stepping: boolean) => {
+    const pause = pauseRef.current;
+    if (!pause) return;
+    pauseRef.current = null;
+    steppingRef.current = stepping;
+    setSession(prev => prev && { ...prev, status: 'running', pausedNodeId: null });
+    pause.resume();
+  }, []);
+
+  // Run the paused node and pause again before the next one
+  const step = useCallback(() => resume(true), [resume]);
+
+  // Run until the next breakpoint
+  const continueRun = useCallback(() => resume(false), [resume]);
+
+  // Record how the run ended, unless a run of another workflow has taken over the session
+  const finish = useCallback((workflowId: string, error?: unknown) => {
+    setSession(prev => prev?.workflowId === workflowId ? {
+      ...prev,
+      status: error instanceof WorkflowCancelledError ? 'cancelled' : error ? 'failed' : 'finished',
+      pausedNodeId: null,
+      error: error && !(error instanceof WorkflowCancelledError)
+        ? (error instanceof Error ? error.message : String(error))
+        : undefined,
+    } : prev);
+  }, []);
+
+  const close = useCallback(() => {
+    cancelPause();
+    setSession(null);
+  }, [cancelPause]);
+
+  return {
+    session,
+    breakpoints,
+    toggleBreakpoint,
+    instrument,
+    finish,
+    step,
+    continueRun,
+    close,
+  };
+};
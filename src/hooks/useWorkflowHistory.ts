@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect, type Dispatch, type SetStateAction } from 'react';
+import { pushCommand, type CommandHistory, type WorkflowCommand } from '../services/workflowCommands';
+import type { Workflow } from '../services/workflowTypes';
+
+const EMPTY_HISTORY: CommandHistory = { undo: [], redo: [] };
+
+// Undo/redo history for the workflow on the canvas; resets when another workflow is opened
+export const useWorkflowHistory = (
+  workflowId: string | undefined,
+  setWorkflow: Dispatch<SetStateAction<Workflow | null>>
+) => {
+  const [history, setHistory] = useState<CommandHistory>(EMPTY_HISTORY);
+
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+  }, [workflowId]);
+
+  const applyToWorkflow = useCallback((transform: (workflow: Workflow) => Workflow) => {
+    setWorkflow(prev => prev ? { ...transform(prev), updated_at: new Date() } : prev);
+  }, [setWorkflow]);
+
+  // Apply an edit and record it
+  const execute = useCallback((command: WorkflowCommand) => {
+    applyToWorkflow(command.apply);
+    setHistory(prev => pushCommand(prev, command));
+  }, [applyToWorkflow]);
+
+  const undo = useCallback(() => {
+    const command = history.undo[history.undo.length - 1];
+    if (!command) return;
+    applyToWorkflow(command.revert);
+    setHistory({ undo: history.undo.slice(0, -1), redo: [...history.redo, command] });
+  }, [history, applyToWorkflow]);
+
+  const redo = useCallback(() => {
+    const command = history.redo[history.redo.length - 1];
+    if (!command) return;
+    applyToWorkflow(command.apply);
+    // Redone entries never coalesce with the next edit
+    setHistory({ undo: [...history.undo, { ...command, coalesceKey: undefined }], redo: history.redo.slice(0, -1) });
+  }, [history, applyToWorkflow]);
+
+  // Forget the history, e.g. after the workflow was replaced by a restored version
+  const clear = useCallback(() => setHistory(EMPTY_HISTORY), []);
+
+  return {
+    execute,
+    undo,
+    redo,
+    clear,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undoLabel: history.undo[history.undo.length - 1]?.label,
+    redoLabel: history.redo[history.redo.length - 1]?.label,
+  };
+};
@@ -10,6 +10,9 @@ import LoadingSpinner from '../components/LoadingSpinner'
 import { AgentAdminMetrics, SystemHealthBanner } from '../components/AdminMetrics'
 import { setSwarmPolicy, getSwarmPolicy, routeBestResult, listUserAgents } from '../services/canisterService'
 import { createDirectLlmService } from '../services/directLlmService'
+import { DecodingSettingsDrawer } from '../components/chat/DecodingSettingsDrawer'
+import { DEFAULT_DECODING_SETTINGS, describeDecodingSettings, type DecodingSettings } from '../services/decodingSettings'
+import { downloadTranscript } from '../services/chatTranscript'
 
 interface Agent {
   agent_id: string
@@ -36,6 +39,7 @@ interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   timestamp: number
+  seed?: number
 }
 
 const Agents = () => {
@@ -66,6 +70,9 @@ const Agents = () => {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [currentMessage, setCurrentMessage] = useState('')
   const [isSending, setIsSending] = useState(false)
+  // Sampling settings for this chat; each new chat starts from the defaults
+  const [chatDecoding, setChatDecoding] = useState<DecodingSettings>(DEFAULT_DECODING_SETTINGS)
+  const [showChatSettings, setShowChatSettings] = useState(false)
   
 
 
@@ -211,14 +218,15 @@ const Agents = () => {
     try {
       // Use Direct LLM Service to make agents actually work
       const llmService = createDirectLlmService()
-      const response = await llmService.chatWithAgent(selectedAgent.agent_id, messageToSend)
+      const response = await llmService.chatWithAgent(selectedAgent.agent_id, messageToSend, chatDecoding)
 
       // Add assistant response
       const assistantMessage: ChatMessage = {
         id: `msg_${Date.now() + 1}`,
         role: 'assistant',
         content: response.content,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        seed: response.seed
       }
 
       setChatMessages(prev => [...prev, assistantMessage])
@@ -242,6 +250,21 @@ const Agents = () => {
 
   // Removed mock response generator
 
+  const exportChatTranscript = () => {
+    if (!selectedAgent) return
+    downloadTranscript({
+      title: `Chat with ${selectedAgent.agent_id}`,
+      model: selectedAgent.model_id || 'llama3.1-8b',
+      decoding: chatDecoding,
+      messages: chatMessages.map(message => ({
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+        seed: message.seed
+      }))
+    })
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'online': return 'success'
@@ -450,6 +473,7 @@ const Agents = () => {
                     onClick={() => {
                       setSelectedAgent(agent)
                       setChatMessages([])
+                      setChatDecoding(DEFAULT_DECODING_SETTINGS)
                       setShowChatModal(true)
                     }}
                     disabled={agent.status === 'offline'}
@@ -580,6 +604,20 @@ const Agents = () => {
         maxWidth="xl"
       >
         <div className="flex flex-col h-96">
+          <div className="flex items-center justify-end gap-2 mb-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowChatSettings(true)} title="Advanced settings">
+              ⚙️ {describeDecodingSettings(chatDecoding)}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={exportChatTranscript}
+              disabled={chatMessages.length === 0}
+              title="Export transcript (Markdown)"
+            >
+              Export
+            </Button>
+          </div>
           <div className="flex-1 overflow-y-auto mb-4 space-y-3">
             {chatMessages.length === 0 ? (
               <div className="text-center text-textOnDark/60 py-8">
@@ -638,6 +676,14 @@ const Agents = () => {
         </div>
       </Modal>
 
+      {showChatSettings && (
+        <DecodingSettingsDrawer
+          settings={chatDecoding}
+          onApply={setChatDecoding}
+          onClose={() => setShowChatSettings(false)}
+        />
+      )}
+
       {/* Config Modal */}
       <Modal
         isOpen={showConfigModal}
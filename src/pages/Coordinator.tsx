@@ -1,66 +1,256 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAgent } from '../context/AgentContext';
 import { logger } from '../utils/professionalLogger';
 import { 
   createAgentsFromInstructions, 
   executeCoordinatorWorkflow, 
   sendMessageToAgent, 
-  bindAgentAndWireRoutes 
+  bindAgentAndWireRoutes,
+  listUserAgents,
+  quoteJobSpec,
+  validateTokenUsageQuota
 } from '../services/canisterService';
 import { useConnectionManager } from '../hooks/useConnectionManager';
+import { useWorkflowHistory } from '../hooks/useWorkflowHistory';
+import { useWorkflowDebugger } from '../hooks/useWorkflowDebugger';
+import { useCanvasViewport } from '../hooks/useCanvasViewport';
+import { useSelectionBox } from '../hooks/useSelectionBox';
 import type { ConnectionHandle } from '../hooks/useConnectionManager';
 import { ConnectionHandleComponent } from '../components/workflow/ConnectionHandle';
 import { ConnectionLayer } from '../components/workflow/ConnectionLayer';
 import { WorkflowNodeComponent } from '../components/workflow/WorkflowNode';
-
-// Types for the workflow system
-interface WorkflowNode {
-  id: string;
-  type: 'agent' | 'trigger' | 'action' | 'condition';
-  position: { x: number; y: number };
-  data: {
-    label: string;
-    description?: string;
-    agentId?: string;
-    config?: Record<string, any>;
-  };
-}
-
-interface WorkflowConnection {
-  id: string;
-  sourceId: string;
-  targetId: string;
-  sourceHandle?: string;
-  targetHandle?: string;
-  path?: string; // SVG path for the connection line
+import { ActionConfigForm } from '../components/workflow/ActionConfigForm';
+import { JoinConfigForm } from '../components/workflow/JoinConfigForm';
+import { NodePolicyForm } from '../components/workflow/NodePolicyForm';
+import { ERROR_PORT, getNodePolicy } from '../services/workflowNodePolicy';
+import { WorkflowVersionsPanel } from '../components/workflow/WorkflowVersionsPanel';
+import { WorkflowImportDialog } from '../components/workflow/WorkflowImportDialog';
+import { WorkflowDebugPanel } from '../components/workflow/WorkflowDebugPanel';
+import { WorkflowRunsPanel } from '../components/workflow/WorkflowRunsPanel';
+import { WorkflowVariablesPanel } from '../components/workflow/WorkflowVariablesPanel';
+import { WorkflowCostDialog } from '../components/workflow/WorkflowCostDialog';
+import { WorkflowMinimap } from '../components/workflow/WorkflowMinimap';
+import { SubworkflowConfigForm } from '../components/workflow/SubworkflowConfigForm';
+import { StarterPackDialog } from '../components/workflow/StarterPackDialog';
+import {
+  buildWorkflowJobSpecs,
+  estimateWorkflowCost,
+  parseTokenQuotaCheck,
+  type TokenQuotaCheck,
+  type WorkflowCostEstimate
+} from '../services/workflowCost';
+import { WorkflowCancelledError, WorkflowExecutionError, type NodeExecutionResult } from '../services/workflowEngine';
+import { buildRunRecord, getWorkflowRunHistory, type WorkflowRunRecord, type WorkflowRunStatus } from '../services/workflowRunHistory';
+import { EXPRESSION_FUNCTIONS, validateExpression } from '../services/workflowExpressions';
+import {
+  MAX_INTERVAL_MINUTES,
+  TRIGGER_EVENTS,
+  armWorkflowTriggers,
+  getTriggerConfig,
+  parseTriggerPayload,
+  validateTriggerConfig,
+  type TriggerFire
+} from '../services/workflowTriggers';
+import {
+  configRecord,
+  configString,
+  configStrings,
+  getHandlePort,
+  type Workflow,
+  type WorkflowConnection,
+  type WorkflowNode
+} from '../services/workflowTypes';
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  buildConnectionPath,
+  captureLayout,
+  getActiveRoute,
+  getNodesInBounds,
+  getVisibleBounds,
+  getWorkflowBounds,
+  layoutWorkflow,
+  type Bounds
+} from '../services/workflowLayout';
+import {
+  SUBWORKFLOW_INPUT_PREFIX,
+  SUBWORKFLOW_OUTPUT_PREFIX,
+  SubworkflowError,
+  collapseToSubworkflow,
+  createNodeId,
+  createSubworkflowNode,
+  extractFragment,
+  getSubworkflowDefinition,
+  instantiateFragment,
+  withSubworkflowAgentIds,
+  type SubworkflowAgentIds,
+  type WorkflowFragment
+} from '../services/workflowSubworkflows';
+import { getWorkflowLibrary, type LibraryEntry } from '../services/workflowLibrary';
+import { getInputAccepts, getOutputType } from '../services/workflowPorts';
+import {
+  WorkflowImportError,
+  exportWorkflow,
+  getWorkflowAgentIds,
+  importWorkflow,
+  remapAgentIds
+} from '../services/workflowSchema';
+import { exportDot, exportMermaid, exportSvg, importMermaid, type DiagramFormat } from '../services/workflowDiagrams';
+import {
+  StarterPackAgentError,
+  createStarterPackAgents,
+  getStarterPack,
+  instantiateStarterPack,
+  type StarterPack
+} from '../services/workflowStarterPacks';
+import {
+  addConnectionCommand,
+  addFragmentCommand,
+  addNodeCommand,
+  deleteConnectionCommand,
+  layoutCommand,
+  moveNodeCommand,
+  moveNodesCommand,
+  replaceGraphCommand,
+  updateNodeDataCommand,
+  updateVariablesCommand
+} from '../services/workflowCommands';
+import { hasBlockingIssues, validateWorkflow, type WorkflowIssue } from '../services/workflowValidation';
+import { getWorkflowRepository, type WorkflowRepository, type WorkflowVersion } from '../services/workflowRepository';
+import {
+  DECODING_PRESET_OPTIONS,
+  DEFAULT_DECODING_SETTINGS,
+  describeDecodingSettings,
+  getDecodingPresetSettings,
+  type DecodingSettings
+} from '../services/decodingSettings';
+import { DecodingSettingsDrawer } from '../components/chat/DecodingSettingsDrawer';
+
+// Pasted nodes are offset from the copied ones by this much
+const PASTE_OFFSET = 40;
+
+// Available node types for the workflow
+const NODE_TYPES = [
+  { type: 'trigger', label: 'Trigger', icon: '⚡', color: 'from-yellow-500 to-orange-500' },
+  { type: 'agent', label: 'AI Agent', icon: '🤖', color: 'from-blue-500 to-purple-500' },
+  { type: 'condition', label: 'Condition', icon: '🔀', color: 'from-green-500 to-teal-500' },
+  { type: 'action', label: 'Action', icon: '⚙️', color: 'from-red-500 to-pink-500' },
+  { type: 'parallel', label: 'Parallel', icon: '🔱', color: 'from-cyan-500 to-sky-500' },
+  { type: 'join', label: 'Join', icon: '🧩', color: 'from-indigo-500 to-violet-500' },
+  // Created by grouping nodes or from the library, not from the palette
+  { type: 'subworkflow', label: 'Sub-workflow', icon: '📦', color: 'from-slate-500 to-gray-600' },
+];
+
+// How a run is started: which trigger fired and with what, and whether to step through it
+interface RunOptions {
+  trigger?: TriggerFire;
+  debug?: boolean;
+  triggerPayloads?: Record<string, unknown>;
 }
 
-interface Workflow {
-  id: string;
-  name: string;
-  description?: string;
-  nodes: WorkflowNode[];
-  connections: WorkflowConnection[];
-  status: 'draft' | 'active' | 'paused';
-  created_at: Date;
-  updated_at: Date;
-}
+// Keep the agents a run created on the nodes that completed, so later runs reuse
+// them; failed and cancelled runs still report the nodes that got that far
+const withRunAgents = (nodes: WorkflowNode[], results: NodeExecutionResult[]): WorkflowNode[] =>
+  nodes.map(node => {
+    const result = results.find(r => r.nodeId === node.id && r.status === 'completed');
+    if (!result) return node;
+    if (node.type === 'agent') {
+      const agentId = result.metadata?.agentId;
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          config: {
+            ...node.data.config,
+            agentId: typeof agentId === 'string' ? agentId : node.data.config?.agentId,
+            status: 'running',
+            lastResponse: result.output
+          }
+        }
+      };
+    }
+    if (node.type === 'subworkflow' && result.metadata?.agentIds) {
+      return withSubworkflowAgentIds(node, result.metadata.agentIds as SubworkflowAgentIds);
+    }
+    return node;
+  });
 
 const Coordinator: React.FC = () => {
-  const { isConnected } = useAgent();
+  const { isConnected, principal, createAuthAgent } = useAgent();
   const canvasRef = useRef<HTMLDivElement>(null);
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [selectedWorkflow, setSelectedWorkflow] = useState<Workflow | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [draggedNode, setDraggedNode] = useState<WorkflowNode | null>(null);
-  const [selectedNode, setSelectedNode] = useState<WorkflowNode | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Nodes picked with Shift+click or a rubber band, moved, copied and grouped together
+  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
+  // Kept across workflows so nodes can be pasted into another one
+  const [clipboard, setClipboard] = useState<WorkflowFragment | null>(null);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([]);
+  const [selectionWorkflowId, setSelectionWorkflowId] = useState<string | undefined>(undefined);
   const [showConfigPanel, setShowConfigPanel] = useState(false);
   const [draggedNodePosition, setDraggedNodePosition] = useState<{id: string, x: number, y: number} | null>(null);
   const [showInteractionPanel, setShowInteractionPanel] = useState(false);
   const [selectedAgentForInteraction, setSelectedAgentForInteraction] = useState<string | null>(null);
   const [interactionMessage, setInteractionMessage] = useState('');
   const [interactionHistory, setInteractionHistory] = useState<{role: string, message: string, timestamp: Date}[]>([]);
+  const [interactionDecoding, setInteractionDecoding] = useState<DecodingSettings>(DEFAULT_DECODING_SETTINGS);
+  const [showInteractionDecoding, setShowInteractionDecoding] = useState(false);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
+  const [runningWorkflowIds, setRunningWorkflowIds] = useState<Set<string>>(new Set());
+  const runningWorkflowIdsRef = useRef<Set<string>>(new Set());
+  // Aborting a run's controller stops it at the next canister call
+  const runControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const [isSavingWorkflow, setIsSavingWorkflow] = useState(false);
+  const [showVersionsPanel, setShowVersionsPanel] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [workflowVersions, setWorkflowVersions] = useState<WorkflowVersion[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [showRunsPanel, setShowRunsPanel] = useState(false);
+  const [showVariablesPanel, setShowVariablesPanel] = useState(false);
+  // Cost confirmation shown before a manual run
+  const [costCheck, setCostCheck] = useState<{
+    workflow: Workflow;
+    options: RunOptions;
+    estimate: WorkflowCostEstimate | null;
+    quota: TokenQuotaCheck | null;
+    isLoading: boolean;
+    error: string | null;
+  } | null>(null);
+  const [workflowRuns, setWorkflowRuns] = useState<WorkflowRunRecord[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  // Bumped whenever a run is recorded so an open Runs panel refreshes
+  const [runsRevision, setRunsRevision] = useState(0);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const editHistory = useWorkflowHistory(selectedWorkflow?.id, setSelectedWorkflow);
+  const {
+    viewport,
+    size: canvasSize,
+    isPanning,
+    toWorldPoint,
+    startPan,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitToBounds,
+    centerAt
+  } = useCanvasViewport(canvasRef, selectedWorkflow?.id);
+  if (selectionWorkflowId !== selectedWorkflow?.id) {
+    setSelectionWorkflowId(selectedWorkflow?.id);
+    setSelectedNodeIds(new Set());
+  }
+  const workflowDebugger = useWorkflowDebugger();
+  const { instrument: instrumentRun, finish: finishRun } = workflowDebugger;
+  const debugSession = workflowDebugger.session?.workflowId === selectedWorkflow?.id ? workflowDebugger.session : null;
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    workflow: Workflow | null;
+    issues: string[];
+    unknownAgentIds: string[];
+    availableAgentIds: string[];
+  } | null>(null);
 
   // Connection management
   const connectionManager = useConnectionManager();
@@ -77,22 +267,51 @@ const Coordinator: React.FC = () => {
     handleKeyDown
   } = connectionManager;
 
-  // Available node types for the workflow
-  const nodeTypes = [
-    { type: 'trigger', label: 'Trigger', icon: '⚡', color: 'from-yellow-500 to-orange-500' },
-    { type: 'agent', label: 'AI Agent', icon: '🤖', color: 'from-blue-500 to-purple-500' },
-    { type: 'condition', label: 'Condition', icon: '🔀', color: 'from-green-500 to-teal-500' },
-    { type: 'action', label: 'Action', icon: '⚙️', color: 'from-red-500 to-pink-500' },
-  ];
-
   // Generate connection handles for a node
   const generateConnectionHandles = useCallback((node: WorkflowNode): ConnectionHandle[] => {
     const handles: ConnectionHandle[] = [];
-    const nodeWidth = 160;
-    const nodeHeight = 96;
+    const nodeWidth = NODE_WIDTH;
+    const nodeHeight = NODE_HEIGHT;
     const centerX = node.position.x + nodeWidth / 2;
     const centerY = node.position.y + nodeHeight / 2;
 
+    // Port data types follow the wiring, so pass-through nodes take on their inputs' type
+    const typed = (placed: ConnectionHandle[]) => placed.map(handle => {
+      const port = getHandlePort(handle.id, node.id);
+      return handle.type === 'input'
+        ? { ...handle, accepts: getInputAccepts(node, port) ?? [] }
+        : { ...handle, dataType: selectedWorkflow ? getOutputType(selectedWorkflow, node, port) : undefined };
+    });
+
+    const definition = node.type === 'subworkflow' ? getSubworkflowDefinition(node) : null;
+    if (definition) {
+      // One labelled input per entry point along the top, one output per exit along the bottom
+      definition.inputs.forEach((input, index) => handles.push({
+        id: `${node.id}-${SUBWORKFLOW_INPUT_PREFIX}${input.key}`,
+        nodeId: node.id,
+        type: 'input',
+        position: { x: node.position.x + (nodeWidth * (index + 1)) / (definition.inputs.length + 1), y: node.position.y },
+        label: input.key
+      }));
+      definition.outputs.forEach((output, index) => handles.push({
+        id: `${node.id}-${SUBWORKFLOW_OUTPUT_PREFIX}${output.key}`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: node.position.x + (nodeWidth * (index + 1)) / (definition.outputs.length + 1), y: node.position.y + nodeHeight },
+        label: output.key
+      }));
+      if (getNodePolicy(node).onFailure === 'error_port') {
+        handles.push({
+          id: `${node.id}-${ERROR_PORT}`,
+          nodeId: node.id,
+          type: 'output',
+          position: { x: node.position.x + nodeWidth, y: node.position.y + nodeHeight - 12 },
+          label: ERROR_PORT
+        });
+      }
+      return typed(handles);
+    }
+
     // Top handle (input)
     handles.push({
       id: `${node.id}-top`,
@@ -101,21 +320,50 @@ const Coordinator: React.FC = () => {
       position: { x: centerX, y: node.position.y }
     });
 
-    // Bottom handle (output)
-    handles.push({
-      id: `${node.id}-bottom`,
-      nodeId: node.id,
-      type: 'output',
-      position: { x: centerX, y: node.position.y + nodeHeight }
-    });
+    if (node.type === 'condition') {
+      // Condition nodes route to one of two labelled branch outputs
+      handles.push({
+        id: `${node.id}-true`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: node.position.x + nodeWidth / 4, y: node.position.y + nodeHeight },
+        label: 'true'
+      });
+      handles.push({
+        id: `${node.id}-false`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: node.position.x + (nodeWidth * 3) / 4, y: node.position.y + nodeHeight },
+        label: 'false'
+      });
+    } else {
+      // Bottom handle (output)
+      handles.push({
+        id: `${node.id}-bottom`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: centerX, y: node.position.y + nodeHeight }
+      });
 
-    // Right handle (output for horizontal connections)
-    handles.push({
-      id: `${node.id}-right`,
-      nodeId: node.id,
-      type: 'output',
-      position: { x: node.position.x + nodeWidth, y: centerY }
-    });
+      // Right handle (output for horizontal connections)
+      handles.push({
+        id: `${node.id}-right`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: node.position.x + nodeWidth, y: centerY }
+      });
+    }
+
+    if (getNodePolicy(node).onFailure === 'error_port') {
+      // Fires instead of the regular outputs when the node fails
+      handles.push({
+        id: `${node.id}-${ERROR_PORT}`,
+        nodeId: node.id,
+        type: 'output',
+        position: { x: node.position.x + nodeWidth, y: node.position.y + nodeHeight - 12 },
+        label: ERROR_PORT
+      });
+    }
 
     // Left handle (input for horizontal connections)
     handles.push({
@@ -125,8 +373,8 @@ const Coordinator: React.FC = () => {
       position: { x: node.position.x, y: centerY }
     });
 
-    return handles;
-  }, []);
+    return typed(handles);
+  }, [selectedWorkflow]);
 
   // Get all available handles - memoized for performance
   const allHandles = useMemo((): ConnectionHandle[] => {
@@ -134,9 +382,16 @@ const Coordinator: React.FC = () => {
     return selectedWorkflow.nodes.flatMap(generateConnectionHandles);
   }, [selectedWorkflow?.nodes, generateConnectionHandles]);
 
+  // Node being configured, read from the workflow so edits show up immediately
+  const selectedNode = useMemo(
+    () => selectedWorkflow?.nodes.find(node => node.id === selectedNodeId) ?? null,
+    [selectedWorkflow, selectedNodeId]
+  );
+  const selectedConfig = selectedNode?.data.config;
+
   // Node type map for quick lookup
   const nodeTypeMap = useMemo(() => {
-    return new Map(nodeTypes.map(type => [type.type, type]));
+    return new Map(NODE_TYPES.map(type => [type.type, type]));
   }, []);
 
   // Memoized handle mouse handlers
@@ -162,77 +417,567 @@ const Coordinator: React.FC = () => {
     setIsCreating(false);
   }, []);
 
-  // Execute workflow with real agents
-  const executeWorkflow = useCallback(async () => {
+  // Apply an update to a workflow whether or not it is the one on the canvas
+  const updateWorkflow = useCallback((workflowId: string, update: (workflow: Workflow) => Workflow) => {
+    setWorkflows(prev => prev.map(workflow => workflow.id === workflowId ? update(workflow) : workflow));
+    setSelectedWorkflow(prev => prev && prev.id === workflowId ? update(prev) : prev);
+  }, []);
+
+  // Keep the workflow list in sync with edits made on the canvas
+  useEffect(() => {
     if (!selectedWorkflow) return;
+    setWorkflows(prev => prev.map(workflow => workflow.id === selectedWorkflow.id ? selectedWorkflow : workflow));
+  }, [selectedWorkflow]);
+
+  // Workflows are stored per principal
+  const workflowRepository = useMemo(() => getWorkflowRepository(principal), [principal]);
+  const runHistory = useMemo(() => getWorkflowRunHistory(principal), [principal]);
+  const workflowLibrary = useMemo(() => getWorkflowLibrary(principal), [principal]);
+  const [loadedRepository, setLoadedRepository] = useState<WorkflowRepository | null>(null);
+  // Last persisted object per workflow id, to autosave only what changed
+  const persistedWorkflowsRef = useRef(new Map<string, Workflow>());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadedRepository(null);
+
+    workflowRepository.list()
+      .then(stored => {
+        if (cancelled) return;
+        persistedWorkflowsRef.current = new Map(stored.map(workflow => [workflow.id, workflow]));
+        setWorkflows(stored);
+        setSelectedWorkflow(null);
+        setLoadedRepository(workflowRepository);
+      })
+      .catch(error => {
+        logger.error('Failed to load saved workflows', { feature: 'workflow_repository' }, error);
+      });
+
+    return () => { cancelled = true; };
+  }, [workflowRepository]);
+
+  useEffect(() => {
+    let cancelled = false;
+    workflowLibrary.list()
+      .then(entries => {
+        if (!cancelled) setLibraryEntries(entries);
+      })
+      .catch(error => {
+        logger.error('Failed to load sub-workflow library', { feature: 'workflow_library' }, error);
+      });
+    return () => { cancelled = true; };
+  }, [workflowLibrary]);
+
+  const saveToLibrary = useCallback(async (name: string, node: WorkflowNode) => {
+    const definition = getSubworkflowDefinition(node);
+    if (!definition) return;
+    const entry = await workflowLibrary.save(name, definition, node.data.description);
+    setLibraryEntries(prev => [...prev, entry].sort((a, b) => a.name.localeCompare(b.name)));
+  }, [workflowLibrary]);
+
+  const deleteLibraryEntry = useCallback(async (entry: LibraryEntry) => {
+    if (!window.confirm(`Remove "${entry.name}" from your sub-workflows? Workflows already using it keep their copy.`)) return;
+    try {
+      await workflowLibrary.delete(entry.id);
+      setLibraryEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      logger.error('Failed to delete library entry', { entryId: entry.id }, error instanceof Error ? error : undefined);
+      alert(`Failed to delete sub-workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [workflowLibrary]);
+
+  // Autosave drafts shortly after edits so a reload never loses work
+  useEffect(() => {
+    if (loadedRepository !== workflowRepository) return;
+
+    const timer = setTimeout(() => {
+      workflows
+        .filter(workflow => persistedWorkflowsRef.current.get(workflow.id) !== workflow)
+        .forEach(workflow => {
+          persistedWorkflowsRef.current.set(workflow.id, workflow);
+          workflowRepository.saveDraft(workflow).catch(error => {
+            persistedWorkflowsRef.current.delete(workflow.id);
+            logger.error('Failed to autosave workflow', { workflowId: workflow.id }, error);
+          });
+        });
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [workflows, loadedRepository, workflowRepository]);
+
+  const loadVersions = useCallback(async (workflowId: string) => {
+    setIsLoadingVersions(true);
+    try {
+      setWorkflowVersions(await workflowRepository.listVersions(workflowId));
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  }, [workflowRepository]);
+
+  // Save the selected workflow as a new version
+  const saveWorkflow = useCallback(async () => {
+    if (!selectedWorkflow || isSavingWorkflow) return;
+
+    setIsSavingWorkflow(true);
+    try {
+      const { workflow: saved } = await workflowRepository.save(selectedWorkflow);
+      persistedWorkflowsRef.current.set(saved.id, saved);
+      // Keep edits made while the save was in flight
+      updateWorkflow(saved.id, prev => prev === selectedWorkflow ? saved : { ...prev, updated_at: saved.updated_at });
+      if (showVersionsPanel) await loadVersions(saved.id);
+    } catch (error) {
+      alert(`Failed to save workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingWorkflow(false);
+    }
+  }, [selectedWorkflow, isSavingWorkflow, workflowRepository, updateWorkflow, showVersionsPanel, loadVersions]);
 
-    // Update workflow status
-    setSelectedWorkflow(prev => {
-      if (!prev) return prev;
-      return { ...prev, status: 'active' as const };
+  const openVersionsPanel = useCallback(() => {
+    if (!selectedWorkflow) return;
+    setShowVersionsPanel(true);
+    loadVersions(selectedWorkflow.id).catch(error => {
+      logger.error('Failed to load workflow versions', { workflowId: selectedWorkflow.id }, error);
     });
+  }, [selectedWorkflow, loadVersions]);
+
+  const restoreVersion = useCallback(async (version: WorkflowVersion) => {
+    if (!window.confirm(`Restore version ${version.version}? Your current workflow is kept as a version if you save it first.`)) return;
+
+    try {
+      const { workflow: restored } = await workflowRepository.restoreVersion(version.workflowId, version.version);
+      persistedWorkflowsRef.current.set(restored.id, restored);
+      updateWorkflow(restored.id, () => restored);
+      editHistory.clear();
+      setSelectedNodeId(null);
+      await loadVersions(restored.id);
+    } catch (error) {
+      alert(`Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [workflowRepository, updateWorkflow, loadVersions, editHistory]);
+
+  const deleteVersion = useCallback(async (version: WorkflowVersion) => {
+    if (!window.confirm(`Delete version ${version.version}? This cannot be undone.`)) return;
+
+    try {
+      await workflowRepository.deleteVersion(version.workflowId, version.version);
+      await loadVersions(version.workflowId);
+    } catch (error) {
+      alert(`Failed to delete version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [workflowRepository, loadVersions]);
+
+  // Delete a workflow together with its version history
+  const deleteWorkflow = useCallback(async (workflow: Workflow) => {
+    if (!window.confirm(`Delete "${workflow.name}" together with its versions and run history?`)) return;
+
+    try {
+      await workflowRepository.delete(workflow.id);
+      await runHistory.clear(workflow.id);
+      persistedWorkflowsRef.current.delete(workflow.id);
+      setWorkflows(prev => prev.filter(w => w.id !== workflow.id));
+      setSelectedWorkflow(prev => prev?.id === workflow.id ? null : prev);
+    } catch (error) {
+      alert(`Failed to delete workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [workflowRepository, runHistory]);
+
+  const addImportedWorkflow = useCallback((imported: Workflow) => {
+    // Never overwrite an existing workflow, and don't arm triggers nobody reviewed yet
+    const workflow: Workflow = {
+      ...imported,
+      id: workflows.some(w => w.id === imported.id) ? `wf_${Date.now()}` : imported.id,
+      status: 'draft',
+      updated_at: new Date(),
+    };
+    setWorkflows(prev => [...prev, workflow]);
+    setSelectedWorkflow(workflow);
+    setPendingImport(null);
+  }, [workflows]);
+
+  // Starter packs open here as ?starterPack=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const starterPack = getStarterPack(searchParams.get('starterPack') ?? '');
+
+  const closeStarterPack = useCallback(() => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('starterPack');
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const createFromStarterPack = useCallback(async (
+    pack: StarterPack,
+    values: Record<string, string>,
+    createAgents: boolean,
+    onProgress: (done: number, total: number) => void
+  ) => {
+    let workflow = instantiateStarterPack(pack, values);
+    if (createAgents) {
+      try {
+        workflow = await createStarterPackAgents(workflow, async node => {
+          const result = await createAgentsFromInstructions(
+            configString(node.data.config, 'instructions') ?? '',
+            1,
+            configStrings(node.data.config, 'capabilities'),
+            configString(node.data.config, 'priority') ?? 'normal'
+          );
+          if (!('Ok' in result)) throw new Error(result.Err ?? 'Unknown error');
+          return String(result.Ok.agent_id);
+        }, onProgress);
+      } catch (error) {
+        if (!(error instanceof StarterPackAgentError)) throw error;
+        // Steps without an agent still get one on their first run
+        logger.error('Starter pack agent creation failed', { packId: pack.id }, error);
+        alert(`${error.message}\n\nThe remaining agents will be created when the workflow first runs.`);
+        workflow = error.workflow;
+      }
+    }
+    addImportedWorkflow(workflow);
+    closeStarterPack();
+  }, [addImportedWorkflow, closeStarterPack]);
+
+  const handleImportFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
+    let workflow: Workflow;
     try {
+      const text = await file.text();
+      // Mermaid flowcharts start a draft laid out from the diagram
+      workflow = /\.(mmd|mermaid)$/i.test(file.name) || !text.trimStart().startsWith('{')
+        ? importMermaid(text, file.name.replace(/\.[^.]+$/, ''))
+        : importWorkflow(text);
+    } catch (error) {
+      const issues = error instanceof WorkflowImportError
+        ? error.issues
+        : [error instanceof Error ? error.message : 'Unknown error'];
+      setPendingImport({ fileName: file.name, workflow: null, issues, unknownAgentIds: [], availableAgentIds: [] });
+      return;
+    }
+
+    // Agent IDs from another principal's workflow have to be remapped
+    const referencedAgentIds = getWorkflowAgentIds(workflow);
+    let availableAgentIds: string[] = [];
+    if (referencedAgentIds.length > 0 && isConnected) {
+      try {
+        const authAgent = await createAuthAgent();
+        const agents = authAgent ? await listUserAgents(authAgent) : [];
+        availableAgentIds = agents.map(agent => String(agent.agent_id));
+      } catch (error) {
+        logger.warn('Could not list agents for workflow import', { error: String(error) });
+      }
+    }
+
+    const unknownAgentIds = referencedAgentIds.filter(id => !availableAgentIds.includes(id));
+    if (unknownAgentIds.length === 0) {
+      addImportedWorkflow(workflow);
+    } else {
+      setPendingImport({ fileName: file.name, workflow, issues: [], unknownAgentIds, availableAgentIds });
+    }
+  }, [isConnected, createAuthAgent, addImportedWorkflow]);
+
+  // Run a workflow once and record it in the run history; triggered runs start
+  // from the trigger that fired. Runs started from the canvas show live node
+  // states, debug runs also pause.
+  const runWorkflow = useCallback(async (
+    workflow: Workflow,
+    { trigger, debug = false, triggerPayloads }: RunOptions = {}
+  ) => {
+    if (runningWorkflowIdsRef.current.has(workflow.id)) return;
+    const isAutomatic = !!trigger && trigger.triggerType !== 'manual';
+
+    // Catch broken graphs before any agent is created or cycles are spent
+    const errors = validateWorkflow(workflow).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      if (isAutomatic) {
+        logger.warn('Skipping triggered run of invalid workflow', { workflowId: workflow.id, errors: errors.map(e => e.message) });
+      } else {
+        alert(`Fix these problems before running the workflow:\n\n${errors.map(e => `• ${e.message}`).join('\n')}`);
+      }
+      return;
+    }
+
+    runningWorkflowIdsRef.current.add(workflow.id);
+    setRunningWorkflowIds(new Set(runningWorkflowIdsRef.current));
+    const controller = new AbortController();
+    runControllersRef.current.set(workflow.id, controller);
+
+    const startedAt = new Date();
+    let nodeResults: NodeExecutionResult[] = [];
+    let runStatus: WorkflowRunStatus = 'completed';
+    let runError: string | undefined;
+    const recordAgents = (results: NodeExecutionResult[]) => updateWorkflow(workflow.id, prev => ({
+      ...prev,
+      nodes: withRunAgents(prev.nodes, results),
+      updated_at: new Date(),
+    }));
+
+    try {
+      const monitor = isAutomatic ? {} : instrumentRun(workflow, debug, controller.signal);
       // Use the new coordinator workflow execution service
-      const result = await executeCoordinatorWorkflow(selectedWorkflow);
+      const result = await executeCoordinatorWorkflow(workflow, {
+        trigger,
+        triggerPayloads,
+        signal: controller.signal,
+        ...monitor,
+      });
+      nodeResults = result.nodeResults;
+      if (!isAutomatic) finishRun(workflow.id);
 
       if (result.success) {
         // Update nodes with agent IDs and responses
-        setSelectedWorkflow(prev => {
-          if (!prev) return prev;
-          return {
-            ...prev,
-            nodes: prev.nodes.map(node => {
-              const nodeResult = result.results.find((r: any) => r.nodeId === node.id);
-              if (nodeResult) {
-                return {
-                  ...node,
-                  data: {
-                    ...node.data,
-                    config: {
-                      ...node.data.config,
-                      agentId: nodeResult.agentId,
-                      status: 'running',
-                      lastResponse: nodeResult.response
-                    }
-                  }
-                };
-              }
-              return node;
-            }),
-            updated_at: new Date(),
-          };
-        });
+        recordAgents(result.nodeResults);
       }
-    } catch (error) {      
-      // Update workflow status to error
-      setSelectedWorkflow(prev => {
-        if (!prev) return prev;
-        return { ...prev, status: 'paused' as const };
-      });
-      
-      // Show user-friendly error
-      alert(`Workflow execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof WorkflowExecutionError || error instanceof WorkflowCancelledError) {
+        nodeResults = error.results;
+        // Retries reuse the agents of the nodes that completed
+        recordAgents(error.results);
+      }
+      runStatus = error instanceof WorkflowCancelledError ? 'cancelled' : 'failed';
+      runError = message;
+      if (!isAutomatic) finishRun(workflow.id, error);
+      if (error instanceof WorkflowCancelledError) {
+        logger.info('Workflow run cancelled', { workflowId: workflow.id });
+      } else if (isAutomatic) {
+        // Nobody is waiting on automatic runs, so log instead of interrupting the user
+        logger.error('Triggered workflow run failed', { workflowId: workflow.id, trigger: trigger.triggerType, message });
+      } else {
+        // Show user-friendly error
+        alert(`Workflow execution failed: ${message}`);
+      }
+    } finally {
+      runControllersRef.current.delete(workflow.id);
+      runningWorkflowIdsRef.current.delete(workflow.id);
+      setRunningWorkflowIds(new Set(runningWorkflowIdsRef.current));
+    }
+
+    const record = buildRunRecord(workflow, {
+      trigger,
+      startedAt,
+      finishedAt: new Date(),
+      results: nodeResults,
+      status: runStatus,
+      error: runError,
+    });
+    try {
+      await runHistory.record(record);
+      setRunsRevision(prev => prev + 1);
+    } catch (error) {
+      logger.error('Failed to record workflow run', { workflowId: workflow.id, runId: record.id }, error instanceof Error ? error : undefined);
+    }
+  }, [updateWorkflow, instrumentRun, finishRun, runHistory]);
+
+  // Cancel a running workflow; nodes still in flight are discarded
+  const stopWorkflow = useCallback((workflowId: string) => {
+    runControllersRef.current.get(workflowId)?.abort();
+  }, []);
+
+  // Quote the workflow's agent nodes and ask for confirmation before any run the user
+  // starts; workflows without agents run straight away
+  const confirmAndRunWorkflow = useCallback(async (workflow: Workflow, options: RunOptions = {}) => {
+    const jobs = buildWorkflowJobSpecs(workflow);
+    if (jobs.length === 0) {
+      await runWorkflow(workflow, options);
+      return;
     }
-  }, [selectedWorkflow]);
 
-  // Stop workflow execution
-  const stopWorkflow = useCallback(() => {
+    setCostCheck({ workflow, options, estimate: null, quota: null, isLoading: true, error: null });
+    const totalTokens = jobs.reduce((total, job) => total + job.spec.estimated_tokens, 0);
+    const [estimate, quota] = await Promise.allSettled([
+      estimateWorkflowCost(workflow, quoteJobSpec),
+      validateTokenUsageQuota(BigInt(totalTokens)).then(parseTokenQuotaCheck),
+    ]);
+    if (quota.status === 'rejected') {
+      logger.warn('Failed to check token quota', { workflowId: workflow.id, error: String(quota.reason) });
+    }
+    setCostCheck(prev => prev?.workflow !== workflow ? prev : {
+      ...prev,
+      estimate: estimate.status === 'fulfilled' ? estimate.value : null,
+      quota: quota.status === 'fulfilled' ? quota.value : null,
+      isLoading: false,
+      error: estimate.status === 'rejected'
+        ? 'Could not estimate the cost of this workflow'
+        : quota.status === 'rejected' ? 'Could not check your remaining quota' : null,
+    });
+  }, [runWorkflow]);
+
+  const confirmCostCheck = useCallback(async () => {
+    if (!costCheck) return;
+    setCostCheck(null);
+    await runWorkflow(costCheck.workflow, costCheck.options);
+  }, [costCheck, runWorkflow]);
+
+  const executeWorkflow = useCallback(async () => {
     if (!selectedWorkflow) return;
+    await confirmAndRunWorkflow(selectedWorkflow);
+  }, [selectedWorkflow, confirmAndRunWorkflow]);
 
-    setSelectedWorkflow(prev => {
-      if (!prev) return prev;
-      return { 
-        ...prev, 
-        status: 'paused' as const,
-        nodes: prev.nodes.map(node => ({
-          ...node,
-          data: { ...node.data, status: 'stopped' }
-        }))
-      };
+  // Execute step by step, pausing before the first node
+  const debugWorkflow = useCallback(async () => {
+    if (!selectedWorkflow) return;
+    await confirmAndRunWorkflow(selectedWorkflow, { debug: true });
+  }, [selectedWorkflow, confirmAndRunWorkflow]);
+
+  // Manually fire one trigger with the payload from its config
+  const runTriggerWithPayload = useCallback(async (triggerNode: WorkflowNode) => {
+    if (!selectedWorkflow) return;
+    await confirmAndRunWorkflow(selectedWorkflow, {
+      trigger: {
+        workflowId: selectedWorkflow.id,
+        triggerNodeId: triggerNode.id,
+        triggerType: 'manual',
+        payload: parseTriggerPayload(configString(triggerNode.data.config, 'payload')),
+        firedAt: Date.now(),
+      },
     });
+  }, [selectedWorkflow, confirmAndRunWorkflow]);
+
+  // Replay a recorded run: the same trigger fires with the payloads it emitted then
+  const rerunWorkflowRun = useCallback(async (run: WorkflowRunRecord) => {
+    if (!selectedWorkflow || selectedWorkflow.id !== run.workflowId) return;
+    await confirmAndRunWorkflow(selectedWorkflow, {
+      // Started by the user, so report like a manual run
+      trigger: run.trigger ? { ...run.trigger, triggerType: 'manual', firedAt: Date.now(), causedBy: undefined } : undefined,
+      triggerPayloads: run.triggerPayloads,
+    });
+  }, [selectedWorkflow, confirmAndRunWorkflow]);
+
+  const deleteWorkflowRun = useCallback(async (run: WorkflowRunRecord) => {
+    if (!window.confirm(`Delete the run from ${run.startedAt.toLocaleString()}?`)) return;
+
+    try {
+      await runHistory.delete(run.workflowId, run.id);
+      setRunsRevision(prev => prev + 1);
+    } catch (error) {
+      alert(`Failed to delete run: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [runHistory]);
+
+  // Keep the Runs panel in sync with the selected workflow and newly recorded runs
+  const selectedWorkflowId = selectedWorkflow?.id;
+  useEffect(() => {
+    if (!showRunsPanel || !selectedWorkflowId) return;
+
+    let cancelled = false;
+    setIsLoadingRuns(true);
+    runHistory.list(selectedWorkflowId)
+      .then(runs => {
+        if (!cancelled) setWorkflowRuns(runs);
+      })
+      .catch(error => logger.error('Failed to load workflow runs', { workflowId: selectedWorkflowId }, error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingRuns(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showRunsPanel, selectedWorkflowId, runHistory, runsRevision]);
+
+  // Active workflows run automatically when their triggers fire; paused ones are suspended
+  const setWorkflowActive = useCallback((active: boolean) => {
+    if (!selectedWorkflow) return;
+    updateWorkflow(selectedWorkflow.id, prev => ({
+      ...prev,
+      status: active ? 'active' : 'paused',
+      updated_at: new Date(),
+    }));
+  }, [selectedWorkflow, updateWorkflow]);
+
+  // Only re-arm triggers when an active workflow's trigger configuration changes
+  const armedTriggerSignature = useMemo(() => JSON.stringify(
+    workflows
+      .filter(workflow => workflow.status === 'active')
+      .map(workflow => [
+        workflow.id,
+        workflow.nodes.filter(node => node.type === 'trigger').map(node => [node.id, node.data.config]),
+      ])
+  ), [workflows]);
+
+  const workflowsRef = useRef(workflows);
+  workflowsRef.current = workflows;
+  const runWorkflowRef = useRef(runWorkflow);
+  runWorkflowRef.current = runWorkflow;
+
+  // Arm schedule and event triggers of active workflows while the page is open
+  useEffect(() => {
+    const disarmers = workflowsRef.current
+      .filter(workflow => workflow.status === 'active')
+      .map(workflow => armWorkflowTriggers(workflow, (fire) => {
+        // Run the latest version of the workflow, not the one captured when arming
+        const latest = workflowsRef.current.find(w => w.id === fire.workflowId);
+        if (!latest || latest.status !== 'active') return;
+        if (runningWorkflowIdsRef.current.has(latest.id)) {
+          logger.info('Skipping trigger while workflow is still running', { workflowId: latest.id });
+          return;
+        }
+        runWorkflowRef.current(latest, { trigger: fire });
+      }));
+
+    return () => disarmers.forEach(disarm => disarm());
+  }, [armedTriggerSignature]);
+
+  const fitToScreen = useCallback(() => {
+    if (!selectedWorkflow) return;
+    fitToBounds(getWorkflowBounds(selectedWorkflow.nodes));
+  }, [selectedWorkflow, fitToBounds]);
+
+  // Arrange nodes left to right by depth, then bring the result into view
+  const autoLayout = useCallback(() => {
+    if (!selectedWorkflow || selectedWorkflow.nodes.length === 0) return;
+    const layout = layoutWorkflow(selectedWorkflow);
+    editHistory.execute(layoutCommand(captureLayout(selectedWorkflow), layout));
+    fitToBounds(getWorkflowBounds(selectedWorkflow.nodes.map(node => ({ ...node, position: layout.positions[node.id] }))));
+  }, [selectedWorkflow, editHistory, fitToBounds]);
+
+  const selectAll = useCallback(() => {
+    if (!selectedWorkflow) return;
+    setSelectedNodeIds(new Set(selectedWorkflow.nodes.map(node => node.id)));
   }, [selectedWorkflow]);
 
+  const copySelection = useCallback(() => {
+    if (!selectedWorkflow || selectedNodeIds.size === 0) return;
+    setClipboard(extractFragment(selectedWorkflow, selectedNodeIds));
+  }, [selectedWorkflow, selectedNodeIds]);
+
+  // Each paste lands a little further down and right, so repeated pastes do not stack
+  const pasteClipboard = useCallback(() => {
+    if (!selectedWorkflow || !clipboard || clipboard.nodes.length === 0) return;
+    const fragment = instantiateFragment(clipboard, { x: PASTE_OFFSET, y: PASTE_OFFSET });
+    editHistory.execute(addFragmentCommand(fragment));
+    setClipboard(fragment);
+    setSelectedNodeIds(new Set(fragment.nodes.map(node => node.id)));
+  }, [selectedWorkflow, clipboard, editHistory]);
+
+  const groupSelection = useCallback(() => {
+    if (!selectedWorkflow || selectedNodeIds.size === 0) return;
+    try {
+      const { workflow, node } = collapseToSubworkflow(selectedWorkflow, selectedNodeIds, {
+        id: createNodeId(),
+        label: 'Sub-workflow',
+      });
+      editHistory.execute(replaceGraphCommand('Group into sub-workflow', selectedWorkflow, workflow));
+      setSelectedNodeIds(new Set([node.id]));
+      setSelectedNodeId(node.id);
+      setShowConfigPanel(true);
+    } catch (error) {
+      if (!(error instanceof SubworkflowError)) throw error;
+      alert(`Cannot group these nodes: ${error.message}`);
+    }
+  }, [selectedWorkflow, selectedNodeIds, editHistory]);
+
+  const selectNodesInBounds = useCallback((bounds: Bounds, additive: boolean) => {
+    if (!selectedWorkflow) return;
+    const ids = getNodesInBounds(selectedWorkflow.nodes, bounds).map(node => node.id);
+    setSelectedNodeIds(prev => new Set(additive ? [...prev, ...ids] : ids));
+  }, [selectedWorkflow]);
+
+  const { selectionBox, startSelection } = useSelectionBox(toWorldPoint, selectNodesInBounds);
+
   // Keyboard event handling
   useEffect(() => {
     const handleGlobalKeyDown = (event: KeyboardEvent) => {
@@ -251,39 +996,100 @@ const Coordinator: React.FC = () => {
           } else if (showInteractionPanel) {
             setShowInteractionPanel(false);
             event.preventDefault();
+          } else if (showVersionsPanel) {
+            setShowVersionsPanel(false);
+            event.preventDefault();
+          } else if (showRunsPanel) {
+            setShowRunsPanel(false);
+            event.preventDefault();
+          } else if (showVariablesPanel) {
+            setShowVariablesPanel(false);
+            event.preventDefault();
+          } else if (costCheck) {
+            setCostCheck(null);
+            event.preventDefault();
+          } else if (selectedNodeIds.size > 0) {
+            setSelectedNodeIds(new Set());
+            event.preventDefault();
           }
         }
         
-        // Space: Execute workflow
-        if (event.key === ' ' && selectedWorkflow.nodes.length > 0) {
-          event.preventDefault();
-          if (selectedWorkflow.status === 'active') {
-            stopWorkflow();
-          } else {
-            executeWorkflow();
+        // Single-key shortcuts, unless typing into a field
+        const field = event.target as HTMLElement | null;
+        const typingTarget = field?.closest('input, textarea, select') || field?.isContentEditable;
+        if (!typingTarget) {
+          // Space: Execute or stop workflow
+          if (event.key === ' ' && selectedWorkflow.nodes.length > 0) {
+            event.preventDefault();
+            if (runningWorkflowIds.has(selectedWorkflow.id)) {
+              stopWorkflow(selectedWorkflow.id);
+            } else {
+              executeWorkflow();
+            }
           }
-        }
 
-        // N: Create new workflow
-        if (event.key === 'n' || event.key === 'N') {
-          event.preventDefault();
-          createWorkflow();
-        }
+          // N: Create new workflow
+          if (event.key === 'n' || event.key === 'N') {
+            event.preventDefault();
+            createWorkflow();
+          }
 
-        // S: Save workflow (placeholder for future implementation)
-        if (event.key === 's' || event.key === 'S') {
-          event.preventDefault();
-          // Could implement save workflow functionality
-          logger.info('Save workflow shortcut (not implemented)', { feature: 'keyboard_shortcuts' });
+          // S: Save workflow as a new version
+          if (event.key === 's' || event.key === 'S') {
+            event.preventDefault();
+            saveWorkflow();
+          }
+
+          // F / L: Fit to screen / auto layout
+          if (selectedWorkflow.nodes.length > 0) {
+            if (event.key === 'f' || event.key === 'F') {
+              event.preventDefault();
+              fitToScreen();
+            }
+            if (event.key === 'l' || event.key === 'L') {
+              event.preventDefault();
+              autoLayout();
+            }
+          }
+
+          // ?: Show keyboard shortcuts help
+          if (event.key === '?' || (event.shiftKey && event.key === '/')) {
+            event.preventDefault();
+            setShowKeyboardShortcuts(true);
+          }
         }
+      }
+      
+      // Ctrl+Z / Ctrl+Shift+Z: Undo / redo canvas edits (text fields keep their own undo)
+      const target = event.target as HTMLElement | null;
+      const isEditingText = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+      if (selectedWorkflow && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && !isEditingText) {
+        event.preventDefault();
+        if (event.shiftKey) {
+          editHistory.redo();
+        } else {
+          editHistory.undo();
+        }
+      }
 
-        // ?: Show keyboard shortcuts help
-        if (event.key === '?' || (event.shiftKey && event.key === '/')) {
+      // Ctrl+C / Ctrl+V / Ctrl+A / Ctrl+G: copy, paste, select all and group nodes
+      if (selectedWorkflow && (event.ctrlKey || event.metaKey) && !event.shiftKey && !isEditingText) {
+        const key = event.key.toLowerCase();
+        if (key === 'c' && selectedNodeIds.size > 0) {
+          event.preventDefault();
+          copySelection();
+        } else if (key === 'v' && clipboard) {
           event.preventDefault();
-          setShowKeyboardShortcuts(true);
+          pasteClipboard();
+        } else if (key === 'a') {
+          event.preventDefault();
+          selectAll();
+        } else if (key === 'g' && selectedNodeIds.size > 0) {
+          event.preventDefault();
+          groupSelection();
         }
       }
-      
+
       // Global shortcuts (work regardless of selection)
       if ((event.ctrlKey || event.metaKey) && event.key === 'n') {
         event.preventDefault();
@@ -293,7 +1099,7 @@ const Coordinator: React.FC = () => {
 
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [handleKeyDown, selectedWorkflow, isConnecting, showConfigPanel, showInteractionPanel, cancelConnection, executeWorkflow, stopWorkflow, createWorkflow]);
+  }, [handleKeyDown, selectedWorkflow, isConnecting, showConfigPanel, showInteractionPanel, showVersionsPanel, showRunsPanel, showVariablesPanel, costCheck, cancelConnection, executeWorkflow, stopWorkflow, runningWorkflowIds, createWorkflow, saveWorkflow, editHistory, fitToScreen, autoLayout, selectedNodeIds, clipboard, copySelection, pasteClipboard, selectAll, groupSelection]);
 
   // Calculate optimal position for new node to avoid overlap
   const calculateOptimalPosition = useCallback((basePosition: { x: number; y: number }) => {
@@ -305,11 +1111,15 @@ const Coordinator: React.FC = () => {
     let attempts = 0;
     const maxAttempts = 100;
 
-    // Ensure minimum distance from edges
+    // Ensure minimum distance from the edges; the far edges are those of the visible part of the canvas
+    const visible = getVisibleBounds(viewport, {
+      width: canvasSize.width || 1200,
+      height: canvasSize.height || 800
+    });
     const minX = nodeWidth / 2 + 20;
     const minY = nodeHeight / 2 + 20;
-    const maxX = (canvasRef.current?.offsetWidth || 1200) - nodeWidth / 2 - 20;
-    const maxY = (canvasRef.current?.offsetHeight || 800) - nodeHeight / 2 - 20;
+    const maxX = Math.max(minX, visible.x + visible.width - nodeWidth / 2 - 20);
+    const maxY = Math.max(minY, visible.y + visible.height - nodeHeight / 2 - 20);
 
     position.x = Math.max(minX, Math.min(maxX, position.x));
     position.y = Math.max(minY, Math.min(maxY, position.y));
@@ -354,13 +1164,13 @@ const Coordinator: React.FC = () => {
     }
 
     return position;
-  }, [selectedWorkflow]);
+  }, [selectedWorkflow, viewport, canvasSize]);
 
   // Add node to workflow
-  const addNode = useCallback((type: string, position: { x: number; y: number }) => {
+  const addNode = useCallback((type: string, position: { x: number; y: number }, data?: WorkflowNode['data']) => {
     if (!selectedWorkflow) return;
 
-    const nodeType = nodeTypes.find(nt => nt.type === type);
+    const nodeType = NODE_TYPES.find(nt => nt.type === type);
     if (!nodeType) return;
 
     // Calculate optimal position to avoid overlap
@@ -370,37 +1180,49 @@ const Coordinator: React.FC = () => {
       id: `node_${Date.now()}`,
       type: type as any,
       position: optimalPosition,
-      data: {
+      data: data ?? {
         label: nodeType.label,
         description: `${nodeType.label} node`,
         config: {}, // Initialize config as empty object
       },
     };
 
-    setSelectedWorkflow(prev => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        nodes: [...prev.nodes, newNode],
-        updated_at: new Date(),
-      };
-    });
-  }, [selectedWorkflow, nodeTypes, calculateOptimalPosition]);
+    editHistory.execute(addNodeCommand(newNode));
+  }, [selectedWorkflow, calculateOptimalPosition, editHistory]);
 
   // Handle canvas drop
   const handleCanvasDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     if (!draggedNode || !canvasRef.current) return;
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const position = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
-    };
-
-    addNode(draggedNode.type, position);
+    const position = toWorldPoint(e.clientX, e.clientY);
+
+    if (draggedNodePosition) {
+      // Moving an existing node: centre it under the cursor
+      const to = { x: Math.max(0, position.x - NODE_WIDTH / 2), y: Math.max(0, position.y - NODE_HEIGHT / 2) };
+      const from = { x: draggedNodePosition.x, y: draggedNodePosition.y };
+      if (to.x !== from.x || to.y !== from.y) {
+        if (selectedWorkflow && selectedNodeIds.size > 1 && selectedNodeIds.has(draggedNodePosition.id)) {
+          // Dragging one selected node moves the whole selection
+          const moves = selectedWorkflow.nodes
+            .filter(node => selectedNodeIds.has(node.id))
+            .map(node => ({
+              nodeId: node.id,
+              from: node.position,
+              to: { x: Math.max(0, node.position.x + to.x - from.x), y: Math.max(0, node.position.y + to.y - from.y) },
+            }));
+          editHistory.execute(moveNodesCommand(moves));
+        } else {
+          editHistory.execute(moveNodeCommand(draggedNodePosition.id, from, to));
+        }
+      }
+      setDraggedNodePosition(null);
+    } else {
+      // Library entries carry their sub-workflow definition
+      addNode(draggedNode.type, position, draggedNode.type === 'subworkflow' ? draggedNode.data : undefined);
+    }
     setDraggedNode(null);
-  }, [draggedNode, addNode]);
+  }, [draggedNode, draggedNodePosition, addNode, editHistory, toWorldPoint, selectedWorkflow, selectedNodeIds]);
 
   // Handle drag over
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -410,36 +1232,58 @@ const Coordinator: React.FC = () => {
   // Handle node drag start
   const handleNodeDragStart = useCallback((node: WorkflowNode) => {
     setDraggedNode(node);
+    setDraggedNodePosition({ id: node.id, x: node.position.x, y: node.position.y });
   }, []);
 
-  // Calculate connection path between two nodes
-  const calculateConnectionPath = useCallback((sourceNode: WorkflowNode, targetNode: WorkflowNode) => {
-    // Use node center positions (nodes are 160px wide, 80px high)
-    const sourceX = sourceNode.position.x + 80;
-    const sourceY = sourceNode.position.y + 80; // Bottom of source node
-    const targetX = targetNode.position.x + 80;
-    const targetY = targetNode.position.y; // Top of target node
-
-    // Calculate control points for smooth curved line
-    const dx = targetX - sourceX;
-    const dy = targetY - sourceY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    // Control point offset based on distance (minimum 60px for nice curves)
-    const offset = Math.max(Math.min(distance * 0.4, 120), 60);
-
-    // Control points for vertical flow
-    const cp1x = sourceX;
-    const cp1y = sourceY + offset;
-    const cp2x = targetX;
-    const cp2y = targetY - offset;
-
-    return `M ${sourceX} ${sourceY} C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${targetX} ${targetY}`;
-  }, []);
+  // Calculate connection path between the two handles of a connection
+  const calculateConnectionPath = useCallback((
+    sourceNode: WorkflowNode,
+    targetNode: WorkflowNode,
+    connection: Pick<WorkflowConnection, 'sourceHandle' | 'targetHandle' | 'route'>
+  ) => {
+    // Connections saved without handles run from the bottom to the top
+    const sourcePort = getHandlePort(connection.sourceHandle, sourceNode.id);
+    const targetPort = getHandlePort(connection.targetHandle, targetNode.id);
+    const findHandle = (node: WorkflowNode, port: string, fallback: string) => {
+      const handles = generateConnectionHandles(node);
+      return handles.find(handle => handle.id === `${node.id}-${port}`) ?? handles.find(handle => handle.id === `${node.id}-${fallback}`)!;
+    };
+    const source = findHandle(sourceNode, sourcePort, 'bottom');
+    const target = findHandle(targetNode, targetPort, 'top');
+    const route = getActiveRoute(connection, sourceNode.position, targetNode.position);
+
+    return buildConnectionPath(
+      { position: source.position, port: getHandlePort(source.id, sourceNode.id) },
+      { position: target.position, port: getHandlePort(target.id, targetNode.id) },
+      route?.waypoints
+    );
+  }, [generateConnectionHandles]);
+
+  // Download the selected workflow as a versioned JSON file or as a diagram
+  const handleExportWorkflow = useCallback((format: 'json' | DiagramFormat) => {
+    if (!selectedWorkflow) return;
+    setShowExportMenu(false);
+
+    const [content, type, extension] =
+      format === 'mermaid' ? [exportMermaid(selectedWorkflow), 'text/plain', 'mmd'] :
+      format === 'dot' ? [exportDot(selectedWorkflow), 'text/vnd.graphviz', 'dot'] :
+      format === 'svg' ? [exportSvg(selectedWorkflow, { connectionPath: calculateConnectionPath }), 'image/svg+xml', 'svg'] :
+      [exportWorkflow(selectedWorkflow), 'application/json', 'workflow.json'];
+
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${selectedWorkflow.name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'workflow'}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [selectedWorkflow, calculateConnectionPath]);
 
   // Create connection between handles
-  const createConnectionFromHandles = useCallback((sourceHandle: ConnectionHandle, targetHandle: ConnectionHandle) => {
+  const createConnectionFromHandles = useCallback((from: ConnectionHandle, to: ConnectionHandle) => {
     if (!selectedWorkflow) return;
+    // Drags may start at either end; connections always run from the output to the input
+    const [sourceHandle, targetHandle] = from.type === 'input' ? [to, from] : [from, to];
 
     // Find the nodes
     const sourceNode = selectedWorkflow.nodes.find(n => n.id === sourceHandle.nodeId);
@@ -448,7 +1292,7 @@ const Coordinator: React.FC = () => {
     if (!sourceNode || !targetNode) return;
 
     const connectionId = `conn_${sourceHandle.id}_${targetHandle.id}`;
-    const path = calculateConnectionPath(sourceNode, targetNode);
+    const path = calculateConnectionPath(sourceNode, targetNode, { sourceHandle: sourceHandle.id, targetHandle: targetHandle.id });
 
     const newConnection: WorkflowConnection = {
       id: connectionId,
@@ -461,46 +1305,40 @@ const Coordinator: React.FC = () => {
 
     // Check for duplicate connections
     const existingConnection = selectedWorkflow.connections.find(conn => 
-      conn.sourceId === sourceNode.id && conn.targetId === targetNode.id
+      conn.sourceId === sourceNode.id && conn.targetId === targetNode.id && conn.sourceHandle === sourceHandle.id
     );
 
     if (existingConnection) return;
 
-    setSelectedWorkflow(prev => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        connections: [...prev.connections, newConnection],
-        updated_at: new Date(),
-      };
-    });
-  }, [selectedWorkflow, calculateConnectionPath]);
+    editHistory.execute(addConnectionCommand(newConnection));
+  }, [selectedWorkflow, calculateConnectionPath, editHistory]);
 
   // Handle connection drag start
   const handleConnectionStart = useCallback((handle: ConnectionHandle, event: React.MouseEvent) => {
     if (!canvasRef.current) return;
 
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mousePosition = {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top
-    };
-
-    startConnection(handle, mousePosition);
-  }, [startConnection]);
+    startConnection(handle, toWorldPoint(event.clientX, event.clientY));
+  }, [startConnection, toWorldPoint]);
 
   // Handle mouse move during connection drag
   const handleCanvasMouseMove = useCallback((e: React.MouseEvent) => {
     if (!isConnecting || !canvasRef.current) return;
-    
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mousePosition = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top
-    };
 
-    updateConnection(mousePosition, allHandles);
-  }, [isConnecting, allHandles, updateConnection]);
+    updateConnection(toWorldPoint(e.clientX, e.clientY), allHandles);
+  }, [isConnecting, allHandles, updateConnection, toWorldPoint]);
+
+  // Drag on empty canvas pans, Shift+drag selects; nodes, handles and controls keep their own mouse handling
+  const handleCanvasMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0 || isConnecting) return;
+    if (!(e.target as HTMLElement).hasAttribute('data-canvas-background')) return;
+    e.preventDefault();
+    if (e.shiftKey) {
+      startSelection(e);
+      return;
+    }
+    setSelectedNodeIds(new Set());
+    startPan(e);
+  }, [isConnecting, startPan, startSelection]);
 
   // Handle mouse up to complete connection
   const handleCanvasMouseUp = useCallback(() => {
@@ -510,26 +1348,68 @@ const Coordinator: React.FC = () => {
   }, [isConnecting, completeConnection, createConnectionFromHandles]);
 
   // Handle node click for configuration
-  const handleNodeClick = useCallback((node: WorkflowNode) => {
-    setSelectedNode(node);
+  // Shift/Ctrl+click adds or removes a node from the selection, a plain click configures it
+  const handleNodeClick = useCallback((node: WorkflowNode, event?: React.MouseEvent) => {
+    if (event && (event.shiftKey || event.ctrlKey || event.metaKey)) {
+      setSelectedNodeIds(prev => {
+        const next = new Set(prev);
+        if (!next.delete(node.id)) next.add(node.id);
+        return next;
+      });
+      return;
+    }
+    setSelectedNodeIds(new Set([node.id]));
+    setSelectedNodeId(node.id);
     setShowConfigPanel(true);
   }, []);
 
   // Update node configuration
   const updateNodeConfig = useCallback((nodeId: string, config: Record<string, any>) => {
-    if (!selectedWorkflow) return;
+    const node = selectedWorkflow?.nodes.find(n => n.id === nodeId);
+    if (!node) return;
 
-    setSelectedWorkflow(prev => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        nodes: prev.nodes.map(node =>
-          node.id === nodeId ? { ...node, data: { ...node.data, config } } : node
-        ),
-        updated_at: new Date(),
-      };
+    editHistory.execute(updateNodeDataCommand(nodeId, node.data, { ...node.data, config }));
+  }, [selectedWorkflow, editHistory]);
+
+  // Static checks shown on the canvas; errors block execution
+  const validationIssues = useMemo(
+    () => selectedWorkflow ? validateWorkflow(selectedWorkflow) : [],
+    [selectedWorkflow]
+  );
+  const issuesByNode = useMemo(() => {
+    const byNode = new Map<string, WorkflowIssue[]>();
+    validationIssues.forEach(issue => {
+      if (issue.nodeId) byNode.set(issue.nodeId, [...(byNode.get(issue.nodeId) || []), issue]);
     });
-  }, [selectedWorkflow]);
+    return byNode;
+  }, [validationIssues]);
+  const invalidConnectionIds = useMemo(
+    () => new Set(validationIssues.flatMap(issue => issue.connectionId ? [issue.connectionId] : [])),
+    [validationIssues]
+  );
+  const [showValidationIssues, setShowValidationIssues] = useState(false);
+
+  // Parse error for the condition expression being edited
+  const conditionError = useMemo(() => {
+    const condition = selectedNode?.type === 'condition' ? configString(selectedNode.data.config, 'condition') : '';
+    return condition ? validateExpression(condition) : null;
+  }, [selectedNode]);
+
+  // Trigger settings of the trigger node being edited, with defaults filled in
+  const triggerConfig = useMemo(
+    () => selectedNode?.type === 'trigger' ? getTriggerConfig(selectedNode) : null,
+    [selectedNode]
+  );
+  const triggerError = triggerConfig ? validateTriggerConfig(triggerConfig) : null;
+
+  const updateTriggerConfig = useCallback((changes: Record<string, unknown>) => {
+    if (!selectedNode) return;
+    const config = { ...(selectedNode.data.config || {}), ...changes };
+    if (changes.intervalMinutes !== undefined) {
+      config.intervalMinutes = changes.intervalMinutes === '' ? undefined : Number(changes.intervalMinutes);
+    }
+    updateNodeConfig(selectedNode.id, config);
+  }, [selectedNode, updateNodeConfig]);
 
   // Interact with agent
   const handleAgentInteraction = useCallback(async (agentId: string) => {
@@ -545,7 +1425,7 @@ const Coordinator: React.FC = () => {
     ]);
 
     try {
-      const response = await sendMessageToAgent(agentId, userMessage);
+      const response = await sendMessageToAgent(agentId, userMessage, undefined, interactionDecoding);
       
       // Add agent response to history
       setInteractionHistory(prev => [
@@ -564,14 +1444,16 @@ const Coordinator: React.FC = () => {
         }
       ]);
     }
-  }, [interactionMessage]);
+  }, [interactionMessage, interactionDecoding]);
 
-  // Open interaction panel for specific agent
+  // Open interaction panel for specific agent, starting from its node's decoding preset
   const openAgentInteraction = useCallback((agentId: string) => {
+    const node = selectedWorkflow?.nodes.find(n => n.data.config?.agentId === agentId);
     setSelectedAgentForInteraction(agentId);
     setShowInteractionPanel(true);
     setInteractionHistory([]);
-  }, []);
+    setInteractionDecoding(getDecodingPresetSettings(node?.data.config?.decodingPreset));
+  }, [selectedWorkflow?.nodes]);
 
   if (!isConnected) {
     return (
@@ -614,6 +1496,13 @@ const Coordinator: React.FC = () => {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
               </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="px-4 py-2 bg-surface-light border border-border text-text-primary rounded-lg hover:border-secondary transition-all duration-300"
+                title="Import a workflow JSON file or a Mermaid flowchart"
+              >
+                Import
+              </button>
               <button
                 onClick={createWorkflow}
                 className="px-4 py-2 bg-gradient-to-r from-secondary to-accent text-white rounded-lg hover:shadow-lg transition-all duration-300 flex items-center gap-2"
@@ -636,16 +1525,19 @@ const Coordinator: React.FC = () => {
               <h3 className="text-lg font-bold text-text-primary mb-4">Node Palette</h3>
 
               <div className="space-y-3">
-                {nodeTypes.map((nodeType) => (
+                {NODE_TYPES.filter(nodeType => nodeType.type !== 'subworkflow').map((nodeType) => (
                   <div
                     key={nodeType.type}
                     draggable
-                    onDragStart={() => setDraggedNode({
-                      id: '',
-                      type: nodeType.type as any,
-                      position: { x: 0, y: 0 },
-                      data: { label: nodeType.label },
-                    })}
+                    onDragStart={() => {
+                      setDraggedNodePosition(null);
+                      setDraggedNode({
+                        id: '',
+                        type: nodeType.type as any,
+                        position: { x: 0, y: 0 },
+                        data: { label: nodeType.label },
+                      });
+                    }}
                     className={`p-4 rounded-xl border border-border cursor-move hover:shadow-lg transition-all duration-300 bg-gradient-to-r ${nodeType.color}`}
                   >
                     <div className="flex items-center gap-3">
@@ -659,6 +1551,42 @@ const Coordinator: React.FC = () => {
                 ))}
               </div>
 
+              {/* Sub-workflow Library */}
+              {libraryEntries.length > 0 && (
+                <div className="mt-6 pt-6 border-t border-border">
+                  <h4 className="text-sm font-bold text-text-primary mb-3">My Sub-workflows</h4>
+                  <div className="space-y-2">
+                    {libraryEntries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        draggable
+                        onDragStart={() => {
+                          setDraggedNodePosition(null);
+                          setDraggedNode(createSubworkflowNode(entry.name, entry.definition, { x: 0, y: 0 }));
+                        }}
+                        className="p-3 rounded-lg border border-border cursor-move hover:bg-surface-light"
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <div className="font-medium text-text-primary text-sm">📦 {entry.name}</div>
+                            <div className="text-xs text-text-secondary">
+                              {entry.definition.nodes.length} steps • {entry.definition.inputs.length} in / {entry.definition.outputs.length} out
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => deleteLibraryEntry(entry)}
+                            className="text-text-secondary hover:text-accent-error text-xs"
+                            title="Remove from library"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Workflow List */}
               <div className="mt-6 pt-6 border-t border-border">
                 <h4 className="text-sm font-bold text-text-primary mb-3">Your Workflows</h4>
@@ -673,9 +1601,23 @@ const Coordinator: React.FC = () => {
                           : 'hover:bg-surface-light'
                       }`}
                     >
-                      <div className="font-medium text-text-primary text-sm">{workflow.name}</div>
-                      <div className="text-xs text-text-secondary">
-                        {workflow.nodes.length} nodes • {workflow.status}
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="font-medium text-text-primary text-sm">{workflow.name}</div>
+                          <div className="text-xs text-text-secondary">
+                            {workflow.nodes.length} nodes • {workflow.status}
+                          </div>
+                        </div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteWorkflow(workflow);
+                          }}
+                          className="text-text-secondary hover:text-accent-error text-xs"
+                          title="Delete workflow"
+                        >
+                          ✕
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -719,8 +1661,84 @@ const Coordinator: React.FC = () => {
                         {selectedWorkflow.status}
                       </span>
 
-                      <button className="px-4 py-2 bg-secondary text-white rounded-lg hover:shadow-lg transition-all duration-300">
-                        Save Workflow
+                      <button
+                        onClick={editHistory.undo}
+                        disabled={!editHistory.canUndo}
+                        className="px-3 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors disabled:opacity-50"
+                        title={editHistory.undoLabel ? `Undo ${editHistory.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                      >
+                        Undo
+                      </button>
+
+                      <button
+                        onClick={editHistory.redo}
+                        disabled={!editHistory.canRedo}
+                        className="px-3 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors disabled:opacity-50"
+                        title={editHistory.redoLabel ? `Redo ${editHistory.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                      >
+                        Redo
+                      </button>
+
+                      <div className="relative">
+                        <button
+                          onClick={() => setShowExportMenu(open => !open)}
+                          className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+                        >
+                          Export ▾
+                        </button>
+                        {showExportMenu && (
+                          <div className="absolute right-0 mt-1 w-48 bg-surface border border-border rounded-lg shadow-lg z-30 py-1">
+                            {([
+                              ['json', 'Workflow file (JSON)'],
+                              ['mermaid', 'Mermaid flowchart'],
+                              ['dot', 'Graphviz DOT'],
+                              ['svg', 'SVG snapshot'],
+                            ] as const).map(([format, label]) => (
+                              <button
+                                key={format}
+                                onClick={() => handleExportWorkflow(format)}
+                                className="block w-full text-left px-3 py-2 text-sm text-text-primary hover:bg-surface-light"
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      <button
+                        onClick={openVersionsPanel}
+                        className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+                      >
+                        History
+                      </button>
+
+                      <button
+                        onClick={() => {
+                          setShowVariablesPanel(false);
+                          setShowRunsPanel(prev => !prev);
+                        }}
+                        className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+                      >
+                        Runs
+                      </button>
+
+                      <button
+                        onClick={() => {
+                          setShowRunsPanel(false);
+                          setShowVariablesPanel(prev => !prev);
+                        }}
+                        className="px-4 py-2 bg-surface-light text-text-primary rounded-lg hover:bg-surface-light/80 transition-colors"
+                      >
+                        Variables
+                      </button>
+
+                      <button
+                        onClick={saveWorkflow}
+                        disabled={isSavingWorkflow}
+                        className="px-4 py-2 bg-secondary text-white rounded-lg hover:shadow-lg transition-all duration-300 disabled:opacity-50"
+                      >
+                        {isSavingWorkflow ? 'Saving...' : 'Save Workflow'}
                       </button>
                     </div>
                   )}
@@ -750,18 +1768,26 @@ const Coordinator: React.FC = () => {
                 ) : (
                   <div
                     ref={canvasRef}
-                    className="w-full h-full bg-gradient-to-br from-primary/50 to-primary relative"
+                    data-canvas-background
+                    className={`w-full h-full bg-gradient-to-br from-primary/50 to-primary relative overflow-hidden ${
+                      isPanning ? 'cursor-grabbing' : 'cursor-grab'
+                    }`}
                     onDrop={handleCanvasDrop}
                     onDragOver={handleDragOver}
+                    onMouseDown={handleCanvasMouseDown}
                     onMouseMove={handleCanvasMouseMove}
                     onMouseUp={handleCanvasMouseUp}
                   >
                     {/* Connection Status Indicator */}
                     {isConnecting && dragConnection && (
-                      <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-green-500/90 text-white px-4 py-2 rounded-lg shadow-lg z-10 flex items-center gap-2">
+                      <div className={`absolute top-4 left-1/2 transform -translate-x-1/2 ${
+                        snapTarget && !snapTarget.isValid ? 'bg-red-500/90' : 'bg-green-500/90'
+                      } text-white px-4 py-2 rounded-lg shadow-lg z-10 flex items-center gap-2`}>
                         <div className="w-2 h-2 bg-white rounded-full animate-ping"></div>
                         <span className="text-sm font-medium">
-                          {snapTarget ? 'Release to connect' : 'Drag to an input handle to connect'}
+                          {snapTarget
+                            ? snapTarget.isValid ? 'Release to connect' : `Cannot connect: ${snapTarget.reason}`
+                            : 'Drag to an input handle to connect'}
                         </span>
                         <button
                           onClick={cancelConnection}
@@ -772,11 +1798,17 @@ const Coordinator: React.FC = () => {
                       </div>
                     )}
 
-                    {/* Grid Background */}
-                    <div className="absolute inset-0 opacity-20">
+                    {/* Grid Background, moves and scales with the canvas */}
+                    <div className="absolute inset-0 opacity-20 pointer-events-none">
                       <svg width="100%" height="100%" className="text-border">
                         <defs>
-                          <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
+                          <pattern
+                            id="grid"
+                            width="20"
+                            height="20"
+                            patternUnits="userSpaceOnUse"
+                            patternTransform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.zoom})`}
+                          >
                             <path d="M 20 0 L 0 0 0 20" fill="none" stroke="currentColor" strokeWidth="0.5"/>
                           </pattern>
                         </defs>
@@ -784,6 +1816,12 @@ const Coordinator: React.FC = () => {
                       </svg>
                     </div>
 
+                    {/* Zoomed and panned layer; nodes, handles and connections share its coordinates */}
+                    <div
+                      data-canvas-background
+                      className="absolute inset-0 origin-top-left"
+                      style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+                    >
                     {/* Render Nodes with Connection Handles */}
                     {selectedWorkflow.nodes.map((node) => {
                       const nodeType = nodeTypeMap.get(node.type);
@@ -796,13 +1834,19 @@ const Coordinator: React.FC = () => {
                           nodeType={nodeType}
                           handles={nodeHandles}
                           isConnecting={isConnecting}
+                          connectionSource={dragConnection?.sourceHandle}
                           hoveredHandle={hoveredHandle}
                           snapTarget={snapTarget}
+                          issues={issuesByNode.get(node.id)}
+                          runState={debugSession?.nodeStates[node.id]}
+                          hasBreakpoint={workflowDebugger.breakpoints.has(node.id)}
+                          isSelected={selectedNodeIds.has(node.id)}
                           onNodeClick={handleNodeClick}
                           onNodeDragStart={handleNodeDragStart}
                           onConnectionStart={handleConnectionStart}
                           onHandleMouseEnter={handleMouseHandlers.onHandleMouseEnter}
                           onHandleMouseLeave={handleMouseHandlers.onHandleMouseLeave}
+                          onToggleBreakpoint={workflowDebugger.toggleBreakpoint}
                         />
                       );
                     })}
@@ -812,22 +1856,78 @@ const Coordinator: React.FC = () => {
                       connections={selectedWorkflow.connections}
                       nodes={selectedWorkflow.nodes}
                       dragConnection={dragConnection}
+                      isDragRejected={snapTarget ? !snapTarget.isValid : false}
+                      invalidConnectionIds={invalidConnectionIds}
                       onDeleteConnection={(connectionId) => {
-                        setSelectedWorkflow(prev => {
-                          if (!prev) return prev;
-                          return {
-                            ...prev,
-                            connections: prev.connections.filter(c => c.id !== connectionId),
-                            updated_at: new Date(),
-                          };
-                        });
+                        const index = selectedWorkflow.connections.findIndex(c => c.id === connectionId);
+                        if (index === -1) return;
+                        editHistory.execute(deleteConnectionCommand(selectedWorkflow.connections[index], index));
                       }}
                       calculateConnectionPath={calculateConnectionPath}
                     />
 
+                    {/* Rubber-band selection */}
+                    {selectionBox && (
+                      <div
+                        className="absolute border border-secondary-light bg-secondary/10 pointer-events-none"
+                        style={{ left: selectionBox.x, top: selectionBox.y, width: selectionBox.width, height: selectionBox.height }}
+                      />
+                    )}
+                    </div>
+
+                    {/* Selection Toolbar */}
+                    {selectedNodeIds.size > 0 && (
+                      <div className="absolute top-4 right-4 z-10 flex items-center gap-1 bg-surface/90 border border-border rounded-lg shadow-lg p-1 text-sm text-text-primary">
+                        <span className="px-2 text-text-secondary">{selectedNodeIds.size} selected</span>
+                        <button onClick={copySelection} className="px-2 py-1 rounded hover:bg-surface-light" title="Copy (Ctrl+C)">
+                          Copy
+                        </button>
+                        <button onClick={groupSelection} className="px-2 py-1 rounded hover:bg-surface-light" title="Group into a sub-workflow (Ctrl+G)">
+                          Group
+                        </button>
+                        <button onClick={() => setSelectedNodeIds(new Set())} className="px-2 py-1 rounded hover:bg-surface-light" title="Clear selection (Esc)">
+                          ✕
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Zoom Controls */}
+                    <div className="absolute bottom-4 left-4 z-10 flex items-center gap-1 bg-surface/90 border border-border rounded-lg shadow-lg p-1 text-sm text-text-primary">
+                      <button onClick={zoomOut} className="px-2 py-1 rounded hover:bg-surface-light" title="Zoom out">−</button>
+                      <button onClick={resetZoom} className="w-14 py-1 rounded hover:bg-surface-light" title="Reset to 100%">
+                        {Math.round(viewport.zoom * 100)}%
+                      </button>
+                      <button onClick={zoomIn} className="px-2 py-1 rounded hover:bg-surface-light" title="Zoom in">+</button>
+                      <button
+                        onClick={fitToScreen}
+                        disabled={selectedWorkflow.nodes.length === 0}
+                        className="px-2 py-1 rounded hover:bg-surface-light disabled:opacity-50"
+                        title="Fit to screen (F)"
+                      >
+                        Fit
+                      </button>
+                      <button
+                        onClick={autoLayout}
+                        disabled={selectedWorkflow.nodes.length === 0}
+                        className="px-2 py-1 rounded hover:bg-surface-light disabled:opacity-50"
+                        title="Arrange nodes left to right by depth (L)"
+                      >
+                        Auto layout
+                      </button>
+                    </div>
+
+                    {selectedWorkflow.nodes.length > 0 && canvasSize.width > 0 && (
+                      <WorkflowMinimap
+                        nodes={selectedWorkflow.nodes}
+                        viewport={viewport}
+                        canvasSize={canvasSize}
+                        onNavigate={centerAt}
+                      />
+                    )}
+
                     {/* Empty State */}
                     {selectedWorkflow.nodes.length === 0 && (
-                      <div className="absolute inset-0 flex items-center justify-center">
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                         <div className="text-center text-text-secondary">
                           <p className="text-lg mb-2">Drag nodes here to build your workflow</p>
                           <p className="text-sm">Start with a trigger, add agents, and connect them with actions</p>
@@ -843,23 +1943,25 @@ const Coordinator: React.FC = () => {
                 <div className="border-t border-border p-4">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
-                      {selectedWorkflow.status === 'active' ? (
+                      {runningWorkflowIds.has(selectedWorkflow.id) ? (
                         <>
                           <div className="px-4 py-2 bg-accent-success/20 text-accent-success rounded-lg flex items-center gap-2">
                             <div className="w-2 h-2 bg-accent-success rounded-full animate-pulse"></div>
                             Running
                           </div>
-                          <button 
-                            onClick={stopWorkflow}
+                          <button
+                            onClick={() => stopWorkflow(selectedWorkflow.id)}
+                            title="Stop starting new nodes and discard results still in flight"
                             className="px-4 py-2 bg-accent-error/20 text-accent-error rounded-lg hover:bg-accent-error/30 transition-colors"
                           >
-                            Stop Workflow
+                            Stop
                           </button>
                         </>
                       ) : (
                         <button 
                           onClick={executeWorkflow}
-                          disabled={selectedWorkflow.nodes.length === 0}
+                          disabled={selectedWorkflow.nodes.length === 0 || hasBlockingIssues(validationIssues)}
+                          title={hasBlockingIssues(validationIssues) ? 'Fix the errors shown on the canvas first' : undefined}
                           className="px-4 py-2 bg-accent-success/20 text-accent-success rounded-lg hover:bg-accent-success/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                         >
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -868,16 +1970,87 @@ const Coordinator: React.FC = () => {
                           Execute Workflow
                         </button>
                       )}
+                      {!runningWorkflowIds.has(selectedWorkflow.id) && (
+                        <button
+                          onClick={debugWorkflow}
+                          disabled={selectedWorkflow.nodes.length === 0 || hasBlockingIssues(validationIssues)}
+                          title="Run one node at a time, pausing before each node and at breakpoints"
+                          className="px-4 py-2 bg-accent-warning/20 text-accent-warning rounded-lg hover:bg-accent-warning/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Debug
+                        </button>
+                      )}
+                      {selectedWorkflow.status === 'active' ? (
+                        <button 
+                          onClick={() => setWorkflowActive(false)}
+                          className="px-4 py-2 bg-accent-warning/20 text-accent-warning rounded-lg hover:bg-accent-warning/30 transition-colors"
+                          title="Stop schedule and event triggers from starting runs"
+                        >
+                          Pause Triggers
+                        </button>
+                      ) : (
+                        <button 
+                          onClick={() => setWorkflowActive(true)}
+                          disabled={!selectedWorkflow.nodes.some(node => node.type === 'trigger')}
+                          className="px-4 py-2 bg-secondary/20 text-secondary rounded-lg hover:bg-secondary/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Run automatically when schedule or event triggers fire"
+                        >
+                          Activate Triggers
+                        </button>
+                      )}
                     </div>
 
                     <div className="flex items-center gap-4 text-sm text-text-secondary">
+                      {validationIssues.length > 0 && (
+                        <>
+                          <button
+                            onClick={() => setShowValidationIssues(prev => !prev)}
+                            className={hasBlockingIssues(validationIssues) ? 'text-accent-error' : 'text-accent-warning'}
+                          >
+                            {validationIssues.filter(issue => issue.severity === 'error').length} errors,{' '}
+                            {validationIssues.filter(issue => issue.severity === 'warning').length} warnings
+                          </button>
+                          <span>•</span>
+                        </>
+                      )}
                       <span>Execution Time: 0s</span>
                       <span>•</span>
-                      <span>Status: Ready</span>
+                      <span>Status: {runningWorkflowIds.has(selectedWorkflow.id)
+                        ? 'Running'
+                        : selectedWorkflow.status === 'active' ? 'Listening for triggers' : 'Ready'}</span>
                     </div>
                   </div>
+
+                  {showValidationIssues && validationIssues.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-xs">
+                      {validationIssues.map((issue, index) => (
+                        <li key={index}>
+                          <button
+                            onClick={() => issue.nodeId && handleNodeClick(selectedWorkflow.nodes.find(n => n.id === issue.nodeId)!)}
+                            className={`text-left hover:underline ${
+                              issue.severity === 'error' ? 'text-accent-error' : 'text-accent-warning'
+                            }`}
+                          >
+                            {issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
+
+              {/* Run / Debugger Panel */}
+              {selectedWorkflow && debugSession && (
+                <WorkflowDebugPanel
+                  session={debugSession}
+                  workflow={selectedWorkflow}
+                  onStep={workflowDebugger.step}
+                  onContinue={workflowDebugger.continueRun}
+                  onStop={() => stopWorkflow(selectedWorkflow.id)}
+                  onClose={workflowDebugger.close}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -912,12 +2085,16 @@ const Coordinator: React.FC = () => {
                         className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
                         placeholder="Enter detailed instructions for the agent..."
                         rows={4}
-                        value={selectedNode?.data?.config?.instructions || ''}
+                        value={configString(selectedConfig, 'instructions') || ''}
                         onChange={(e) => {
                           const newConfig = { ...(selectedNode?.data?.config || {}), instructions: e.target.value };
                           updateNodeConfig(selectedNode?.id || '', newConfig);
                         }}
                       />
+                      <p className="text-xs text-text-secondary mt-1">
+                        Pull in data with <code>{'{{nodes.<name>.output}}'}</code>, <code>{'{{trigger.payload.<field>}}'}</code>{' '}
+                        or <code>{'{{vars.<name>}}'}</code>. Without placeholders, every upstream output is appended.
+                      </p>
                     </div>
                     
                     <div>
@@ -928,7 +2105,7 @@ const Coordinator: React.FC = () => {
                         type="text"
                         className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
                         placeholder="e.g., data_analysis, communication, automation"
-                        value={(selectedNode?.data?.config?.capabilities || []).join(', ')}
+                        value={configStrings(selectedConfig, 'capabilities').join(', ')}
                         onChange={(e) => {
                           const capabilities = e.target.value.split(',').map(s => s.trim()).filter(s => s);
                           const newConfig = { ...(selectedNode?.data?.config || {}), capabilities };
@@ -943,7 +2120,7 @@ const Coordinator: React.FC = () => {
                       </label>
                       <select
                         className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
-                        value={selectedNode?.data?.config?.priority || 'normal'}
+                        value={configString(selectedConfig, 'priority') || 'normal'}
                         onChange={(e) => {
                           const newConfig = { ...(selectedNode?.data?.config || {}), priority: e.target.value };
                           updateNodeConfig(selectedNode?.id || '', newConfig);
@@ -956,7 +2133,25 @@ const Coordinator: React.FC = () => {
                       </select>
                     </div>
 
-                    {selectedNode?.data?.config?.agentId && (
+                    <div>
+                      <label className="block text-sm font-medium text-text-primary mb-2">
+                        Decoding
+                      </label>
+                      <select
+                        className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
+                        value={String(selectedNode?.data?.config?.decodingPreset || 'balanced')}
+                        onChange={(e) => {
+                          const newConfig = { ...(selectedNode?.data?.config || {}), decodingPreset: e.target.value };
+                          updateNodeConfig(selectedNode?.id || '', newConfig);
+                        }}
+                      >
+                        {DECODING_PRESET_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {configString(selectedConfig, 'agentId') && (
                       <div className="p-3 bg-accent-success/20 rounded-lg">
                         <div className="flex items-center justify-between">
                           <div>
@@ -965,20 +2160,20 @@ const Coordinator: React.FC = () => {
                               <span className="text-sm text-accent-success font-medium">Agent Created</span>
                             </div>
                             <p className="text-xs text-accent-success mt-1">
-                              ID: {selectedNode.data.config.agentId}
+                              ID: {configString(selectedConfig, 'agentId')}
                             </p>
                           </div>
                           <button
-                            onClick={() => openAgentInteraction(selectedNode.data.config?.agentId || '')}
+                            onClick={() => openAgentInteraction(configString(selectedConfig, 'agentId') || '')}
                             className="px-3 py-1 bg-accent-success/30 text-accent-success rounded text-xs hover:bg-accent-success/40 transition-colors"
                           >
                             Chat
                           </button>
                         </div>
-                        {selectedNode.data.config.lastResponse && (
+                        {configString(selectedConfig, 'lastResponse') && (
                           <div className="mt-2 p-2 bg-primary/50 rounded text-xs">
                             <div className="text-text-secondary mb-1">Last Response:</div>
-                            <div className="text-text-primary">{selectedNode.data.config.lastResponse}</div>
+                            <div className="text-text-primary">{configString(selectedConfig, 'lastResponse')}</div>
                           </div>
                         )}
                       </div>
@@ -986,24 +2181,126 @@ const Coordinator: React.FC = () => {
                   </div>
                 )}
 
-                {selectedNode?.type === 'trigger' && (
-                  <div>
-                    <label className="block text-sm font-medium text-text-primary mb-2">
-                      Trigger Type
-                    </label>
-                    <select
-                      className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
-                      value={selectedNode?.data?.config?.triggerType || 'manual'}
-                      onChange={(e) => {
-                        const newConfig = { ...(selectedNode?.data?.config || {}), triggerType: e.target.value };
-                        updateNodeConfig(selectedNode?.id || '', newConfig);
-                      }}
-                    >
-                      <option value="manual">Manual</option>
-                      <option value="timer">Timer</option>
-                      <option value="webhook">Webhook</option>
-                      <option value="event">Event</option>
-                    </select>
+                {selectedNode?.type === 'trigger' && triggerConfig && (
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-text-primary mb-2">
+                        Trigger Type
+                      </label>
+                      <select
+                        className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
+                        value={triggerConfig.triggerType}
+                        onChange={(e) => updateTriggerConfig({ triggerType: e.target.value })}
+                      >
+                        <option value="manual">Manual</option>
+                        <option value="schedule">Schedule</option>
+                        <option value="event">Event</option>
+                      </select>
+                    </div>
+
+                    {triggerConfig.triggerType === 'manual' && (
+                      <div>
+                        <label className="block text-sm font-medium text-text-primary mb-2">
+                          Payload
+                        </label>
+                        <textarea
+                          className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary font-mono text-sm"
+                          placeholder='{"topic": "quarterly report"}'
+                          rows={4}
+                          value={triggerConfig.payload || ''}
+                          onChange={(e) => updateTriggerConfig({ payload: e.target.value })}
+                        />
+                        <p className="text-xs text-text-secondary mt-1">
+                          JSON is passed to the next nodes as data; anything else is passed as text.
+                        </p>
+                        <button
+                          onClick={() => runTriggerWithPayload(selectedNode)}
+                          disabled={!selectedWorkflow || runningWorkflowIds.has(selectedWorkflow.id)}
+                          className="mt-2 px-3 py-2 bg-accent-success/20 text-accent-success rounded-lg hover:bg-accent-success/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                        >
+                          Run with this payload
+                        </button>
+                      </div>
+                    )}
+
+                    {triggerConfig.triggerType === 'schedule' && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-text-primary mb-2">
+                            Schedule
+                          </label>
+                          <select
+                            className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
+                            value={triggerConfig.scheduleMode}
+                            onChange={(e) => updateTriggerConfig({ scheduleMode: e.target.value })}
+                          >
+                            <option value="interval">Every N minutes</option>
+                            <option value="cron">Cron expression</option>
+                          </select>
+                        </div>
+                        {triggerConfig.scheduleMode === 'cron' ? (
+                          <div>
+                            <label className="block text-sm font-medium text-text-primary mb-2">
+                              Cron Expression
+                            </label>
+                            <input
+                              type="text"
+                              className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary font-mono text-sm"
+                              placeholder="*/30 9-17 * * 1-5"
+                              value={triggerConfig.cron || ''}
+                              onChange={(e) => updateTriggerConfig({ cron: e.target.value })}
+                            />
+                            <p className="text-xs text-text-secondary mt-1">
+                              minute hour day-of-month month day-of-week, in local time
+                            </p>
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="block text-sm font-medium text-text-primary mb-2">
+                              Interval (minutes)
+                            </label>
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_INTERVAL_MINUTES}
+                              className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
+                              value={String(selectedNode.data.config?.intervalMinutes ?? triggerConfig.intervalMinutes)}
+                              onChange={(e) => updateTriggerConfig({ intervalMinutes: e.target.value })}
+                            />
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    {triggerConfig.triggerType === 'event' && (
+                      <div>
+                        <label className="block text-sm font-medium text-text-primary mb-2">
+                          Event
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
+                          value={triggerConfig.eventName}
+                          onChange={(e) => updateTriggerConfig({ eventName: e.target.value })}
+                        >
+                          {TRIGGER_EVENTS.map(event => (
+                            <option key={event.value} value={event.value}>{event.label}</option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-text-secondary mt-1">
+                          The event data is passed to the next nodes as the payload.
+                        </p>
+                      </div>
+                    )}
+
+                    {triggerError ? (
+                      <p className="text-xs text-accent-error">{triggerError}</p>
+                    ) : triggerConfig.triggerType !== 'manual' && (
+                      <p className="text-xs text-text-secondary">
+                        {selectedWorkflow?.status === 'active'
+                          ? 'Armed: runs automatically while this page is open.'
+                          : 'Activate the workflow\'s triggers to run automatically.'}
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -1013,37 +2310,65 @@ const Coordinator: React.FC = () => {
                       Condition Expression
                     </label>
                     <textarea
-                      className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
-                      placeholder="Enter condition logic"
+                      className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary font-mono text-sm"
+                      placeholder='e.g. contains(output, "error") || length(output) > 200'
                       rows={3}
-                      value={selectedNode?.data?.config?.condition || ''}
+                      value={configString(selectedConfig, 'condition') || ''}
                       onChange={(e) => {
                         const newConfig = { ...(selectedNode?.data?.config || {}), condition: e.target.value };
                         updateNodeConfig(selectedNode?.id || '', newConfig);
                       }}
                     />
+                    {conditionError ? (
+                      <p className="text-xs text-accent-error mt-1">{conditionError}</p>
+                    ) : (
+                      <p className="text-xs text-text-secondary mt-1">
+                        Use <code>output</code> for upstream text, <code>$.field</code> for JSON output, and{' '}
+                        {Object.keys(EXPRESSION_FUNCTIONS).join(', ')}. True routes to the left port, false to the right.
+                      </p>
+                    )}
                   </div>
                 )}
 
+                {selectedNode?.type === 'parallel' && (
+                  <p className="text-sm text-text-secondary">
+                    Sends its input to every connected branch at the same time. Connect the branches to a Join node to combine their results.
+                  </p>
+                )}
+
+                {selectedNode?.type === 'subworkflow' && getSubworkflowDefinition(selectedNode) && (
+                  <SubworkflowConfigForm
+                    key={selectedNode.id}
+                    label={selectedNode.data.label}
+                    definition={getSubworkflowDefinition(selectedNode)!}
+                    onSaveToLibrary={(name) => saveToLibrary(name, selectedNode)}
+                  />
+                )}
+
+                {selectedNode?.type === 'join' && selectedWorkflow && (
+                  <JoinConfigForm
+                    node={selectedNode}
+                    branchCount={selectedWorkflow.connections.filter(c => c.targetId === selectedNode.id).length}
+                    onChange={(changes) => updateNodeConfig(selectedNode.id, { ...(selectedNode.data.config || {}), ...changes })}
+                  />
+                )}
+
                 {selectedNode?.type === 'action' && (
-                  <div>
-                    <label className="block text-sm font-medium text-text-primary mb-2">
-                      Action Type
-                    </label>
-                    <select
-                      className="w-full px-3 py-2 bg-primary border border-border rounded-lg text-text-primary"
-                      value={selectedNode?.data?.config?.actionType || 'http'}
-                      onChange={(e) => {
-                        const newConfig = { ...(selectedNode?.data?.config || {}), actionType: e.target.value };
-                        updateNodeConfig(selectedNode?.id || '', newConfig);
-                      }}
-                    >
-                      <option value="http">HTTP Request</option>
-                      <option value="email">Send Email</option>
-                      <option value="database">Database Query</option>
-                      <option value="notification">Send Notification</option>
-                    </select>
-                  </div>
+                  <ActionConfigForm
+                    actionType={configString(selectedConfig, 'actionType')}
+                    actionConfig={configRecord(selectedConfig, 'actionConfig')}
+                    onChange={(actionType, actionConfig) => {
+                      const newConfig = { ...(selectedNode.data.config || {}), actionType, actionConfig };
+                      updateNodeConfig(selectedNode.id, newConfig);
+                    }}
+                  />
+                )}
+
+                {selectedNode && selectedNode.type !== 'trigger' && selectedNode.type !== 'parallel' && (
+                  <NodePolicyForm
+                    node={selectedNode}
+                    onChange={(policy) => updateNodeConfig(selectedNode.id, { ...(selectedNode.data.config || {}), policy })}
+                  />
                 )}
 
                 {/* Common configuration */}
@@ -1057,18 +2382,12 @@ const Coordinator: React.FC = () => {
                     rows={2}
                     value={selectedNode?.data?.description || ''}
                     onChange={(e) => {
-                      setSelectedWorkflow(prev => {
-                        if (!prev) return prev;
-                        return {
-                          ...prev,
-                          nodes: prev.nodes.map(node =>
-                            node.id === selectedNode?.id
-                              ? { ...node, data: { ...node.data, description: e.target.value } }
-                              : node
-                          ),
-                          updated_at: new Date(),
-                        };
-                      });
+                      if (!selectedNode) return;
+                      editHistory.execute(updateNodeDataCommand(
+                        selectedNode.id,
+                        selectedNode.data,
+                        { ...selectedNode.data, description: e.target.value }
+                      ));
                     }}
                   />
                 </div>
@@ -1083,7 +2402,7 @@ const Coordinator: React.FC = () => {
                 </button>
                 <button
                   onClick={() => {
-                    setSelectedNode(null);
+                    setSelectedNodeId(null);
                     setShowConfigPanel(false);
                   }}
                   className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
@@ -1095,6 +2414,86 @@ const Coordinator: React.FC = () => {
           </div>
         )}
 
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json,.mmd,.mermaid"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+
+        {/* Workflow Import Dialog */}
+        {starterPack && (
+          <StarterPackDialog
+            key={starterPack.id}
+            pack={starterPack}
+            canCreateAgents={isConnected}
+            onCreate={(values, createAgents, onProgress) => createFromStarterPack(starterPack, values, createAgents, onProgress)}
+            onClose={closeStarterPack}
+          />
+        )}
+
+        {pendingImport && (
+          <WorkflowImportDialog
+            fileName={pendingImport.fileName}
+            issues={pendingImport.issues}
+            unknownAgentIds={pendingImport.unknownAgentIds}
+            availableAgentIds={pendingImport.availableAgentIds}
+            onConfirm={(mapping) => {
+              if (pendingImport.workflow) addImportedWorkflow(remapAgentIds(pendingImport.workflow, mapping));
+            }}
+            onClose={() => setPendingImport(null)}
+          />
+        )}
+
+        {/* Version History Panel */}
+        {showVersionsPanel && selectedWorkflow && (
+          <WorkflowVersionsPanel
+            workflowName={selectedWorkflow.name}
+            versions={workflowVersions}
+            isLoading={isLoadingVersions}
+            onRestore={restoreVersion}
+            onDelete={deleteVersion}
+            onClose={() => setShowVersionsPanel(false)}
+          />
+        )}
+
+        {/* Run History Panel */}
+        {showRunsPanel && selectedWorkflow && (
+          <WorkflowRunsPanel
+            workflowName={selectedWorkflow.name}
+            runs={workflowRuns}
+            isLoading={isLoadingRuns}
+            isRunning={runningWorkflowIds.has(selectedWorkflow.id)}
+            onRerun={rerunWorkflowRun}
+            onDelete={deleteWorkflowRun}
+            onClose={() => setShowRunsPanel(false)}
+          />
+        )}
+
+        {/* Cost Confirmation */}
+        {costCheck && (
+          <WorkflowCostDialog
+            workflowName={costCheck.workflow.name}
+            estimate={costCheck.estimate}
+            quota={costCheck.quota}
+            isLoading={costCheck.isLoading}
+            error={costCheck.error}
+            onConfirm={confirmCostCheck}
+            onCancel={() => setCostCheck(null)}
+          />
+        )}
+
+        {/* Workflow Variables Panel */}
+        {showVariablesPanel && selectedWorkflow && (
+          <WorkflowVariablesPanel
+            key={selectedWorkflow.id}
+            workflow={selectedWorkflow}
+            onChange={(variables) => editHistory.execute(updateVariablesCommand(selectedWorkflow.variables, variables))}
+            onClose={() => setShowVariablesPanel(false)}
+          />
+        )}
+
         {/* Agent Interaction Panel */}
         {showInteractionPanel && selectedAgentForInteraction && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1103,6 +2502,13 @@ const Coordinator: React.FC = () => {
                 <h3 className="text-lg font-bold text-text-primary">
                   Chat with Agent: {selectedAgentForInteraction}
                 </h3>
+                <button
+                  onClick={() => setShowInteractionDecoding(true)}
+                  className="ml-auto mr-3 px-3 py-1 text-xs text-text-secondary border border-border rounded-lg hover:text-text-primary"
+                  title="Advanced settings"
+                >
+                  ⚙ {describeDecodingSettings(interactionDecoding)}
+                </button>
                 <button
                   onClick={() => setShowInteractionPanel(false)}
                   className="text-text-secondary hover:text-text-primary"
@@ -1180,6 +2586,13 @@ const Coordinator: React.FC = () => {
                 </div>
               </div>
             </div>
+            {showInteractionDecoding && (
+              <DecodingSettingsDrawer
+                settings={interactionDecoding}
+                onApply={setInteractionDecoding}
+                onClose={() => setShowInteractionDecoding(false)}
+              />
+            )}
           </div>
         )}
 
@@ -1204,7 +2617,7 @@ const Coordinator: React.FC = () => {
                   <h4 className="font-semibold text-text-primary mb-2">Workflow Actions</h4>
                   <div className="space-y-1">
                     <div className="flex justify-between">
-                      <span className="text-text-secondary">Execute/Stop Workflow</span>
+                      <span className="text-text-secondary">Execute / Stop Workflow</span>
                       <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Space</kbd>
                     </div>
                     <div className="flex justify-between">
@@ -1212,7 +2625,7 @@ const Coordinator: React.FC = () => {
                       <kbd className="px-2 py-1 bg-surface-light rounded text-xs">N</kbd>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-text-secondary">Save Workflow</span>
+                      <span className="text-text-secondary">Save Workflow Version</span>
                       <kbd className="px-2 py-1 bg-surface-light rounded text-xs">S</kbd>
                     </div>
                   </div>
@@ -1235,6 +2648,18 @@ const Coordinator: React.FC = () => {
                 <div className="pb-2 border-b border-border">
                   <h4 className="font-semibold text-text-primary mb-2">Navigation</h4>
                   <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Zoom / Pan Canvas</span>
+                      <span className="text-text-secondary text-xs">Wheel / Drag</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Fit to Screen</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">F</kbd>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Auto Layout</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">L</kbd>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-text-secondary">Close Modals</span>
                       <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Esc</kbd>
@@ -1246,6 +2671,28 @@ const Coordinator: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="pb-2 border-b border-border">
+                  <h4 className="font-semibold text-text-primary mb-2">Selection</h4>
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Select Nodes</span>
+                      <span className="text-text-secondary text-xs">Shift+Drag / Shift+Click</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Select All</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+A</kbd>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Copy / Paste Nodes</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+C / Ctrl+V</kbd>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Group into Sub-workflow</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+G</kbd>
+                    </div>
+                  </div>
+                </div>
+
                 <div>
                   <h4 className="font-semibold text-text-primary mb-2">Global</h4>
                   <div className="space-y-1">
@@ -1253,6 +2700,14 @@ const Coordinator: React.FC = () => {
                       <span className="text-text-secondary">New Workflow</span>
                       <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+N</kbd>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Undo</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+Z</kbd>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-text-secondary">Redo</span>
+                      <kbd className="px-2 py-1 bg-surface-light rounded text-xs">Ctrl+Shift+Z</kbd>
+                    </div>
                   </div>
                 </div>
               </div>
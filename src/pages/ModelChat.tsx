@@ -1,9 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAgent } from '../context/AgentContext';
-import { QuantizedModel, MessageRole } from '../services/llmService';
+import { QuantizedModel, MessageRole, checkDailyQuota } from '../services/llmService';
 import Button from '../components/Button';
 import Card from '../components/Card';
 import Input from '../components/Input';
+import { ConversationList } from '../components/chat/ConversationList';
+import { nanosToDate } from '../services/conversationStore';
+import { usePromptTokenCount } from '../hooks/usePromptTokenCount';
+import { DecodingSettingsDrawer } from '../components/chat/DecodingSettingsDrawer';
+import { DEFAULT_DECODING_SETTINGS, describeDecodingSettings, type DecodingSettings } from '../services/decodingSettings';
+import { conversationTranscript, downloadTranscript } from '../services/chatTranscript';
 
 // Message component for chat
 interface ChatMessageProps {
@@ -11,9 +17,12 @@ interface ChatMessageProps {
   content: string;
   timestamp: Date;
   model: QuantizedModel;
+  // Still being generated
+  streaming?: boolean;
+  stopped?: boolean;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timestamp, model }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timestamp, model, streaming, stopped }) => {
   const isUser = role === MessageRole.User;
 
   return (
@@ -32,11 +41,15 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ role, content, timestamp, mod
             ? 'bg-secondary text-white ml-auto'
             : 'bg-surface border border-border'
         }`}>
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">{content}</p>
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">
+            {content}
+            {streaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-secondary animate-pulse" />}
+          </p>
         </div>
         <div className={`text-xs text-text-muted mt-1 ${isUser ? 'text-right' : 'text-left'}`}>
           {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           {!isUser && <span className="ml-2 text-secondary">Llama 3.1 8B</span>}
+          {stopped && <span className="ml-2 italic">Stopped</span>}
         </div>
       </div>
 
@@ -73,11 +86,24 @@ const TypingIndicator: React.FC = () => {
 
 // Main ModelChat component
 const ModelChat: React.FC = () => {
-  const { llmState, createLlmConversation, sendLlmMessage } = useAgent();
+  const {
+    llmState,
+    createLlmConversation,
+    sendLlmMessage,
+    stopLlmGeneration,
+    selectLlmConversation,
+    renameLlmConversation,
+    pinLlmConversation,
+    deleteLlmConversation,
+    setLlmDecoding
+  } = useAgent();
   const [message, setMessage] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const promptTokens = usePromptTokenCount(message, llmState.currentConversation);
+  const quotaCheck = checkDailyQuota(llmState.userQuota, promptTokens ?? 0);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -85,7 +111,7 @@ const ModelChat: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [llmState.currentConversation?.messages]);
+  }, [llmState.currentConversation?.messages, llmState.streaming?.content]);
 
   useEffect(() => {
     // Focus input when component mounts
@@ -94,7 +120,7 @@ const ModelChat: React.FC = () => {
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!message.trim() || llmState.isLoading) return;
+    if (!message.trim() || llmState.isLoading || !quotaCheck.allowed) return;
 
     const messageToSend = message.trim();
     setMessage('');
@@ -121,7 +147,27 @@ const ModelChat: React.FC = () => {
     }
   };
 
+  const applyDecoding = async (settings: DecodingSettings) => {
+    if (llmState.currentConversation) {
+      await setLlmDecoding(llmState.currentConversation.session_id, settings);
+    }
+  };
+
+  // Sidebar edits are saved right away; report the ones that fail
+  const runConversationAction = async (action: string, run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (error) {
+      alert(`Failed to ${action} conversation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const currentMessages = llmState.currentConversation?.messages || [];
+  const decoding = llmState.currentConversation?.decoding ?? DEFAULT_DECODING_SETTINGS;
+  // The exchange in progress belongs to the conversation it was sent in
+  const streaming = llmState.streaming?.session_id === llmState.currentConversation?.session_id
+    ? llmState.streaming
+    : null;
 
   return (
     <div className="flex h-screen bg-primary">
@@ -160,44 +206,14 @@ const ModelChat: React.FC = () => {
             </div>
 
             {/* Conversations List */}
-            <div className="flex-1 overflow-y-auto p-2">
-              {llmState.conversations.size === 0 ? (
-                <div className="text-center text-text-secondary mt-8">
-                  <p className="text-sm">No conversations yet</p>
-                  <p className="text-xs mt-1">Start a new chat to begin</p>
-                </div>
-              ) : (
-                Array.from(llmState.conversations.values()).map((conv) => (
-                  <div
-                    key={conv.session_id}
-                    className={`p-3 rounded-lg cursor-pointer mb-2 transition-colors ${
-                      llmState.currentConversation?.session_id === conv.session_id
-                        ? 'bg-secondary/20 border border-secondary/30'
-                        : 'hover:bg-surface'
-                    }`}
-                    onClick={() => {
-                      // In a real implementation, this would switch conversations
-                      // Removed console log
-                    }}
-                  >
-                    <div className="flex items-center gap-2">
-                      <svg className="w-4 h-4 text-text-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                      </svg>
-                      <span className="text-sm text-text-primary truncate">
-                        {conv.messages.length > 0
-                          ? conv.messages[0].content.substring(0, 30) + '...'
-                          : 'New conversation'
-                        }
-                      </span>
-                    </div>
-                    <div className="text-xs text-text-muted mt-1">
-                      {conv.last_activity ? new Date(Number(conv.last_activity)).toLocaleDateString() : 'Just now'}
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
+            <ConversationList
+              conversations={Array.from(llmState.conversations.values())}
+              currentId={llmState.currentConversation?.session_id}
+              onSelect={selectLlmConversation}
+              onRename={(sessionId, title) => runConversationAction('rename', () => renameLlmConversation(sessionId, title))}
+              onTogglePin={(sessionId, pinned) => runConversationAction(pinned ? 'pin' : 'unpin', () => pinLlmConversation(sessionId, pinned))}
+              onDelete={(sessionId) => runConversationAction('delete', () => deleteLlmConversation(sessionId))}
+            />
 
             {/* Model Info */}
             <div className="p-4 border-t border-border">
@@ -250,10 +266,34 @@ const ModelChat: React.FC = () => {
             </div>
           </div>
 
-          {/* Model Status */}
-          <div className="flex items-center gap-2">
-            <div className="w-2 h-2 bg-accent-success rounded-full"></div>
-            <span className="text-sm text-text-secondary">Online</span>
+          <div className="flex items-center gap-3">
+            {llmState.currentConversation && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowSettings(true)}
+                  title="Advanced settings"
+                >
+                  ⚙️ {describeDecodingSettings(decoding)}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => llmState.currentConversation && downloadTranscript(conversationTranscript(llmState.currentConversation))}
+                  disabled={currentMessages.length === 0}
+                  title="Export transcript (Markdown)"
+                >
+                  Export
+                </Button>
+              </>
+            )}
+
+            {/* Model Status */}
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 bg-accent-success rounded-full"></div>
+              <span className="text-sm text-text-secondary">Online</span>
+            </div>
           </div>
         </div>
 
@@ -288,12 +328,31 @@ const ModelChat: React.FC = () => {
                   key={index}
                   role={msg.role}
                   content={msg.content}
-                  timestamp={new Date(Number(msg.timestamp))}
+                  timestamp={nanosToDate(msg.timestamp)}
                   model={msg.model}
+                  stopped={msg.stopped}
                 />
               ))}
 
-              {llmState.isLoading && <TypingIndicator />}
+              {streaming && (
+                <ChatMessage
+                  role={MessageRole.User}
+                  content={streaming.message}
+                  timestamp={new Date()}
+                  model={QuantizedModel.Llama3_1_8B}
+                />
+              )}
+              {streaming?.content ? (
+                <ChatMessage
+                  role={MessageRole.Assistant}
+                  content={streaming.content}
+                  timestamp={new Date()}
+                  model={QuantizedModel.Llama3_1_8B}
+                  streaming
+                />
+              ) : (
+                llmState.isLoading && <TypingIndicator />
+              )}
 
               {/* Error display */}
               {llmState.error && (
@@ -330,27 +389,44 @@ const ModelChat: React.FC = () => {
                 className="min-h-[48px]"
               />
             </div>
-            <Button
-              type="submit"
-              disabled={!message.trim() || llmState.isLoading}
-              size="lg"
-              className="min-h-[48px] px-6"
-            >
-              {llmState.isLoading ? (
-                <div className="w-4 h-4 border border-current border-t-transparent rounded-full animate-spin" />
-              ) : (
+            {llmState.isLoading ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={stopLlmGeneration}
+                size="lg"
+                className="min-h-[48px] px-6"
+                title="Stop generating"
+              >
+                <div className="w-3 h-3 bg-current rounded-sm" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!message.trim() || !quotaCheck.allowed}
+                title={quotaCheck.allowed ? undefined : 'Not enough of today\'s token quota left for this message'}
+                size="lg"
+                className="min-h-[48px] px-6"
+              >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                 </svg>
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
 
           {/* Usage info */}
-          {llmState.currentConversation && (
+          {(llmState.currentConversation || promptTokens !== null) && (
             <div className="flex items-center justify-between mt-2 text-xs text-text-muted">
-              <span>
-                {llmState.currentConversation.token_usage.total_tokens} tokens used
+              <span className={quotaCheck.allowed ? undefined : 'text-accent-error'}>
+                {promptTokens !== null && (
+                  <>
+                    {promptTokens} tokens in this prompt
+                    {quotaCheck.remaining !== null && ` • ${quotaCheck.remaining} left today`}
+                    {llmState.currentConversation && ' • '}
+                  </>
+                )}
+                {llmState.currentConversation && `${llmState.currentConversation.token_usage.total_tokens} tokens used`}
               </span>
               <span className="text-secondary">
                 Powered by Advanced AI
@@ -359,6 +435,14 @@ const ModelChat: React.FC = () => {
           )}
         </div>
       </div>
+
+      {showSettings && llmState.currentConversation && (
+        <DecodingSettingsDrawer
+          settings={decoding}
+          onApply={applyDecoding}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,59 +1,33 @@
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import Card from '../components/Card'
 import Button from '../components/Button'
 import Badge from '../components/Badge'
-import { useAgent } from '../context/AgentContext'
-
-interface StarterPack {
-  id: string
-  title: string
-  description: string
-  category: string
-  difficulty: 'Beginner' | 'Intermediate' | 'Advanced'
-  estimatedTime: string
-  costRange: string
-  tags: string[]
-  tasks: string[]
-  icon: string
-  popular?: boolean
-}
+import {
+  STARTER_PACKS,
+  filterStarterPacks,
+  getStarterPackCategories,
+  getStarterPackTags,
+  getStarterPackTasks
+} from '../services/workflowStarterPacks'
 
 const StarterPacks = () => {
-  const { isConnected } = useAgent()
   const navigate = useNavigate()
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
-  const [starterPacks, setStarterPacks] = useState<StarterPack[]>([])
-  const [loading, setLoading] = useState(false)
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
 
-  // Auto-load starter packs when connected
-  useEffect(() => {
-    if (isConnected) {
-      fetchStarterPacks()
-    }
-  }, [isConnected])
+  const starterPacks = STARTER_PACKS
+  const categories = ['all', ...getStarterPackCategories(starterPacks)]
+  const tags = getStarterPackTags(starterPacks)
+  const filteredPacks = filterStarterPacks(starterPacks, { category: selectedCategory, tag: selectedTag ?? undefined })
 
-  const fetchStarterPacks = async () => {
-    setLoading(true)
-    try {
-      // TODO: Implement API call to fetch starter packs from canister
-      // For now, keep empty until real API is implemented
-      setStarterPacks([])
-    } catch (error) {
-      // Removed console log
-    } finally {
-      setLoading(false)
-    }
+  const handleCreateCustomTask = () => {
+    navigate('/create-agent')
   }
 
-  const categories = ['all', ...new Set(starterPacks.map(pack => pack.category))]
-  
-  const filteredPacks = starterPacks.filter(pack => 
-    selectedCategory === 'all' || pack.category === selectedCategory
-  )
-
-  const handleCreateCustomTask = () => {
-    navigate('/wizard')
+  // The Coordinator asks for the pack's parameters and creates its agents
+  const handleUsePack = (packId: string) => {
+    navigate(`/coordinator?starterPack=${encodeURIComponent(packId)}`)
   }
 
   return (
@@ -66,7 +40,7 @@ const StarterPacks = () => {
         </p>
       </div>
 
-      {/* Categories - Only show if we have packs */}
+      {/* Categories and tags */}
       {starterPacks.length > 0 && (
         <Card className="mb-6">
           <div className="flex flex-wrap gap-3">
@@ -81,132 +55,112 @@ const StarterPacks = () => {
               </Button>
             ))}
           </div>
+          <div className="flex flex-wrap gap-2 mt-4">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                  selectedTag === tag
+                    ? 'bg-accentGold/20 border-accentGold text-accentGold'
+                    : 'border-accentGold/20 text-textOnDark/70 hover:border-accentGold/50'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
           <div className="mt-4 text-sm text-textOnDark/60">
             {filteredPacks.length} starter packs available
           </div>
         </Card>
       )}
 
-      {/* Loading state */}
-      {loading && (
-        <div className="flex items-center justify-center py-12">
-          <div className="text-center">
-            <div className="w-8 h-8 border border-accentGold border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-            <p className="text-textOnDark/70">Loading starter packs...</p>
-          </div>
-        </div>
-      )}
-
-      {/* Empty state */}
-      {!loading && starterPacks.length === 0 && (
-        <div className="text-center py-16">
-          <div className="w-24 h-24 mx-auto mb-6 bg-accentGold/20 rounded-full flex items-center justify-center">
-            <svg className="w-12 h-12 text-accentGold" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
-            </svg>
-          </div>
-          
-          <h3 className="text-2xl font-bold text-accentGold mb-4">
-            Starter Packs Coming Soon
-          </h3>
-          <p className="text-textOnDark/70 mb-8 max-w-md mx-auto">
-            We're preparing pre-configured AI workflows to help you get started quickly. 
-            In the meantime, create custom AI tasks tailored to your needs.
-          </p>
-          
-          <div className="flex flex-col sm:flex-row gap-4 justify-center">
-            <Button onClick={handleCreateCustomTask} size="lg">
-              🚀 Create Custom Task
-            </Button>
-            <Button variant="outline" onClick={() => navigate('/wizard')} size="lg">
-              🧙‍♂️ Try AI Wizard
-            </Button>
-          </div>
-        </div>
-      )}
-
-      {/* Starter Packs Grid - Only show if we have packs */}
-      {!loading && starterPacks.length > 0 && (
+      {/* Starter Packs Grid */}
+      {filteredPacks.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredPacks.map((pack) => (
-            <Card key={pack.id} hover className="h-full">
-              <div className="flex flex-col h-full">
-                <div className="mb-4">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="text-3xl">{pack.icon}</div>
-                    <Badge variant="default" size="sm">
-                      {pack.difficulty}
-                    </Badge>
-                  </div>
-                  
-                  <h3 className="text-lg font-semibold text-accentGold mb-2">
-                    {pack.title}
-                  </h3>
-                  <p className="text-textOnDark/80 text-sm mb-3">
-                    {pack.description}
-                  </p>
-                  <p className="text-xs text-textOnDark/60">
-                    {pack.category}
-                  </p>
-                </div>
-
-                <div className="space-y-4 flex-grow">
-                  <div>
-                    <h4 className="text-sm font-medium text-textOnDark mb-2">Included Tasks:</h4>
-                    <ul className="text-xs text-textOnDark/70 space-y-1">
-                      {pack.tasks.slice(0, 3).map((task, index) => (
-                        <li key={index} className="flex items-center">
-                          <span className="w-1.5 h-1.5 bg-accentGold rounded-full mr-2 flex-shrink-0" />
-                          {task}
-                        </li>
-                      ))}
-                      {pack.tasks.length > 3 && (
-                        <li className="text-accentGold">
-                          +{pack.tasks.length - 3} more tasks
-                        </li>
-                      )}
-                    </ul>
-                  </div>
-
-                  <div className="flex flex-wrap gap-1">
-                    {pack.tags.map((tag) => (
-                      <Badge key={tag} size="sm" variant="default">
-                        {tag}
+          {filteredPacks.map((pack) => {
+            const tasks = getStarterPackTasks(pack)
+            return (
+              <Card key={pack.id} hover className="h-full">
+                <div className="flex flex-col h-full">
+                  <div className="mb-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="text-3xl">{pack.icon}</div>
+                      <Badge variant="default" size="sm">
+                        {pack.difficulty}
                       </Badge>
-                    ))}
+                    </div>
+                    
+                    <h3 className="text-lg font-semibold text-accentGold mb-2">
+                      {pack.title}
+                    </h3>
+                    <p className="text-textOnDark/80 text-sm mb-3">
+                      {pack.description}
+                    </p>
+                    <p className="text-xs text-textOnDark/60">
+                      {pack.category}
+                    </p>
                   </div>
-                </div>
 
-                <div className="pt-4 border-t border-accentGold/20 mt-4">
-                  <div className="grid grid-cols-2 gap-4 text-xs mb-4">
+                  <div className="space-y-4 flex-grow">
                     <div>
-                      <span className="text-textOnDark/60">Est. Time:</span>
-                      <p className="text-textOnDark font-medium">{pack.estimatedTime}</p>
+                      <h4 className="text-sm font-medium text-textOnDark mb-2">Included Tasks:</h4>
+                      <ul className="text-xs text-textOnDark/70 space-y-1">
+                        {tasks.slice(0, 3).map((task, index) => (
+                          <li key={index} className="flex items-center">
+                            <span className="w-1.5 h-1.5 bg-accentGold rounded-full mr-2 flex-shrink-0" />
+                            {task}
+                          </li>
+                        ))}
+                        {tasks.length > 3 && (
+                          <li className="text-accentGold">
+                            +{tasks.length - 3} more tasks
+                          </li>
+                        )}
+                      </ul>
                     </div>
-                    <div>
-                      <span className="text-textOnDark/60">Cost Range:</span>
-                      <p className="text-textOnDark font-medium">{pack.costRange}</p>
+
+                    <div className="flex flex-wrap gap-1">
+                      {pack.tags.map((tag) => (
+                        <Badge key={tag} size="sm" variant="default">
+                          {tag}
+                        </Badge>
+                      ))}
                     </div>
                   </div>
 
-                  <Button size="sm" fullWidth>
-                    Use This Pack
-                  </Button>
+                  <div className="pt-4 border-t border-accentGold/20 mt-4">
+                    <div className="grid grid-cols-2 gap-4 text-xs mb-4">
+                      <div>
+                        <span className="text-textOnDark/60">Est. Time:</span>
+                        <p className="text-textOnDark font-medium">{pack.estimatedTime}</p>
+                      </div>
+                      <div>
+                        <span className="text-textOnDark/60">Cost Range:</span>
+                        <p className="text-textOnDark font-medium">{pack.costRange}</p>
+                      </div>
+                    </div>
+
+                    <Button size="sm" fullWidth onClick={() => handleUsePack(pack.id)}>
+                      Use This Pack
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </Card>
-          ))}
+              </Card>
+            )
+          })}
         </div>
       )}
 
-      {/* No results for category filter */}
-      {!loading && starterPacks.length > 0 && filteredPacks.length === 0 && (
+      {/* No results for the filters */}
+      {filteredPacks.length === 0 && (
         <Card className="text-center py-12">
           <p className="text-textOnDark/60 mb-4">
-            No starter packs found in {selectedCategory}
+            No starter packs match these filters
           </p>
-          <Button variant="ghost" onClick={() => setSelectedCategory('all')}>
-            View All Categories
+          <Button variant="ghost" onClick={() => { setSelectedCategory('all'); setSelectedTag(null) }}>
+            Clear Filters
           </Button>
         </Card>
       )}
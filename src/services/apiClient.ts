@@ -1,4 +1,5 @@
 import { HttpAgent, type Identity } from '@dfinity/agent'
+import { DEFAULT_DECODING_SETTINGS, toInferDecodeParams, type DecodingSettings } from './decodingSettings'
 
 // API Response Types
 export interface ApiResponse<T = any> {
@@ -537,18 +538,17 @@ export class ApiClient {
   }
 
   // LLM Integration - Use ohms-agent canister for inference
-  async sendLlmMessage(message: string, model: string = 'llama3.1-8b'): Promise<ApiResponse<any>> {
+  // A fixed seed with the same settings and prompt reproduces a reply
+  async sendLlmMessage(
+    message: string,
+    model: string = 'llama3.1-8b',
+    decoding: DecodingSettings = DEFAULT_DECODING_SETTINGS,
+    seed?: number
+  ): Promise<ApiResponse<any>> {
     // Create InferenceRequest according to ohms-agent.did
     const inferenceRequest = {
-      seed: BigInt(Math.floor(Math.random() * 1000000)),
+      ...toInferDecodeParams(decoding, seed),
       prompt: message,
-      decode_params: {
-        max_tokens: [1024],
-        temperature: [0.7],
-        top_p: [0.9],
-        top_k: [],
-        repetition_penalty: [1.1]
-      },
       msg_id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     }
 
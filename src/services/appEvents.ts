@@ -0,0 +1,37 @@
+/**
+ * App Event Bus
+ * Lightweight in-page events that other features (such as workflow triggers) can react to.
+ */
+
+export type AppEventType = 'agent_created' | 'quota_updated';
+
+export interface AppEvent {
+  type: AppEventType;
+  data: unknown;
+  timestamp: number;
+  // Workflows whose runs led to this event, so their triggers do not fire on it again
+  causedBy?: string[];
+}
+
+type AppEventListener = (event: AppEvent) => void;
+
+const listeners = new Map<AppEventType, Set<AppEventListener>>();
+
+export const onAppEvent = (type: AppEventType, listener: AppEventListener): (() => void) => {
+  if (!listeners.has(type)) listeners.set(type, new Set());
+  listeners.get(type)!.add(listener);
+  return () => {
+    listeners.get(type)?.delete(listener);
+  };
+};
+
+export const emitAppEvent = (type: AppEventType, data: unknown, causedBy?: string[]): void => {
+  const event: AppEvent = { type, data, timestamp: Date.now(), causedBy };
+  listeners.get(type)?.forEach(listener => {
+    try {
+      listener(event);
+    } catch {
+      // A failing listener must not break the emitter
+    }
+  });
+};
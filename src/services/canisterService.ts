@@ -1,5 +1,15 @@
 import { Actor, HttpAgent } from '@dfinity/agent';
 import { HOST as RESOLVED_HOST, NETWORK, getCanisterIdsFromEnv } from '../config/network'
+import { outputToText, runWorkflowGraph, type NodeExecutionContext, type NodeExecutionOutcome, type NodeInput, type WorkflowRunOptions } from './workflowEngine'
+import { emitAppEvent } from './appEvents'
+import { evaluateCondition } from './workflowExpressions'
+import { getTriggerConfig, parseTriggerPayload, type TriggerFire } from './workflowTriggers'
+import { getJoinConfig, getJoinQuorum, mergeBranchOutputs } from './workflowJoin'
+import { buildTemplateScope, listTemplatePaths, renderTemplate } from './workflowTemplates'
+import { buildJobSpec, type JobSpec } from './workflowCost'
+import { runSubworkflow } from './workflowSubworkflows'
+import { configRecord, configString, configStrings, type Workflow, type WorkflowNode } from './workflowTypes'
+import { DEFAULT_DECODING_SETTINGS, getDecodingPresetSettings, resolveSeed, toInferDecodeParams, type DecodingSettings } from './decodingSettings'
 
 // Centralized host/network resolution
 export const host = RESOLVED_HOST;
@@ -557,51 +567,49 @@ export const routeBestResult = async (req: {
 };
 
 // Agent Interaction Functions
+// An aborted signal stops before the next canister call and discards late responses
 export const sendMessageToAgent = async (
   agentId: string, 
   message: string, 
-  capabilities?: string[]
+  signal?: AbortSignal,
+  decoding: DecodingSettings = DEFAULT_DECODING_SETTINGS
 ): Promise<any> => {
   // Removed console log
   
   try {
     // Get agent details first
+    signal?.throwIfAborted();
     const agentResult = await coordinatorCanister.get_agent(agentId);
+    signal?.throwIfAborted();
     
     if ('Err' in agentResult) {
       throw new Error(`Agent not found: ${agentResult.Err}`);
     }
     
-    const agent = agentResult.Ok;
-    // Removed console log
-    
     // Create agent actor to communicate directly
     const agentActor = createAgentActor();
     
-    // Prepare inference request
+    // InferenceRequest from the agent IDL; the seed is returned so the reply can be reproduced
+    const seed = resolveSeed(decoding);
     const inferenceRequest = {
-      request_id: `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...toInferDecodeParams(decoding, seed),
       prompt: message,
-      max_tokens: 500n,
-      temperature: 0.7,
-      model_config: {
-        model_id: agent.model_id || 'default',
-        version: '1.0.0',
-      },
-      capabilities: capabilities || [],
+      msg_id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     };
     
     // Removed console log
     
     // Send inference request
     const result = await agentActor.infer(inferenceRequest);
+    signal?.throwIfAborted();
     
     if ('Ok' in result) {
       // Removed console log
       return {
         success: true,
         agentId,
-        response: result.Ok.response_text || result.Ok.content || 'Response received',
+        response: result.Ok.generated_text || 'Response received',
+        seed,
         metadata: result.Ok
       };
     } else {
@@ -618,7 +626,8 @@ export const sendMessageToAgent = async (
 // Bind agent and wire inference routes
 export const bindAgentAndWireRoutes = async (
   agentId: string,
-  modelId: string
+  modelId: string,
+  signal?: AbortSignal
 ): Promise<any> => {
   // Removed console log
   
@@ -627,7 +636,9 @@ export const bindAgentAndWireRoutes = async (
     const agentActor = createAgentActor();
     
     // Bind the model to the agent
+    signal?.throwIfAborted();
     const bindResult = await agentActor.bind_model(modelId);
+    signal?.throwIfAborted();
     
     if ('Err' in bindResult) {
       throw new Error(`Failed to bind model: ${bindResult.Err}`);
@@ -637,6 +648,7 @@ export const bindAgentAndWireRoutes = async (
     
     // Update agent status to active
     await updateAgentStatus(agentId, 'active');
+    signal?.throwIfAborted();
     
     return {
       success: true,
@@ -652,70 +664,196 @@ export const bindAgentAndWireRoutes = async (
   }
 };
 
-// Execute coordinator workflow
-export const executeCoordinatorWorkflow = async (
-  workflow: any
-): Promise<any> => {
-  // Removed console log
-  
-  try {
-    const results = [];
-    
-    // Process each node in the workflow
-    for (const node of workflow.nodes) {
-      if (node.type === 'agent' && node.data.config?.instructions) {
-        // Removed console log
-        
-        // Create agent if not already created
-        let agentId = node.data.config.agentId;
-        if (!agentId) {
-          const agentResult = await createAgentsFromInstructions(
-            node.data.config.instructions,
-            1,
-            node.data.config.capabilities || [],
-            node.data.config.priority || 'normal'
-          );
-          
-          if ('Ok' in agentResult) {
-            agentId = agentResult.Ok.agent_id;
-          } else {
-            throw new Error(`Failed to create agent: ${agentResult.Err}`);
-          }
-        }
-        
-        // Bind agent and wire routes
-        await bindAgentAndWireRoutes(agentId, 'default');
-        
-        // Test agent communication
-        const testMessage = `Execute task: ${node.data.config.instructions}`;
-        const response = await sendMessageToAgent(
-          agentId, 
-          testMessage, 
-          node.data.config.capabilities
-        );
-        
-        results.push({
-          nodeId: node.id,
-          agentId,
-          response: response.response,
-          status: 'completed'
-        });
-        
-        // Removed console log
-      }
+// Ask the coordinator which branch agents to keep, using the swarm policy's top_k and window_ms
+const selectSwarmBranches = async (
+  inputs: NodeInput[],
+  results: NodeExecutionContext['results'],
+  signal?: AbortSignal
+): Promise<{ inputs: NodeInput[]; metadata: Record<string, unknown> }> => {
+  signal?.throwIfAborted();
+  const policy = await getSwarmPolicy() as { top_k: number; window_ms: bigint };
+  signal?.throwIfAborted();
+  const topK = Number(policy.top_k);
+  const agentIds = inputs.map(input => results.get(input.nodeId)?.metadata?.agentId);
+
+  const routed = await routeBestResult({
+    request_id: `join_${Date.now()}`,
+    requester: 'coordinator-workflow',
+    capabilities_required: [],
+    payload: new TextEncoder().encode(JSON.stringify({ candidates: agentIds.filter(Boolean) })),
+    routing_mode: { Broadcast: null },
+  }, topK, policy.window_ms) as { Ok: { selected_agents: string[] } } | { Err: string };
+  signal?.throwIfAborted();
+  if ('Err' in routed) {
+    throw new Error(`Swarm routing failed: ${routed.Err}`);
+  }
+
+  const selectedAgents = routed.Ok.selected_agents;
+  const selected = selectedAgents
+    .map(agentId => agentIds.indexOf(agentId))
+    .filter(index => index >= 0)
+    .slice(0, topK)
+    .map(index => inputs[index]);
+  return {
+    // Branches without agents cannot be matched; keep them all rather than none
+    inputs: selected.length > 0 ? selected : inputs,
+    metadata: { topK, windowMs: policy.window_ms, selectedAgents, matchedBranches: selected.length },
+  };
+};
+
+// Execute a single workflow node; agent nodes run their instructions against upstream outputs.
+// `causedBy` lists the workflows whose runs led to this one, ending with this workflow.
+const executeWorkflowNode = async (
+  node: WorkflowNode,
+  context: NodeExecutionContext,
+  options: WorkflowExecutionOptions,
+  causedBy: string[]
+): Promise<NodeExecutionOutcome> => {
+  const { workflow, inputs, results, signal } = context;
+  const config = node.data.config || {};
+
+  if (node.type === 'trigger') {
+    const { trigger } = options;
+    // When a specific trigger fired, the workflow's other triggers stay silent
+    if (trigger && trigger.triggerNodeId !== node.id) {
+      return { output: null, activePorts: [] };
     }
-    
+    const { triggerType, payload } = getTriggerConfig(node);
+    const replayed = options.triggerPayloads && node.id in options.triggerPayloads;
     return {
-      success: true,
-      workflowId: workflow.id,
-      results,
-      message: 'Workflow executed successfully'
+      output: replayed ? options.triggerPayloads![node.id] : trigger ? trigger.payload : parseTriggerPayload(payload),
+      metadata: { triggerType: trigger?.triggerType ?? triggerType },
     };
-    
-  } catch (error) {
-    // Removed console log
-    throw error;
   }
+
+  const upstream = inputs.map(input => outputToText(input.output)).filter(text => text.length > 0);
+  const forwarded = inputs.length === 1 ? inputs[0].output : inputs.map(input => input.output);
+
+  if (node.type === 'condition') {
+    const condition = configString(config, 'condition');
+    if (!condition) {
+      throw new Error('Condition node has no expression');
+    }
+    const passed = evaluateCondition(condition, {
+      output: upstream.join('\n\n'),
+      inputs: inputs.map(input => input.output),
+    });
+    // Only the matching branch receives the upstream output
+    return { output: forwarded, activePorts: [passed ? 'true' : 'false'], metadata: { conditionResult: passed } };
+  }
+
+  if (node.type === 'join') {
+    const joinConfig = getJoinConfig(node);
+    if (joinConfig.joinMode === 'n_of_m' && inputs.length < joinConfig.required) {
+      throw new Error(`Only ${inputs.length} of the ${joinConfig.required} required branches completed`);
+    }
+    const swarm = joinConfig.useSwarmRouting ? await selectSwarmBranches(inputs, results, signal) : null;
+    const candidates = swarm ? swarm.inputs : inputs;
+    const merged = mergeBranchOutputs(candidates, joinConfig);
+    return {
+      output: merged.output,
+      metadata: {
+        ...merged.details,
+        mergeStrategy: joinConfig.mergeStrategy,
+        winner: merged.winner !== undefined ? candidates[merged.winner].nodeId : undefined,
+        swarm: swarm?.metadata,
+      },
+    };
+  }
+
+  if (node.type === 'action') {
+    // Imported lazily: the action library itself calls into this module
+    const { runWorkflowAction } = await import('./workflowActions');
+    const scope = buildTemplateScope(workflow, results.values(), inputs);
+    return runWorkflowAction(configString(config, 'actionType'), configRecord(config, 'actionConfig'), inputs, { signal, scope });
+  }
+
+  if (node.type === 'subworkflow') {
+    // Inner nodes run through this same executor as a nested workflow
+    return runSubworkflow(node, context, (inner, innerContext) => executeWorkflowNode(inner, innerContext, {}, causedBy), {
+      minInputs: getJoinQuorum,
+    });
+  }
+
+  const instructions = node.type === 'agent' ? configString(config, 'instructions') : undefined;
+  if (!instructions) {
+    // Parallel splits and nodes without behaviour forward their inputs unchanged
+    return { output: forwarded };
+  }
+
+  // Create agent if not already created
+  let agentId = configString(config, 'agentId');
+  if (!agentId) {
+    const agentResult = await createAgentsFromInstructions(
+      instructions,
+      1,
+      configStrings(config, 'capabilities'),
+      configString(config, 'priority') || 'normal',
+      signal,
+      causedBy
+    );
+
+    if ('Ok' in agentResult) {
+      agentId = String(agentResult.Ok.agent_id);
+    } else {
+      throw new Error(`Failed to create agent: ${agentResult.Err}`);
+    }
+  }
+
+  // Bind agent and wire routes
+  await bindAgentAndWireRoutes(agentId, 'default', signal);
+
+  // Instructions with placeholders choose which data they see; plain ones get every upstream output
+  const templated = listTemplatePaths(instructions).length > 0;
+  const task = `Execute task: ${renderTemplate(instructions, buildTemplateScope(workflow, results.values(), inputs))}`;
+  const prompt = upstream.length > 0 && !templated
+    ? `${task}\n\nInput from previous steps:\n${upstream.join('\n\n')}`
+    : task;
+  const response = await sendMessageToAgent(agentId, prompt, signal, getDecodingPresetSettings(config.decodingPreset));
+
+  return {
+    output: response.response,
+    metadata: { agentId, prompt, response: response.metadata },
+  };
+};
+
+export interface WorkflowExecutionOptions extends WorkflowRunOptions {
+  // Trigger that started the run; manual runs start from every trigger node
+  trigger?: TriggerFire;
+  // Payloads to emit from trigger nodes instead of their configured ones (replays)
+  triggerPayloads?: Record<string, unknown>;
+}
+
+// Execute coordinator workflow in dependency order of its connections
+export const executeCoordinatorWorkflow = async (
+  workflow: Workflow,
+  options: WorkflowExecutionOptions = {}
+): Promise<any> => {
+  const causedBy = [...(options.trigger?.causedBy ?? []), workflow.id];
+  const run = await runWorkflowGraph(
+    workflow,
+    (node, context) => executeWorkflowNode(node, context, options, causedBy),
+    { minInputs: getJoinQuorum, ...options }
+  );
+
+  return {
+    success: true,
+    workflowId: workflow.id,
+    order: run.order,
+    results: run.results
+      .filter(result => result.status === 'completed')
+      .map(result => ({
+        nodeId: result.nodeId,
+        agentId: result.metadata?.agentId,
+        // Agents of the nodes inside a sub-workflow
+        agentIds: result.metadata?.agentIds,
+        response: result.output,
+        status: result.status,
+      })),
+    // Full per-node results, including skipped nodes, for the run history
+    nodeResults: run.results,
+    message: 'Workflow executed successfully'
+  };
 };
 
 // Helpers
@@ -754,9 +892,19 @@ export const createAgentsFromInstructions = async (
   instructions: string, 
   agentCount?: number, 
   capabilities: string[] = [], 
-  priority: string = 'normal'
+  priority: string = 'normal',
+  signal?: AbortSignal,
+  // Workflow runs creating the agent, so their own agent_created triggers ignore it
+  causedBy?: string[]
 ): Promise<any> => {
-  return coordinatorCanister.create_agents_from_instructions(instructions, agentCount ? [agentCount] : [], capabilities, priority);
+  signal?.throwIfAborted();
+  const result = await coordinatorCanister.create_agents_from_instructions(instructions, agentCount ? [agentCount] : [], capabilities, priority) as { Ok?: unknown; Err?: string };
+  if (result && 'Ok' in result) {
+    emitAppEvent('agent_created', { instructions, capabilities, priority, result: result.Ok }, causedBy);
+  }
+  // The agent exists either way, but a cancelled caller does not get to use it
+  signal?.throwIfAborted();
+  return result;
 };
 
 export const getAgentCreationStatus = async (requestId: string): Promise<any> => {
@@ -819,6 +967,32 @@ export const validateTokenUsageQuota = async (tokens: bigint): Promise<any> => {
   return coordinatorCanister.validate_token_usage_quota(tokens);
 };
 
+// Quote returned by the econ canister's estimate call
+export interface CostQuote {
+  job_id: string;
+  quote_id: string;
+  estimated_cost: bigint;
+  base_cost: bigint;
+  priority_multiplier: number;
+  protocol_fee: bigint;
+  quote_expires_at: bigint;
+}
+
+// Ask the econ canister to price a job
+export const quoteJobSpec = async (spec: JobSpec): Promise<CostQuote> => {
+  const result = await econCanister.estimate(spec) as { Ok?: CostQuote; Err?: string };
+  if (!result.Ok) {
+    throw new Error(`Cost estimate failed: ${result.Err || 'Unknown error'}`);
+  }
+  return result.Ok;
+};
+
+export const estimateJobCost = async (
+  modelId: string,
+  estimatedTokens: number,
+  priority: string = 'normal'
+): Promise<CostQuote> => quoteJobSpec(buildJobSpec(modelId, estimatedTokens, priority));
+
 export const listModels = async (state?: any, agentOverride?: HttpAgent): Promise<any[]> => {
   const modelActor = agentOverride ? createModelActor(agentOverride) : modelCanister;
   const res = await modelActor.list_models(state ? [state] : []);
@@ -0,0 +1,79 @@
+/**
+ * Chat Transcript
+ * Markdown export of a chat. The decoding settings go at the top, and each
+ * reply's seed goes with the reply, so results can be reproduced.
+ */
+
+import type { ConversationSession } from './llmService';
+import { DEFAULT_DECODING_SETTINGS, describeDecodingSettings, type DecodingSettings } from './decodingSettings';
+import { getConversationTitle, nanosToDate } from './conversationStore';
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  timestamp: Date;
+  seed?: number;
+  stopped?: boolean;
+}
+
+export interface Transcript {
+  title: string;
+  model: string;
+  decoding: DecodingSettings;
+  messages: TranscriptMessage[];
+}
+
+const MODEL_NAMES: Record<string, string> = {
+  'llama3.1-8b': 'Llama 3.1 8B',
+};
+
+export const conversationTranscript = (session: ConversationSession): Transcript => ({
+  title: getConversationTitle(session),
+  model: session.model,
+  decoding: session.decoding ?? DEFAULT_DECODING_SETTINGS,
+  messages: session.messages.map(message => ({
+    role: message.role,
+    content: message.content,
+    timestamp: nanosToDate(message.timestamp),
+    seed: message.seed,
+    stopped: message.stopped,
+  })),
+});
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+
+export const formatTranscript = (transcript: Transcript, exportedAt = new Date()): string => {
+  const header = [
+    `# ${transcript.title}`,
+    '',
+    `- Model: ${MODEL_NAMES[transcript.model] ?? transcript.model}`,
+    `- Exported: ${exportedAt.toISOString()}`,
+    `- Decoding: ${describeDecodingSettings(transcript.decoding)}`,
+    '',
+    '```json',
+    JSON.stringify(transcript.decoding, null, 2),
+    '```',
+  ];
+
+  const messages = transcript.messages.map(message => {
+    const details = [message.timestamp.toISOString(), ...(message.seed !== undefined ? [`seed ${message.seed}`] : [])];
+    return [
+      `## ${capitalize(message.role)} (${details.join(', ')})`,
+      '',
+      message.content.trim(),
+      ...(message.stopped ? ['', '_Stopped before the reply finished._'] : []),
+    ].join('\n');
+  });
+
+  return [header.join('\n'), ...messages].join('\n\n') + '\n';
+};
+
+export const downloadTranscript = (transcript: Transcript): void => {
+  const blob = new Blob([formatTranscript(transcript)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${transcript.title.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'chat'}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
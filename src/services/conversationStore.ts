@@ -0,0 +1,210 @@
+/**
+ * Conversation Store
+ * Keeps chat conversations per principal in IndexedDB so they survive reloads,
+ * and searches them by message content.
+ *
+ * Sessions carry bigint timestamps and token counts and a Principal, none of
+ * which survive JSON or structured cloning intact, so they are stored as plain
+ * records with bigints as decimal strings.
+ */
+
+import { Principal } from '@dfinity/principal';
+import type { ChatMessage, ConversationSession, MessageRole, QuantizedModel } from './llmService';
+import { LocalDatabase, createPrincipalStoreFactory, requestToPromise } from './localDatabase';
+import type { DecodingSettings } from './decodingSettings';
+
+export interface ConversationRecord {
+  session_id: string;
+  user_principal: string;
+  model: QuantizedModel;
+  title?: string;
+  pinned?: boolean;
+  decoding?: DecodingSettings;
+  messages: Array<{
+    role: MessageRole;
+    content: string;
+    timestamp: string;
+    model: QuantizedModel;
+    stopped?: boolean;
+    seed?: number;
+  }>;
+  created_at: string;
+  last_activity: string;
+  token_usage: { input_tokens: string; output_tokens: string; total_tokens: string; estimated_cost: number };
+}
+
+export interface ConversationStorageAdapter {
+  listConversations(owner: string): Promise<ConversationRecord[]>;
+  putConversation(owner: string, record: ConversationRecord): Promise<void>;
+  deleteConversation(owner: string, sessionId: string): Promise<void>;
+}
+
+export interface ConversationSearchResult {
+  session: ConversationSession;
+  // Text around the first match, or the start of the conversation when only the title matched
+  snippet: string;
+  matchCount: number;
+}
+
+export const toConversationRecord = (session: ConversationSession): ConversationRecord => ({
+  session_id: session.session_id,
+  user_principal: session.user_principal.toText(),
+  model: session.model,
+  title: session.title,
+  pinned: session.pinned,
+  decoding: session.decoding,
+  messages: session.messages.map(message => ({ ...message, timestamp: message.timestamp.toString() })),
+  created_at: session.created_at.toString(),
+  last_activity: session.last_activity.toString(),
+  token_usage: {
+    input_tokens: session.token_usage.input_tokens.toString(),
+    output_tokens: session.token_usage.output_tokens.toString(),
+    total_tokens: session.token_usage.total_tokens.toString(),
+    estimated_cost: session.token_usage.estimated_cost,
+  },
+});
+
+export const fromConversationRecord = (record: ConversationRecord): ConversationSession => ({
+  session_id: record.session_id,
+  user_principal: Principal.fromText(record.user_principal),
+  model: record.model,
+  title: record.title,
+  pinned: record.pinned,
+  decoding: record.decoding,
+  messages: record.messages.map((message): ChatMessage => ({ ...message, timestamp: BigInt(message.timestamp) })),
+  created_at: BigInt(record.created_at),
+  last_activity: BigInt(record.last_activity),
+  token_usage: {
+    input_tokens: BigInt(record.token_usage.input_tokens),
+    output_tokens: BigInt(record.token_usage.output_tokens),
+    total_tokens: BigInt(record.token_usage.total_tokens),
+    estimated_cost: record.token_usage.estimated_cost,
+  },
+});
+
+// Chat timestamps are nanoseconds, like the canisters'
+export const nanosToDate = (nanos: bigint): Date => new Date(Number(nanos / 1_000_000n));
+
+export const getConversationTitle = (session: ConversationSession): string => {
+  if (session.title?.trim()) return session.title.trim();
+  const first = session.messages.find(message => message.content.trim());
+  if (!first) return 'New conversation';
+  const text = first.content.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40).trimEnd()}…` : text;
+};
+
+// Pinned first, then most recently active
+export const sortConversations = (sessions: ConversationSession[]): ConversationSession[] =>
+  [...sessions].sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) ||
+    (b.last_activity > a.last_activity ? 1 : b.last_activity < a.last_activity ? -1 : 0)
+  );
+
+const SNIPPET_RADIUS = 40;
+
+const makeSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Conversations whose title or messages contain every word of the query,
+ * case-insensitively, in sidebar order. An empty query matches everything.
+ */
+export const searchConversations = (sessions: ConversationSession[], query: string): ConversationSearchResult[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const sorted = sortConversations(sessions);
+  if (terms.length === 0) return sorted.map(session => ({ session, snippet: '', matchCount: 0 }));
+
+  return sorted.flatMap(session => {
+    const texts = [getConversationTitle(session), ...session.messages.map(message => message.content)];
+    const lowered = texts.map(text => text.toLowerCase());
+    if (!terms.every(term => lowered.some(text => text.includes(term)))) return [];
+
+    const matchCount = lowered.reduce((count, text) =>
+      count + terms.reduce((sum, term) => sum + text.split(term).length - 1, 0), 0);
+    // Prefer a snippet from a message over the title
+    const messageIndex = lowered.findIndex((text, index) => index > 0 && text.includes(terms[0]));
+    const snippet = messageIndex > 0
+      ? makeSnippet(texts[messageIndex], lowered[messageIndex].indexOf(terms[0]), terms[0].length)
+      : makeSnippet(texts[1] ?? '', 0, 0);
+    return [{ session, snippet, matchCount }];
+  });
+};
+
+const DB_NAME = 'ohms-conversations';
+const DB_VERSION = 1;
+const CONVERSATION_STORE = 'conversations';
+
+// IndexedDB storage keyed by owner, like workflows
+export class IndexedDbConversationStorage implements ConversationStorageAdapter {
+  private db = new LocalDatabase(DB_NAME, DB_VERSION, [
+    { name: CONVERSATION_STORE, keyPath: ['owner', 'record.session_id'], indexes: { owner: 'owner' } },
+  ]);
+
+  async listConversations(owner: string): Promise<ConversationRecord[]> {
+    const store = await this.db.store(CONVERSATION_STORE, 'readonly');
+    const rows = await requestToPromise(store.index('owner').getAll(owner));
+    return rows.map(row => row.record);
+  }
+
+  async putConversation(owner: string, record: ConversationRecord): Promise<void> {
+    const store = await this.db.store(CONVERSATION_STORE, 'readwrite');
+    await requestToPromise(store.put({ owner, record }));
+  }
+
+  async deleteConversation(owner: string, sessionId: string): Promise<void> {
+    const store = await this.db.store(CONVERSATION_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, sessionId]));
+  }
+}
+
+// In-memory storage for environments without IndexedDB (and for tests)
+export class MemoryConversationStorage implements ConversationStorageAdapter {
+  private records = new Map<string, ConversationRecord>();
+
+  async listConversations(owner: string): Promise<ConversationRecord[]> {
+    return [...this.records.entries()]
+      .filter(([key]) => key.startsWith(`${owner}/`))
+      .map(([, record]) => structuredClone(record));
+  }
+
+  async putConversation(owner: string, record: ConversationRecord): Promise<void> {
+    this.records.set(`${owner}/${record.session_id}`, structuredClone(record));
+  }
+
+  async deleteConversation(owner: string, sessionId: string): Promise<void> {
+    this.records.delete(`${owner}/${sessionId}`);
+  }
+}
+
+export class ConversationStore {
+  private adapter: ConversationStorageAdapter;
+  readonly owner: string;
+
+  constructor(adapter: ConversationStorageAdapter, owner: string) {
+    this.adapter = adapter;
+    this.owner = owner;
+  }
+
+  async list(): Promise<ConversationSession[]> {
+    const records = await this.adapter.listConversations(this.owner);
+    return sortConversations(records.map(fromConversationRecord));
+  }
+
+  async save(session: ConversationSession): Promise<void> {
+    await this.adapter.putConversation(this.owner, toConversationRecord(session));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.adapter.deleteConversation(this.owner, sessionId);
+  }
+}
+
+// Store for a principal
+export const getConversationStore = createPrincipalStoreFactory<ConversationStorageAdapter, ConversationStore>(
+  () => new IndexedDbConversationStorage(),
+  () => new MemoryConversationStorage(),
+  (adapter, owner) => new ConversationStore(adapter, owner)
+);
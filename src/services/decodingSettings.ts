@@ -0,0 +1,142 @@
+/**
+ * Decoding Settings
+ * Sampling parameters for the agent canister's `infer` call, with named
+ * presets. Settings are kept per conversation and written into exported
+ * transcripts so a reply can be reproduced.
+ */
+
+export interface DecodingSettings {
+  max_tokens: number;
+  temperature: number;
+  top_p: number;
+  // Null leaves top-k sampling to the canister's default
+  top_k: number | null;
+  repetition_penalty: number;
+  // Null draws a new seed for every request
+  seed: number | null;
+}
+
+export type DecodingPresetId = 'precise' | 'balanced' | 'creative' | 'deterministic';
+
+export interface DecodingPreset {
+  id: DecodingPresetId;
+  name: string;
+  description: string;
+  settings: DecodingSettings;
+}
+
+export const DECODING_PRESETS: DecodingPreset[] = [
+  {
+    id: 'precise',
+    name: 'Precise',
+    description: 'Focused, factual answers with little variation',
+    settings: { max_tokens: 1024, temperature: 0.2, top_p: 0.8, top_k: 40, repetition_penalty: 1.1, seed: null },
+  },
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'General chat; the default',
+    settings: { max_tokens: 1024, temperature: 0.7, top_p: 0.9, top_k: null, repetition_penalty: 1.1, seed: null },
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    description: 'More varied wording for brainstorming and writing',
+    settings: { max_tokens: 1536, temperature: 1.1, top_p: 0.95, top_k: null, repetition_penalty: 1.05, seed: null },
+  },
+  {
+    id: 'deterministic',
+    name: 'Deterministic',
+    description: 'Greedy decoding with a fixed seed; the same prompt gives the same reply',
+    settings: { max_tokens: 1024, temperature: 0, top_p: 1, top_k: 1, repetition_penalty: 1.1, seed: 42 },
+  },
+];
+
+export const DEFAULT_DECODING_SETTINGS: DecodingSettings = DECODING_PRESETS[1].settings;
+
+export type DecodingField = keyof DecodingSettings;
+
+// Accepted ranges; top_k and seed may also be left empty
+export const DECODING_LIMITS: Record<DecodingField, { min: number; max: number; integer: boolean }> = {
+  max_tokens: { min: 1, max: 4096, integer: true },
+  temperature: { min: 0, max: 2, integer: false },
+  top_p: { min: 0.01, max: 1, integer: false },
+  top_k: { min: 1, max: 1000, integer: true },
+  repetition_penalty: { min: 1, max: 2, integer: false },
+  seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+};
+
+const OPTIONAL_FIELDS: DecodingField[] = ['top_k', 'seed'];
+
+// Form values as typed, one string per field
+export type DecodingDraft = Record<DecodingField, string>;
+
+export const toDecodingDraft = (settings: DecodingSettings): DecodingDraft =>
+  Object.fromEntries(
+    Object.entries(settings).map(([field, value]) => [field, value === null ? '' : String(value)])
+  ) as DecodingDraft;
+
+/**
+ * Settings from form values, or an error per invalid field. Empty top_k and
+ * seed fields become null.
+ */
+export const parseDecodingDraft = (
+  draft: DecodingDraft
+): { settings: DecodingSettings | null; errors: Partial<Record<DecodingField, string>> } => {
+  const errors: Partial<Record<DecodingField, string>> = {};
+  const values: Partial<Record<DecodingField, number | null>> = {};
+
+  for (const field of Object.keys(DECODING_LIMITS) as DecodingField[]) {
+    const text = draft[field]?.trim() ?? '';
+    const { min, max, integer } = DECODING_LIMITS[field];
+    if (!text && OPTIONAL_FIELDS.includes(field)) {
+      values[field] = null;
+      continue;
+    }
+
+    const value = Number(text);
+    if (!text || !Number.isFinite(value)) errors[field] = 'Enter a number';
+    else if (integer && !Number.isInteger(value)) errors[field] = 'Enter a whole number';
+    else if (value < min || value > max) errors[field] = `Must be between ${min} and ${max}`;
+    else values[field] = value;
+  }
+
+  return Object.keys(errors).length > 0
+    ? { settings: null, errors }
+    : { settings: values as DecodingSettings, errors };
+};
+
+export const getDecodingPreset = (id: DecodingPresetId): DecodingPreset | undefined =>
+  DECODING_PRESETS.find(preset => preset.id === id);
+
+// Settings of a preset stored by id, e.g. in a workflow node config; unknown ids get the defaults
+export const getDecodingPresetSettings = (id: unknown): DecodingSettings =>
+  DECODING_PRESETS.find(preset => preset.id === id)?.settings ?? DEFAULT_DECODING_SETTINGS;
+
+// Options for a preset picker
+export const DECODING_PRESET_OPTIONS = DECODING_PRESETS.map(preset => ({ value: preset.id, label: preset.name }));
+
+// The preset these settings are exactly, if any
+export const matchDecodingPreset = (settings: DecodingSettings): DecodingPreset | undefined =>
+  DECODING_PRESETS.find(preset =>
+    (Object.keys(preset.settings) as DecodingField[]).every(field => preset.settings[field] === settings[field])
+  );
+
+export const describeDecodingSettings = (settings: DecodingSettings): string =>
+  matchDecodingPreset(settings)?.name ?? 'Custom';
+
+// The seed a request is sent with: the fixed one, or a fresh random one
+export const resolveSeed = (settings: DecodingSettings): number =>
+  settings.seed ?? Math.floor(Math.random() * 1_000_000);
+
+// Fields of the canister's InferenceRequest; Candid optionals are empty or one-element arrays
+export const toInferDecodeParams = (settings: DecodingSettings, seed = resolveSeed(settings)) => ({
+  seed: BigInt(seed),
+  decode_params: {
+    max_tokens: [settings.max_tokens],
+    temperature: [settings.temperature],
+    top_p: [settings.top_p],
+    top_k: settings.top_k === null ? [] : [settings.top_k],
+    repetition_penalty: [settings.repetition_penalty],
+  },
+});
@@ -6,6 +6,7 @@
 
 import { Actor, HttpAgent } from '@dfinity/agent'
 import { Principal } from '@dfinity/principal'
+import { DEFAULT_DECODING_SETTINGS, resolveSeed, toInferDecodeParams, type DecodingSettings } from './decodingSettings'
 
 // Agent canister ID - will be dynamically resolved from canister_ids.json
 const getAgentCanisterId = (): string => {
@@ -58,6 +59,8 @@ export interface LlmResponse {
   content: string
   success: boolean
   error?: string
+  // Seed the reply was generated with, for reproducing it
+  seed?: number
 }
 
 /**
@@ -77,7 +80,8 @@ export class DirectLlmService {
    * Send a message to agent canister and get response
    * This is what makes the agents actually work
    */
-  async sendMessage(messages: ChatMessage[]): Promise<LlmResponse> {
+  async sendMessage(messages: ChatMessage[], decoding: DecodingSettings = DEFAULT_DECODING_SETTINGS): Promise<LlmResponse> {
+    const seed = resolveSeed(decoding)
     try {
       // Convert messages to a single prompt for the agent
       const systemMessages = messages.filter(m => m.role === 'system')
@@ -111,15 +115,8 @@ export class DirectLlmService {
 
       // Call the agent canister's infer method
       const response = await this.actor.infer({
-        seed: BigInt(Math.floor(Math.random() * 1000000)),
+        ...toInferDecodeParams(decoding, seed),
         prompt,
-        decode_params: {
-          max_tokens: [512], // 512 tokens max
-          temperature: [0.7], // Balanced creativity
-          top_p: [0.9], // Nucleus sampling
-          top_k: [], // Use default
-          repetition_penalty: [1.1] // Slight repetition penalty
-        },
         msg_id: `msg_${Date.now()}`
       })
 
@@ -132,7 +129,8 @@ export class DirectLlmService {
 
       return {
         content,
-        success: true
+        success: true,
+        seed
       }
     } catch (error: any) {
       console.error('Agent canister call failed:', error)
@@ -147,7 +145,7 @@ export class DirectLlmService {
   /**
    * Simple chat interface for agents
    */
-  async chatWithAgent(agentId: string, userMessage: string): Promise<LlmResponse> {
+  async chatWithAgent(agentId: string, userMessage: string, decoding?: DecodingSettings): Promise<LlmResponse> {
     // Create a system message that gives the agent its identity
     const systemMessage: ChatMessage = {
       role: 'system',
@@ -159,7 +157,7 @@ export class DirectLlmService {
       content: userMessage
     }
 
-    return this.sendMessage([systemMessage, userMsg])
+    return this.sendMessage([systemMessage, userMsg], decoding)
   }
 
   /**
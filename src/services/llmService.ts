@@ -1,4 +1,10 @@
 import { Principal } from '@dfinity/principal';
+import { emitAppEvent } from './appEvents';
+import { DEFAULT_PROMPT_OPTIONS, assemblePrompt, type AssembledPrompt, type PromptAssemblyOptions } from './promptAssembler';
+import type { ConversationStore } from './conversationStore';
+import { InferTransport, type LlmTransport } from './llmTransport';
+import { countTokens, loadTokenizer } from './tokenizer';
+import { DEFAULT_DECODING_SETTINGS, resolveSeed, type DecodingSettings } from './decodingSettings';
 
 // Type definitions for AI model integration
 // Currently only Llama 3.1 8B is supported
@@ -19,12 +25,21 @@ export interface ChatMessage {
   content: string;
   timestamp: bigint;
   model: QuantizedModel;
+  // Set on a reply the user stopped before it finished
+  stopped?: boolean;
+  // Seed a reply was generated with
+  seed?: number;
 }
 
 export interface ConversationSession {
   session_id: string;
   user_principal: Principal;
   model: QuantizedModel;
+  // Set by the user in the sidebar; otherwise derived from the first message
+  title?: string;
+  pinned?: boolean;
+  // Sampling settings for replies; older conversations use the defaults
+  decoding?: DecodingSettings;
   messages: ChatMessage[];
   created_at: bigint;
   last_activity: bigint;
@@ -59,6 +74,34 @@ export enum LlmError {
   InternalError = 'InternalError',
 }
 
+// Thrown before sending when the prompt needs more tokens than are left of the daily quota
+export class LlmQuotaExceededError extends Error {
+  needed: bigint;
+  remaining: bigint;
+
+  constructor(needed: bigint, remaining: bigint) {
+    super(`This message needs ${needed} tokens but only ${remaining} are left of today's quota`);
+    this.name = 'LlmQuotaExceededError';
+    this.needed = needed;
+    this.remaining = remaining;
+  }
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  // Null when no quota is known
+  remaining: bigint | null;
+}
+
+// Whether a request of `tokens` fits in what is left of today's quota
+export const checkDailyQuota = (quota: UserQuota | null, tokens: number): QuotaCheck => {
+  if (!quota) return { allowed: true, remaining: null };
+  const remaining = quota.daily_token_limit > quota.current_daily_usage
+    ? quota.daily_token_limit - quota.current_daily_usage
+    : 0n;
+  return { allowed: BigInt(tokens) <= remaining, remaining };
+};
+
 export interface LlmErrorResponse {
   error: LlmError;
   message: string;
@@ -81,9 +124,24 @@ export interface LlmState {
   availableModels: ModelInfo[];
   userQuota: UserQuota | null;
   isLoading: boolean;
+  // The reply being generated, before it is added to its conversation
+  streaming: StreamingReply | null;
   error: LlmErrorResponse | null;
 }
 
+export interface StreamingReply {
+  session_id: string;
+  message: string;
+  content: string;
+}
+
+// One step of a streamed reply: the new text and the reply so far
+export interface LlmStreamChunk {
+  session_id: string;
+  token: string;
+  content: string;
+}
+
 // Event types for real-time updates
 export interface LlmEvent {
   type: 'message' | 'conversation_created' | 'model_switched' | 'error' | 'quota_updated';
@@ -96,6 +154,10 @@ export class LlmService {
   private state: LlmState;
   private eventListeners: Map<string, (event: LlmEvent) => void>;
   private agentCanister: any; // Will be initialized with actual canister
+  private promptOptions: PromptAssemblyOptions;
+  private store: ConversationStore | null;
+  private transport: LlmTransport;
+  private activeStream: AbortController | null;
 
   constructor() {
     this.state = {
@@ -104,9 +166,96 @@ export class LlmService {
       availableModels: [],
       userQuota: null,
       isLoading: false,
+      streaming: null,
       error: null,
     };
     this.eventListeners = new Map();
+    // Prompts are counted with the model's own tokenizer
+    this.promptOptions = { ...DEFAULT_PROMPT_OPTIONS, countTokens };
+    this.store = null;
+    this.transport = new InferTransport();
+    this.activeStream = null;
+  }
+
+  // Switch to a principal's saved conversations; null keeps them in memory only
+  async setConversationStore(store: ConversationStore | null): Promise<void> {
+    this.store = store;
+    this.state.conversations = new Map();
+    this.state.currentConversation = null;
+    if (!store) return;
+
+    try {
+      const sessions = await store.list();
+      // Another principal may have connected while these were loading
+      if (this.store !== store) return;
+      this.state.conversations = new Map(sessions.map(session => [session.session_id, session]));
+    } catch {
+      this.handleError(LlmError.InternalError, 'Failed to load saved conversations');
+    }
+  }
+
+  // Saving never fails a chat request; the conversation stays in memory
+  private async persist(session: ConversationSession): Promise<void> {
+    try {
+      await this.store?.save(session);
+    } catch {
+      this.handleError(LlmError.InternalError, 'Failed to save conversation');
+    }
+  }
+
+  // Replace a conversation with an updated copy so React state sees the change
+  private async updateConversation(
+    sessionId: string,
+    update: Partial<ConversationSession>
+  ): Promise<ConversationSession> {
+    const session = this.state.conversations.get(sessionId);
+    if (!session) {
+      throw new Error(`Conversation ${sessionId} not found`);
+    }
+
+    const updated = { ...session, ...update };
+    this.state.conversations.set(sessionId, updated);
+    if (this.state.currentConversation?.session_id === sessionId) {
+      this.state.currentConversation = updated;
+    }
+    await this.store?.save(updated);
+    return updated;
+  }
+
+  // System prompt, token budget and summary settings for conversation context
+  setPromptOptions(options: Partial<PromptAssemblyOptions>): void {
+    this.promptOptions = { ...this.promptOptions, ...options };
+  }
+
+  // Quota from the economics canister; sends are checked against it and it is kept up to date locally
+  setUserQuota(quota: UserQuota | null): void {
+    this.state.userQuota = quota;
+    this.emit({ type: 'quota_updated', data: quota });
+  }
+
+  private recordUsage(tokens: bigint): void {
+    const quota = this.state.userQuota;
+    if (!quota) return;
+    this.setUserQuota({
+      ...quota,
+      current_daily_usage: quota.current_daily_usage + tokens,
+      current_monthly_usage: quota.current_monthly_usage + tokens,
+    });
+  }
+
+  // The prompt a message would be sent as, counted exactly, e.g. for a live token count
+  async previewPrompt(message: string): Promise<AssembledPrompt> {
+    await this.loadTokenizer();
+    return assemblePrompt(this.state.currentConversation?.messages ?? [], message, this.promptOptions);
+  }
+
+  // Counts fall back to estimates if the tokenizer cannot be loaded
+  private async loadTokenizer(): Promise<void> {
+    try {
+      await loadTokenizer();
+    } catch {
+      // Keep estimating
+    }
   }
 
   // Initialize with agent canister reference
@@ -131,6 +280,11 @@ export class LlmService {
         // Removed console log
       }
     });
+
+    // Quota changes are also app-wide events (e.g. for workflow triggers)
+    if (event.type === 'quota_updated') {
+      emitAppEvent('quota_updated', event.data);
+    }
   }
 
   // Load available models from backend
@@ -186,8 +340,11 @@ export class LlmService {
       const sessionId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const session: ConversationSession = {
         session_id: sessionId,
-        user_principal: Principal.anonymous(), // Will be replaced with real principal
+        user_principal: this.store && this.store.owner !== 'anonymous'
+          ? Principal.fromText(this.store.owner)
+          : Principal.anonymous(),
         model,
+        decoding: DEFAULT_DECODING_SETTINGS,
         messages: [],
         created_at: BigInt(Date.now()) * BigInt(1000000),
         last_activity: BigInt(Date.now()) * BigInt(1000000),
@@ -217,104 +374,166 @@ export class LlmService {
     }
   }
 
-  // Send message to LLM
-  async sendMessage(message: string): Promise<ChatMessage> {
-    if (!this.state.currentConversation) {
+  // Send message to LLM and wait for the whole reply; null when stopped before any text
+  async sendMessage(message: string): Promise<ChatMessage | null> {
+    const stream = this.streamMessage(message);
+    let result = await stream.next();
+    while (!result.done) {
+      result = await stream.next();
+    }
+    return result.value;
+  }
+
+  /**
+   * Send a message and yield the reply as it is generated. The exchange is
+   * added to the conversation when the stream ends, including when it is
+   * stopped part way - by stopGenerating() or by leaving the loop early - in
+   * which case the partial reply is kept and marked as stopped.
+   */
+  async *streamMessage(message: string): AsyncGenerator<LlmStreamChunk, ChatMessage | null, void> {
+    const conversation = this.state.currentConversation;
+    if (!conversation) {
       throw new Error('No active conversation');
     }
 
+    this.activeStream?.abort();
+    const controller = new AbortController();
+    this.activeStream = controller;
+    this.state.streaming = { session_id: conversation.session_id, message, content: '' };
     this.setLoading(true);
 
+    const decoding = conversation.decoding ?? DEFAULT_DECODING_SETTINGS;
+    const seed = resolveSeed(decoding);
+    let context: AssembledPrompt | null = null;
+    let content = '';
+    let recorded = false;
+    let failed = false;
+
     try {
       if (!this.agentCanister) {
         throw new Error('Agent canister not initialized');
       }
 
-      // Use the API client to send the message to the LLM service
-      const { getApiClient } = await import('./apiClient');
-      const apiClientInstance = getApiClient();
+      // Earlier turns go along so the model sees the whole conversation, trimmed to the token budget
+      await this.loadTokenizer();
+      context = await assemblePrompt(conversation.messages, message, this.promptOptions);
 
-      // Send message to LLM via ohms-agent canister (uses real DFINITY LLM)
-      const llmResponse = await apiClientInstance.sendLlmMessage(message, this.state.currentConversation.model);
+      const quota = checkDailyQuota(this.state.userQuota, context.tokenCount);
+      if (!quota.allowed) {
+        throw new LlmQuotaExceededError(BigInt(context.tokenCount), quota.remaining ?? 0n);
+      }
 
-      // Use real API response from ohms-agent canister - no mocks or simulations
-      if (!llmResponse.success) {
-        throw new Error(`LLM API call failed: ${llmResponse.error?.message || 'Unknown error'}`);
+      for await (const token of this.transport.stream({
+        prompt: context.prompt,
+        model: conversation.model,
+        decoding,
+        seed,
+        signal: controller.signal,
+      })) {
+        if (controller.signal.aborted) break;
+        content += token;
+        this.state.streaming = { session_id: conversation.session_id, message, content };
+        yield { session_id: conversation.session_id, token, content };
       }
 
-      if (!llmResponse.data) {
-        throw new Error('LLM API returned no data');
+      const stopped = controller.signal.aborted;
+      if (!stopped && !content.trim()) {
+        throw new Error('OHMS Agent returned empty generated_text');
       }
 
-      // Parse InferenceResponse from ohms-agent
-      // Handle Candid variant response format: variant { Ok = record { ... } }
-      let inferenceResponse;
-      if (llmResponse.data && llmResponse.data.Ok) {
-        // Candid variant format
-        inferenceResponse = llmResponse.data.Ok;
-      } else if (llmResponse.data) {
-        // Direct record format (fallback)
-        inferenceResponse = llmResponse.data;
+      recorded = true;
+      return await this.recordExchange(conversation.session_id, message, { content, seed, stopped }, context);
+    } catch (error) {
+      failed = true;
+      if (error instanceof LlmQuotaExceededError) {
+        this.handleError(LlmError.QuotaExceeded, error.message);
       } else {
-        throw new Error('Invalid response format from OHMS Agent');
+        this.handleError(LlmError.InternalError, 'Failed to send message');
       }
-
-      const response = inferenceResponse.generated_text || '';
-      if (!response) {
-        // Removed console log
-        throw new Error('OHMS Agent returned empty generated_text');
+      throw error;
+    } finally {
+      // The caller stopped reading: keep what was generated so far
+      if (!recorded && !failed && context) {
+        controller.abort();
+        await this.recordExchange(conversation.session_id, message, { content, seed, stopped: true }, context);
+      }
+      if (this.activeStream === controller) {
+        this.activeStream = null;
+        this.state.streaming = null;
+        this.setLoading(false);
       }
+    }
+  }
 
-      // Update conversation with new messages
-      const userMessage: ChatMessage = {
-        role: MessageRole.User,
-        content: message,
-        timestamp: BigInt(Date.now()) * BigInt(1000000),
-        model: this.state.currentConversation.model,
-      };
+  // Stop the reply being generated; the text so far is kept
+  stopGenerating(): void {
+    this.activeStream?.abort();
+  }
 
-      const assistantMessage: ChatMessage = {
-        role: MessageRole.Assistant,
-        content: response,
-        timestamp: BigInt(Date.now()) * BigInt(1000000),
-        model: this.state.currentConversation.model,
-      };
+  // Use a different way of reaching the model, e.g. a true streaming endpoint
+  setTransport(transport: LlmTransport): void {
+    this.transport = transport;
+  }
+
+  // Add a user message and its (possibly partial) reply to a conversation
+  private async recordExchange(
+    sessionId: string,
+    message: string,
+    { content, seed, stopped }: { content: string; seed: number; stopped: boolean },
+    context: AssembledPrompt
+  ): Promise<ChatMessage | null> {
+    const conversation = this.state.conversations.get(sessionId);
+    if (!conversation) return null;
+
+    const userMessage: ChatMessage = {
+      role: MessageRole.User,
+      content: message,
+      timestamp: BigInt(Date.now()) * BigInt(1000000),
+      model: conversation.model,
+    };
 
-      // Update conversation state
-      const conversation = this.state.conversations.get(this.state.currentConversation.session_id);
-      if (conversation) {
-        conversation.messages.push(userMessage);
-        conversation.messages.push(assistantMessage);
-        conversation.last_activity = assistantMessage.timestamp;
-
-        // Update token usage - convert to integers first to avoid decimal BigInt conversion
-        const estimatedTokens = BigInt(Math.floor(message.length / 4));
-        const responseTokens = BigInt(Math.floor(response.length / 4));
-        conversation.token_usage.input_tokens += estimatedTokens;
-        conversation.token_usage.output_tokens += responseTokens;
-        conversation.token_usage.total_tokens += estimatedTokens + responseTokens;
-        conversation.token_usage.estimated_cost = this.calculateCost(
-          conversation.token_usage.total_tokens,
-          conversation.model
-        );
-
-        this.emit({
-          type: 'message',
-          session_id: conversation.session_id,
-          data: { userMessage, assistantMessage }
-        });
+    // A reply stopped before any text leaves just the question
+    const assistantMessage: ChatMessage | null = content.trim() ? {
+      role: MessageRole.Assistant,
+      content,
+      timestamp: BigInt(Date.now()) * BigInt(1000000),
+      model: conversation.model,
+      seed,
+      ...(stopped ? { stopped: true } : {}),
+    } : null;
+
+    conversation.messages.push(userMessage);
+    if (assistantMessage) conversation.messages.push(assistantMessage);
+    conversation.last_activity = (assistantMessage ?? userMessage).timestamp;
+
+    // Update token usage - the whole assembled prompt is input, not just the latest message
+    const promptTokens = BigInt(context.tokenCount);
+    const responseTokens = BigInt(this.promptOptions.countTokens?.(content) ?? countTokens(content));
+    conversation.token_usage.input_tokens += promptTokens;
+    conversation.token_usage.output_tokens += responseTokens;
+    conversation.token_usage.total_tokens += promptTokens + responseTokens;
+    conversation.token_usage.estimated_cost = this.calculateCost(
+      conversation.token_usage.total_tokens,
+      conversation.model
+    );
+
+    this.recordUsage(promptTokens + responseTokens);
+    await this.persist(conversation);
+
+    this.emit({
+      type: 'message',
+      session_id: conversation.session_id,
+      data: {
+        userMessage,
+        assistantMessage,
+        stopped,
+        context: { droppedMessages: context.droppedMessages.length, summarized: !!context.summary },
       }
+    });
 
-      return assistantMessage;
-    } catch (error) {
-      this.handleError(LlmError.InternalError, 'Failed to send message');
-      throw error;
-    } finally {
-      this.setLoading(false);
-    }
+    return assistantMessage;
   }
 
-
   // Switch model in current conversation
   async switchModel(newModel: QuantizedModel): Promise<void> {
     if (!this.state.currentConversation) {
@@ -342,6 +561,30 @@ export class LlmService {
     }
   }
 
+  // Continue an earlier conversation
+  selectConversation(sessionId: string): ConversationSession {
+    const session = this.state.conversations.get(sessionId);
+    if (!session) {
+      throw new Error(`Conversation ${sessionId} not found`);
+    }
+    this.state.currentConversation = session;
+    return session;
+  }
+
+  // An empty title goes back to the one derived from the first message
+  async renameConversation(sessionId: string, title: string): Promise<ConversationSession> {
+    return this.updateConversation(sessionId, { title: title.trim() || undefined });
+  }
+
+  async setConversationPinned(sessionId: string, pinned: boolean): Promise<ConversationSession> {
+    return this.updateConversation(sessionId, { pinned });
+  }
+
+  // Applies from the next message on
+  async setConversationDecoding(sessionId: string, decoding: DecodingSettings): Promise<ConversationSession> {
+    return this.updateConversation(sessionId, { decoding });
+  }
+
   // Get conversation history
   getConversation(sessionId: string): ConversationSession | undefined {
     return this.state.conversations.get(sessionId);
@@ -358,6 +601,7 @@ export class LlmService {
       // Call canister method to delete conversation
       // await this.agentCanister.deleteConversation(sessionId);
 
+      await this.store?.delete(sessionId);
       this.state.conversations.delete(sessionId);
 
       if (this.state.currentConversation?.session_id === sessionId) {
@@ -407,6 +651,7 @@ export class LlmService {
     this.eventListeners.clear();
     this.state.conversations.clear();
     this.state.currentConversation = null;
+    this.activeStream?.abort();
   }
 }
 
@@ -0,0 +1,113 @@
+/**
+ * LLM Transport
+ * How LlmService reaches a model. A transport turns a prompt into a stream of
+ * text pieces; the chat renders them as they arrive.
+ *
+ * The agent canister's `infer` call only returns once generation is done, so
+ * the default transport replays the `tokens` it returns at a steady pace. A
+ * true streaming endpoint can replace it with LlmService.setTransport.
+ */
+
+import type { ApiResponse } from './apiClient';
+import type { DecodingSettings } from './decodingSettings';
+
+export interface LlmStreamRequest {
+  prompt: string;
+  model: string;
+  decoding: DecodingSettings;
+  // Resolved from the settings, so a random seed can still be recorded
+  seed: number;
+  // Aborted when the user stops generating; transports stop yielding once it is
+  signal: AbortSignal;
+}
+
+export interface LlmTransport {
+  stream(request: LlmStreamRequest): AsyncIterable<string>;
+}
+
+interface InferResult {
+  tokens?: string[];
+  generated_text?: string;
+}
+
+export type InferCall = (
+  prompt: string,
+  model: string,
+  decoding: DecodingSettings,
+  seed: number
+) => Promise<ApiResponse<{ Ok?: InferResult } & InferResult>>;
+
+export interface InferTransportOptions {
+  // Pause between replayed tokens; 0 yields them all at once
+  tokenDelayMs?: number;
+  infer?: InferCall;
+}
+
+const sendThroughApiClient: InferCall = async (prompt, model, decoding, seed) => {
+  const { getApiClient } = await import('./apiClient');
+  return getApiClient().sendLlmMessage(prompt, model, decoding, seed);
+};
+
+const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const untilAborted = (signal: AbortSignal): Promise<null> =>
+  new Promise(resolve => {
+    if (signal.aborted) resolve(null);
+    else signal.addEventListener('abort', () => resolve(null), { once: true });
+  });
+
+/**
+ * Pieces of the reply to replay. The canister's tokens are used when they
+ * spell out the generated text exactly; otherwise (e.g. byte-level tokens)
+ * the text is split after each word instead.
+ */
+export const replayPieces = (result: InferResult): string[] => {
+  const text = result.generated_text ?? '';
+  const tokens = result.tokens ?? [];
+  if (tokens.length > 0 && tokens.join('') === text) return tokens;
+  return text.match(/\S+\s*|\s+/g) ?? [];
+};
+
+export class InferTransport implements LlmTransport {
+  private tokenDelayMs: number;
+  private infer: InferCall;
+
+  constructor(options: InferTransportOptions = {}) {
+    this.tokenDelayMs = options.tokenDelayMs ?? 20;
+    this.infer = options.infer ?? sendThroughApiClient;
+  }
+
+  async *stream({ prompt, model, decoding, seed, signal }: LlmStreamRequest): AsyncGenerator<string> {
+    // The canister call cannot be cancelled, but stopping should not wait for it
+    const response = await Promise.race([this.infer(prompt, model, decoding, seed), untilAborted(signal)]);
+    if (!response) return;
+    if (!response.success) {
+      throw new Error(`LLM API call failed: ${response.error?.message || 'Unknown error'}`);
+    }
+    if (!response.data) {
+      throw new Error('LLM API returned no data');
+    }
+
+    // Candid variant format (Ok = record { ... }), or the record itself
+    const result = response.data.Ok ?? response.data;
+    if (result.generated_text === undefined) {
+      throw new Error('Invalid response format from OHMS Agent');
+    }
+
+    for (const [index, piece] of replayPieces(result).entries()) {
+      if (signal.aborted) return;
+      if (index > 0 && this.tokenDelayMs > 0) {
+        await delay(this.tokenDelayMs, signal);
+        if (signal.aborted) return;
+      }
+      yield piece;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Local Database
+ * IndexedDB plumbing shared by the stores kept per principal in the browser
+ * (workflows, their runs, the sub-workflow library and chat history).
+ */
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export interface ObjectStoreSpec {
+  name: string;
+  keyPath: string[];
+  // Index name to the key path it covers
+  indexes: Record<string, string | string[]>;
+}
+
+/**
+ * A database opened on first use, creating any object store it does not have
+ * yet. A failed open is retried on the next call.
+ */
+export class LocalDatabase {
+  private name: string;
+  private version: number;
+  private stores: ObjectStoreSpec[];
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(name: string, version: number, stores: ObjectStoreSpec[]) {
+    this.name = name;
+    this.version = version;
+    this.stores = stores;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.name, this.version);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          for (const spec of this.stores.filter(store => !db.objectStoreNames.contains(store.name))) {
+            const store = db.createObjectStore(spec.name, { keyPath: spec.keyPath });
+            Object.entries(spec.indexes).forEach(([index, keyPath]) => store.createIndex(index, keyPath));
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+}
+
+/**
+ * `getX(principal)` for a store whose records are keyed by owner. Every
+ * principal shares one storage adapter, IndexedDB when the browser has it and
+ * memory otherwise; anonymous sessions share one local bucket.
+ */
+export const createPrincipalStoreFactory = <A, S>(
+  createIndexedDbStorage: () => A,
+  createMemoryStorage: () => A,
+  createStore: (adapter: A, owner: string) => S
+) => {
+  let defaultAdapter: A | null = null;
+  return (principal: string | null): S => {
+    if (!defaultAdapter) {
+      defaultAdapter = typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : createMemoryStorage();
+    }
+    return createStore(defaultAdapter, principal || 'anonymous');
+  };
+};
@@ -0,0 +1,159 @@
+/**
+ * Prompt Assembler
+ * Builds the prompt for a chat request from the system prompt, the earlier
+ * turns of the conversation and the latest user message, trimmed to a token
+ * budget. The system prompt and the latest message are always kept; older
+ * turns are dropped first and can be replaced by a short summary.
+ */
+
+// Any chat message; roles are matched case-insensitively ('User', 'assistant', ...)
+export interface PromptMessage {
+  role: string;
+  content: string;
+}
+
+export interface PromptAssemblyOptions {
+  systemPrompt?: string;
+  // Tokens the assembled prompt may use, excluding the reply
+  maxPromptTokens: number;
+  // Replace dropped turns with a summary of at most this many tokens
+  summary?: {
+    maxTokens: number;
+    summarize?: (dropped: PromptMessage[]) => string | Promise<string>;
+  };
+  countTokens?: (text: string) => number;
+}
+
+export interface AssembledPrompt {
+  prompt: string;
+  // Messages that made it into the prompt, in order, including any summary
+  messages: PromptMessage[];
+  droppedMessages: PromptMessage[];
+  summary?: string;
+  tokenCount: number;
+  // Set when the system prompt and latest message alone exceed the budget
+  overBudget: boolean;
+}
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are OHMS, a helpful and concise assistant. Answer using the conversation so far for context.';
+
+export const DEFAULT_PROMPT_OPTIONS: PromptAssemblyOptions = {
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  // Llama 3.1 8B is served with an 8K window; the rest is left for the reply
+  maxPromptTokens: 6144,
+  summary: { maxTokens: 256 },
+};
+
+// Rough count used until a tokenizer is plugged in: about four characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const normalizeRole = (role: string): 'system' | 'user' | 'assistant' => {
+  const lower = role.toLowerCase();
+  return lower === 'system' || lower === 'assistant' ? lower : 'user';
+};
+
+// Llama 3 chat template
+const formatMessage = (message: PromptMessage): string =>
+  `<|start_header_id|>${normalizeRole(message.role)}<|end_header_id|>\n\n${message.content.trim()}<|eot_id|>`;
+
+const PROMPT_START = '<|begin_of_text|>';
+const REPLY_START = '<|start_header_id|>assistant<|end_header_id|>\n\n';
+
+export const formatPrompt = (messages: PromptMessage[]): string =>
+  `${PROMPT_START}${messages.map(formatMessage).join('')}${REPLY_START}`;
+
+// Longest prefix of `text` that fits in `maxTokens`, cut at a word boundary when possible
+export const truncateToTokens = (text: string, maxTokens: number, countTokens = estimateTokens): string => {
+  if (countTokens(text) <= maxTokens) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(`${text.slice(0, middle)}…`) <= maxTokens) low = middle;
+    else high = middle - 1;
+  }
+  const cut = text.slice(0, low);
+  const space = cut.lastIndexOf(' ');
+  const midWord = /\S/.test(text[low] ?? '') && /\S/.test(cut.slice(-1));
+  return `${midWord && space > low / 2 ? cut.slice(0, space) : cut.trimEnd()}…`;
+};
+
+/**
+ * Summary that needs no model call: the opening sentence of each dropped
+ * message, labelled with who said it.
+ */
+export const summarizeTurns = (dropped: PromptMessage[]): string =>
+  dropped
+    .filter(message => normalizeRole(message.role) !== 'system')
+    .map(message => {
+      const firstSentence = message.content.trim().split(/(?<=[.!?])\s|\n/)[0];
+      return `- ${normalizeRole(message.role) === 'user' ? 'User' : 'Assistant'}: ${firstSentence}`;
+    })
+    .join('\n');
+
+export const assemblePrompt = async (
+  history: PromptMessage[],
+  latest: string,
+  options: PromptAssemblyOptions = DEFAULT_PROMPT_OPTIONS
+): Promise<AssembledPrompt> => {
+  const countTokens = options.countTokens ?? estimateTokens;
+  // Count the template around each message too, since it is sent as well
+  const cost = (message: PromptMessage) => countTokens(formatMessage(message));
+  const frameTokens = countTokens(PROMPT_START + REPLY_START);
+
+  // System messages stored in the history belong to the system prompt
+  const systemText = [options.systemPrompt, ...history.filter(m => normalizeRole(m.role) === 'system').map(m => m.content)]
+    .map(text => text?.trim())
+    .filter(Boolean)
+    .join('\n\n');
+  const system: PromptMessage[] = systemText ? [{ role: 'system', content: systemText }] : [];
+  const latestMessage: PromptMessage = { role: 'user', content: latest };
+  const turns = history.filter(m => normalizeRole(m.role) !== 'system' && m.content.trim());
+
+  const fixedTokens = frameTokens + system.reduce((sum, m) => sum + cost(m), 0) + cost(latestMessage);
+  const summaryReserve = options.summary ? options.summary.maxTokens : 0;
+
+  // Keep the newest turns that fit, leaving room for a summary if anything is dropped
+  const fitTurns = (budget: number) => {
+    let used = 0;
+    let start = turns.length;
+    while (start > 0 && used + cost(turns[start - 1]) <= budget) {
+      used += cost(turns[start - 1]);
+      start--;
+    }
+    // Never open the history with a reply to a message that was dropped
+    while (start < turns.length && normalizeRole(turns[start].role) === 'assistant') start++;
+    return start;
+  };
+
+  let start = fitTurns(options.maxPromptTokens - fixedTokens);
+  let summaryMessage: PromptMessage | null = null;
+  if (start > 0 && options.summary) {
+    start = fitTurns(options.maxPromptTokens - fixedTokens - summaryReserve);
+    const summarize = options.summary.summarize ?? summarizeTurns;
+    const text = (await summarize(turns.slice(0, start))).trim();
+    if (text) {
+      // The template around the summary counts against its budget
+      const overhead = cost({ role: 'system', content: 'Summary of the earlier conversation:\n' });
+      const fitted = truncateToTokens(text, Math.max(0, summaryReserve - overhead), countTokens);
+      summaryMessage = { role: 'system', content: `Summary of the earlier conversation:\n${fitted}` };
+    }
+  }
+
+  const messages = [
+    ...system,
+    ...(summaryMessage ? [summaryMessage] : []),
+    ...turns.slice(start),
+    latestMessage,
+  ];
+  const prompt = formatPrompt(messages);
+  return {
+    prompt,
+    messages,
+    droppedMessages: turns.slice(0, start),
+    summary: summaryMessage?.content,
+    tokenCount: countTokens(prompt),
+    overBudget: fixedTokens > options.maxPromptTokens,
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * Tokenizer
+ * Exact Llama 3 token counts from the model's own BPE vocabulary and merges,
+ * bundled with the app (llama3-tokenizer-js) so counting needs no network.
+ *
+ * The vocabulary is about 3 MB, so it is loaded on first use rather than with
+ * the app; until it has loaded, counts fall back to estimateTokens.
+ */
+
+import type { Llama3Tokenizer } from 'llama3-tokenizer-js';
+import { estimateTokens } from './promptAssembler';
+
+let tokenizer: Llama3Tokenizer | null = null;
+let tokenizerPromise: Promise<Llama3Tokenizer> | null = null;
+
+export const loadTokenizer = (): Promise<Llama3Tokenizer> => {
+  if (!tokenizerPromise) {
+    tokenizerPromise = import('llama3-tokenizer-js')
+      .then(module => {
+        tokenizer = module.default;
+        return tokenizer;
+      })
+      .catch(error => {
+        // Let a later call try again
+        tokenizerPromise = null;
+        throw error;
+      });
+  }
+  return tokenizerPromise;
+};
+
+export const isTokenizerLoaded = (): boolean => tokenizer !== null;
+
+// Special tokens written in the text (e.g. <|eot_id|>) count as one token each, as the model sees them
+export const encodeTokens = (text: string): number[] | null =>
+  tokenizer ? tokenizer.encode(text, { bos: false, eos: false }) : null;
+
+// Exact once the tokenizer has loaded, estimated before
+export const countTokens = (text: string): number =>
+  encodeTokens(text)?.length ?? estimateTokens(text);
+
+export const countTokensExact = async (text: string): Promise<number> => {
+  await loadTokenizer();
+  return countTokens(text);
+};
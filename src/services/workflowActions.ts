@@ -0,0 +1,387 @@
+/**
+ * Workflow Action Library
+ * Built-in behaviours an `action` node can be configured with. Each action
+ * declares a config schema that drives the Coordinator config form and is
+ * validated before the action runs.
+ */
+
+import { outputToText, sleep, type NodeInput } from './workflowEngine';
+import { evaluateExpression } from './workflowExpressions';
+import { renderTemplate, type TemplateScope } from './workflowTemplates';
+import { estimateTokens } from './workflowCost';
+import type { PortDataType, PortOutputType } from './workflowPorts';
+import { DECODING_PRESET_OPTIONS, getDecodingPresetSettings, type DecodingPresetId } from './decodingSettings';
+
+export type ActionFieldType = 'text' | 'textarea' | 'number' | 'select';
+
+export interface ActionConfigField<C> {
+  key: keyof C & string;
+  label: string;
+  type: ActionFieldType;
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+  options?: { value: string; label: string }[];
+  min?: number;
+  max?: number;
+  defaultValue?: string | number;
+  // Rendered with {{...}} placeholders before the action runs
+  templated?: boolean;
+}
+
+export interface ActionContext {
+  inputs: NodeInput[];
+  // Upstream outputs joined as text
+  text: string;
+  // Aborted when the workflow run is stopped
+  signal?: AbortSignal;
+  // Run data for templates; without it only input and inputs resolve
+  scope?: TemplateScope;
+}
+
+export interface ActionResult {
+  output: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+export interface WorkflowActionDefinition<C = Record<string, unknown>> {
+  type: string;
+  label: string;
+  description: string;
+  fields: ActionConfigField<C>[];
+  // Data the action's input accepts and its output carries; unset accepts anything and passes it through
+  ports?: {
+    accepts?: PortDataType[];
+    output: PortOutputType | ((config: Partial<C>) => PortDataType);
+  };
+  run: (config: C, context: ActionContext) => Promise<ActionResult>;
+}
+
+export interface TextTransformConfig {
+  operation: 'uppercase' | 'lowercase' | 'trim' | 'replace' | 'truncate';
+  find?: string;
+  replaceWith?: string;
+  maxLength?: number;
+}
+
+export interface TemplateConfig {
+  template: string;
+}
+
+export interface JsonExtractConfig {
+  path: string;
+}
+
+export interface MergeConfig {
+  mode: 'concatenate' | 'array' | 'object';
+  separator?: string;
+}
+
+export interface DelayConfig {
+  durationMs: number;
+}
+
+export interface CostEstimateConfig {
+  modelId: string;
+  estimatedTokens?: number;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+}
+
+export interface SendToAgentConfig {
+  agentId: string;
+  message?: string;
+  decodingPreset?: DecodingPresetId;
+}
+
+// Registry entry with its config type erased; run only receives configs that passed validateActionConfig
+export type RegisteredWorkflowAction = WorkflowActionDefinition<Record<string, unknown>>;
+
+const defineAction = <C>(definition: WorkflowActionDefinition<C>): RegisteredWorkflowAction =>
+  definition as unknown as RegisteredWorkflowAction;
+
+// Template data available to action configs
+const templateContext = (context: ActionContext): Record<string, unknown> => ({
+  ...context.scope,
+  input: context.text,
+  inputs: context.inputs.map(input => input.output),
+});
+
+const textTransform = defineAction<TextTransformConfig>({
+  type: 'text_transform',
+  label: 'Transform Text',
+  description: 'Change case, trim, find/replace or truncate the upstream text',
+  fields: [
+    {
+      key: 'operation',
+      label: 'Operation',
+      type: 'select',
+      required: true,
+      defaultValue: 'trim',
+      options: [
+        { value: 'uppercase', label: 'Uppercase' },
+        { value: 'lowercase', label: 'Lowercase' },
+        { value: 'trim', label: 'Trim whitespace' },
+        { value: 'replace', label: 'Find and replace' },
+        { value: 'truncate', label: 'Truncate' },
+      ],
+    },
+    { key: 'find', label: 'Find', type: 'text', help: 'Used by "Find and replace"' },
+    { key: 'replaceWith', label: 'Replace with', type: 'text', help: 'Used by "Find and replace"' },
+    { key: 'maxLength', label: 'Max length', type: 'number', min: 1, help: 'Used by "Truncate"' },
+  ],
+  ports: { accepts: ['text', 'agent-result'], output: 'text' },
+  run: async (config, { text }) => {
+    switch (config.operation) {
+      case 'uppercase': return { output: text.toUpperCase() };
+      case 'lowercase': return { output: text.toLowerCase() };
+      case 'replace': return { output: config.find ? text.split(config.find).join(config.replaceWith ?? '') : text };
+      case 'truncate': return { output: text.slice(0, config.maxLength ?? text.length) };
+      default: return { output: text.trim() };
+    }
+  },
+});
+
+const template = defineAction<TemplateConfig>({
+  type: 'template',
+  label: 'Render Template',
+  description: 'Build text from a template with {{input}} or {{inputs.0}} placeholders',
+  fields: [
+    {
+      key: 'template',
+      label: 'Template',
+      type: 'textarea',
+      required: true,
+      placeholder: 'Summary:\n{{input}}',
+      help: 'Also {{nodes.<name>.output}}, {{trigger.payload.<field>}} and {{vars.<name>}}',
+      templated: true,
+    },
+  ],
+  ports: { output: 'text' },
+  run: async (config, context) => ({ output: renderTemplate(config.template, templateContext(context)) }),
+});
+
+const jsonExtract = defineAction<JsonExtractConfig>({
+  type: 'json_extract',
+  label: 'Extract JSON',
+  description: 'Pick a value out of JSON upstream output',
+  fields: [
+    {
+      key: 'path',
+      label: 'JSON path',
+      type: 'text',
+      required: true,
+      placeholder: '$.items[0].title',
+      help: '$ is the upstream output parsed as JSON',
+    },
+  ],
+  ports: { accepts: ['json', 'text', 'agent-result', 'trigger-signal'], output: 'json' },
+  run: async (config, { text, inputs }) => {
+    const value = evaluateExpression(config.path, { output: text, inputs: inputs.map(input => input.output) });
+    if (value === undefined) {
+      throw new Error(`Nothing found at ${config.path}`);
+    }
+    return { output: value };
+  },
+});
+
+const merge = defineAction<MergeConfig>({
+  type: 'merge',
+  label: 'Merge Results',
+  description: 'Combine the outputs of every upstream node',
+  fields: [
+    {
+      key: 'mode',
+      label: 'Mode',
+      type: 'select',
+      required: true,
+      defaultValue: 'concatenate',
+      options: [
+        { value: 'concatenate', label: 'Concatenate text' },
+        { value: 'array', label: 'JSON array' },
+        { value: 'object', label: 'JSON object keyed by node' },
+      ],
+    },
+    { key: 'separator', label: 'Separator', type: 'text', placeholder: '\\n\\n', help: 'Used when concatenating' },
+  ],
+  ports: { output: (config) => config.mode === 'array' || config.mode === 'object' ? 'json' : 'text' },
+  run: async (config, { inputs }) => {
+    if (config.mode === 'array') return { output: inputs.map(input => input.output) };
+    if (config.mode === 'object') {
+      return { output: Object.fromEntries(inputs.map(input => [input.nodeId, input.output])) };
+    }
+    const separator = (config.separator ?? '\\n\\n').replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+    return { output: inputs.map(input => outputToText(input.output)).join(separator) };
+  },
+});
+
+const delay = defineAction<DelayConfig>({
+  type: 'delay',
+  label: 'Delay',
+  description: 'Wait before passing the upstream output on',
+  fields: [
+    { key: 'durationMs', label: 'Duration (ms)', type: 'number', required: true, min: 0, max: 300000, defaultValue: 1000 },
+  ],
+  run: async (config, { inputs, signal }) => {
+    await sleep(config.durationMs, signal);
+    return { output: inputs.length === 1 ? inputs[0].output : inputs.map(input => input.output) };
+  },
+});
+
+const costEstimate = defineAction<CostEstimateConfig>({
+  type: 'cost_estimate',
+  label: 'Estimate Cost',
+  description: 'Ask the econ canister for a cost quote',
+  fields: [
+    { key: 'modelId', label: 'Model', type: 'text', required: true, defaultValue: 'llama3.1-8b' },
+    {
+      key: 'estimatedTokens',
+      label: 'Estimated tokens',
+      type: 'number',
+      min: 1,
+      help: 'Defaults to the upstream text length divided by 4',
+    },
+    {
+      key: 'priority',
+      label: 'Priority',
+      type: 'select',
+      required: true,
+      defaultValue: 'normal',
+      options: [
+        { value: 'low', label: 'Low' },
+        { value: 'normal', label: 'Normal' },
+        { value: 'high', label: 'High' },
+        { value: 'urgent', label: 'Urgent' },
+      ],
+    },
+  ],
+  ports: { accepts: ['text', 'json', 'agent-result'], output: 'json' },
+  run: async (config, { text }) => {
+    const tokens = config.estimatedTokens ?? estimateTokens(text);
+    // Loaded lazily so the action schemas can be used without canister actors
+    const { estimateJobCost } = await import('./canisterService');
+    const quote = await estimateJobCost(config.modelId, tokens, config.priority);
+    return {
+      output: {
+        estimated_tokens: tokens,
+        estimated_cost: Number(quote.estimated_cost),
+        base_cost: Number(quote.base_cost),
+        protocol_fee: Number(quote.protocol_fee),
+        priority_multiplier: quote.priority_multiplier,
+      },
+      metadata: { quoteId: quote.quote_id },
+    };
+  },
+});
+
+const sendToAgent = defineAction<SendToAgentConfig>({
+  type: 'send_to_agent',
+  label: 'Send to Agent',
+  description: 'Send a message to an existing agent and return its reply',
+  fields: [
+    { key: 'agentId', label: 'Agent ID', type: 'text', required: true },
+    {
+      key: 'message',
+      label: 'Message',
+      type: 'textarea',
+      placeholder: '{{input}}',
+      templated: true,
+      help: 'Defaults to the upstream output',
+    },
+    {
+      key: 'decodingPreset',
+      label: 'Decoding',
+      type: 'select',
+      options: DECODING_PRESET_OPTIONS,
+      defaultValue: 'balanced',
+      help: 'Deterministic uses a fixed seed, so reruns give the same reply',
+    },
+  ],
+  ports: { accepts: ['text', 'json', 'agent-result', 'trigger-signal'], output: 'agent-result' },
+  run: async (config, context) => {
+    const message = config.message ? renderTemplate(config.message, templateContext(context)) : context.text;
+    const { sendMessageToAgent } = await import('./canisterService');
+    const decoding = getDecodingPresetSettings(config.decodingPreset);
+    const response = await sendMessageToAgent(config.agentId, message, context.signal, decoding);
+    return { output: response.response, metadata: { agentId: config.agentId, response: response.metadata } };
+  },
+});
+
+export const WORKFLOW_ACTIONS: RegisteredWorkflowAction[] = [
+  textTransform,
+  template,
+  jsonExtract,
+  merge,
+  delay,
+  costEstimate,
+  sendToAgent,
+];
+
+export const getWorkflowAction = (type: string | undefined) =>
+  WORKFLOW_ACTIONS.find(action => action.type === type);
+
+// Config with schema defaults filled in and numeric fields coerced
+export const resolveActionConfig = (
+  action: RegisteredWorkflowAction,
+  config: Record<string, unknown> = {}
+): Record<string, unknown> => {
+  const resolved: Record<string, unknown> = { ...config };
+  for (const field of action.fields) {
+    const value = resolved[field.key];
+    if ((value === undefined || value === '') && field.defaultValue !== undefined) {
+      resolved[field.key] = field.defaultValue;
+    } else if (field.type === 'number' && value !== undefined && value !== '') {
+      resolved[field.key] = Number(value);
+    } else if (value === '') {
+      delete resolved[field.key];
+    }
+  }
+  return resolved;
+};
+
+// Returns one message per invalid field; empty when the config can run
+export const validateActionConfig = (
+  action: RegisteredWorkflowAction,
+  config: Record<string, unknown> = {}
+): string[] => {
+  const resolved = resolveActionConfig(action, config);
+  const errors: string[] = [];
+
+  for (const field of action.fields) {
+    const value = resolved[field.key];
+    if (value === undefined) {
+      if (field.required) errors.push(`${field.label} is required`);
+      continue;
+    }
+    if (field.type === 'number') {
+      const number = value as number;
+      if (Number.isNaN(number)) errors.push(`${field.label} must be a number`);
+      else if (field.min !== undefined && number < field.min) errors.push(`${field.label} must be at least ${field.min}`);
+      else if (field.max !== undefined && number > field.max) errors.push(`${field.label} must be at most ${field.max}`);
+    }
+    if (field.type === 'select' && field.options && !field.options.some(option => option.value === value)) {
+      errors.push(`${field.label} must be one of ${field.options.map(option => option.value).join(', ')}`);
+    }
+  }
+
+  return errors;
+};
+
+export const runWorkflowAction = async (
+  actionType: string | undefined,
+  config: Record<string, unknown> | undefined,
+  inputs: NodeInput[],
+  { signal, scope }: Pick<ActionContext, 'signal' | 'scope'> = {}
+): Promise<ActionResult> => {
+  const action = getWorkflowAction(actionType);
+  if (!action) {
+    throw new Error(`Unknown action type: ${actionType || 'none'}`);
+  }
+
+  const errors = validateActionConfig(action, config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${action.label} configuration: ${errors.join('; ')}`);
+  }
+
+  const text = inputs.map(input => outputToText(input.output)).filter(Boolean).join('\n\n');
+  return action.run(resolveActionConfig(action, config), { inputs, text, signal, scope });
+};
@@ -0,0 +1,181 @@
+/**
+ * Workflow Commands
+ * Reversible canvas edits for the Coordinator undo/redo history. Each command
+ * is a pure transformation of a workflow and knows how to take itself back.
+ */
+
+import type { WorkflowLayout } from './workflowLayout';
+import type { WorkflowFragment } from './workflowSubworkflows';
+import type { Workflow, WorkflowConnection, WorkflowNode } from './workflowTypes';
+
+export interface WorkflowCommand {
+  label: string;
+  // Consecutive commands with the same key collapse into one history entry
+  // that applies and reverts all of them in turn.
+  coalesceKey?: string;
+  apply: (workflow: Workflow) => Workflow;
+  revert: (workflow: Workflow) => Workflow;
+}
+
+type Position = WorkflowNode['position'];
+type NodeData = WorkflowNode['data'];
+
+const mapNode = (workflow: Workflow, nodeId: string, update: (node: WorkflowNode) => WorkflowNode): Workflow => ({
+  ...workflow,
+  nodes: workflow.nodes.map(node => node.id === nodeId ? update(node) : node),
+});
+
+export const addNodeCommand = (node: WorkflowNode): WorkflowCommand => ({
+  label: `Add ${node.data.label}`,
+  apply: (workflow) => ({ ...workflow, nodes: [...workflow.nodes, node] }),
+  revert: (workflow) => ({
+    ...workflow,
+    nodes: workflow.nodes.filter(n => n.id !== node.id),
+    connections: workflow.connections.filter(c => c.sourceId !== node.id && c.targetId !== node.id),
+  }),
+});
+
+export const moveNodeCommand = (nodeId: string, from: Position, to: Position): WorkflowCommand => ({
+  label: 'Move node',
+  coalesceKey: `move:${nodeId}`,
+  apply: (workflow) => mapNode(workflow, nodeId, node => ({ ...node, position: to })),
+  revert: (workflow) => mapNode(workflow, nodeId, node => ({ ...node, position: from })),
+});
+
+// Drags of a selection move every selected node by the same amount
+export const moveNodesCommand = (moves: Array<{ nodeId: string; from: Position; to: Position }>): WorkflowCommand => {
+  const apply = (workflow: Workflow, pick: (move: typeof moves[number]) => Position) => ({
+    ...workflow,
+    nodes: workflow.nodes.map(node => {
+      const move = moves.find(m => m.nodeId === node.id);
+      return move ? { ...node, position: pick(move) } : node;
+    }),
+  });
+  return {
+    label: `Move ${moves.length} nodes`,
+    coalesceKey: `move:${moves.map(move => move.nodeId).sort().join(',')}`,
+    apply: (workflow) => apply(workflow, move => move.to),
+    revert: (workflow) => apply(workflow, move => move.from),
+  };
+};
+
+// Pasted nodes together with the connections between them
+export const addFragmentCommand = (fragment: WorkflowFragment, label = 'Paste'): WorkflowCommand => {
+  const nodeIds = new Set(fragment.nodes.map(node => node.id));
+  const connectionIds = new Set(fragment.connections.map(connection => connection.id));
+  return {
+    label: `${label} ${fragment.nodes.length} node${fragment.nodes.length === 1 ? '' : 's'}`,
+    apply: (workflow) => ({
+      ...workflow,
+      nodes: [...workflow.nodes, ...fragment.nodes],
+      connections: [...workflow.connections, ...fragment.connections],
+    }),
+    revert: (workflow) => ({
+      ...workflow,
+      nodes: workflow.nodes.filter(node => !nodeIds.has(node.id)),
+      connections: workflow.connections.filter(c => !connectionIds.has(c.id)),
+    }),
+  };
+};
+
+// Edits that rewire the graph as a whole, such as grouping into a sub-workflow
+export const replaceGraphCommand = (label: string, before: WorkflowFragment, after: WorkflowFragment): WorkflowCommand => ({
+  label,
+  apply: (workflow) => ({ ...workflow, nodes: after.nodes, connections: after.connections }),
+  revert: (workflow) => ({ ...workflow, nodes: before.nodes, connections: before.connections }),
+});
+
+const applyLayout = (workflow: Workflow, layout: WorkflowLayout): Workflow => ({
+  ...workflow,
+  nodes: workflow.nodes.map(node => layout.positions[node.id] ? { ...node, position: layout.positions[node.id] } : node),
+  connections: workflow.connections.map(connection =>
+    layout.connections[connection.id] ? { ...connection, ...layout.connections[connection.id] } : connection
+  ),
+});
+
+export const layoutCommand = (before: WorkflowLayout, after: WorkflowLayout): WorkflowCommand => ({
+  label: 'Auto layout',
+  apply: (workflow) => applyLayout(workflow, after),
+  revert: (workflow) => applyLayout(workflow, before),
+});
+
+const changedKeys = (before: Record<string, unknown>, after: Record<string, unknown>): string[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(key => before[key] !== after[key]);
+
+// Copy the given keys from `values`, removing those it does not have
+const patchKeys = (target: Record<string, unknown>, values: Record<string, unknown>, keys: string[]) => {
+  const patched = { ...target };
+  for (const key of keys) {
+    if (values[key] === undefined) delete patched[key];
+    else patched[key] = values[key];
+  }
+  return patched;
+};
+
+// Sets only the fields and config entries the edit changed, so undoing it
+// keeps what a run wrote to the node since (its agentId, lastResponse).
+// Typing into one setting coalesces; edits of different settings stay apart.
+export const updateNodeDataCommand = (nodeId: string, before: NodeData, after: NodeData): WorkflowCommand => {
+  const fieldKeys = changedKeys(before, after).filter(key => key !== 'config');
+  const configKeys = changedKeys(before.config ?? {}, after.config ?? {});
+  const patch = (data: NodeData, values: NodeData): NodeData => {
+    const { config, ...fields } = patchKeys(data, values, fieldKeys) as NodeData;
+    if (configKeys.length === 0) return config ? { ...fields, config } : fields;
+    const patchedConfig = patchKeys(config ?? {}, values.config ?? {}, configKeys);
+    return values.config || Object.keys(patchedConfig).length > 0 ? { ...fields, config: patchedConfig } : fields;
+  };
+  return {
+    label: `Edit ${after.label}`,
+    coalesceKey: `data:${nodeId}:${[...fieldKeys, ...configKeys.map(key => `config.${key}`)].join(',')}`,
+    apply: (workflow) => mapNode(workflow, nodeId, node => ({ ...node, data: patch(node.data, after) })),
+    revert: (workflow) => mapNode(workflow, nodeId, node => ({ ...node, data: patch(node.data, before) })),
+  };
+};
+
+export const updateVariablesCommand = (
+  before: Record<string, string> | undefined,
+  after: Record<string, string>
+): WorkflowCommand => ({
+  label: 'Edit variables',
+  coalesceKey: 'variables',
+  apply: (workflow) => ({ ...workflow, variables: after }),
+  revert: (workflow) => ({ ...workflow, variables: before }),
+});
+
+export const addConnectionCommand = (connection: WorkflowConnection): WorkflowCommand => ({
+  label: 'Connect nodes',
+  apply: (workflow) => ({ ...workflow, connections: [...workflow.connections, connection] }),
+  revert: (workflow) => ({ ...workflow, connections: workflow.connections.filter(c => c.id !== connection.id) }),
+});
+
+export const deleteConnectionCommand = (connection: WorkflowConnection, index: number): WorkflowCommand => ({
+  label: 'Delete connection',
+  apply: (workflow) => ({ ...workflow, connections: workflow.connections.filter(c => c.id !== connection.id) }),
+  // Put it back where it was so the canvas renders in the same order
+  revert: (workflow) => {
+    const connections = [...workflow.connections];
+    connections.splice(Math.min(index, connections.length), 0, connection);
+    return { ...workflow, connections };
+  },
+});
+
+export interface CommandHistory {
+  undo: WorkflowCommand[];
+  redo: WorkflowCommand[];
+}
+
+export const MAX_HISTORY = 100;
+
+// Record a command that was just applied; drags of one node and typing into
+// one setting of a node coalesce into a single entry
+export const pushCommand = (history: CommandHistory, command: WorkflowCommand): CommandHistory => {
+  const last = history.undo[history.undo.length - 1];
+  const undo = last && last.coalesceKey !== undefined && last.coalesceKey === command.coalesceKey
+    ? [...history.undo.slice(0, -1), {
+      ...command,
+      apply: (workflow: Workflow) => command.apply(last.apply(workflow)),
+      revert: (workflow: Workflow) => last.revert(command.revert(workflow)),
+    }]
+    : [...history.undo, command];
+  return { undo: undo.slice(-MAX_HISTORY), redo: [] };
+};
@@ -0,0 +1,140 @@
+/**
+ * Workflow Cost Estimates
+ * Prices a workflow before it runs: every agent node becomes an econ
+ * `JobSpec`, each spec is quoted by the econ canister and the quotes are
+ * totalled so the Coordinator can ask for confirmation before executing.
+ */
+
+import type { CostQuote } from './canisterService';
+import { flattenNodes } from './workflowSubworkflows';
+import { configString, type Workflow, type WorkflowNode } from './workflowTypes';
+
+export type JobPriority = { Low: null } | { Normal: null } | { High: null } | { Critical: null };
+
+// Mirrors the econ canister's JobSpec record
+export interface JobSpec {
+  job_id: string;
+  model_id: string;
+  estimated_tokens: number;
+  estimated_compute_cycles: bigint;
+  priority: JobPriority;
+}
+
+export interface NodeCostEstimate {
+  nodeId: string;
+  label: string;
+  spec: JobSpec;
+  quote?: CostQuote;
+  error?: string;
+}
+
+export interface WorkflowCostEstimate {
+  nodes: NodeCostEstimate[];
+  totalTokens: number;
+  // Sums over the nodes that could be quoted
+  totalCost: bigint;
+  totalBaseCost: bigint;
+  totalProtocolFee: bigint;
+}
+
+export interface TokenQuotaCheck {
+  allowed: boolean;
+  reason?: string;
+  tokensRemaining?: bigint;
+  inferencesRemaining?: number;
+  agentsRemaining?: number;
+}
+
+// Model agent nodes are bound to when they run
+export const DEFAULT_AGENT_MODEL = 'default';
+
+const JOB_PRIORITIES: Record<string, 'Low' | 'Normal' | 'High' | 'Critical'> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Critical',
+  critical: 'Critical',
+};
+
+const DEFAULT_COMPUTE_CYCLES = BigInt(1_000_000);
+
+// Rough token count: about four characters per token
+export const estimateTokens = (text: string): number => Math.max(1, Math.ceil(text.length / 4));
+
+export const buildJobSpec = (modelId: string, estimatedTokens: number, priority: string = 'normal'): JobSpec => ({
+  job_id: `ui-job-${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  model_id: modelId,
+  estimated_tokens: Math.max(0, Math.round(estimatedTokens)),
+  estimated_compute_cycles: DEFAULT_COMPUTE_CYCLES,
+  priority: { [JOB_PRIORITIES[priority.toLowerCase()] || 'Normal']: null } as JobPriority,
+});
+
+const agentJobSpec = (node: WorkflowNode): JobSpec => {
+  const config = node.data.config;
+  return buildJobSpec(
+    configString(config, 'modelId') || DEFAULT_AGENT_MODEL,
+    estimateTokens(configString(config, 'instructions') || ''),
+    configString(config, 'priority') || 'normal'
+  );
+};
+
+// One job per agent node with instructions, including those inside sub-workflows;
+// other nodes do not run inference
+export const buildWorkflowJobSpecs = (workflow: Workflow): Array<{ node: WorkflowNode; spec: JobSpec }> =>
+  flattenNodes(workflow.nodes)
+    .filter(node => node.type === 'agent' && configString(node.data.config, 'instructions')?.trim())
+    .map(node => ({ node, spec: agentJobSpec(node) }));
+
+/**
+ * Quote every agent node of a workflow. A node whose quote fails keeps its
+ * error and is left out of the totals instead of failing the whole estimate.
+ */
+export const estimateWorkflowCost = async (
+  workflow: Workflow,
+  quote: (spec: JobSpec) => Promise<CostQuote>
+): Promise<WorkflowCostEstimate> => {
+  const jobs = buildWorkflowJobSpecs(workflow);
+  const quotes = await Promise.allSettled(jobs.map(job => quote(job.spec)));
+
+  const nodes = jobs.map(({ node, spec }, index): NodeCostEstimate => {
+    const settled = quotes[index];
+    return {
+      nodeId: node.id,
+      label: node.data.label,
+      spec,
+      quote: settled.status === 'fulfilled' ? settled.value : undefined,
+      error: settled.status === 'rejected'
+        ? (settled.reason instanceof Error ? settled.reason.message : String(settled.reason))
+        : undefined,
+    };
+  });
+
+  const sum = (pick: (quote: CostQuote) => bigint) =>
+    nodes.reduce((total, node) => total + (node.quote ? pick(node.quote) : 0n), 0n);
+
+  return {
+    nodes,
+    totalTokens: nodes.reduce((total, node) => total + node.spec.estimated_tokens, 0),
+    totalCost: sum(quote => quote.estimated_cost),
+    totalBaseCost: sum(quote => quote.base_cost),
+    totalProtocolFee: sum(quote => quote.protocol_fee),
+  };
+};
+
+// Read the coordinator's validate_token_usage_quota result
+export const parseTokenQuotaCheck = (result: unknown): TokenQuotaCheck => {
+  const response = result as
+    | { Ok: { allowed: boolean; reason: [] | [string]; remaining_quota: [] | [{ tokens_remaining: bigint; inferences_remaining: number; agents_remaining: number }] } }
+    | { Err: string };
+  if ('Err' in response) {
+    return { allowed: false, reason: response.Err };
+  }
+  const remaining = response.Ok.remaining_quota[0];
+  return {
+    allowed: response.Ok.allowed,
+    reason: response.Ok.reason[0],
+    tokensRemaining: remaining?.tokens_remaining,
+    inferencesRemaining: remaining?.inferences_remaining,
+    agentsRemaining: remaining?.agents_remaining,
+  };
+};
@@ -0,0 +1,443 @@
+/**
+ * Workflow Diagrams
+ * Mermaid, Graphviz DOT and standalone SVG renderings of a workflow for
+ * design reviews and docs, and a Mermaid flowchart importer that turns a
+ * sketch into a starting workflow.
+ *
+ * Node types map to shapes both ways:
+ *
+ *   trigger      ([stadium])      oval
+ *   agent        [rectangle]      rounded box
+ *   condition    {rhombus}        diamond
+ *   action       [/parallelogram/] parallelogram
+ *   parallel     {{hexagon}}      hexagon
+ *   join         [\trapezoid/]    inverted trapezium
+ *   subworkflow  [[subroutine]]   3D box
+ *
+ * Agent nodes bound to an agent get an extra `agent: <id>` label line, which
+ * the importer reads back. Sub-workflows need their inner steps, so the
+ * importer reads subroutine shapes as agents.
+ */
+
+import { getWorkflowAction } from './workflowActions';
+import { NODE_HEIGHT, NODE_WIDTH, getWorkflowBounds, layoutWorkflow } from './workflowLayout';
+import { DEFAULT_NODE_POLICY, ERROR_PORT } from './workflowNodePolicy';
+import { WorkflowImportError } from './workflowSchema';
+import { SUBWORKFLOW_OUTPUT_PREFIX, getSubworkflowDefinition } from './workflowSubworkflows';
+import { configString, getHandlePort, type Workflow, type WorkflowConnection, type WorkflowNode, type WorkflowNodeType } from './workflowTypes';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'svg';
+
+export type DiagramDirection = 'LR' | 'TD';
+
+interface NodeStyle {
+  label: string;
+  mermaid: [string, string];
+  dot: string;
+  fill: string;
+}
+
+const NODE_STYLES: Record<WorkflowNodeType, NodeStyle> = {
+  trigger: { label: 'Trigger', mermaid: ['([', '])'], dot: 'oval', fill: '#f59e0b' },
+  agent: { label: 'AI Agent', mermaid: ['[', ']'], dot: 'box', fill: '#6366f1' },
+  condition: { label: 'Condition', mermaid: ['{', '}'], dot: 'diamond', fill: '#14b8a6' },
+  action: { label: 'Action', mermaid: ['[/', '/]'], dot: 'parallelogram', fill: '#ef4444' },
+  parallel: { label: 'Parallel', mermaid: ['{{', '}}'], dot: 'hexagon', fill: '#0ea5e9' },
+  join: { label: 'Join', mermaid: ['[\\', '/]'], dot: 'invtrapezium', fill: '#8b5cf6' },
+  subworkflow: { label: 'Sub-workflow', mermaid: ['[[', ']]'], dot: 'box3d', fill: '#64748b' },
+};
+
+const AGENT_LINE = /^agent:\s*(\S+)$/i;
+
+const getAgentId = (node: WorkflowNode): string | undefined =>
+  node.type === 'agent' ? configString(node.data.config, 'agentId') || node.data.agentId || undefined : undefined;
+
+// Label lines shown in every format: the node label, then the bound agent
+const getLabelLines = (node: WorkflowNode): string[] => {
+  const agentId = getAgentId(node);
+  return [node.data.label || NODE_STYLES[node.type].label, ...(agentId ? [`agent: ${agentId}`] : [])];
+};
+
+// Port named on the edge, e.g. a condition branch or sub-workflow output; regular outputs have none
+const getEdgeLabel = (connection: WorkflowConnection): string | undefined => {
+  const port = getHandlePort(connection.sourceHandle, connection.sourceId);
+  if (['default', 'bottom', 'right', 'top', 'left'].includes(port)) return undefined;
+  return port.startsWith(SUBWORKFLOW_OUTPUT_PREFIX) ? port.slice(SUBWORKFLOW_OUTPUT_PREFIX.length) : port;
+};
+
+// Short IDs that every format accepts, in canvas order
+const getDiagramIds = (workflow: Workflow) =>
+  new Map(workflow.nodes.map((node, index) => [node.id, `n${index + 1}`]));
+
+const MERMAID_ENTITIES: Record<string, string> = { '#': '35', '&': 'amp', '"': 'quot', '<': 'lt', '>': 'gt' };
+const MERMAID_CHARACTERS = Object.fromEntries(Object.entries(MERMAID_ENTITIES).map(([char, name]) => [name, char]));
+
+// One pass each way, so a literal `#quot;` in a label survives the round trip
+const escapeMermaid = (text: string) =>
+  text.replace(/[#&"<>]/g, char => `#${MERMAID_ENTITIES[char]};`);
+
+const unescapeMermaid = (text: string) =>
+  text.replace(/#(\w+);/g, (entity, name: string) =>
+    MERMAID_CHARACTERS[name] ?? (/^\d+$/.test(name) ? String.fromCharCode(Number(name)) : entity));
+
+export const exportMermaid = (workflow: Workflow, direction: DiagramDirection = 'LR'): string => {
+  const ids = getDiagramIds(workflow);
+  const lines = ['---', `title: ${workflow.name.replace(/\n/g, ' ')}`, '---', `flowchart ${direction}`];
+
+  for (const node of workflow.nodes) {
+    const [open, close] = NODE_STYLES[node.type].mermaid;
+    lines.push(`  ${ids.get(node.id)}${open}"${getLabelLines(node).map(escapeMermaid).join('<br/>')}"${close}`);
+  }
+  for (const connection of workflow.connections) {
+    const source = ids.get(connection.sourceId);
+    const target = ids.get(connection.targetId);
+    if (!source || !target) continue;
+    const label = getEdgeLabel(connection);
+    const arrow = label === ERROR_PORT ? '-.->' : '-->';
+    lines.push(`  ${source} ${arrow}${label ? `|"${escapeMermaid(label)}"|` : ''} ${target}`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeDot = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+export const exportDot = (workflow: Workflow, direction: DiagramDirection = 'LR'): string => {
+  const ids = getDiagramIds(workflow);
+  const lines = [
+    `digraph "${escapeDot(workflow.name)}" {`,
+    `  rankdir=${direction === 'LR' ? 'LR' : 'TB'};`,
+    '  node [fontname="Helvetica", fontcolor="white", style="filled"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const node of workflow.nodes) {
+    const style = NODE_STYLES[node.type];
+    const rounded = node.type === 'agent' ? ', style="filled,rounded"' : '';
+    lines.push(`  ${ids.get(node.id)} [label="${escapeDot(getLabelLines(node).join('\n'))}", shape=${style.dot}, fillcolor="${style.fill}"${rounded}];`);
+  }
+  for (const connection of workflow.connections) {
+    const source = ids.get(connection.sourceId);
+    const target = ids.get(connection.targetId);
+    if (!source || !target) continue;
+    const label = getEdgeLabel(connection);
+    const attributes = [
+      ...(label ? [`label="${escapeDot(label)}"`] : []),
+      ...(label === ERROR_PORT ? ['style=dashed', 'color="#ef4444"'] : []),
+    ];
+    lines.push(`  ${source} -> ${target}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// Second line of a node card, as on the canvas
+const getCardSubtitle = (node: WorkflowNode): string => {
+  const agentId = getAgentId(node);
+  if (agentId) return `agent: ${agentId}`;
+  const condition = node.type === 'condition' ? configString(node.data.config, 'condition') : undefined;
+  if (condition) return condition;
+  if (node.type === 'action') return getWorkflowAction(configString(node.data.config, 'actionType'))?.label ?? 'Action';
+  const definition = node.type === 'subworkflow' ? getSubworkflowDefinition(node) : null;
+  if (definition) return `${definition.nodes.length} steps`;
+  return NODE_STYLES[node.type].label;
+};
+
+export interface SvgExportOptions {
+  // Path of a connection in workflow coordinates, the one the canvas draws
+  connectionPath: (source: WorkflowNode, target: WorkflowNode, connection: WorkflowConnection) => string;
+  padding?: number;
+}
+
+/**
+ * Standalone SVG snapshot of the canvas: node cards at their positions and
+ * the connections the canvas draws between their handles. Named ports label
+ * their connection along its path.
+ */
+export const exportSvg = (workflow: Workflow, { connectionPath, padding = 40 }: SvgExportOptions): string => {
+  const bounds = getWorkflowBounds(workflow.nodes) ?? { x: 0, y: 0, width: NODE_WIDTH, height: NODE_HEIGHT };
+  const x = bounds.x - padding;
+  const y = bounds.y - padding;
+  const width = bounds.width + padding * 2;
+  const height = bounds.height + padding * 2;
+  const nodes = new Map(workflow.nodes.map(node => [node.id, node]));
+
+  const connections = workflow.connections.flatMap((connection, index) => {
+    const source = nodes.get(connection.sourceId);
+    const target = nodes.get(connection.targetId);
+    if (!source || !target) return [];
+    const label = getEdgeLabel(connection);
+    const isError = label === ERROR_PORT;
+    const path = `<path id="edge-${index}" d="${escapeXml(connectionPath(source, target, connection))}" fill="none" stroke="${isError ? '#ef4444' : '#6366f1'}" stroke-width="2"${isError ? ' stroke-dasharray="6 4"' : ''} marker-end="url(#arrow)"/>`;
+    const text = label
+      ? `<text font-size="11" fill="#334155" dy="-4"><textPath href="#edge-${index}" startOffset="50%" text-anchor="middle">${escapeXml(label)}</textPath></text>`
+      : '';
+    return [path + text];
+  });
+
+  const cards = workflow.nodes.map(node => {
+    const style = NODE_STYLES[node.type];
+    return [
+      `<g transform="translate(${node.position.x} ${node.position.y})">`,
+      `<rect width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="12" fill="${style.fill}"/>`,
+      `<text x="12" y="22" font-size="12" font-weight="600" fill="#ffffff">${escapeXml(truncate(node.data.label || style.label, 22))}</text>`,
+      `<line x1="0" y1="32" x2="${NODE_WIDTH}" y2="32" stroke="#ffffff" stroke-opacity="0.25"/>`,
+      `<text x="${NODE_WIDTH / 2}" y="${(NODE_HEIGHT + 32) / 2 + 4}" font-size="11" fill="#ffffff" fill-opacity="0.9" text-anchor="middle">${escapeXml(truncate(getCardSubtitle(node), 24))}</text>`,
+      '</g>',
+    ].join('');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${escapeXml(workflow.name)}</title>`,
+    '<defs><marker id="arrow" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto"><polygon points="0 0, 10 4, 0 8" fill="#6366f1"/></marker></defs>',
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#f8fafc"/>`,
+    ...connections,
+    ...cards,
+    '</svg>',
+  ].join('\n');
+};
+
+// Mermaid shapes, longest opener first so `([` is not read as `(`
+const MERMAID_SHAPES: Array<{ open: string; close: string; type: WorkflowNodeType }> = [
+  { open: '([', close: '])', type: 'trigger' },
+  { open: '((', close: '))', type: 'trigger' },
+  { open: '[[', close: ']]', type: 'agent' },
+  { open: '[(', close: ')]', type: 'agent' },
+  { open: '{{', close: '}}', type: 'parallel' },
+  { open: '[/', close: '/]', type: 'action' },
+  { open: '[/', close: '\\]', type: 'join' },
+  { open: '[\\', close: '/]', type: 'join' },
+  { open: '[\\', close: '\\]', type: 'action' },
+  { open: '[', close: ']', type: 'agent' },
+  { open: '(', close: ')', type: 'agent' },
+  { open: '{', close: '}', type: 'condition' },
+  { open: '>', close: ']', type: 'agent' },
+];
+
+// Statements that style or group a diagram but add no nodes
+const IGNORED_STATEMENTS = /^(subgraph|end|classDef|class|style|linkStyle|click|direction)\b/;
+
+const EDGE_PATTERN = /^(?:--\s*([^-|>][^>]*?)\s*-->|==\s*([^=|>][^>]*?)\s*==>|-\.\s*([^>]*?)\s*\.->|-->|---|==>|===|-\.->|-\.-)(?:\s*\|([^|]*)\|)?/;
+
+interface ParsedNode {
+  id: string;
+  label?: string;
+  type?: WorkflowNodeType;
+}
+
+class MermaidCursor {
+  text: string;
+  position = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  skipSpace() {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+  }
+
+  get done() {
+    this.skipSpace();
+    return this.position >= this.text.length;
+  }
+
+  rest() {
+    return this.text.slice(this.position);
+  }
+
+  // `id`, optionally followed by a shape holding its label
+  readNode(): ParsedNode | null {
+    this.skipSpace();
+    const id = /^[A-Za-z0-9_][\w-]*/.exec(this.rest())?.[0];
+    if (!id) return null;
+    this.position += id.length;
+
+    // The opener with the nearest matching closer wins, so `[/a/]` and `[/a\]` differ
+    const rest = this.rest();
+    let best: { shape: typeof MERMAID_SHAPES[number]; end: number } | null = null;
+    for (const shape of MERMAID_SHAPES) {
+      if (!rest.startsWith(shape.open) || (best && best.shape.open.length > shape.open.length)) continue;
+      let body = shape.open.length;
+      if (rest[body] === '"') {
+        const quote = rest.indexOf('"', body + 1);
+        if (quote === -1) continue;
+        body = quote + 1;
+      }
+      const end = rest.indexOf(shape.close, body);
+      if (end !== -1 && (!best || end < best.end)) best = { shape, end };
+    }
+    if (best) {
+      const raw = rest.slice(best.shape.open.length, best.end).trim();
+      this.position += best.end + best.shape.close.length;
+      return { id, type: best.shape.type, label: raw.replace(/^"(.*)"$/s, '$1') };
+    }
+    return { id };
+  }
+
+  // `A & B` lists
+  readNodes(): ParsedNode[] | null {
+    const nodes: ParsedNode[] = [];
+    do {
+      const node = this.readNode();
+      if (!node) return null;
+      nodes.push(node);
+      this.skipSpace();
+    } while (this.rest().startsWith('&') && ++this.position);
+    return nodes;
+  }
+
+  readEdge(): { label?: string } | null {
+    this.skipSpace();
+    const match = EDGE_PATTERN.exec(this.rest());
+    if (!match) return null;
+    this.position += match[0].length;
+    const label = (match[4] ?? match[1] ?? match[2] ?? match[3])?.trim().replace(/^"(.*)"$/s, '$1');
+    return { label: label || undefined };
+  }
+}
+
+// `;` separates statements, except inside quoted labels where it ends entities like #quot;
+const splitStatements = (line: string): string[] => {
+  const statements = [''];
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) statements.push('');
+    else statements[statements.length - 1] += char;
+  }
+  return statements;
+};
+
+const BRANCH_LABELS: Record<string, string> = { true: 'true', yes: 'true', false: 'false', no: 'false' };
+
+/**
+ * Build a draft workflow from a Mermaid flowchart. Shapes choose node types,
+ * `true`/`yes` and `false`/`no` edge labels out of a condition pick its branch
+ * and an `error` label wires the error handle. Nodes are laid out automatically.
+ * Throws WorkflowImportError listing the lines it could not read.
+ */
+export const importMermaid = (text: string, name?: string): Workflow => {
+  const lines = text.replace(/\r/g, '').split('\n');
+  let title = name;
+  let start = 0;
+
+  // Optional front matter with the title
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end !== -1) {
+      const titleLine = lines.slice(1, end).find(line => /^\s*title:/.test(line));
+      title = titleLine?.replace(/^\s*title:\s*/, '').trim() || title;
+      start = end + 1;
+    }
+  }
+
+  const statements = lines.slice(start)
+    .map(line => line.replace(/%%.*$/, '').trim())
+    .flatMap(splitStatements)
+    .map(statement => statement.trim())
+    .filter(statement => statement.length > 0);
+
+  if (!/^(flowchart|graph)\b/.test(statements[0] ?? '')) {
+    throw new WorkflowImportError(['Not a Mermaid flowchart: the diagram has to start with "flowchart" or "graph"']);
+  }
+
+  const nodes = new Map<string, ParsedNode>();
+  const edges: Array<{ source: string; target: string; label?: string }> = [];
+  const issues: string[] = [];
+  const declare = (node: ParsedNode) => {
+    const existing = nodes.get(node.id);
+    nodes.set(node.id, { ...existing, ...node, type: node.type ?? existing?.type, label: node.label ?? existing?.label });
+  };
+
+  for (const statement of statements.slice(1)) {
+    if (IGNORED_STATEMENTS.test(statement)) continue;
+    const cursor = new MermaidCursor(statement);
+    let previous = cursor.readNodes();
+    if (!previous) {
+      issues.push(`Cannot read "${statement}"`);
+      continue;
+    }
+    previous.forEach(declare);
+    while (!cursor.done) {
+      const edge = cursor.readEdge();
+      const next = edge && cursor.readNodes();
+      if (!edge || !next) {
+        issues.push(`Cannot read "${statement}"`);
+        break;
+      }
+      next.forEach(declare);
+      for (const source of previous) {
+        for (const target of next) edges.push({ source: source.id, target: target.id, label: edge.label });
+      }
+      previous = next;
+    }
+  }
+
+  if (issues.length > 0) throw new WorkflowImportError(issues);
+  if (nodes.size === 0) throw new WorkflowImportError(['The flowchart has no nodes']);
+
+  const nodeIds = new Map([...nodes.keys()].map((id, index) => [id, `node_${index + 1}`]));
+  const errorSources = new Set<string>();
+  const connections: WorkflowConnection[] = edges.map((edge, index) => {
+    const sourceId = nodeIds.get(edge.source)!;
+    const targetId = nodeIds.get(edge.target)!;
+    const label = edge.label?.toLowerCase();
+    let port = 'bottom';
+    if (nodes.get(edge.source)!.type === 'condition' && label && BRANCH_LABELS[label]) {
+      port = BRANCH_LABELS[label];
+    } else if (label === ERROR_PORT) {
+      port = ERROR_PORT;
+      errorSources.add(edge.source);
+    }
+    return {
+      id: `conn_${index + 1}`,
+      sourceId,
+      targetId,
+      sourceHandle: `${sourceId}-${port}`,
+      targetHandle: `${targetId}-top`,
+    };
+  });
+
+  const workflowNodes: WorkflowNode[] = [...nodes.values()].map(parsed => {
+    const lines = unescapeMermaid(parsed.label ?? parsed.id).split(/<br\s*\/?>|\n/i).map(line => line.trim());
+    const agentId = lines.map(line => AGENT_LINE.exec(line)?.[1]).find(Boolean);
+    const type = parsed.type ?? 'agent';
+    const node: WorkflowNode = {
+      id: nodeIds.get(parsed.id)!,
+      type,
+      position: { x: 0, y: 0 },
+      data: {
+        label: lines.filter(line => !AGENT_LINE.test(line)).join(' ') || NODE_STYLES[type].label,
+        config: {
+          ...(type === 'agent' && agentId ? { agentId } : {}),
+          ...(errorSources.has(parsed.id) ? { policy: { ...DEFAULT_NODE_POLICY, onFailure: 'error_port' } } : {}),
+        },
+      },
+    };
+    return node;
+  });
+
+  const now = new Date();
+  const draft: Workflow = {
+    id: `wf_${Date.now()}`,
+    name: title || 'Imported diagram',
+    nodes: workflowNodes,
+    connections,
+    status: 'draft',
+    created_at: now,
+    updated_at: now,
+  };
+
+  const layout = layoutWorkflow(draft);
+  return {
+    ...draft,
+    nodes: draft.nodes.map(node => ({ ...node, position: layout.positions[node.id] ?? node.position })),
+    connections: draft.connections.map(connection => ({ ...connection, ...layout.connections[connection.id] })),
+  };
+};
@@ -0,0 +1,355 @@
+/**
+ * Workflow Execution Engine
+ * Orders Coordinator workflows by their connections, passes each node's output
+ * to its downstream nodes and runs independent branches concurrently.
+ */
+
+import { getHandlePort, type Workflow, type WorkflowConnection, type WorkflowNode } from './workflowTypes';
+import { ERROR_PORT, backoffDelay, getNodePolicy, withTimeout } from './workflowNodePolicy';
+
+export type NodeExecutionStatus = 'completed' | 'skipped' | 'failed';
+
+// Output of an upstream node as seen by the node consuming it
+export interface NodeInput {
+  nodeId: string;
+  port: string;
+  output: unknown;
+}
+
+export interface NodeExecutionContext {
+  workflow: Workflow;
+  inputs: NodeInput[];
+  results: ReadonlyMap<string, NodeExecutionResult>;
+  // Aborted when the run is stopped; executors pass it on to their canister calls
+  signal?: AbortSignal;
+}
+
+export interface NodeExecutionOutcome {
+  output: unknown;
+  // Output ports that forward this result; every port when omitted
+  activePorts?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface NodeAttempt {
+  attempt: number;
+  startedAt: number;
+  finishedAt: number;
+  error?: string;
+}
+
+export interface NodeExecutionResult {
+  nodeId: string;
+  status: NodeExecutionStatus;
+  output?: unknown;
+  metadata?: Record<string, unknown>;
+  error?: string;
+  // Every try made under the node's retry policy, including the last one
+  attempts?: NodeAttempt[];
+  startedAt: number;
+  finishedAt: number;
+}
+
+export type NodeExecutor = (node: WorkflowNode, context: NodeExecutionContext) => Promise<NodeExecutionOutcome>;
+
+export type NodeRunEvent =
+  | { type: 'started'; nodeId: string; inputs: NodeInput[] }
+  | { type: 'settled'; result: NodeExecutionResult };
+
+export interface WorkflowRunOptions {
+  maxConcurrency?: number;
+  // Awaited before each node executes; the debugger pauses here. Throwing a
+  // WorkflowCancelledError stops the run without failing the node.
+  beforeNode?: (node: WorkflowNode, context: NodeExecutionContext) => Promise<void> | void;
+  // Progress notifications for live node states
+  onNodeEvent?: (event: NodeRunEvent) => void;
+  // Active inputs after which a node may start without waiting for its other
+  // upstream nodes (N-of-M joins); undefined waits for every input
+  minInputs?: (node: WorkflowNode) => number | undefined;
+  // Stops the run: no further node starts and results still in flight are discarded
+  signal?: AbortSignal;
+}
+
+export interface WorkflowRunResult {
+  workflowId: string;
+  order: string[];
+  results: NodeExecutionResult[];
+}
+
+export interface WorkflowGraph {
+  nodes: Map<string, WorkflowNode>;
+  incoming: Map<string, WorkflowConnection[]>;
+  outgoing: Map<string, WorkflowConnection[]>;
+}
+
+export class WorkflowCycleError extends Error {
+  nodeIds: string[];
+
+  constructor(nodeIds: string[]) {
+    super(`Workflow contains a cycle between nodes: ${nodeIds.join(', ')}`);
+    this.name = 'WorkflowCycleError';
+    this.nodeIds = nodeIds;
+  }
+}
+
+export class WorkflowCancelledError extends Error {
+  results: NodeExecutionResult[];
+
+  constructor(results: NodeExecutionResult[] = [], message = 'Workflow run was cancelled') {
+    super(message);
+    this.name = 'WorkflowCancelledError';
+    this.results = results;
+  }
+}
+
+export class WorkflowExecutionError extends Error {
+  nodeId: string;
+  results: NodeExecutionResult[];
+
+  constructor(nodeId: string, message: string, results: NodeExecutionResult[]) {
+    super(message);
+    this.name = 'WorkflowExecutionError';
+    this.nodeId = nodeId;
+    this.results = results;
+  }
+}
+
+// Build adjacency lists, ignoring connections that point at missing nodes
+export const buildWorkflowGraph = (workflow: Workflow): WorkflowGraph => {
+  const nodes = new Map(workflow.nodes.map(node => [node.id, node]));
+  const incoming = new Map<string, WorkflowConnection[]>(workflow.nodes.map(node => [node.id, []]));
+  const outgoing = new Map<string, WorkflowConnection[]>(workflow.nodes.map(node => [node.id, []]));
+
+  for (const connection of workflow.connections) {
+    if (!nodes.has(connection.sourceId) || !nodes.has(connection.targetId)) continue;
+    outgoing.get(connection.sourceId)!.push(connection);
+    incoming.get(connection.targetId)!.push(connection);
+  }
+
+  return { nodes, incoming, outgoing };
+};
+
+// Kahn's algorithm; ties keep the order in which nodes were added to the workflow
+export const topologicalOrder = (graph: WorkflowGraph): string[] => {
+  const indegree = new Map(Array.from(graph.incoming, ([id, edges]) => [id, edges.length]));
+  const queue = Array.from(graph.nodes.keys()).filter(id => indegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    order.push(nodeId);
+    for (const connection of graph.outgoing.get(nodeId)!) {
+      const remaining = indegree.get(connection.targetId)! - 1;
+      indegree.set(connection.targetId, remaining);
+      if (remaining === 0) queue.push(connection.targetId);
+    }
+  }
+
+  if (order.length < graph.nodes.size) {
+    throw new WorkflowCycleError(Array.from(graph.nodes.keys()).filter(id => !order.includes(id)));
+  }
+
+  return order;
+};
+
+// Render a node output as prompt-friendly text
+export const outputToText = (output: unknown): string => {
+  if (output === undefined || output === null) return '';
+  if (typeof output === 'string') return output;
+  try {
+    return JSON.stringify(output);
+  } catch {
+    return String(output);
+  }
+};
+
+// Reject with a WorkflowCancelledError as soon as the signal aborts
+export const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new WorkflowCancelledError());
+  let onAbort: () => void;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      onAbort = () => reject(new WorkflowCancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+    }),
+  ]).finally(() => signal.removeEventListener('abort', onAbort));
+};
+
+// setTimeout as a promise that ends early when the run is cancelled
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  let timer: ReturnType<typeof setTimeout>;
+  return raceAbort(new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  }), signal).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Run every node of a workflow once its upstream nodes have settled, or once
+ * enough of them completed for nodes with a quorum (see minInputs).
+ * A node whose incoming connections are all inactive (skipped upstream or a
+ * port the source did not activate) is skipped instead of executed.
+ * Nodes are retried and time out according to their policy; a node that still
+ * fails stops the run unless its policy continues or routes to the error port.
+ * Aborting options.signal cancels the run: nothing new starts, nodes still in
+ * flight are dropped without a result and a WorkflowCancelledError is thrown.
+ */
+export const runWorkflowGraph = async (
+  workflow: Workflow,
+  executeNode: NodeExecutor,
+  options: WorkflowRunOptions = {}
+): Promise<WorkflowRunResult> => {
+  const graph = buildWorkflowGraph(workflow);
+  const order = topologicalOrder(graph);
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? Infinity);
+
+  const results = new Map<string, NodeExecutionResult>();
+  const activeEdges = new Set<string>();
+  const pendingInputs = new Map(order.map(id => [id, graph.incoming.get(id)!.length]));
+  const ready = order.filter(id => pendingInputs.get(id) === 0);
+  // Nodes already queued; late inputs of a node that started on quorum are ignored
+  const queued = new Set(ready);
+  const activeInputCounts = new Map(order.map(id => [id, 0]));
+  const quorums = new Map(order.map(id => [id, options.minInputs?.(graph.nodes.get(id)!)]));
+  const running = new Set<Promise<void>>();
+  let failure: WorkflowExecutionError | WorkflowCancelledError | null = null;
+
+  // Completed nodes forward on every port but the error port unless they name
+  // their ports; failed nodes only forward on the ports their policy names
+  const settle = (result: NodeExecutionResult, activePorts?: string[]) => {
+    results.set(result.nodeId, result);
+    options.onNodeEvent?.({ type: 'settled', result });
+    for (const connection of graph.outgoing.get(result.nodeId)!) {
+      const port = getHandlePort(connection.sourceHandle, result.nodeId);
+      const targetId = connection.targetId;
+      const forwards = activePorts
+        ? activePorts.includes(port)
+        : result.status === 'completed' && port !== ERROR_PORT;
+      if (forwards) {
+        activeEdges.add(connection.id);
+        activeInputCounts.set(targetId, activeInputCounts.get(targetId)! + 1);
+      }
+      const remaining = pendingInputs.get(targetId)! - 1;
+      pendingInputs.set(targetId, remaining);
+      const quorum = quorums.get(targetId);
+      const quorumReached = quorum !== undefined && activeInputCounts.get(targetId)! >= quorum;
+      if ((remaining === 0 || quorumReached) && !queued.has(targetId)) {
+        queued.add(targetId);
+        ready.push(targetId);
+      }
+    }
+  };
+
+  const { signal } = options;
+  const cancel = () => {
+    failure ??= new WorkflowCancelledError();
+  };
+
+  const runNode = async (node: WorkflowNode, inputs: NodeInput[]) => {
+    const context = { workflow, inputs, results, signal };
+    try {
+      signal?.throwIfAborted();
+      await options.beforeNode?.(node, context);
+      signal?.throwIfAborted();
+    } catch (error) {
+      failure ??= error instanceof WorkflowCancelledError || signal?.aborted
+        ? new WorkflowCancelledError()
+        : new WorkflowExecutionError(node.id, `Node "${node.data.label}" could not start: ${String(error)}`, []);
+      return;
+    }
+
+    const policy = getNodePolicy(node);
+    const attempts: NodeAttempt[] = [];
+    const startedAt = Date.now();
+    options.onNodeEvent?.({ type: 'started', nodeId: node.id, inputs });
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStartedAt = Date.now();
+      try {
+        const outcome = await raceAbort(withTimeout(executeNode(node, context), policy.timeoutMs), signal);
+        attempts.push({ attempt, startedAt: attemptStartedAt, finishedAt: Date.now() });
+        settle({
+          nodeId: node.id,
+          status: 'completed',
+          output: outcome.output,
+          metadata: outcome.metadata,
+          attempts,
+          startedAt,
+          finishedAt: Date.now(),
+        }, outcome.activePorts);
+        return;
+      } catch (error) {
+        // Whatever the node was doing when the run stopped is discarded
+        if (signal?.aborted) {
+          cancel();
+          return;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        attempts.push({ attempt, startedAt: attemptStartedAt, finishedAt: Date.now(), error: message });
+        if (attempt <= policy.maxRetries && !failure) {
+          try {
+            await sleep(backoffDelay(policy, attempt), signal);
+          } catch {
+            cancel();
+            return;
+          }
+          continue;
+        }
+
+        const result: NodeExecutionResult = { nodeId: node.id, status: 'failed', error: message, attempts, startedAt, finishedAt: Date.now() };
+        if (policy.onFailure === 'continue') {
+          settle({ ...result, output: '' }, graph.outgoing.get(node.id)!
+            .map(connection => getHandlePort(connection.sourceHandle, node.id))
+            .filter(port => port !== ERROR_PORT));
+        } else if (policy.onFailure === 'error_port') {
+          settle({ ...result, output: { error: message, nodeId: node.id, attempts: attempts.length } }, [ERROR_PORT]);
+        } else {
+          results.set(node.id, result);
+          options.onNodeEvent?.({ type: 'settled', result });
+          failure ??= new WorkflowExecutionError(node.id, `Node "${node.data.label}" failed: ${message}`, []);
+        }
+        return;
+      }
+    }
+  };
+
+  signal?.addEventListener('abort', cancel, { once: true });
+  while (ready.length > 0 || running.size > 0) {
+    while (ready.length > 0 && !failure && !signal?.aborted && running.size < maxConcurrency) {
+      const node = graph.nodes.get(ready.shift()!)!;
+      const incoming = graph.incoming.get(node.id)!;
+      const activeIncoming = incoming.filter(connection => activeEdges.has(connection.id));
+
+      if (incoming.length > 0 && activeIncoming.length === 0) {
+        const now = Date.now();
+        settle({ nodeId: node.id, status: 'skipped', startedAt: now, finishedAt: now });
+        continue;
+      }
+
+      const inputs = activeIncoming.map(connection => ({
+        nodeId: connection.sourceId,
+        port: getHandlePort(connection.sourceHandle, connection.sourceId),
+        output: results.get(connection.sourceId)?.output,
+      }));
+      const task: Promise<void> = runNode(node, inputs).finally(() => running.delete(task));
+      running.add(task);
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+  signal?.removeEventListener('abort', cancel);
+
+  const settled = Array.from(results.values());
+  // Assigned inside runNode, so TypeScript cannot narrow it here
+  const stopped = failure as WorkflowExecutionError | WorkflowCancelledError | null;
+  if (stopped instanceof WorkflowCancelledError || signal?.aborted) {
+    throw new WorkflowCancelledError(settled);
+  }
+  if (stopped) {
+    throw new WorkflowExecutionError(stopped.nodeId, stopped.message, settled);
+  }
+
+  return { workflowId: workflow.id, order, results: settled };
+};
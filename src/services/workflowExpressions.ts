@@ -0,0 +1,379 @@
+/**
+ * Workflow Expression Language
+ * A small sandboxed expression evaluator for Coordinator condition nodes.
+ * Expressions are parsed into an AST and interpreted; nothing is ever passed to eval.
+ *
+ * Supported syntax:
+ * - literals: numbers, "strings" or 'strings', true, false, null
+ * - variables: output (upstream output as text), inputs (array of upstream outputs),
+ *   $ (upstream output parsed as JSON) with member access such as $.items[0].status
+ * - operators: ! - * / % + < <= > >= == != && || and parentheses
+ * - functions: see EXPRESSION_FUNCTIONS
+ */
+
+export class ExpressionError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: string; pos: number }
+  | { kind: 'eof'; pos: number };
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'variable'; name: string; pos: number }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; pos: number }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+export interface ExpressionContext {
+  output: unknown;
+  inputs: unknown[];
+  [name: string]: unknown;
+}
+
+// Variables every expression context provides
+export const EXPRESSION_VARIABLES = ['output', 'inputs', '$'];
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ','];
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) throw new ExpressionError('Unterminated string', i);
+      tokens.push({ kind: 'string', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, i);
+    tokens.push({ kind: 'operator', value: operator, pos: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+};
+
+// Recursive-descent parser, lowest precedence first
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') throw new ExpressionError('Unexpected token', next.pos);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      throw new ExpressionError(`Expected "${operator}"`, this.peek().pos);
+    }
+  }
+
+  private parseBinary(next: () => ExpressionNode, operators: string[]): ExpressionNode {
+    let left = next();
+    let operator = this.matchOperator(...operators);
+    while (operator) {
+      left = { type: 'binary', operator, left, right: next() };
+      operator = this.matchOperator(...operators);
+    }
+    return left;
+  }
+
+  private parseOr = (): ExpressionNode => this.parseBinary(this.parseAnd, ['||']);
+  private parseAnd = (): ExpressionNode => this.parseBinary(this.parseEquality, ['&&']);
+  private parseEquality = (): ExpressionNode => this.parseBinary(this.parseComparison, ['==', '!=']);
+  private parseComparison = (): ExpressionNode => this.parseBinary(this.parseAdditive, ['<=', '>=', '<', '>']);
+  private parseAdditive = (): ExpressionNode => this.parseBinary(this.parseMultiplicative, ['+', '-']);
+  private parseMultiplicative = (): ExpressionNode => this.parseBinary(this.parseUnary, ['*', '/', '%']);
+
+  private parseUnary = (): ExpressionNode => {
+    const operator = this.matchOperator('!', '-');
+    if (operator) return { type: 'unary', operator, operand: this.parseUnary() };
+    return this.parsePostfix();
+  };
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      const pos = this.peek().pos;
+      if (this.matchOperator('.')) {
+        const token = this.peek();
+        if (token.kind !== 'identifier') throw new ExpressionError('Expected property name', token.pos);
+        this.index++;
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value }, pos };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseOr();
+        this.expectOperator(']');
+        node = { type: 'member', object: node, property, pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier': {
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (this.matchOperator('(')) {
+          if (!Object.hasOwn(EXPRESSION_FUNCTIONS, token.value)) {
+            throw new ExpressionError(`Unknown function "${token.value}"`, token.pos);
+          }
+          const args: ExpressionNode[] = [];
+          if (!this.matchOperator(')')) {
+            do {
+              args.push(this.parseOr());
+            } while (this.matchOperator(','));
+            this.expectOperator(')');
+          }
+          return { type: 'call', name: token.value, args };
+        }
+        return { type: 'variable', name: token.value, pos: token.pos };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectOperator(')');
+          return node;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.pos);
+      default:
+        throw new ExpressionError('Unexpected end of expression', token.pos);
+    }
+  }
+}
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+export const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const isTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+};
+
+const looseEquals = (left: unknown, right: unknown): boolean => {
+  if (typeof left === 'object' || typeof right === 'object') {
+    return toText(left) === toText(right);
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right);
+  }
+  return left === right;
+};
+
+// Whitelisted functions callable from expressions
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  contains: (haystack, needle) => Array.isArray(haystack)
+    ? haystack.some(item => looseEquals(item, needle))
+    : toText(haystack).toLowerCase().includes(toText(needle).toLowerCase()),
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  matches: (value, pattern) => new RegExp(toText(pattern), 'i').test(toText(value)),
+  length: value => Array.isArray(value) ? value.length : toText(value).length,
+  words: value => toText(value).trim().split(/\s+/).filter(Boolean).length,
+  lower: value => toText(value).toLowerCase(),
+  upper: value => toText(value).toUpperCase(),
+  trim: value => toText(value).trim(),
+  number: value => Number(value),
+  text: value => toText(value),
+  json: value => parseJsonValue(value),
+  empty: value => !isTruthy(typeof value === 'string' ? value.trim() : value),
+};
+
+const readProperty = (object: unknown, property: unknown, position: number): unknown => {
+  if (object === null || object === undefined) return undefined;
+  const key = typeof property === 'number' ? property : toText(property);
+  if (typeof key === 'string' && BLOCKED_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to "${key}" is not allowed`, position);
+  }
+  if (typeof object === 'string') {
+    return key === 'length' ? object.length : typeof key === 'number' ? object[key] : undefined;
+  }
+  if (typeof object !== 'object' || !Object.prototype.hasOwnProperty.call(object, key)) return undefined;
+  return (object as Record<string | number, unknown>)[key];
+};
+
+const evaluateNode = (node: ExpressionNode, context: ExpressionContext): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      if (node.name === '$') return parseJsonValue(context.output);
+      if (!Object.prototype.hasOwnProperty.call(context, node.name)) {
+        throw new ExpressionError(`Unknown variable "${node.name}"`, node.pos);
+      }
+      return context[node.name];
+    case 'member':
+      return readProperty(evaluateNode(node.object, context), evaluateNode(node.property, context), node.pos);
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, context)));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      return node.operator === '!' ? !isTruthy(operand) : -Number(operand);
+    }
+    case 'binary': {
+      if (node.operator === '&&') {
+        return isTruthy(evaluateNode(node.left, context)) && isTruthy(evaluateNode(node.right, context));
+      }
+      if (node.operator === '||') {
+        return isTruthy(evaluateNode(node.left, context)) || isTruthy(evaluateNode(node.right, context));
+      }
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '<': return Number(left) < Number(right);
+        case '<=': return Number(left) <= Number(right);
+        case '>': return Number(left) > Number(right);
+        case '>=': return Number(left) >= Number(right);
+        case '+':
+          return typeof left === 'number' && typeof right === 'number' ? left + right : toText(left) + toText(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.operator}"`, 0);
+    }
+  }
+};
+
+export const parseExpression = (source: string): ExpressionNode => {
+  if (!source.trim()) throw new ExpressionError('Expression is empty', 0);
+  return new Parser(tokenize(source)).parse();
+};
+
+export const evaluateExpression = (source: string, context: ExpressionContext): unknown =>
+  evaluateNode(parseExpression(source), context);
+
+export const evaluateCondition = (source: string, context: ExpressionContext): boolean =>
+  isTruthy(evaluateExpression(source, context));
+
+// The first variable the expression reads that its context will not provide
+const findUnknownVariable = (node: ExpressionNode, variables: string[]): { name: string; pos: number } | null => {
+  switch (node.type) {
+    case 'literal':
+      return null;
+    case 'variable':
+      return variables.includes(node.name) ? null : node;
+    case 'member':
+      return findUnknownVariable(node.object, variables) ?? findUnknownVariable(node.property, variables);
+    case 'call':
+      return node.args.reduce<{ name: string; pos: number } | null>(
+        (found, arg) => found ?? findUnknownVariable(arg, variables),
+        null
+      );
+    case 'unary':
+      return findUnknownVariable(node.operand, variables);
+    case 'binary':
+      return findUnknownVariable(node.left, variables) ?? findUnknownVariable(node.right, variables);
+  }
+};
+
+/**
+ * Returns the error message for an expression, or null when it is valid.
+ * Besides syntax, checks that it only reads the given variables, so a typo
+ * is reported while the node is configured rather than when it runs.
+ */
+export const validateExpression = (source: string, variables: string[] = EXPRESSION_VARIABLES): string | null => {
+  try {
+    const unknown = findUnknownVariable(parseExpression(source), variables);
+    if (unknown) throw new ExpressionError(`Unknown variable "${unknown.name}"`, unknown.pos);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+};
@@ -0,0 +1,118 @@
+/**
+ * Workflow Fan-out / Fan-in
+ * Parallel nodes send their input down every outgoing branch; join nodes wait
+ * for all or N of those branches and merge what they produced into one output.
+ */
+
+import { outputToText, type NodeInput } from './workflowEngine';
+import { evaluateExpression, validateExpression } from './workflowExpressions';
+import { configString, type WorkflowNode } from './workflowTypes';
+
+export type JoinMode = 'all' | 'n_of_m';
+export type MergeStrategy = 'concat' | 'majority' | 'best_of';
+
+export interface JoinConfig {
+  joinMode: JoinMode;
+  // Branches to wait for in 'n_of_m' mode
+  required: number;
+  mergeStrategy: MergeStrategy;
+  separator: string;
+  // Scores each branch output for 'best_of'; the highest score wins
+  scoreExpression: string;
+  // Let the coordinator's swarm policy (top_k / window_ms) pick the winners
+  useSwarmRouting: boolean;
+}
+
+export const MERGE_STRATEGIES: Array<{ value: MergeStrategy; label: string; description: string }> = [
+  { value: 'concat', label: 'Concatenate', description: 'Join every branch output in connection order' },
+  { value: 'majority', label: 'Majority vote', description: 'Pick the answer most branches agree on' },
+  { value: 'best_of', label: 'Best of', description: 'Pick the output with the highest score' },
+];
+
+export const DEFAULT_SCORE_EXPRESSION = 'length(output)';
+
+export const getJoinConfig = (node: WorkflowNode): JoinConfig => {
+  const config = node.data.config || {};
+  return {
+    joinMode: config.joinMode === 'n_of_m' ? 'n_of_m' : 'all',
+    required: Math.max(1, Math.floor(Number(config.required) || 1)),
+    mergeStrategy: MERGE_STRATEGIES.find(s => s.value === config.mergeStrategy)?.value ?? 'concat',
+    separator: typeof config.separator === 'string' ? config.separator : '\n\n',
+    scoreExpression: configString(config, 'scoreExpression')?.trim() || DEFAULT_SCORE_EXPRESSION,
+    useSwarmRouting: config.useSwarmRouting === true,
+  };
+};
+
+// Active inputs after which a join may start; undefined means wait for every branch
+export const getJoinQuorum = (node: WorkflowNode): number | undefined => {
+  if (node.type !== 'join') return undefined;
+  const config = getJoinConfig(node);
+  return config.joinMode === 'n_of_m' ? config.required : undefined;
+};
+
+export const validateJoinConfig = (config: JoinConfig, branchCount: number): string | null => {
+  if (config.joinMode === 'n_of_m' && config.required > branchCount) {
+    return `Waits for ${config.required} branches but only ${branchCount} are connected`;
+  }
+  if (config.mergeStrategy === 'best_of') {
+    const error = validateExpression(config.scoreExpression);
+    if (error) return `Score expression: ${error}`;
+  }
+  return null;
+};
+
+const normalizeAnswer = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface MergeResult {
+  output: unknown;
+  // Index into the inputs of the branch that won (majority / best_of)
+  winner?: number;
+  details: Record<string, unknown>;
+}
+
+// Merge the outputs of the branches that completed, in connection order
+export const mergeBranchOutputs = (inputs: NodeInput[], config: JoinConfig): MergeResult => {
+  if (inputs.length === 0) {
+    return { output: null, details: { branches: 0 } };
+  }
+  const texts = inputs.map(input => outputToText(input.output));
+
+  switch (config.mergeStrategy) {
+    case 'majority': {
+      const votes = new Map<string, number[]>();
+      texts.forEach((text, index) => {
+        const key = normalizeAnswer(text);
+        votes.set(key, [...(votes.get(key) || []), index]);
+      });
+      // Ties go to the answer of the first connected branch
+      const [, voters] = [...votes.entries()].reduce((best, entry) => entry[1].length > best[1].length ? entry : best);
+      return {
+        output: inputs[voters[0]].output,
+        winner: voters[0],
+        details: { branches: inputs.length, votes: voters.length },
+      };
+    }
+
+    case 'best_of': {
+      const scores = inputs.map(input => {
+        const score = Number(evaluateExpression(config.scoreExpression, {
+          output: outputToText(input.output),
+          inputs: inputs.map(i => i.output),
+        }));
+        return Number.isFinite(score) ? score : -Infinity;
+      });
+      const winner = scores.reduce((best, score, index) => score > scores[best] ? index : best, 0);
+      return {
+        output: inputs[winner].output,
+        winner,
+        details: { branches: inputs.length, scores },
+      };
+    }
+
+    default:
+      return {
+        output: texts.filter(text => text.length > 0).join(config.separator),
+        details: { branches: inputs.length },
+      };
+  }
+};
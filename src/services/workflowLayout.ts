@@ -0,0 +1,320 @@
+/**
+ * Workflow Layout
+ * Canvas geometry for the Coordinator: node size, the zoom/pan viewport,
+ * connection paths between ports and a layered auto-layout that arranges
+ * nodes left to right by graph depth.
+ */
+
+import { SUBWORKFLOW_INPUT_PREFIX } from './workflowSubworkflows';
+import { getHandlePort, type ConnectionRoute, type Workflow, type WorkflowConnection } from './workflowTypes';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maps canvas (world) coordinates to screen pixels: screen = world * zoom + offset
+export interface CanvasViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Where auto-layout puts nodes and how it rewires and routes connections
+export interface WorkflowLayout {
+  positions: Record<string, Point>;
+  connections: Record<string, Pick<WorkflowConnection, 'sourceHandle' | 'targetHandle' | 'route'>>;
+}
+
+export const NODE_WIDTH = 160;
+export const NODE_HEIGHT = 96;
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 2;
+export const DEFAULT_VIEWPORT: CanvasViewport = { x: 0, y: 0, zoom: 1 };
+
+// Horizontal room between layers; connection curves stay inside it
+const COLUMN_GAP = 140;
+const ROW_GAP = 64;
+// Height reserved in a layer for a connection passing through it
+const LANE_HEIGHT = 24;
+const LAYOUT_ORIGIN: Point = { x: 40, y: 40 };
+const ORDERING_SWEEPS = 4;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (viewport: CanvasViewport, point: Point): Point => ({
+  x: (point.x - viewport.x) / viewport.zoom,
+  y: (point.y - viewport.y) / viewport.zoom,
+});
+
+// Zoom while keeping the world point under `anchor` (screen pixels) in place
+export const zoomAround = (viewport: CanvasViewport, anchor: Point, zoom: number): CanvasViewport => {
+  const next = clampZoom(zoom);
+  const world = screenToWorld(viewport, anchor);
+  return { x: anchor.x - world.x * next, y: anchor.y - world.y * next, zoom: next };
+};
+
+// Scroll so `point` (world) sits in the middle of a canvas of the given size
+export const centerOn = (viewport: CanvasViewport, point: Point, size: { width: number; height: number }): CanvasViewport => ({
+  ...viewport,
+  x: size.width / 2 - point.x * viewport.zoom,
+  y: size.height / 2 - point.y * viewport.zoom,
+});
+
+// The part of the world visible on a canvas of the given size
+export const getVisibleBounds = (viewport: CanvasViewport, size: { width: number; height: number }): Bounds => ({
+  ...screenToWorld(viewport, { x: 0, y: 0 }),
+  width: size.width / viewport.zoom,
+  height: size.height / viewport.zoom,
+});
+
+export const getWorkflowBounds = (nodes: Workflow['nodes']): Bounds | null => {
+  if (nodes.length === 0) return null;
+  const xs = nodes.map(node => node.position.x);
+  const ys = nodes.map(node => node.position.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) + NODE_WIDTH - x, height: Math.max(...ys) + NODE_HEIGHT - y };
+};
+
+// Nodes touched by a rubber-band selection
+export const getNodesInBounds = (nodes: Workflow['nodes'], bounds: Bounds): Workflow['nodes'] =>
+  nodes.filter(node =>
+    node.position.x < bounds.x + bounds.width && node.position.x + NODE_WIDTH > bounds.x &&
+    node.position.y < bounds.y + bounds.height && node.position.y + NODE_HEIGHT > bounds.y
+  );
+
+// Largest zoom (never above 100%) that shows all of `bounds` with some padding
+export const fitViewport = (bounds: Bounds, size: { width: number; height: number }, padding = 40): CanvasViewport => {
+  const zoom = clampZoom(Math.min(
+    (size.width - padding * 2) / bounds.width,
+    (size.height - padding * 2) / bounds.height,
+    1
+  ));
+  return centerOn({ x: 0, y: 0, zoom }, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, size);
+};
+
+// Direction a connection leaves (or enters) a port, pointing away from the node
+export const getPortDirection = (port: string): Point => {
+  // Sub-workflow inputs sit on the top edge like the regular input
+  if (port.startsWith(SUBWORKFLOW_INPUT_PREFIX)) return { x: 0, y: -1 };
+  switch (port) {
+    case 'top':
+      return { x: 0, y: -1 };
+    case 'left':
+      return { x: -1, y: 0 };
+    case 'right':
+    case 'error':
+      return { x: 1, y: 0 };
+    default:
+      return { x: 0, y: 1 };
+  }
+};
+
+const curve = (from: Point, fromDirection: Point, to: Point, toDirection: Point) => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  // Minimum 60px for nice curves
+  const offset = Math.max(Math.min(distance * 0.4, 120), 60);
+  return `C ${from.x + fromDirection.x * offset} ${from.y + fromDirection.y * offset}, ` +
+    `${to.x + toDirection.x * offset} ${to.y + toDirection.y * offset}, ${to.x} ${to.y}`;
+};
+
+/**
+ * SVG path from a source port to a target port. Waypoints come in pairs that
+ * mark the two ends of a lane the connection runs straight through.
+ */
+export const buildConnectionPath = (
+  source: { position: Point; port: string },
+  target: { position: Point; port: string },
+  waypoints: Point[] = []
+): string => {
+  const segments = [`M ${source.position.x} ${source.position.y}`];
+  let from = source.position;
+  let fromDirection = getPortDirection(source.port);
+
+  for (let i = 0; i + 1 < waypoints.length; i += 2) {
+    const [laneStart, laneEnd] = [waypoints[i], waypoints[i + 1]];
+    segments.push(curve(from, fromDirection, laneStart, { x: -1, y: 0 }), `L ${laneEnd.x} ${laneEnd.y}`);
+    from = laneEnd;
+    fromDirection = { x: 1, y: 0 };
+  }
+
+  segments.push(curve(from, fromDirection, target.position, getPortDirection(target.port)));
+  return segments.join(' ');
+};
+
+// A stored route only applies while both nodes are still where layout put them
+export const getActiveRoute = (
+  connection: Pick<WorkflowConnection, 'route'>,
+  sourcePosition: Point,
+  targetPosition: Point
+): ConnectionRoute | undefined => {
+  const route = connection.route;
+  if (!route) return undefined;
+  const samePosition = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+  return samePosition(route.sourcePosition, sourcePosition) && samePosition(route.targetPosition, targetPosition)
+    ? route
+    : undefined;
+};
+
+// Node order in which as many connections as possible point forward.
+// Cycles are broken at the earliest node with the fewest unplaced inputs.
+const acyclicOrder = (nodeIds: string[], edges: WorkflowConnection[]): string[] => {
+  const remaining = new Set(nodeIds);
+  const inDegree = new Map(nodeIds.map(id => [id, 0]));
+  edges.forEach(edge => inDegree.set(edge.targetId, inDegree.get(edge.targetId)! + 1));
+
+  const order: string[] = [];
+  while (remaining.size > 0) {
+    let next: string | undefined;
+    for (const id of remaining) {
+      if (next === undefined || inDegree.get(id)! < inDegree.get(next)!) next = id;
+      if (inDegree.get(id) === 0) break;
+    }
+    remaining.delete(next!);
+    order.push(next!);
+    edges
+      .filter(edge => edge.sourceId === next && remaining.has(edge.targetId))
+      .forEach(edge => inDegree.set(edge.targetId, inDegree.get(edge.targetId)! - 1));
+  }
+  return order;
+};
+
+interface LayoutSlot {
+  id: string;
+  // Slots without a node hold a lane for a connection spanning several layers
+  nodeId?: string;
+}
+
+/**
+ * Layered (Sugiyama-style) layout. Every node goes one layer to the right of
+ * its deepest input, layers are reordered by the average position of their
+ * neighbours to reduce crossings, and connections that skip layers get a lane
+ * of their own in each layer they pass so they never run through a node.
+ * Connections that close a cycle keep their ports and are not routed.
+ */
+export const layoutWorkflow = (workflow: Workflow): WorkflowLayout => {
+  const nodeIds = workflow.nodes.map(node => node.id);
+  const known = new Set(nodeIds);
+  const edges = workflow.connections.filter(c => known.has(c.sourceId) && known.has(c.targetId) && c.sourceId !== c.targetId);
+
+  const order = acyclicOrder(nodeIds, edges);
+  const rank = new Map(order.map((id, index) => [id, index]));
+  const forward = edges.filter(edge => rank.get(edge.sourceId)! < rank.get(edge.targetId)!);
+
+  // Longest path from the sources
+  const depth = new Map<string, number>();
+  order.forEach(id => {
+    const inputs = forward.filter(edge => edge.targetId === id).map(edge => depth.get(edge.sourceId)! + 1);
+    depth.set(id, Math.max(0, ...inputs));
+  });
+
+  const layerCount = Math.max(0, ...depth.values()) + 1;
+  const layers: LayoutSlot[][] = Array.from({ length: layerCount }, () => []);
+  order.forEach(id => layers[depth.get(id)!].push({ id, nodeId: id }));
+
+  // Consecutive slots each connection passes through, source first
+  const chains = new Map<string, string[]>();
+  forward.forEach(edge => {
+    const chain = [edge.sourceId];
+    for (let layer = depth.get(edge.sourceId)! + 1; layer < depth.get(edge.targetId)!; layer++) {
+      const id = `${edge.id}#${layer}`;
+      layers[layer].push({ id });
+      chain.push(id);
+    }
+    chains.set(edge.id, [...chain, edge.targetId]);
+  });
+
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  chains.forEach(chain => chain.slice(1).forEach((id, index) => {
+    predecessors.set(id, [...(predecessors.get(id) ?? []), chain[index]]);
+    successors.set(chain[index], [...(successors.get(chain[index]) ?? []), id]);
+  }));
+
+  const indexOf = new Map<string, number>();
+  const reindex = (layer: LayoutSlot[]) => layer.forEach((slot, index) => indexOf.set(slot.id, index));
+  layers.forEach(reindex);
+
+  const reorder = (layer: LayoutSlot[], neighbours: Map<string, string[]>) => {
+    const barycentre = (slot: LayoutSlot) => {
+      const linked = neighbours.get(slot.id) ?? [];
+      return linked.length === 0
+        ? indexOf.get(slot.id)!
+        : linked.reduce((sum, id) => sum + indexOf.get(id)!, 0) / linked.length;
+    };
+    const keys = new Map(layer.map(slot => [slot.id, barycentre(slot)]));
+    layer.sort((a, b) => keys.get(a.id)! - keys.get(b.id)! || indexOf.get(a.id)! - indexOf.get(b.id)!);
+    reindex(layer);
+  };
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+    for (let layer = 1; layer < layerCount; layer++) reorder(layers[layer], predecessors);
+    for (let layer = layerCount - 2; layer >= 0; layer--) reorder(layers[layer], successors);
+  }
+
+  // Stack each layer top to bottom and centre it against the tallest one
+  const slotHeight = (slot: LayoutSlot) => slot.nodeId ? NODE_HEIGHT : LANE_HEIGHT;
+  const layerHeight = (layer: LayoutSlot[]) =>
+    layer.reduce((sum, slot) => sum + slotHeight(slot), 0) + Math.max(0, layer.length - 1) * ROW_GAP;
+  const tallest = Math.max(...layers.map(layerHeight));
+
+  const slotPositions = new Map<string, Point>();
+  layers.forEach((layer, index) => {
+    const x = LAYOUT_ORIGIN.x + index * (NODE_WIDTH + COLUMN_GAP);
+    let y = LAYOUT_ORIGIN.y + (tallest - layerHeight(layer)) / 2;
+    layer.forEach(slot => {
+      slotPositions.set(slot.id, { x, y });
+      y += slotHeight(slot) + ROW_GAP;
+    });
+  });
+
+  const positions = Object.fromEntries(nodeIds.map(id => [id, slotPositions.get(id)!]));
+
+  const connections: WorkflowLayout['connections'] = {};
+  workflow.connections.forEach(connection => {
+    const chain = chains.get(connection.id);
+    if (!chain) {
+      connections[connection.id] = { sourceHandle: connection.sourceHandle, targetHandle: connection.targetHandle };
+      return;
+    }
+
+    // Plain outputs and inputs move to the sides facing the neighbouring layers
+    const sourcePort = getHandlePort(connection.sourceHandle, connection.sourceId);
+    const targetPort = getHandlePort(connection.targetHandle, connection.targetId);
+    const lanes = chain.slice(1, -1).map(id => slotPositions.get(id)!);
+
+    connections[connection.id] = {
+      sourceHandle: sourcePort === 'bottom' || sourcePort === 'default' ? `${connection.sourceId}-right` : connection.sourceHandle,
+      targetHandle: targetPort === 'top' || targetPort === 'default' ? `${connection.targetId}-left` : connection.targetHandle,
+      route: lanes.length === 0 ? undefined : {
+        sourcePosition: positions[connection.sourceId],
+        targetPosition: positions[connection.targetId],
+        waypoints: lanes.flatMap(lane => [
+          { x: lane.x, y: lane.y + LANE_HEIGHT / 2 },
+          { x: lane.x + NODE_WIDTH, y: lane.y + LANE_HEIGHT / 2 },
+        ]),
+      },
+    };
+  });
+
+  return { positions, connections };
+};
+
+// The current layout of a workflow, so auto-layout can be undone
+export const captureLayout = (workflow: Workflow): WorkflowLayout => ({
+  positions: Object.fromEntries(workflow.nodes.map(node => [node.id, node.position])),
+  connections: Object.fromEntries(workflow.connections.map(connection => [connection.id, {
+    sourceHandle: connection.sourceHandle,
+    targetHandle: connection.targetHandle,
+    route: connection.route,
+  }])),
+});
@@ -0,0 +1,108 @@
+/**
+ * Workflow Library
+ * A personal library of sub-workflows per principal, so a group of nodes built
+ * once (e.g. draft → critique → revise) can be dropped into any workflow.
+ */
+
+import { LocalDatabase, createPrincipalStoreFactory, requestToPromise } from './localDatabase';
+import type { SubworkflowDefinition } from './workflowSubworkflows';
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  description?: string;
+  definition: SubworkflowDefinition;
+  savedAt: Date;
+}
+
+export interface WorkflowLibraryStorageAdapter {
+  listEntries(owner: string): Promise<LibraryEntry[]>;
+  putEntry(owner: string, entry: LibraryEntry): Promise<void>;
+  deleteEntry(owner: string, entryId: string): Promise<void>;
+}
+
+const DB_NAME = 'ohms-workflow-library';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+
+// IndexedDB storage keyed by owner, like workflows and their runs
+export class IndexedDbWorkflowLibraryStorage implements WorkflowLibraryStorageAdapter {
+  private db = new LocalDatabase(DB_NAME, DB_VERSION, [
+    { name: ENTRY_STORE, keyPath: ['owner', 'entry.id'], indexes: { owner: 'owner' } },
+  ]);
+
+  async listEntries(owner: string): Promise<LibraryEntry[]> {
+    const store = await this.db.store(ENTRY_STORE, 'readonly');
+    const records = await requestToPromise(store.index('owner').getAll(owner));
+    return records.map(record => record.entry);
+  }
+
+  async putEntry(owner: string, entry: LibraryEntry): Promise<void> {
+    const store = await this.db.store(ENTRY_STORE, 'readwrite');
+    await requestToPromise(store.put({ owner, entry }));
+  }
+
+  async deleteEntry(owner: string, entryId: string): Promise<void> {
+    const store = await this.db.store(ENTRY_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, entryId]));
+  }
+}
+
+// In-memory storage for environments without IndexedDB (and for tests)
+export class MemoryWorkflowLibraryStorage implements WorkflowLibraryStorageAdapter {
+  private entries = new Map<string, LibraryEntry>();
+
+  async listEntries(owner: string): Promise<LibraryEntry[]> {
+    return [...this.entries.entries()]
+      .filter(([key]) => key.startsWith(`${owner}/`))
+      .map(([, entry]) => structuredClone(entry));
+  }
+
+  async putEntry(owner: string, entry: LibraryEntry): Promise<void> {
+    this.entries.set(`${owner}/${entry.id}`, structuredClone(entry));
+  }
+
+  async deleteEntry(owner: string, entryId: string): Promise<void> {
+    this.entries.delete(`${owner}/${entryId}`);
+  }
+}
+
+export class WorkflowLibrary {
+  private adapter: WorkflowLibraryStorageAdapter;
+  private owner: string;
+
+  constructor(adapter: WorkflowLibraryStorageAdapter, owner: string) {
+    this.adapter = adapter;
+    this.owner = owner;
+  }
+
+  // Alphabetical, as shown in the node palette
+  async list(): Promise<LibraryEntry[]> {
+    const entries = await this.adapter.listEntries(this.owner);
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Stores a copy, so later edits to the node on the canvas do not change the entry
+  async save(name: string, definition: SubworkflowDefinition, description?: string): Promise<LibraryEntry> {
+    const entry: LibraryEntry = {
+      id: `lib_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || 'Sub-workflow',
+      description,
+      definition: structuredClone(definition),
+      savedAt: new Date(),
+    };
+    await this.adapter.putEntry(this.owner, entry);
+    return entry;
+  }
+
+  async delete(entryId: string): Promise<void> {
+    await this.adapter.deleteEntry(this.owner, entryId);
+  }
+}
+
+// Library for a principal
+export const getWorkflowLibrary = createPrincipalStoreFactory<WorkflowLibraryStorageAdapter, WorkflowLibrary>(
+  () => new IndexedDbWorkflowLibraryStorage(),
+  () => new MemoryWorkflowLibraryStorage(),
+  (adapter, owner) => new WorkflowLibrary(adapter, owner)
+);
@@ -0,0 +1,100 @@
+/**
+ * Workflow Node Policies
+ * Per-node timeout, retry and failure handling, stored under `config.policy`.
+ * Flaky canister calls are retried with exponential backoff, and a node that
+ * still fails can fail the run, continue with an empty output or hand the
+ * error to whatever is connected to its error handle.
+ */
+
+import { configRecord, type WorkflowNode } from './workflowTypes';
+
+export type NodeFailureMode = 'fail' | 'continue' | 'error_port';
+
+export interface NodePolicy {
+  // Per attempt; undefined waits indefinitely
+  timeoutMs?: number;
+  maxRetries: number;
+  // Delay before the first retry; doubles for every retry after that
+  backoffMs: number;
+  onFailure: NodeFailureMode;
+}
+
+// Output port that only fires when a node failed with onFailure 'error_port'
+export const ERROR_PORT = 'error';
+
+export const MAX_RETRIES = 10;
+
+export const DEFAULT_NODE_POLICY: NodePolicy = {
+  maxRetries: 0,
+  backoffMs: 1000,
+  onFailure: 'fail',
+};
+
+export const FAILURE_MODES: Array<{ value: NodeFailureMode; label: string; description: string }> = [
+  { value: 'fail', label: 'Fail the workflow', description: 'Stop the run and report the error' },
+  { value: 'continue', label: 'Continue with empty output', description: 'Downstream nodes receive an empty result' },
+  { value: 'error_port', label: 'Route to error handle', description: 'Only nodes connected to the error handle run, receiving the error' },
+];
+
+export class NodeTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'NodeTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+export const getNodePolicy = (node: WorkflowNode): NodePolicy => {
+  const raw = configRecord(node.data.config, 'policy') ?? {};
+  const timeoutMs = toNumber(raw.timeoutMs);
+  return {
+    timeoutMs: timeoutMs && timeoutMs > 0 ? timeoutMs : undefined,
+    maxRetries: Math.min(MAX_RETRIES, Math.max(0, Math.floor(toNumber(raw.maxRetries) ?? DEFAULT_NODE_POLICY.maxRetries))),
+    backoffMs: Math.max(0, toNumber(raw.backoffMs) ?? DEFAULT_NODE_POLICY.backoffMs),
+    onFailure: FAILURE_MODES.find(mode => mode.value === raw.onFailure)?.value ?? DEFAULT_NODE_POLICY.onFailure,
+  };
+};
+
+// Problems with the raw values entered in the config panel
+export const validateNodePolicy = (node: WorkflowNode): string | null => {
+  const raw = configRecord(node.data.config, 'policy') ?? {};
+  const timeoutMs = toNumber(raw.timeoutMs);
+  const maxRetries = toNumber(raw.maxRetries);
+  const backoffMs = toNumber(raw.backoffMs);
+
+  if (raw.timeoutMs !== undefined && raw.timeoutMs !== '' && (timeoutMs === undefined || timeoutMs <= 0)) {
+    return 'Timeout must be a positive number of milliseconds';
+  }
+  if (maxRetries !== undefined && (maxRetries < 0 || maxRetries > MAX_RETRIES || !Number.isInteger(maxRetries))) {
+    return `Retries must be a whole number between 0 and ${MAX_RETRIES}`;
+  }
+  if (backoffMs !== undefined && backoffMs < 0) {
+    return 'Backoff cannot be negative';
+  }
+  return null;
+};
+
+// Wait before retry number `retry` (1-based)
+export const backoffDelay = (policy: NodePolicy, retry: number): number =>
+  policy.backoffMs * 2 ** (retry - 1);
+
+// Reject with a NodeTimeoutError when the attempt takes longer than the policy allows.
+// The underlying call is not cancelled; its late result is ignored.
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number | undefined): Promise<T> => {
+  if (!timeoutMs) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new NodeTimeoutError(timeoutMs)), timeoutMs);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
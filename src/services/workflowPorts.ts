@@ -0,0 +1,131 @@
+/**
+ * Workflow Ports
+ * Data types carried by node ports. Output ports emit one type, input ports
+ * list the types they accept, so the canvas can refuse wiring that would hand
+ * a node data it cannot use.
+ */
+
+import { getWorkflowAction } from './workflowActions';
+import { getJoinConfig } from './workflowJoin';
+import { ERROR_PORT } from './workflowNodePolicy';
+import { SUBWORKFLOW_INPUT_PREFIX, SUBWORKFLOW_OUTPUT_PREFIX, getSubworkflowDefinition } from './workflowSubworkflows';
+import { configString, getHandlePort, type Workflow, type WorkflowConnection, type WorkflowNode } from './workflowTypes';
+
+export type PortDataType = 'text' | 'json' | 'boolean' | 'agent-result' | 'trigger-signal';
+
+// Outputs of pass-through nodes carry whatever arrives on their inputs
+export type PortOutputType = PortDataType | 'passthrough';
+
+export const PORT_DATA_TYPES: Array<{ value: PortDataType; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'json', label: 'JSON' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'agent-result', label: 'Agent result' },
+  { value: 'trigger-signal', label: 'Trigger signal' },
+];
+
+export const ANY_DATA: PortDataType[] = PORT_DATA_TYPES.map(type => type.value);
+
+// Everything an agent can read as part of its prompt
+export const PROMPT_DATA: PortDataType[] = ['text', 'json', 'agent-result', 'trigger-signal'];
+
+export const getPortDataTypeLabel = (type: PortDataType) =>
+  PORT_DATA_TYPES.find(t => t.value === type)?.label ?? type;
+
+// Input ports: what they accept; null when the node takes no input
+const getNodeAccepts = (node: WorkflowNode): PortDataType[] | null => {
+  switch (node.type) {
+    case 'trigger': return null;
+    case 'agent': return PROMPT_DATA;
+    case 'action': return getWorkflowAction(configString(node.data.config, 'actionType'))?.ports?.accepts ?? ANY_DATA;
+    default: return ANY_DATA;
+  }
+};
+
+const getNodeOutput = (node: WorkflowNode): PortOutputType => {
+  switch (node.type) {
+    case 'trigger': return 'trigger-signal';
+    case 'agent': return 'agent-result';
+    case 'action': {
+      const action = getWorkflowAction(configString(node.data.config, 'actionType'));
+      const output = action?.ports?.output ?? 'passthrough';
+      return typeof output === 'function' ? output(node.data.config?.actionConfig ?? {}) : output;
+    }
+    // Majority vote and best-of pick one branch's output as it is
+    case 'join': return getJoinConfig(node).mergeStrategy === 'concat' ? 'text' : 'passthrough';
+    default: return 'passthrough';
+  }
+};
+
+const asWorkflow = (parent: Workflow, node: WorkflowNode): Workflow | null => {
+  const definition = getSubworkflowDefinition(node);
+  return definition ? { ...parent, nodes: definition.nodes, connections: definition.connections } : null;
+};
+
+/**
+ * Types accepted by an input port, or null when `port` is not an input of
+ * the node. Sub-workflow inputs accept what the inner node they feed accepts.
+ */
+export const getInputAccepts = (node: WorkflowNode, port: string): PortDataType[] | null => {
+  if (node.type === 'subworkflow') {
+    if (!port.startsWith(SUBWORKFLOW_INPUT_PREFIX)) return null;
+    const definition = getSubworkflowDefinition(node);
+    const input = definition?.inputs.find(i => `${SUBWORKFLOW_INPUT_PREFIX}${i.key}` === port);
+    const inner = input && definition!.nodes.find(n => n.id === input.nodeId);
+    return inner ? getNodeAccepts(inner) : null;
+  }
+  return ['top', 'left', 'default'].includes(port) ? getNodeAccepts(node) : null;
+};
+
+/**
+ * Type emitted on an output port. Pass-through nodes report the type of their
+ * inputs when every input agrees; undefined means it is only known at run time.
+ */
+export const getOutputType = (
+  workflow: Workflow,
+  node: WorkflowNode,
+  port: string,
+  visited: Set<string> = new Set()
+): PortDataType | undefined => {
+  // Failures are reported as { error, nodeId, attempts }
+  if (port === ERROR_PORT) return 'json';
+  if (visited.has(node.id)) return undefined;
+  visited.add(node.id);
+
+  if (node.type === 'subworkflow') {
+    const definition = getSubworkflowDefinition(node);
+    const output = definition?.outputs.find(o => `${SUBWORKFLOW_OUTPUT_PREFIX}${o.key}` === port);
+    const inner = output && definition!.nodes.find(n => n.id === output.nodeId);
+    return inner ? getOutputType(asWorkflow(workflow, node)!, inner, output.port ?? 'default') : undefined;
+  }
+
+  const output = getNodeOutput(node);
+  if (output !== 'passthrough') return output;
+
+  const incoming = workflow.connections.filter(c => c.targetId === node.id);
+  const types = incoming.map(connection => {
+    const source = workflow.nodes.find(n => n.id === connection.sourceId);
+    return source && getOutputType(workflow, source, getHandlePort(connection.sourceHandle, source.id), new Set(visited));
+  });
+  return types.length > 0 && types.every(type => type !== undefined && type === types[0]) ? types[0] : undefined;
+};
+
+// Unknown outputs are checked when the workflow runs instead
+export const isPortCompatible = (type: PortDataType | undefined, accepts: PortDataType[] | undefined) =>
+  type === undefined || accepts === undefined || accepts.includes(type);
+
+export const describePortMismatch = (type: PortDataType, accepts: PortDataType[]) =>
+  `${getPortDataTypeLabel(type)} cannot go into an input that takes ${accepts.map(getPortDataTypeLabel).join(', ')}`;
+
+// Why an existing connection joins incompatible ports; null when it is fine
+export const getConnectionTypeError = (workflow: Workflow, connection: WorkflowConnection): string | null => {
+  const source = workflow.nodes.find(n => n.id === connection.sourceId);
+  const target = workflow.nodes.find(n => n.id === connection.targetId);
+  if (!source || !target) return null;
+
+  const accepts = getInputAccepts(target, getHandlePort(connection.targetHandle, target.id));
+  const type = getOutputType(workflow, source, getHandlePort(connection.sourceHandle, source.id));
+  // Inputs on nodes that take none are reported by their own checks
+  if (!accepts || isPortCompatible(type, accepts)) return null;
+  return `"${source.data.label}" → "${target.data.label}": ${describePortMismatch(type!, accepts)}`;
+};
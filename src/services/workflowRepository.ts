@@ -0,0 +1,237 @@
+/**
+ * Workflow Repository
+ * Persists Coordinator workflows per principal and keeps an immutable version
+ * snapshot every time a workflow is saved. Storage sits behind an adapter so it
+ * can move from IndexedDB to a canister without touching the Coordinator.
+ */
+
+import { LocalDatabase, createPrincipalStoreFactory, requestToPromise } from './localDatabase';
+import type { Workflow } from './workflowTypes';
+
+export interface WorkflowVersion {
+  workflowId: string;
+  version: number;
+  // The workflow's updated_at at the time of the save
+  savedAt: Date;
+  note?: string;
+  workflow: Readonly<Workflow>;
+}
+
+export interface WorkflowStorageAdapter {
+  listWorkflows(owner: string): Promise<Workflow[]>;
+  putWorkflow(owner: string, workflow: Workflow): Promise<void>;
+  deleteWorkflow(owner: string, workflowId: string): Promise<void>;
+  listVersions(owner: string, workflowId: string): Promise<WorkflowVersion[]>;
+  addVersion(owner: string, version: WorkflowVersion): Promise<void>;
+  deleteVersion(owner: string, workflowId: string, version: number): Promise<void>;
+  // Take the next version number of a workflow, above `after` and every number taken before
+  nextVersion(owner: string, workflowId: string, after: number): Promise<number>;
+  // Forget the numbers taken, once the workflow and its history are gone
+  deleteVersionCounter(owner: string, workflowId: string): Promise<void>;
+}
+
+const DB_NAME = 'ohms-workflows';
+const DB_VERSION = 2;
+const WORKFLOW_STORE = 'workflows';
+const VERSION_STORE = 'versions';
+const COUNTER_STORE = 'versionCounters';
+
+/**
+ * IndexedDB storage. Records are keyed by owner so principals sharing a
+ * browser never see each other's workflows; Dates survive structured cloning.
+ */
+export class IndexedDbWorkflowStorage implements WorkflowStorageAdapter {
+  private db = new LocalDatabase(DB_NAME, DB_VERSION, [
+    { name: WORKFLOW_STORE, keyPath: ['owner', 'workflow.id'], indexes: { owner: 'owner' } },
+    {
+      name: VERSION_STORE,
+      keyPath: ['owner', 'version.workflowId', 'version.version'],
+      indexes: { workflow: ['owner', 'version.workflowId'] },
+    },
+    { name: COUNTER_STORE, keyPath: ['owner', 'workflowId'], indexes: {} },
+  ]);
+
+  async listWorkflows(owner: string): Promise<Workflow[]> {
+    const store = await this.db.store(WORKFLOW_STORE, 'readonly');
+    const records = await requestToPromise(store.index('owner').getAll(owner));
+    return records.map(record => record.workflow);
+  }
+
+  async putWorkflow(owner: string, workflow: Workflow): Promise<void> {
+    const store = await this.db.store(WORKFLOW_STORE, 'readwrite');
+    await requestToPromise(store.put({ owner, workflow }));
+  }
+
+  async deleteWorkflow(owner: string, workflowId: string): Promise<void> {
+    const store = await this.db.store(WORKFLOW_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, workflowId]));
+  }
+
+  async listVersions(owner: string, workflowId: string): Promise<WorkflowVersion[]> {
+    const store = await this.db.store(VERSION_STORE, 'readonly');
+    const records = await requestToPromise(store.index('workflow').getAll([owner, workflowId]));
+    return records.map(record => record.version);
+  }
+
+  async addVersion(owner: string, version: WorkflowVersion): Promise<void> {
+    const store = await this.db.store(VERSION_STORE, 'readwrite');
+    // add() rather than put(): an existing snapshot is never overwritten
+    await requestToPromise(store.add({ owner, version }));
+  }
+
+  async deleteVersion(owner: string, workflowId: string, version: number): Promise<void> {
+    const store = await this.db.store(VERSION_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, workflowId, version]));
+  }
+
+  async nextVersion(owner: string, workflowId: string, after: number): Promise<number> {
+    // Read and bump in one transaction so two saves never take the same number
+    const store = await this.db.store(COUNTER_STORE, 'readwrite');
+    const record = await requestToPromise(store.get([owner, workflowId]));
+    const lastVersion = Math.max(record?.lastVersion ?? 0, after) + 1;
+    await requestToPromise(store.put({ owner, workflowId, lastVersion }));
+    return lastVersion;
+  }
+
+  async deleteVersionCounter(owner: string, workflowId: string): Promise<void> {
+    const store = await this.db.store(COUNTER_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, workflowId]));
+  }
+}
+
+// In-memory storage for environments without IndexedDB (and for tests)
+export class MemoryWorkflowStorage implements WorkflowStorageAdapter {
+  private workflows = new Map<string, Workflow>();
+  private versions = new Map<string, WorkflowVersion>();
+  private lastVersions = new Map<string, number>();
+
+  async listWorkflows(owner: string): Promise<Workflow[]> {
+    return [...this.workflows.entries()]
+      .filter(([key]) => key.startsWith(`${owner}/`))
+      .map(([, workflow]) => structuredClone(workflow));
+  }
+
+  async putWorkflow(owner: string, workflow: Workflow): Promise<void> {
+    this.workflows.set(`${owner}/${workflow.id}`, structuredClone(workflow));
+  }
+
+  async deleteWorkflow(owner: string, workflowId: string): Promise<void> {
+    this.workflows.delete(`${owner}/${workflowId}`);
+  }
+
+  async listVersions(owner: string, workflowId: string): Promise<WorkflowVersion[]> {
+    return [...this.versions.entries()]
+      .filter(([key]) => key.startsWith(`${owner}/${workflowId}/`))
+      .map(([, version]) => structuredClone(version));
+  }
+
+  async addVersion(owner: string, version: WorkflowVersion): Promise<void> {
+    const key = `${owner}/${version.workflowId}/${version.version}`;
+    if (this.versions.has(key)) {
+      throw new Error(`Version ${version.version} of workflow ${version.workflowId} already exists`);
+    }
+    this.versions.set(key, structuredClone(version));
+  }
+
+  async deleteVersion(owner: string, workflowId: string, version: number): Promise<void> {
+    this.versions.delete(`${owner}/${workflowId}/${version}`);
+  }
+
+  async nextVersion(owner: string, workflowId: string, after: number): Promise<number> {
+    const key = `${owner}/${workflowId}`;
+    const lastVersion = Math.max(this.lastVersions.get(key) ?? 0, after) + 1;
+    this.lastVersions.set(key, lastVersion);
+    return lastVersion;
+  }
+
+  async deleteVersionCounter(owner: string, workflowId: string): Promise<void> {
+    this.lastVersions.delete(`${owner}/${workflowId}`);
+  }
+}
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+  return value;
+};
+
+export class WorkflowRepository {
+  private adapter: WorkflowStorageAdapter;
+  private owner: string;
+
+  constructor(adapter: WorkflowStorageAdapter, owner: string) {
+    this.adapter = adapter;
+    this.owner = owner;
+  }
+
+  // Most recently updated first
+  async list(): Promise<Workflow[]> {
+    const workflows = await this.adapter.listWorkflows(this.owner);
+    return workflows.sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime());
+  }
+
+  // Persist the current state without creating a version (used for autosave)
+  async saveDraft(workflow: Workflow): Promise<void> {
+    await this.adapter.putWorkflow(this.owner, workflow);
+  }
+
+  // Persist the workflow and record an immutable snapshot of it. Numbers are
+  // never reused, even after the newest versions were deleted.
+  async save(workflow: Workflow, note?: string): Promise<{ workflow: Workflow; version: WorkflowVersion }> {
+    const versions = await this.adapter.listVersions(this.owner, workflow.id);
+    // Histories saved before the counter existed continue after their newest version
+    const newest = versions.reduce((max, v) => Math.max(max, v.version), 0);
+    const saved: Workflow = { ...workflow, updated_at: new Date() };
+    const version: WorkflowVersion = {
+      workflowId: workflow.id,
+      version: await this.adapter.nextVersion(this.owner, workflow.id, newest),
+      savedAt: saved.updated_at,
+      note,
+      workflow: structuredClone(saved),
+    };
+
+    await this.adapter.putWorkflow(this.owner, saved);
+    await this.adapter.addVersion(this.owner, version);
+    return { workflow: saved, version: deepFreeze(version) };
+  }
+
+  // Newest version first
+  async listVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    const versions = await this.adapter.listVersions(this.owner, workflowId);
+    return versions.sort((a, b) => b.version - a.version).map(deepFreeze);
+  }
+
+  // Make an old snapshot current again; history is appended to, never rewritten
+  async restoreVersion(workflowId: string, versionNumber: number): Promise<{ workflow: Workflow; version: WorkflowVersion }> {
+    const versions = await this.adapter.listVersions(this.owner, workflowId);
+    const target = versions.find(v => v.version === versionNumber);
+    if (!target) {
+      throw new Error(`Version ${versionNumber} of workflow ${workflowId} not found`);
+    }
+
+    const { created_at } = (await this.adapter.listWorkflows(this.owner))
+      .find(workflow => workflow.id === workflowId) ?? target.workflow;
+    return this.save({ ...structuredClone(target.workflow), created_at }, `Restored from version ${versionNumber}`);
+  }
+
+  async deleteVersion(workflowId: string, versionNumber: number): Promise<void> {
+    await this.adapter.deleteVersion(this.owner, workflowId, versionNumber);
+  }
+
+  // Remove a workflow together with its whole version history
+  async delete(workflowId: string): Promise<void> {
+    const versions = await this.adapter.listVersions(this.owner, workflowId);
+    await Promise.all(versions.map(v => this.adapter.deleteVersion(this.owner, workflowId, v.version)));
+    await this.adapter.deleteVersionCounter(this.owner, workflowId);
+    await this.adapter.deleteWorkflow(this.owner, workflowId);
+  }
+}
+
+// Repository for a principal
+export const getWorkflowRepository = createPrincipalStoreFactory<WorkflowStorageAdapter, WorkflowRepository>(
+  () => new IndexedDbWorkflowStorage(),
+  () => new MemoryWorkflowStorage(),
+  (adapter, owner) => new WorkflowRepository(adapter, owner)
+);
@@ -0,0 +1,285 @@
+/**
+ * Workflow Run History
+ * Persists a record of every workflow run per principal: what triggered it,
+ * when it ran and what each node produced, so runs can be audited, replayed
+ * with the same inputs and compared with each other.
+ */
+
+import { LocalDatabase, createPrincipalStoreFactory, requestToPromise } from './localDatabase';
+import type { NodeAttempt, NodeExecutionResult } from './workflowEngine';
+import type { TriggerFire } from './workflowTriggers';
+import type { Workflow, WorkflowNode } from './workflowTypes';
+
+export type WorkflowRunStatus = 'completed' | 'failed' | 'cancelled';
+
+export interface WorkflowRunNodeRecord {
+  nodeId: string;
+  // Label and type at the time of the run; the node may since have changed
+  label: string;
+  type: WorkflowNode['type'];
+  status: NodeExecutionResult['status'];
+  startedAt: number;
+  finishedAt: number;
+  output?: unknown;
+  error?: string;
+  metadata?: Record<string, unknown>;
+  attempts?: NodeAttempt[];
+}
+
+export interface WorkflowRunRecord {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  status: WorkflowRunStatus;
+  // Trigger that fired, or null for runs started with Execute
+  trigger: TriggerFire | null;
+  // Payload each trigger node emitted, used to replay the run
+  triggerPayloads: Record<string, unknown>;
+  startedAt: Date;
+  finishedAt: Date;
+  nodes: WorkflowRunNodeRecord[];
+  error?: string;
+}
+
+export interface WorkflowRunStorageAdapter {
+  listRuns(owner: string, workflowId: string): Promise<WorkflowRunRecord[]>;
+  putRun(owner: string, run: WorkflowRunRecord): Promise<void>;
+  deleteRun(owner: string, workflowId: string, runId: string): Promise<void>;
+}
+
+// Oldest runs beyond this are pruned when a new run is recorded
+export const MAX_RUNS_PER_WORKFLOW = 50;
+
+export const buildRunRecord = (
+  workflow: Workflow,
+  run: {
+    trigger?: TriggerFire;
+    startedAt: Date;
+    finishedAt: Date;
+    results: NodeExecutionResult[];
+    status: WorkflowRunStatus;
+    error?: string;
+  }
+): WorkflowRunRecord => {
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]));
+  const nodes = run.results.map((result): WorkflowRunNodeRecord => {
+    const node = nodesById.get(result.nodeId);
+    return {
+      nodeId: result.nodeId,
+      label: node?.data.label ?? result.nodeId,
+      type: node?.type ?? 'action',
+      status: result.status,
+      startedAt: result.startedAt,
+      finishedAt: result.finishedAt,
+      output: result.output,
+      error: result.error,
+      metadata: result.metadata,
+      attempts: result.attempts,
+    };
+  });
+
+  // Silent triggers (another trigger fired) complete with a null output
+  const triggerPayloads = Object.fromEntries(nodes
+    .filter(node => node.type === 'trigger' && node.status === 'completed' && node.output !== null)
+    .map(node => [node.nodeId, node.output]));
+
+  return {
+    id: `run_${run.startedAt.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    status: run.status,
+    trigger: run.trigger ?? null,
+    triggerPayloads,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    nodes: nodes.sort((a, b) => a.startedAt - b.startedAt),
+    error: run.error,
+  };
+};
+
+const DB_NAME = 'ohms-workflow-runs';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+
+/**
+ * IndexedDB storage keyed by owner and workflow. Structured cloning keeps
+ * Dates and the bigints found in canister metadata intact.
+ */
+export class IndexedDbWorkflowRunStorage implements WorkflowRunStorageAdapter {
+  private db = new LocalDatabase(DB_NAME, DB_VERSION, [
+    { name: RUN_STORE, keyPath: ['owner', 'run.workflowId', 'run.id'], indexes: { workflow: ['owner', 'run.workflowId'] } },
+  ]);
+
+  async listRuns(owner: string, workflowId: string): Promise<WorkflowRunRecord[]> {
+    const store = await this.db.store(RUN_STORE, 'readonly');
+    const records = await requestToPromise(store.index('workflow').getAll([owner, workflowId]));
+    return records.map(record => record.run);
+  }
+
+  async putRun(owner: string, run: WorkflowRunRecord): Promise<void> {
+    const store = await this.db.store(RUN_STORE, 'readwrite');
+    await requestToPromise(store.put({ owner, run }));
+  }
+
+  async deleteRun(owner: string, workflowId: string, runId: string): Promise<void> {
+    const store = await this.db.store(RUN_STORE, 'readwrite');
+    await requestToPromise(store.delete([owner, workflowId, runId]));
+  }
+}
+
+// In-memory storage for environments without IndexedDB (and for tests)
+export class MemoryWorkflowRunStorage implements WorkflowRunStorageAdapter {
+  private runs = new Map<string, WorkflowRunRecord>();
+
+  async listRuns(owner: string, workflowId: string): Promise<WorkflowRunRecord[]> {
+    return [...this.runs.entries()]
+      .filter(([key]) => key.startsWith(`${owner}/${workflowId}/`))
+      .map(([, run]) => structuredClone(run));
+  }
+
+  async putRun(owner: string, run: WorkflowRunRecord): Promise<void> {
+    this.runs.set(`${owner}/${run.workflowId}/${run.id}`, structuredClone(run));
+  }
+
+  async deleteRun(owner: string, workflowId: string, runId: string): Promise<void> {
+    this.runs.delete(`${owner}/${workflowId}/${runId}`);
+  }
+}
+
+export class WorkflowRunHistory {
+  private adapter: WorkflowRunStorageAdapter;
+  private owner: string;
+
+  constructor(adapter: WorkflowRunStorageAdapter, owner: string) {
+    this.adapter = adapter;
+    this.owner = owner;
+  }
+
+  // Newest run first
+  async list(workflowId: string): Promise<WorkflowRunRecord[]> {
+    const runs = await this.adapter.listRuns(this.owner, workflowId);
+    return runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async record(run: WorkflowRunRecord): Promise<void> {
+    await this.adapter.putRun(this.owner, run);
+    const stale = (await this.list(run.workflowId)).slice(MAX_RUNS_PER_WORKFLOW);
+    await Promise.all(stale.map(old => this.adapter.deleteRun(this.owner, old.workflowId, old.id)));
+  }
+
+  async delete(workflowId: string, runId: string): Promise<void> {
+    await this.adapter.deleteRun(this.owner, workflowId, runId);
+  }
+
+  // Forget every run of a workflow, e.g. when the workflow is deleted
+  async clear(workflowId: string): Promise<void> {
+    const runs = await this.adapter.listRuns(this.owner, workflowId);
+    await Promise.all(runs.map(run => this.adapter.deleteRun(this.owner, workflowId, run.id)));
+  }
+}
+
+// Run history for a principal
+export const getWorkflowRunHistory = createPrincipalStoreFactory<WorkflowRunStorageAdapter, WorkflowRunHistory>(
+  () => new IndexedDbWorkflowRunStorage(),
+  () => new MemoryWorkflowRunStorage(),
+  (adapter, owner) => new WorkflowRunHistory(adapter, owner)
+);
+
+export type RunDiffChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RunNodeDiff {
+  nodeId: string;
+  label: string;
+  change: RunDiffChange;
+  before?: WorkflowRunNodeRecord;
+  after?: WorkflowRunNodeRecord;
+}
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Text form of a recorded output for display and comparison
+export const formatRunOutput = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? v.toString() : v, 2) ?? String(value);
+};
+
+// Compare two runs node by node; nodes differ when their status, output or error differ
+export const diffRuns = (before: WorkflowRunRecord, after: WorkflowRunRecord): RunNodeDiff[] => {
+  const beforeNodes = new Map(before.nodes.map(node => [node.nodeId, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.nodeId, node]));
+  const nodeIds = [...new Set([...beforeNodes.keys(), ...afterNodes.keys()])];
+
+  return nodeIds.map(nodeId => {
+    const a = beforeNodes.get(nodeId);
+    const b = afterNodes.get(nodeId);
+    const label = (b ?? a)!.label;
+    if (!a) return { nodeId, label, change: 'added', after: b };
+    if (!b) return { nodeId, label, change: 'removed', before: a };
+
+    const same = a.status === b.status &&
+      a.error === b.error &&
+      formatRunOutput(a.output) === formatRunOutput(b.output);
+    return { nodeId, label, change: same ? 'unchanged' : 'changed', before: a, after: b };
+  });
+};
+
+// Above this many table cells (lines before × lines after) the changed part of
+// a diff is shown as one removed and one added block; the full table would
+// take too long and too much memory for outputs thousands of lines long
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Longest common subsequence diff of lines that differ at both ends
+const diffChangedLines = (a: string[], b: string[]): DiffLine[] => {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ kind: 'removed' as const, text })),
+      ...b.map(text => ({ kind: 'added' as const, text })),
+    ];
+  }
+
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+  return lines;
+};
+
+// Line-level diff of two outputs; lines shared at the start and end are matched directly
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const same = (text: string): DiffLine => ({ kind: 'same', text });
+  return [
+    ...a.slice(0, start).map(same),
+    ...diffChangedLines(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...a.slice(a.length - end).map(same),
+  ];
+};
@@ -0,0 +1,371 @@
+/**
+ * Workflow File Format
+ * Versioned JSON format used to export and import Coordinator workflows.
+ *
+ * Schema version 2 (current):
+ *
+ *   {
+ *     "format": "ohms-workflow",
+ *     "schemaVersion": 2,
+ *     "exportedAt": "2026-01-01T12:00:00.000Z",
+ *     "workflow": {
+ *       "id": "wf_123",
+ *       "name": "Research pipeline",
+ *       "description": "optional",
+ *       "variables": { "language": "French" },   (optional, string values)
+ *       "status": "draft" | "active" | "paused",
+ *       "created_at": ISO-8601 string,
+ *       "updated_at": ISO-8601 string,
+ *       "nodes": [{
+ *         "id": "node_1",
+ *         "type": "agent" | "trigger" | "action" | "condition" | "parallel" | "join" | "subworkflow",
+ *         "position": { "x": 100, "y": 80 },
+ *         "data": { "label": "Summarizer", "description": "optional", "config": { ... } }
+ *       }],
+ *       "connections": [{
+ *         "id": "conn_1",
+ *         "sourceId": "node_1",
+ *         "targetId": "node_2",
+ *         "sourceHandle": "node_1-bottom",   (optional, always prefixed with sourceId)
+ *         "targetHandle": "node_2-top"       (optional, always prefixed with targetId)
+ *       }]
+ *     }
+ *   }
+ *
+ * A "subworkflow" node nests a graph in its "config.subworkflow": "nodes" and
+ * "connections" as above (triggers not allowed), plus "inputs" and "outputs"
+ * listing ports as { "key", "label", "nodeId", "port" (optional, outputs only) }.
+ *
+ * Schema version 1 is the bare `Workflow` object as it was JSON-stringified
+ * before this format existed: no envelope, "timer"/"webhook" trigger types.
+ * Run results (`lastResponse`, runtime `status`) are not exported.
+ */
+
+import { flattenNodes, getSubworkflowDefinition, type SubworkflowDefinition } from './workflowSubworkflows';
+import {
+  WORKFLOW_NODE_TYPES,
+  type Workflow,
+  type WorkflowConnection,
+  type WorkflowNode,
+  type WorkflowNodeType
+} from './workflowTypes';
+
+export const WORKFLOW_FILE_FORMAT = 'ohms-workflow';
+export const WORKFLOW_SCHEMA_VERSION = 2;
+
+interface WorkflowFile {
+  format: typeof WORKFLOW_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workflow: Record<string, unknown>;
+}
+
+export class WorkflowImportError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid workflow file:\n${issues.join('\n')}`);
+    this.name = 'WorkflowImportError';
+    this.issues = issues;
+  }
+}
+
+// Node config keys that hold results of a previous run
+const RUNTIME_CONFIG_KEYS = ['lastResponse', 'status'];
+
+export const exportWorkflow = (workflow: Workflow): string => {
+  const file: WorkflowFile = {
+    format: WORKFLOW_FILE_FORMAT,
+    schemaVersion: WORKFLOW_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      variables: workflow.variables,
+      status: workflow.status,
+      created_at: workflow.created_at.toISOString(),
+      updated_at: workflow.updated_at.toISOString(),
+      nodes: workflow.nodes.map(node => {
+        const config = node.data.config && Object.fromEntries(
+          Object.entries(node.data.config).filter(([key]) => !RUNTIME_CONFIG_KEYS.includes(key))
+        );
+        return { ...node, data: { ...node.data, config } };
+      }),
+      // Paths are recomputed from node positions
+      connections: workflow.connections.map(connection => {
+        const exported = { ...connection };
+        delete exported.path;
+        return exported;
+      }),
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Upgrade a file one schema version at a time; index N migrates version N+1 to N+2
+const MIGRATIONS: ((file: WorkflowFile) => WorkflowFile)[] = [
+  // 1 -> 2: legacy trigger types
+  (file) => {
+    const nodes = Array.isArray(file.workflow.nodes) ? file.workflow.nodes : [];
+    return {
+      ...file,
+      schemaVersion: 2,
+      workflow: {
+        ...file.workflow,
+        nodes: nodes.map((node: WorkflowNode) => {
+          const triggerType = node?.data?.config?.triggerType;
+          if (node?.type !== 'trigger' || (triggerType !== 'timer' && triggerType !== 'webhook')) return node;
+          const config = { ...node.data.config, triggerType: triggerType === 'timer' ? 'schedule' : 'manual' };
+          return { ...node, data: { ...node.data, config } };
+        }),
+      },
+    };
+  },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNodeType = (value: unknown): value is WorkflowNodeType =>
+  WORKFLOW_NODE_TYPES.includes(value as WorkflowNodeType);
+
+const readFile = (text: string): WorkflowFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new WorkflowImportError([`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (!isRecord(parsed)) {
+    throw new WorkflowImportError(['File must contain a JSON object']);
+  }
+
+  // Version 1 files are a bare workflow without the envelope
+  if (parsed.format === undefined && Array.isArray(parsed.nodes)) {
+    return { format: WORKFLOW_FILE_FORMAT, schemaVersion: 1, exportedAt: '', workflow: parsed };
+  }
+  if (parsed.format !== WORKFLOW_FILE_FORMAT) {
+    throw new WorkflowImportError([`Unknown file format "${String(parsed.format)}", expected "${WORKFLOW_FILE_FORMAT}"`]);
+  }
+  const { schemaVersion } = parsed;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new WorkflowImportError(['schemaVersion must be a positive integer']);
+  }
+  if (schemaVersion > WORKFLOW_SCHEMA_VERSION) {
+    throw new WorkflowImportError([
+      `File uses schema version ${schemaVersion}; this app supports up to ${WORKFLOW_SCHEMA_VERSION}`,
+    ]);
+  }
+  if (!isRecord(parsed.workflow)) {
+    throw new WorkflowImportError(['"workflow" must be an object']);
+  }
+  return parsed as unknown as WorkflowFile;
+};
+
+const parseDate = (value: unknown, field: string, issues: string[]): Date => {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    issues.push(`${field} must be an ISO date string`);
+    return new Date();
+  }
+  return date;
+};
+
+interface ValidatedGraph {
+  nodes: WorkflowNode[];
+  connections: WorkflowConnection[];
+  nodeIds: Set<unknown>;
+}
+
+/**
+ * Check the nodes and connections of a graph, including graphs nested in
+ * sub-workflow nodes. `at` prefixes the reported paths of a nested graph.
+ */
+const validateGraph = (rawNodes: unknown[], rawConnections: unknown[], at: string, issues: string[]): ValidatedGraph => {
+  const nested = at !== '';
+  const nodeIds = new Set<unknown>();
+  const nodes: WorkflowNode[] = rawNodes.map((node: unknown, index: number) => {
+    const where = `${at}nodes[${index}]`;
+    if (!isRecord(node)) {
+      issues.push(`${where} must be an object`);
+      return node as unknown as WorkflowNode;
+    }
+    if (typeof node.id !== 'string' || !node.id) {
+      issues.push(`${where}.id must be a non-empty string`);
+    } else if (nodeIds.has(node.id)) {
+      issues.push(`Duplicate node ID "${node.id}"${nested ? ` in ${at.slice(0, -1)}` : ''}`);
+    } else {
+      nodeIds.add(node.id);
+    }
+    if (!isNodeType(node.type)) {
+      issues.push(`${where} has unknown node type "${String(node.type)}"`);
+    } else if (nested && node.type === 'trigger') {
+      issues.push(`${where} is a trigger; triggers cannot be inside a sub-workflow`);
+    }
+    if (!isRecord(node.position) || !Number.isFinite(node.position.x) || !Number.isFinite(node.position.y)) {
+      issues.push(`${where}.position must have numeric x and y`);
+    }
+    if (!isRecord(node.data) || typeof node.data.label !== 'string') {
+      issues.push(`${where}.data.label must be a string`);
+    } else if (node.data.config !== undefined && !isRecord(node.data.config)) {
+      issues.push(`${where}.data.config must be an object`);
+    } else if (node.type === 'subworkflow') {
+      const subworkflow = validateSubworkflow(node.data.config?.subworkflow, `${where}.data.config.subworkflow`, issues);
+      if (subworkflow) return { ...node, data: { ...node.data, config: { ...node.data.config, subworkflow } } } as unknown as WorkflowNode;
+    }
+    return node as unknown as WorkflowNode;
+  });
+
+  const connectionIds = new Set<string>();
+  const connections: WorkflowConnection[] = rawConnections.map((connection: unknown, index: number) => {
+    const where = `${at}connections[${index}]`;
+    if (!isRecord(connection)) {
+      issues.push(`${where} must be an object`);
+      return connection as unknown as WorkflowConnection;
+    }
+    if (typeof connection.id !== 'string' || !connection.id) {
+      issues.push(`${where}.id must be a non-empty string`);
+    } else if (connectionIds.has(connection.id)) {
+      issues.push(`Duplicate connection ID "${connection.id}"${nested ? ` in ${at.slice(0, -1)}` : ''}`);
+    } else {
+      connectionIds.add(connection.id);
+    }
+    for (const end of ['sourceId', 'targetId'] as const) {
+      if (!nodeIds.has(connection[end])) {
+        issues.push(`${where}.${end} "${String(connection[end])}" does not match any node`);
+      }
+    }
+    for (const [handle, end] of [['sourceHandle', 'sourceId'], ['targetHandle', 'targetId']] as const) {
+      const value = connection[handle];
+      if (value !== undefined && (typeof value !== 'string' || !value.startsWith(`${connection[end]}-`))) {
+        issues.push(`${where}.${handle} "${String(value)}" does not belong to node "${String(connection[end])}"`);
+      }
+    }
+    const imported = { ...connection };
+    delete imported.path;
+    return imported as unknown as WorkflowConnection;
+  });
+
+  return { nodes, connections, nodeIds };
+};
+
+// The graph and ports of a sub-workflow node, or null when its shape is too broken to check further
+const validateSubworkflow = (raw: unknown, where: string, issues: string[]): SubworkflowDefinition | null => {
+  if (!isRecord(raw)) {
+    issues.push(`${where} must be an object`);
+    return null;
+  }
+  const { inputs, outputs } = raw;
+  Object.entries({ nodes: raw.nodes, connections: raw.connections, inputs, outputs })
+    .filter(([, value]) => !Array.isArray(value))
+    .forEach(([key]) => issues.push(`${where}.${key} must be an array`));
+  if (!Array.isArray(raw.nodes) || !Array.isArray(raw.connections) || !Array.isArray(inputs) || !Array.isArray(outputs)) {
+    return null;
+  }
+
+  const { nodes, connections, nodeIds } = validateGraph(raw.nodes, raw.connections, `${where}.`, issues);
+  for (const [side, ports] of [['inputs', inputs], ['outputs', outputs]] as const) {
+    const keys = new Set<string>();
+    ports.forEach((port: unknown, index: number) => {
+      const at = `${where}.${side}[${index}]`;
+      if (!isRecord(port)) {
+        issues.push(`${at} must be an object`);
+        return;
+      }
+      if (typeof port.key !== 'string' || !port.key) {
+        issues.push(`${at}.key must be a non-empty string`);
+      } else if (keys.has(port.key)) {
+        issues.push(`Duplicate ${side === 'inputs' ? 'input' : 'output'} key "${port.key}" in ${where}`);
+      } else {
+        keys.add(port.key);
+      }
+      if (typeof port.label !== 'string') issues.push(`${at}.label must be a string`);
+      if (!nodeIds.has(port.nodeId)) issues.push(`${at}.nodeId "${String(port.nodeId)}" does not match any node`);
+      if (side === 'outputs' && port.port !== undefined && typeof port.port !== 'string') {
+        issues.push(`${at}.port must be a string`);
+      }
+    });
+  }
+
+  return { nodes, connections, inputs, outputs };
+};
+
+// Check every field and collect all problems instead of stopping at the first
+const validateWorkflow = (raw: Record<string, unknown>): Workflow => {
+  const issues: string[] = [];
+
+  if (typeof raw.id !== 'string' || !raw.id) issues.push('workflow.id must be a non-empty string');
+  if (typeof raw.name !== 'string') issues.push('workflow.name must be a string');
+  if (raw.description !== undefined && typeof raw.description !== 'string') issues.push('workflow.description must be a string');
+  if (raw.variables !== undefined && (!isRecord(raw.variables) || Object.values(raw.variables).some(value => typeof value !== 'string'))) {
+    issues.push('workflow.variables must map names to strings');
+  }
+  if (typeof raw.status !== 'string' || !['draft', 'active', 'paused'].includes(raw.status)) issues.push('workflow.status must be draft, active or paused');
+  const { nodes: rawNodes, connections: rawConnections } = raw;
+  if (!Array.isArray(rawNodes)) issues.push('workflow.nodes must be an array');
+  if (!Array.isArray(rawConnections)) issues.push('workflow.connections must be an array');
+
+  const created_at = parseDate(raw.created_at, 'workflow.created_at', issues);
+  const updated_at = parseDate(raw.updated_at, 'workflow.updated_at', issues);
+  if (issues.length > 0 || !Array.isArray(rawNodes) || !Array.isArray(rawConnections)) {
+    throw new WorkflowImportError(issues);
+  }
+
+  const { nodes, connections } = validateGraph(rawNodes, rawConnections, '', issues);
+  if (issues.length > 0) throw new WorkflowImportError(issues);
+
+  // Every field below was checked above
+  return {
+    id: raw.id as string,
+    name: raw.name as string,
+    description: raw.description as string | undefined,
+    variables: raw.variables as Record<string, string> | undefined,
+    nodes,
+    connections,
+    status: raw.status as Workflow['status'],
+    created_at,
+    updated_at,
+  };
+};
+
+/**
+ * Parse, migrate and validate a workflow file.
+ * Throws WorkflowImportError listing every problem found.
+ */
+export const importWorkflow = (text: string): Workflow => {
+  let file = readFile(text);
+  while (file.schemaVersion < WORKFLOW_SCHEMA_VERSION) {
+    file = MIGRATIONS[file.schemaVersion - 1](file);
+  }
+  return validateWorkflow(file.workflow);
+};
+
+// Agent IDs referenced by agent nodes, including those inside sub-workflows
+export const getWorkflowAgentIds = (workflow: Workflow): string[] => {
+  const ids = flattenNodes(workflow.nodes)
+    .filter(node => node.type === 'agent')
+    .flatMap(node => [node.data.config?.agentId, node.data.agentId])
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+  return [...new Set(ids)];
+};
+
+/**
+ * Replace agent IDs on agent nodes. IDs mapped to null are cleared so the
+ * agent is created from the node's instructions on the next run.
+ */
+export const remapAgentIds = (workflow: Workflow, mapping: Record<string, string | null>): Workflow => {
+  const remap = (id: unknown) => typeof id === 'string' && id in mapping ? mapping[id] ?? undefined : id;
+  const remapNodes = (nodes: WorkflowNode[]): WorkflowNode[] => nodes.map(node => {
+    const definition = node.type === 'subworkflow' ? getSubworkflowDefinition(node) : null;
+    if (definition) {
+      const subworkflow = { ...definition, nodes: remapNodes(definition.nodes) };
+      return { ...node, data: { ...node.data, config: { ...node.data.config, subworkflow } } };
+    }
+    if (node.type !== 'agent') return node;
+    const config = node.data.config && { ...node.data.config, agentId: remap(node.data.config.agentId) };
+    return { ...node, data: { ...node.data, agentId: remap(node.data.agentId) as string | undefined, config } };
+  });
+
+  return { ...workflow, nodes: remapNodes(workflow.nodes) };
+};
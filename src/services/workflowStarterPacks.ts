@@ -0,0 +1,327 @@
+/**
+ * Workflow Starter Packs
+ * A bundled catalogue of parameterised workflow templates. Steps reference
+ * pack parameters as `{{params.<key>}}` in their labels and configuration;
+ * instantiating a pack fills those in, lays the steps out and returns a draft
+ * workflow whose agent steps still need agents.
+ */
+
+import { layoutWorkflow } from './workflowLayout';
+import type { Workflow, WorkflowConnection, WorkflowNode, WorkflowNodeType } from './workflowTypes';
+
+export type StarterPackDifficulty = 'Beginner' | 'Intermediate' | 'Advanced';
+
+export interface StarterPackParameter {
+  key: string;
+  label: string;
+  description?: string;
+  placeholder?: string;
+  defaultValue?: string;
+  required?: boolean;
+  multiline?: boolean;
+}
+
+export interface StarterPackStep {
+  key: string;
+  type: WorkflowNodeType;
+  label: string;
+  config?: Record<string, unknown>;
+}
+
+// [source step, target step, source port]; the port defaults to the regular output
+export type StarterPackLink = [string, string, string?];
+
+export interface StarterPack {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  difficulty: StarterPackDifficulty;
+  estimatedTime: string;
+  costRange: string;
+  tags: string[];
+  icon: string;
+  popular?: boolean;
+  parameters: StarterPackParameter[];
+  steps: StarterPackStep[];
+  links: StarterPackLink[];
+}
+
+export interface StarterPackFilter {
+  category?: string;
+  tag?: string;
+}
+
+const PARAM_PATTERN = /\{\{\s*params\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const agent = (key: string, label: string, instructions: string, capabilities: string[] = []): StarterPackStep => ({
+  key,
+  type: 'agent',
+  label,
+  config: { instructions, capabilities, priority: 'normal' },
+});
+
+const manualTrigger = (payload = '{}'): StarterPackStep => ({
+  key: 'start',
+  type: 'trigger',
+  label: 'Start',
+  config: { triggerType: 'manual', payload },
+});
+
+export const STARTER_PACKS: StarterPack[] = [
+  {
+    id: 'blog-post-pipeline',
+    title: 'Blog Post Pipeline',
+    description: 'Research a topic, draft a post for your audience and polish it in an editing pass.',
+    category: 'Content',
+    difficulty: 'Beginner',
+    estimatedTime: '5-10 min',
+    costRange: '3 agent calls',
+    tags: ['writing', 'research', 'marketing'],
+    icon: '✍️',
+    popular: true,
+    parameters: [
+      { key: 'topic', label: 'Topic', placeholder: 'Zero-knowledge proofs', required: true },
+      { key: 'audience', label: 'Audience', defaultValue: 'curious non-experts', required: true },
+      { key: 'tone', label: 'Tone', defaultValue: 'friendly' },
+    ],
+    steps: [
+      manualTrigger(),
+      agent('research', 'Researcher', 'Collect the key facts, recent developments and common misconceptions about {{params.topic}}. Return them as a bulleted brief with sources where possible.', ['research']),
+      agent('draft', 'Writer', 'Write a blog post about {{params.topic}} for {{params.audience}} in a {{params.tone}} tone, using only the research brief you are given.', ['writing']),
+      agent('edit', 'Editor', 'Edit the draft for clarity, flow and accuracy. Keep the {{params.tone}} tone and return the final post in Markdown.', ['writing', 'editing']),
+    ],
+    links: [['start', 'research'], ['research', 'draft'], ['draft', 'edit']],
+  },
+  {
+    id: 'support-triage',
+    title: 'Support Ticket Triage',
+    description: 'Classify incoming tickets and route urgent ones to an escalation reply while the rest get a self-service answer.',
+    category: 'Customer Support',
+    difficulty: 'Intermediate',
+    estimatedTime: '2-5 min',
+    costRange: '2 agent calls',
+    tags: ['support', 'routing', 'classification'],
+    icon: '🎧',
+    popular: true,
+    parameters: [
+      { key: 'product', label: 'Product name', placeholder: 'Acme Cloud', required: true },
+      { key: 'escalation', label: 'Escalation policy', defaultValue: 'A human replies within 4 business hours', multiline: true },
+    ],
+    steps: [
+      manualTrigger('{"ticket": "Paste a customer message here"}'),
+      agent('classify', 'Classifier', 'You triage support tickets for {{params.product}}. Read the ticket and answer with one word: URGENT if the customer is blocked, losing data or money, otherwise ROUTINE.', ['classification']),
+      { key: 'urgent', type: 'condition', label: 'Urgent?', config: { condition: 'contains(output, "urgent")' } },
+      agent('escalate', 'Escalation Reply', 'Write a short, empathetic reply for an urgent {{params.product}} ticket. Explain the next step: {{params.escalation}}.', ['support']),
+      agent('answer', 'Self-service Reply', 'Answer the routine {{params.product}} ticket with clear steps the customer can follow themselves.', ['support']),
+    ],
+    links: [['start', 'classify'], ['classify', 'urgent'], ['urgent', 'escalate', 'true'], ['urgent', 'answer', 'false']],
+  },
+  {
+    id: 'market-research-brief',
+    title: 'Market Research Brief',
+    description: 'Analyse competitors and market trends in parallel, then merge both into an executive brief.',
+    category: 'Research',
+    difficulty: 'Advanced',
+    estimatedTime: '10-15 min',
+    costRange: '3 agent calls',
+    tags: ['research', 'strategy', 'parallel'],
+    icon: '📊',
+    parameters: [
+      { key: 'market', label: 'Market', placeholder: 'Decentralised storage', required: true },
+      { key: 'competitors', label: 'Competitors', placeholder: 'Filecoin, Arweave, Storj', multiline: true },
+    ],
+    steps: [
+      manualTrigger(),
+      { key: 'fan_out', type: 'parallel', label: 'Fan out' },
+      agent('competitors', 'Competitor Analyst', 'Compare the main players in {{params.market}} ({{params.competitors}}): positioning, pricing and strengths.', ['research', 'analysis']),
+      agent('trends', 'Trend Analyst', 'Describe the three most important trends shaping {{params.market}} over the next two years.', ['research', 'analysis']),
+      { key: 'merge', type: 'join', label: 'Merge findings', config: { joinMode: 'all', mergeStrategy: 'concat' } },
+      agent('brief', 'Brief Writer', 'Turn the competitor and trend analyses into a one-page executive brief on {{params.market}} with recommendations.', ['writing']),
+    ],
+    links: [['start', 'fan_out'], ['fan_out', 'competitors'], ['fan_out', 'trends'], ['competitors', 'merge'], ['trends', 'merge'], ['merge', 'brief']],
+  },
+  {
+    id: 'code-review',
+    title: 'Code Review Assistant',
+    description: 'Review a snippet against your style guide and format the findings as a review comment.',
+    category: 'Engineering',
+    difficulty: 'Beginner',
+    estimatedTime: '2-5 min',
+    costRange: '1 agent call',
+    tags: ['code', 'review', 'quality'],
+    icon: '🧑‍💻',
+    parameters: [
+      { key: 'language', label: 'Language', defaultValue: 'TypeScript', required: true },
+      { key: 'guidelines', label: 'Style guide', defaultValue: 'Prefer small pure functions; no any; handle every error.', multiline: true },
+    ],
+    steps: [
+      manualTrigger('{"code": "Paste the code to review here"}'),
+      agent('review', 'Reviewer', 'Review the {{params.language}} code you are given for bugs, security issues and readability. Apply these guidelines: {{params.guidelines}}. List each finding with a severity.', ['code', 'analysis']),
+      {
+        key: 'format',
+        type: 'action',
+        label: 'Format comment',
+        config: { actionType: 'template', actionConfig: { template: '### {{params.language}} review\n\n{{input}}' } },
+      },
+    ],
+    links: [['start', 'review'], ['review', 'format']],
+  },
+  {
+    id: 'daily-digest',
+    title: 'Daily News Digest',
+    description: 'Every day, summarise what happened in the areas you follow into a short digest.',
+    category: 'Productivity',
+    difficulty: 'Beginner',
+    estimatedTime: '1 min setup',
+    costRange: '1 agent call per day',
+    tags: ['schedule', 'summary', 'news'],
+    icon: '📰',
+    parameters: [
+      { key: 'interests', label: 'Interests', placeholder: 'AI research, Internet Computer, climate tech', required: true },
+      { key: 'length', label: 'Maximum characters', defaultValue: '1500' },
+    ],
+    steps: [
+      { key: 'start', type: 'trigger', label: 'Every day', config: { triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: 1440 } },
+      agent('digest', 'Digest Writer', 'Write a digest of the most notable news from the last 24 hours about: {{params.interests}}. Group it by topic with one line per item.', ['research', 'summarization']),
+      {
+        key: 'trim',
+        type: 'action',
+        label: 'Keep it short',
+        config: { actionType: 'text_transform', actionConfig: { operation: 'truncate', maxLength: '{{params.length}}' } },
+      },
+    ],
+    links: [['start', 'digest'], ['digest', 'trim']],
+  },
+];
+
+export const getStarterPack = (id: string): StarterPack | undefined =>
+  STARTER_PACKS.find(pack => pack.id === id);
+
+export const getStarterPackCategories = (packs: StarterPack[]): string[] =>
+  [...new Set(packs.map(pack => pack.category))].sort();
+
+export const getStarterPackTags = (packs: StarterPack[]): string[] =>
+  [...new Set(packs.flatMap(pack => pack.tags))].sort();
+
+// Popular packs first, then by title
+export const filterStarterPacks = (packs: StarterPack[], { category, tag }: StarterPackFilter): StarterPack[] =>
+  packs
+    .filter(pack => !category || category === 'all' || pack.category === category)
+    .filter(pack => !tag || pack.tags.includes(tag))
+    .sort((a, b) => Number(!!b.popular) - Number(!!a.popular) || a.title.localeCompare(b.title));
+
+// What the pack does, one line per agent step
+export const getStarterPackTasks = (pack: StarterPack): string[] =>
+  pack.steps.filter(step => step.type === 'agent').map(step => step.label);
+
+export const getDefaultParameterValues = (pack: StarterPack): Record<string, string> =>
+  Object.fromEntries(pack.parameters.map(parameter => [parameter.key, parameter.defaultValue ?? '']));
+
+// Required parameters that are still blank
+export const validateStarterPackParameters = (pack: StarterPack, values: Record<string, string>): string[] =>
+  pack.parameters
+    .filter(parameter => parameter.required && !values[parameter.key]?.trim())
+    .map(parameter => `${parameter.label} is required`);
+
+const fillParameters = (value: unknown, values: Record<string, string>): unknown => {
+  if (typeof value === 'string') return value.replace(PARAM_PATTERN, (_, key: string) => values[key]?.trim() ?? '');
+  if (Array.isArray(value)) return value.map(item => fillParameters(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillParameters(item, values)]));
+  }
+  return value;
+};
+
+/**
+ * Draft workflow built from a pack with its parameters filled in. Node IDs
+ * are prefixed with `id` so the same pack can be used more than once.
+ */
+export const instantiateStarterPack = (
+  pack: StarterPack,
+  values: Record<string, string>,
+  id = `wf_${Date.now()}`
+): Workflow => {
+  const nodeId = (key: string) => `${id}_${key}`;
+  const nodes: WorkflowNode[] = pack.steps.map(step => ({
+    id: nodeId(step.key),
+    type: step.type,
+    position: { x: 0, y: 0 },
+    data: {
+      label: fillParameters(step.label, values) as string,
+      config: fillParameters(step.config ?? {}, values) as Record<string, unknown>,
+    },
+  }));
+  const connections: WorkflowConnection[] = pack.links.map(([source, target, port = 'bottom'], index) => ({
+    id: `conn_${nodeId(source)}_${nodeId(target)}_${index}`,
+    sourceId: nodeId(source),
+    targetId: nodeId(target),
+    sourceHandle: `${nodeId(source)}-${port}`,
+    targetHandle: `${nodeId(target)}-top`,
+  }));
+
+  const now = new Date();
+  const draft: Workflow = {
+    id,
+    name: pack.title,
+    description: pack.description,
+    nodes,
+    connections,
+    status: 'draft',
+    created_at: now,
+    updated_at: now,
+  };
+
+  const layout = layoutWorkflow(draft);
+  return {
+    ...draft,
+    nodes: draft.nodes.map(node => ({ ...node, position: layout.positions[node.id] ?? node.position })),
+    connections: draft.connections.map(connection => ({ ...connection, ...layout.connections[connection.id] })),
+  };
+};
+
+// Agent steps that do not have an agent yet
+export const getNodesNeedingAgents = (workflow: Workflow): WorkflowNode[] =>
+  workflow.nodes.filter(node => node.type === 'agent' && !node.data.config?.agentId);
+
+// Carries the workflow with the agents created before the failure
+export class StarterPackAgentError extends Error {
+  workflow: Workflow;
+
+  constructor(message: string, workflow: Workflow) {
+    super(message);
+    this.name = 'StarterPackAgentError';
+    this.workflow = workflow;
+  }
+}
+
+/**
+ * Create an agent for every agent step, one at a time, and bind it to the
+ * step. Agents created before a failure stay bound in the error's workflow.
+ */
+export const createStarterPackAgents = async (
+  workflow: Workflow,
+  createAgent: (node: WorkflowNode) => Promise<string>,
+  onProgress?: (done: number, total: number) => void
+): Promise<Workflow> => {
+  const pending = getNodesNeedingAgents(workflow);
+  let current = workflow;
+
+  for (const [index, node] of pending.entries()) {
+    onProgress?.(index, pending.length);
+    let agentId: string;
+    try {
+      agentId = await createAgent(node);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new StarterPackAgentError(`Could not create an agent for "${node.data.label}": ${reason}`, current);
+    }
+    current = {
+      ...current,
+      nodes: current.nodes.map(n => n.id === node.id ? { ...n, data: { ...n.data, config: { ...n.data.config, agentId } } } : n),
+    };
+  }
+
+  onProgress?.(pending.length, pending.length);
+  return current;
+};
@@ -0,0 +1,406 @@
+/**
+ * Sub-workflows
+ * Groups of nodes that travel together: copying a selection with fresh IDs,
+ * collapsing it into one sub-workflow node with explicit inputs and outputs,
+ * and running that node as a nested workflow.
+ */
+
+import {
+  WorkflowCycleError,
+  buildWorkflowGraph,
+  runWorkflowGraph,
+  topologicalOrder,
+  type NodeExecutionContext,
+  type NodeExecutionOutcome,
+  type NodeExecutor,
+  type WorkflowRunOptions
+} from './workflowEngine';
+import { ERROR_PORT, getNodePolicy } from './workflowNodePolicy';
+import { nodeTemplateKey } from './workflowTemplates';
+import { configRecord, getHandlePort, type Workflow, type WorkflowConnection, type WorkflowNode } from './workflowTypes';
+
+// Nodes and the connections between them, detached from any workflow
+export interface WorkflowFragment {
+  nodes: WorkflowNode[];
+  connections: WorkflowConnection[];
+}
+
+export interface SubworkflowPort {
+  // Handle port on the sub-workflow node is `in-${key}` or `out-${key}`
+  key: string;
+  label: string;
+  // Inner node the input feeds, or whose output is exposed
+  nodeId: string;
+  // Outputs only: the inner node's named port (condition branch, error); unset for its regular output
+  port?: string;
+}
+
+export interface SubworkflowDefinition extends WorkflowFragment {
+  inputs: SubworkflowPort[];
+  outputs: SubworkflowPort[];
+}
+
+export class SubworkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubworkflowError';
+  }
+}
+
+export const SUBWORKFLOW_INPUT_PREFIX = 'in-';
+export const SUBWORKFLOW_OUTPUT_PREFIX = 'out-';
+
+// Ports every node forwards on when it completes
+const REGULAR_PORTS = ['default', 'bottom', 'right'];
+
+export const createNodeId = () => `node_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const getSubworkflowDefinition = (node: WorkflowNode): SubworkflowDefinition | null => {
+  const definition = configRecord(node.data.config, 'subworkflow');
+  // The rest of the definition is checked when a workflow is imported
+  return definition && Array.isArray(definition.nodes) ? definition as unknown as SubworkflowDefinition : null;
+};
+
+// The selected nodes and the connections that stay inside the selection
+export const extractFragment = (workflow: Workflow, nodeIds: Iterable<string>): WorkflowFragment => {
+  const selected = new Set(nodeIds);
+  return structuredClone({
+    nodes: workflow.nodes.filter(node => selected.has(node.id)),
+    connections: workflow.connections.filter(c => selected.has(c.sourceId) && selected.has(c.targetId)),
+  });
+};
+
+/**
+ * Copy a fragment under fresh node and connection IDs, shifted by `offset`.
+ * Internal connections are kept and follow their nodes' new IDs.
+ */
+export const instantiateFragment = (
+  fragment: WorkflowFragment,
+  offset: { x: number; y: number },
+  newNodeId: () => string = createNodeId
+): WorkflowFragment => {
+  const ids = new Map(fragment.nodes.map(node => [node.id, newNodeId()]));
+  const shift = (point: { x: number; y: number }) => ({ x: point.x + offset.x, y: point.y + offset.y });
+  const rekeyHandle = (handle: string | undefined, oldId: string) =>
+    handle === undefined ? undefined : `${ids.get(oldId)}-${getHandlePort(handle, oldId)}`;
+
+  const copy = structuredClone(fragment);
+  return {
+    nodes: copy.nodes.map(node => ({ ...node, id: ids.get(node.id)!, position: shift(node.position) })),
+    connections: copy.connections
+      .filter(c => ids.has(c.sourceId) && ids.has(c.targetId))
+      .map(connection => {
+        const sourceHandle = rekeyHandle(connection.sourceHandle, connection.sourceId);
+        const targetHandle = rekeyHandle(connection.targetHandle, connection.targetId);
+        const sourceId = ids.get(connection.sourceId)!;
+        const targetId = ids.get(connection.targetId)!;
+        return {
+          ...connection,
+          id: `conn_${sourceHandle ?? sourceId}_${targetHandle ?? targetId}`,
+          sourceId,
+          targetId,
+          sourceHandle,
+          targetHandle,
+          route: connection.route && {
+            sourcePosition: shift(connection.route.sourcePosition),
+            targetPosition: shift(connection.route.targetPosition),
+            waypoints: connection.route.waypoints.map(shift),
+          },
+        };
+      }),
+  };
+};
+
+const uniqueKey = (base: string, taken: Set<string>) => {
+  let key = base || 'port';
+  for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+  taken.add(key);
+  return key;
+};
+
+/**
+ * Replace the selected nodes with one sub-workflow node. Every inner node fed
+ * from outside becomes an input, every inner output read from outside becomes
+ * an output, and the outside connections are rewired to those ports.
+ */
+export const collapseToSubworkflow = (
+  workflow: Workflow,
+  nodeIds: Iterable<string>,
+  node: { id: string; label: string }
+): { workflow: Workflow; node: WorkflowNode } => {
+  const inside = new Set(nodeIds);
+  const members = workflow.nodes.filter(n => inside.has(n.id));
+  if (members.length === 0) {
+    throw new SubworkflowError('Select the nodes to group first');
+  }
+  if (members.some(member => member.type === 'trigger')) {
+    throw new SubworkflowError('Triggers start a workflow and cannot be grouped into a sub-workflow');
+  }
+
+  const incoming = workflow.connections.filter(c => !inside.has(c.sourceId) && inside.has(c.targetId));
+  const outgoing = workflow.connections.filter(c => inside.has(c.sourceId) && !inside.has(c.targetId));
+  const labelOf = (id: string) => members.find(member => member.id === id)!.data.label;
+
+  const inputKeys = new Set<string>();
+  const inputs: SubworkflowPort[] = [...new Set(incoming.map(c => c.targetId))].map(nodeId => ({
+    key: uniqueKey(nodeTemplateKey(labelOf(nodeId)), inputKeys),
+    label: labelOf(nodeId),
+    nodeId,
+  }));
+
+  const outputKeys = new Set<string>();
+  const outputs: SubworkflowPort[] = [];
+  const outputFor = (connection: WorkflowConnection) => {
+    const sourcePort = getHandlePort(connection.sourceHandle, connection.sourceId);
+    const port = REGULAR_PORTS.includes(sourcePort) ? undefined : sourcePort;
+    let output = outputs.find(o => o.nodeId === connection.sourceId && o.port === port);
+    if (!output) {
+      const label = labelOf(connection.sourceId);
+      output = {
+        key: uniqueKey(nodeTemplateKey(port ? `${label} ${port}` : label), outputKeys),
+        label: port ? `${label} (${port})` : label,
+        nodeId: connection.sourceId,
+        port,
+      };
+      outputs.push(output);
+    }
+    return output;
+  };
+
+  const connections = workflow.connections
+    .filter(c => !(inside.has(c.sourceId) && inside.has(c.targetId)))
+    .map(connection => {
+      if (incoming.includes(connection)) {
+        const input = inputs.find(i => i.nodeId === connection.targetId)!;
+        return { ...connection, targetId: node.id, targetHandle: `${node.id}-${SUBWORKFLOW_INPUT_PREFIX}${input.key}`, route: undefined };
+      }
+      if (outgoing.includes(connection)) {
+        const output = outputFor(connection);
+        return { ...connection, sourceId: node.id, sourceHandle: `${node.id}-${SUBWORKFLOW_OUTPUT_PREFIX}${output.key}`, route: undefined };
+      }
+      return connection;
+    });
+
+  const subworkflow: WorkflowNode = {
+    id: node.id,
+    type: 'subworkflow',
+    position: {
+      x: Math.min(...members.map(member => member.position.x)),
+      y: Math.min(...members.map(member => member.position.y)),
+    },
+    data: {
+      label: node.label,
+      description: `${members.length} grouped node${members.length === 1 ? '' : 's'}`,
+      config: { subworkflow: { ...extractFragment(workflow, inside), inputs, outputs } },
+    },
+  };
+
+  const collapsed: Workflow = {
+    ...workflow,
+    nodes: [...workflow.nodes.filter(n => !inside.has(n.id)), subworkflow],
+    connections,
+  };
+
+  // A path that leaves the selection and comes back would loop through the new node
+  const isAcyclic = (candidate: Workflow) => {
+    try {
+      topologicalOrder(buildWorkflowGraph(candidate));
+      return true;
+    } catch (error) {
+      if (error instanceof WorkflowCycleError) return false;
+      throw error;
+    }
+  };
+  if (isAcyclic(workflow) && !isAcyclic(collapsed)) {
+    throw new SubworkflowError('The selection has a path that leaves it and comes back; include the nodes on that path');
+  }
+
+  return { workflow: collapsed, node: subworkflow };
+};
+
+// Standalone sub-workflow node, e.g. one taken from the library
+export const createSubworkflowNode = (
+  label: string,
+  definition: SubworkflowDefinition,
+  position: { x: number; y: number },
+  id: string = createNodeId()
+): WorkflowNode => ({
+  id,
+  type: 'subworkflow',
+  position,
+  data: {
+    label,
+    description: `${definition.nodes.length} grouped node${definition.nodes.length === 1 ? '' : 's'}`,
+    config: { subworkflow: structuredClone(definition) },
+  },
+});
+
+// The nested workflow a sub-workflow node runs, sharing its parent's variables
+export const buildSubworkflow = (parent: Workflow, node: WorkflowNode, definition: SubworkflowDefinition): Workflow => ({
+  ...parent,
+  id: `${parent.id}/${node.id}`,
+  name: `${parent.name} / ${node.data.label}`,
+  nodes: definition.nodes,
+  connections: definition.connections,
+});
+
+const INPUT_NODE_PREFIX = '__input_';
+const OUTPUT_NODE_PREFIX = '__output_';
+
+// Pass-through node standing in for one of the sub-workflow node's ports
+const portNode = (id: string, label: string): WorkflowNode => ({
+  id,
+  type: 'parallel',
+  position: { x: 0, y: 0 },
+  data: { label },
+});
+
+/**
+ * The nested workflow with a source node feeding each input's inner node, so
+ * those nodes have the inputs they get at run time. With `withOutputs`, each
+ * output's inner port is also wired to a sink node, so it counts as connected.
+ */
+export const buildSubworkflowWithPorts = (
+  parent: Workflow,
+  node: WorkflowNode,
+  definition: SubworkflowDefinition,
+  { withOutputs = false }: { withOutputs?: boolean } = {}
+): Workflow => {
+  const nested = buildSubworkflow(parent, node, definition);
+  const outputs = withOutputs ? definition.outputs : [];
+  return {
+    ...nested,
+    nodes: [
+      ...definition.inputs.map(input => portNode(`${INPUT_NODE_PREFIX}${input.key}`, input.label)),
+      ...nested.nodes,
+      ...outputs.map(output => portNode(`${OUTPUT_NODE_PREFIX}${output.key}`, output.label)),
+    ],
+    connections: [
+      ...definition.inputs.map((input): WorkflowConnection => ({
+        id: `${INPUT_NODE_PREFIX}${input.key}_${input.nodeId}`,
+        sourceId: `${INPUT_NODE_PREFIX}${input.key}`,
+        targetId: input.nodeId,
+      })),
+      ...nested.connections,
+      ...outputs.map((output): WorkflowConnection => ({
+        id: `${OUTPUT_NODE_PREFIX}${output.key}_${output.nodeId}`,
+        sourceId: output.nodeId,
+        targetId: `${OUTPUT_NODE_PREFIX}${output.key}`,
+        sourceHandle: `${output.nodeId}-${output.port ?? 'bottom'}`,
+      })),
+    ],
+  };
+};
+
+/**
+ * Run a sub-workflow node. Each input port becomes a source node that emits
+ * what arrived on that port, so inner nodes fed by a silent port are skipped.
+ * With one output the node outputs that value, with several an object keyed by
+ * output; only the output ports whose inner node fired are forwarded.
+ */
+export const runSubworkflow = async (
+  node: WorkflowNode,
+  { workflow, inputs, signal }: NodeExecutionContext,
+  executeNode: NodeExecutor,
+  options: Pick<WorkflowRunOptions, 'minInputs' | 'maxConcurrency'> = {}
+): Promise<NodeExecutionOutcome> => {
+  const definition = getSubworkflowDefinition(node);
+  if (!definition || definition.nodes.length === 0) {
+    throw new Error('Sub-workflow has no nodes');
+  }
+
+  // Which input port each upstream output arrived on; inputs follow the order of the connections
+  const received = new Map<string, unknown[]>();
+  const unmatched = workflow.connections.filter(c => c.targetId === node.id);
+  inputs.forEach(input => {
+    const index = unmatched.findIndex(c => c.sourceId === input.nodeId && getHandlePort(c.sourceHandle, c.sourceId) === input.port);
+    if (index === -1) return;
+    const port = getHandlePort(unmatched.splice(index, 1)[0].targetHandle, node.id);
+    if (!port.startsWith(SUBWORKFLOW_INPUT_PREFIX)) return;
+    const key = port.slice(SUBWORKFLOW_INPUT_PREFIX.length);
+    received.set(key, [...(received.get(key) ?? []), input.output]);
+  });
+
+  const sources = new Map(definition.inputs.map(input => [`${INPUT_NODE_PREFIX}${input.key}`, input]));
+  const inner = buildSubworkflowWithPorts(workflow, node, definition);
+
+  // Ports each inner node chose to forward on
+  const firedPorts = new Map<string, string[] | undefined>();
+  const run = await runWorkflowGraph(inner, async (innerNode, context) => {
+    const source = sources.get(innerNode.id);
+    if (source) {
+      const values = received.get(source.key) ?? [];
+      return values.length === 0
+        ? { output: null, activePorts: [] }
+        : { output: values.length === 1 ? values[0] : values };
+    }
+    const outcome = await executeNode(innerNode, context);
+    firedPorts.set(innerNode.id, outcome.activePorts);
+    return outcome;
+  }, { ...options, signal });
+
+  const results = new Map(run.results.map(result => [result.nodeId, result]));
+  const fired = (output: SubworkflowPort) => {
+    const result = results.get(output.nodeId);
+    if (!result || result.status === 'skipped') return false;
+    const port = output.port ?? 'default';
+    if (result.status === 'failed') {
+      const onFailure = getNodePolicy(definition.nodes.find(n => n.id === output.nodeId)!).onFailure;
+      return onFailure === 'error_port' ? port === ERROR_PORT : onFailure === 'continue' && port !== ERROR_PORT;
+    }
+    const active = firedPorts.get(output.nodeId);
+    return active ? active.includes(port) : port !== ERROR_PORT;
+  };
+
+  const values = Object.fromEntries(definition.outputs.map(output => [output.key, results.get(output.nodeId)?.output]));
+  return {
+    output: definition.outputs.length === 1 ? values[definition.outputs[0].key] : values,
+    activePorts: definition.outputs.filter(fired).map(output => `${SUBWORKFLOW_OUTPUT_PREFIX}${output.key}`),
+    metadata: {
+      steps: run.results
+        .filter(result => !sources.has(result.nodeId))
+        .map(result => ({ nodeId: result.nodeId, status: result.status, error: result.error })),
+      agentIds: collectAgentIds(run.results),
+    },
+  };
+};
+
+export type SubworkflowAgentIds = Record<string, string>;
+
+// Agents the inner nodes ran on, keyed by node ID path like flattenNodes, so the next run reuses them
+const collectAgentIds = (results: { nodeId: string; metadata?: Record<string, unknown> }[]): SubworkflowAgentIds =>
+  Object.fromEntries(results.flatMap(({ nodeId, metadata }) => {
+    if (typeof metadata?.agentId === 'string') return [[nodeId, metadata.agentId]];
+    const nested = (metadata?.agentIds ?? {}) as SubworkflowAgentIds;
+    return Object.entries(nested).map(([path, agentId]) => [`${nodeId}/${path}`, agentId]);
+  }));
+
+// The sub-workflow node with the agents from a run stored on its inner agent nodes
+export const withSubworkflowAgentIds = (node: WorkflowNode, agentIds: SubworkflowAgentIds): WorkflowNode => {
+  const definition = getSubworkflowDefinition(node);
+  if (!definition) return node;
+
+  const nodes = definition.nodes.map(inner => {
+    if (inner.type === 'subworkflow') {
+      const prefix = `${inner.id}/`;
+      const nested = Object.entries(agentIds).filter(([path]) => path.startsWith(prefix));
+      return nested.length === 0
+        ? inner
+        : withSubworkflowAgentIds(inner, Object.fromEntries(nested.map(([path, id]) => [path.slice(prefix.length), id])));
+    }
+    const agentId = agentIds[inner.id];
+    return agentId && inner.type === 'agent'
+      ? { ...inner, data: { ...inner.data, config: { ...inner.data.config, agentId } } }
+      : inner;
+  });
+  return { ...node, data: { ...node.data, config: { ...node.data.config, subworkflow: { ...definition, nodes } } } };
+};
+
+// Every node of a workflow, including those nested in sub-workflows, with IDs prefixed by their path
+export const flattenNodes = (nodes: WorkflowNode[], prefix = ''): WorkflowNode[] =>
+  nodes.flatMap(node => {
+    const definition = node.type === 'subworkflow' ? getSubworkflowDefinition(node) : null;
+    return definition
+      ? flattenNodes(definition.nodes, `${prefix}${node.id}/`)
+      : [{ ...node, id: `${prefix}${node.id}` }];
+  });
@@ -0,0 +1,152 @@
+/**
+ * Workflow Templates
+ * Renders `{{path}}` placeholders in node configuration against a data context.
+ * During a run the context is a TemplateScope, so agents and actions can pull
+ * in any earlier node's output (`{{nodes.summarizer.output}}`), the payload of
+ * the trigger that fired (`{{trigger.payload.topic}}`) and workflow variables
+ * (`{{vars.language}}`).
+ */
+
+import { outputToText, type NodeExecutionResult, type NodeInput } from './workflowEngine';
+import type { Workflow } from './workflowTypes';
+
+export interface TemplateNodeEntry {
+  output: unknown;
+  status: NodeExecutionResult['status'];
+  metadata?: Record<string, unknown>;
+}
+
+export interface TemplateScope {
+  // Settled nodes by template key
+  nodes: Record<string, TemplateNodeEntry>;
+  trigger: { nodeId: string; type?: unknown; payload: unknown } | null;
+  vars: Record<string, string>;
+  // Direct upstream outputs, joined as text and one by one
+  input: string;
+  inputs: unknown[];
+}
+
+const SCOPE_ROOTS = ['nodes', 'trigger', 'vars', 'input', 'inputs'];
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const BLOCKED_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Split `a.b[0].c` into ['a', 'b', '0', 'c']
+const splitPath = (path: string): string[] =>
+  path.replace(/\[(\d+)\]/g, '.$1').split('.').map(segment => segment.trim()).filter(Boolean);
+
+// Resolve a dotted path against own properties only; JSON strings are parsed on the way down
+export const resolvePath = (root: unknown, path: string): unknown => {
+  let current: unknown = root;
+
+  for (const segment of splitPath(path)) {
+    if (BLOCKED_SEGMENTS.has(segment)) return undefined;
+    if (typeof current === 'string') {
+      try {
+        current = JSON.parse(current);
+      } catch {
+        return undefined;
+      }
+    }
+    if (current === null || typeof current !== 'object') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+};
+
+export const renderTemplate = (template: string, context: object): string =>
+  template.replace(PLACEHOLDER_PATTERN, (_, path: string) => outputToText(resolvePath(context, path)));
+
+// Placeholder paths referenced by a template, in order of appearance
+export const listTemplatePaths = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+
+// Name under which templates address a node: its label in snake case ("Summarizer" -> summarizer)
+export const nodeTemplateKey = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Template key of every node; nodes whose label is empty or already taken keep their ID
+export const getNodeTemplateKeys = (workflow: Workflow): Map<string, string> => {
+  const keys = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const node of workflow.nodes) {
+    const key = nodeTemplateKey(node.data.label);
+    const unique = key && !taken.has(key) ? key : node.id;
+    taken.add(unique);
+    keys.set(node.id, unique);
+  }
+  return keys;
+};
+
+export const validateVariableName = (name: string): string | null => {
+  if (!name) return 'Name is required';
+  if (!VARIABLE_NAME_PATTERN.test(name)) return 'Use letters, digits and underscores, not starting with a digit';
+  return null;
+};
+
+// Data a node's templates are rendered against, given the results settled so far
+export const buildTemplateScope = (
+  workflow: Workflow,
+  results: Iterable<NodeExecutionResult>,
+  inputs: NodeInput[]
+): TemplateScope => {
+  const keys = getNodeTemplateKeys(workflow);
+  const triggerIds = new Set(workflow.nodes.filter(node => node.type === 'trigger').map(node => node.id));
+  const nodes: Record<string, TemplateNodeEntry> = {};
+  let trigger: TemplateScope['trigger'] = null;
+
+  for (const result of results) {
+    nodes[keys.get(result.nodeId) ?? result.nodeId] = { output: result.output, status: result.status, metadata: result.metadata };
+
+    // Silent triggers complete with a null output
+    if (triggerIds.has(result.nodeId) && !trigger && result.status === 'completed' && result.output !== null) {
+      trigger = { nodeId: result.nodeId, type: result.metadata?.triggerType, payload: result.output };
+    }
+  }
+
+  return {
+    nodes,
+    trigger,
+    vars: { ...workflow.variables },
+    input: inputs.map(input => outputToText(input.output)).filter(Boolean).join('\n\n'),
+    inputs: inputs.map(input => input.output),
+  };
+};
+
+// Nodes with a path to the given node, so they have settled by the time it runs
+const findUpstreamNodes = (workflow: Workflow, nodeId: string): Set<string> => {
+  const upstream = new Set<string>();
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const targetId = stack.pop()!;
+    for (const connection of workflow.connections) {
+      if (connection.targetId === targetId && !upstream.has(connection.sourceId)) {
+        upstream.add(connection.sourceId);
+        stack.push(connection.sourceId);
+      }
+    }
+  }
+  return upstream;
+};
+
+/**
+ * Placeholders that can never resolve in this workflow: unknown roots, nodes or
+ * variables. Given the node that uses the template, nodes that are not upstream
+ * of it (a parallel branch, or further down) count too: they have not run yet.
+ */
+export const findUnresolvedReferences = (template: string, workflow: Workflow, nodeId?: string): string[] => {
+  const keys = getNodeTemplateKeys(workflow);
+  const nodeKeys = new Set(nodeId === undefined
+    ? keys.values()
+    : [...findUpstreamNodes(workflow, nodeId)].map(id => keys.get(id)));
+  return listTemplatePaths(template).filter(path => {
+    const [root, name] = splitPath(path);
+    if (!SCOPE_ROOTS.includes(root)) return true;
+    if (root === 'nodes') return name !== undefined && !nodeKeys.has(name);
+    if (root === 'vars') return name !== undefined && !Object.prototype.hasOwnProperty.call(workflow.variables ?? {}, name);
+    return false;
+  });
+};
@@ -0,0 +1,198 @@
+/**
+ * Workflow Triggers
+ * Defines how a Coordinator workflow starts: manually with a payload, on an
+ * interval or cron schedule while the app is open, or when an app event fires.
+ */
+
+import { onAppEvent, type AppEventType } from './appEvents';
+import { configString, type Workflow, type WorkflowNode } from './workflowTypes';
+
+export type TriggerType = 'manual' | 'schedule' | 'event';
+
+const TRIGGER_TYPES: TriggerType[] = ['manual', 'schedule', 'event'];
+
+// Browsers run timers with delays above 2^31-1 ms almost immediately
+export const MAX_INTERVAL_MINUTES = Math.floor((2 ** 31 - 1) / 60_000);
+
+export interface TriggerConfig {
+  triggerType: TriggerType;
+  payload?: string;
+  scheduleMode?: 'interval' | 'cron';
+  intervalMinutes?: number;
+  cron?: string;
+  eventName?: AppEventType;
+}
+
+// A trigger firing; passed to the execution engine as the run's input
+export interface TriggerFire {
+  workflowId: string;
+  triggerNodeId: string;
+  triggerType: TriggerType;
+  payload: unknown;
+  firedAt: number;
+  // Workflows whose runs led to this fire through app events; unset for manual and scheduled fires
+  causedBy?: string[];
+}
+
+export const TRIGGER_EVENTS: { value: AppEventType; label: string }[] = [
+  { value: 'agent_created', label: 'New agent created' },
+  { value: 'quota_updated', label: 'LLM quota updated' },
+];
+
+// Fill defaults and map legacy trigger types from older workflows
+export const getTriggerConfig = (node: WorkflowNode): TriggerConfig => {
+  const config = node.data.config || {};
+  const legacyType = config.triggerType === 'timer' ? 'schedule' : config.triggerType;
+  const triggerType = TRIGGER_TYPES.find(type => type === legacyType) ?? 'manual';
+
+  return {
+    triggerType,
+    payload: configString(config, 'payload'),
+    scheduleMode: config.scheduleMode === 'cron' ? 'cron' : 'interval',
+    intervalMinutes: Number(config.intervalMinutes) || 15,
+    cron: configString(config, 'cron'),
+    eventName: TRIGGER_EVENTS.find(event => event.value === config.eventName)?.value ?? 'agent_created',
+  };
+};
+
+// JSON payloads are parsed; anything else is passed on as text
+export const parseTriggerPayload = (payload: string | undefined): unknown => {
+  if (!payload || !payload.trim()) return null;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+};
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Expand one cron field (`*`, `*/5`, `1-5`, `0,30`, `10-50/10`) into its allowed values
+const parseCronField = (field: string, min: number, max: number, name: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${name}: "${part}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to === undefined ? (stepText === undefined ? from : max) : to;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name}: "${part}" (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): Set<number>[] => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+  const sets = fields.map((field, index) => {
+    const { min, max, name } = CRON_FIELDS[index];
+    return parseCronField(field, min, max, name);
+  });
+  if (sets[4].delete(7)) sets[4].add(0);
+  return sets;
+};
+
+/**
+ * Whether the expression fires at the given minute. As in standard cron, when
+ * both day of month and day of week are restricted (neither starts with `*`),
+ * a day matching either one is enough.
+ */
+export const cronMatches = (expression: string, date: Date): boolean => {
+  const [minutes, hours, days, months, weekdays] = parseCron(expression);
+  const [, , dayField, , weekdayField] = expression.trim().split(/\s+/);
+  const eitherDay = !dayField.startsWith('*') && !weekdayField.startsWith('*');
+  const dayMatches = eitherDay
+    ? days.has(date.getDate()) || weekdays.has(date.getDay())
+    : days.has(date.getDate()) && weekdays.has(date.getDay());
+  return minutes.has(date.getMinutes()) &&
+    hours.has(date.getHours()) &&
+    months.has(date.getMonth() + 1) &&
+    dayMatches;
+};
+
+// Returns a problem with the trigger's configuration, or null when it can be armed
+export const validateTriggerConfig = (config: TriggerConfig): string | null => {
+  if (config.triggerType === 'schedule') {
+    if (config.scheduleMode === 'cron') {
+      if (!config.cron?.trim()) return 'Cron expression is required';
+      try {
+        parseCron(config.cron);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid cron expression';
+      }
+    } else if (!config.intervalMinutes || config.intervalMinutes < 1) {
+      return 'Interval must be at least 1 minute';
+    } else if (config.intervalMinutes > MAX_INTERVAL_MINUTES) {
+      return `Interval must be at most ${MAX_INTERVAL_MINUTES} minutes; use a cron schedule for longer periods`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Arm the schedule and event triggers of a workflow.
+ * Returns a function that disarms them again; manual triggers are never armed.
+ */
+export const armWorkflowTriggers = (
+  workflow: Workflow,
+  onFire: (fire: TriggerFire) => void
+): (() => void) => {
+  const disposers: (() => void)[] = [];
+
+  for (const node of workflow.nodes.filter(n => n.type === 'trigger')) {
+    const config = getTriggerConfig(node);
+    if (config.triggerType === 'manual' || validateTriggerConfig(config)) continue;
+
+    const fire = (payload: unknown, causedBy?: string[]) => onFire({
+      workflowId: workflow.id,
+      triggerNodeId: node.id,
+      triggerType: config.triggerType,
+      payload,
+      firedAt: Date.now(),
+      causedBy,
+    });
+
+    if (config.triggerType === 'event') {
+      // Events this workflow's runs led to, directly or through other workflows, would loop
+      disposers.push(onAppEvent(config.eventName!, event => {
+        if (!event.causedBy?.includes(workflow.id)) fire(event.data, event.causedBy);
+      }));
+    } else if (config.scheduleMode === 'interval') {
+      const timer = setInterval(() => fire(parseTriggerPayload(config.payload)), config.intervalMinutes! * 60_000);
+      disposers.push(() => clearInterval(timer));
+    } else {
+      // Check the cron expression at the start of every minute
+      let timer: ReturnType<typeof setTimeout>;
+      const scheduleNextMinute = () => {
+        timer = setTimeout(() => {
+          if (cronMatches(config.cron!, new Date())) fire(parseTriggerPayload(config.payload));
+          scheduleNextMinute();
+        }, 60_000 - (Date.now() % 60_000));
+      };
+      scheduleNextMinute();
+      disposers.push(() => clearTimeout(timer));
+    }
+  }
+
+  return () => disposers.forEach(dispose => dispose());
+};
@@ -0,0 +1,72 @@
+// Shared workflow types for the Coordinator canvas and execution engine
+
+export type WorkflowNodeType = 'agent' | 'trigger' | 'action' | 'condition' | 'parallel' | 'join' | 'subworkflow';
+
+export const WORKFLOW_NODE_TYPES: WorkflowNodeType[] = ['agent', 'trigger', 'action', 'condition', 'parallel', 'join', 'subworkflow'];
+
+// Settings of a node; what each type keeps here is read through the helpers below
+export type NodeConfig = Record<string, unknown>;
+
+export interface WorkflowNode {
+  id: string;
+  type: WorkflowNodeType;
+  position: { x: number; y: number };
+  data: {
+    label: string;
+    description?: string;
+    agentId?: string;
+    config?: NodeConfig;
+  };
+}
+
+// Path laid out by auto-layout, valid while both nodes stay where they were put
+export interface ConnectionRoute {
+  sourcePosition: { x: number; y: number };
+  targetPosition: { x: number; y: number };
+  waypoints: Array<{ x: number; y: number }>;
+}
+
+export interface WorkflowConnection {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  path?: string; // SVG path for the connection line
+  route?: ConnectionRoute;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  nodes: WorkflowNode[];
+  connections: WorkflowConnection[];
+  // Values available to node templates as {{vars.name}}
+  variables?: Record<string, string>;
+  status: 'draft' | 'active' | 'paused';
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Handle IDs are built as `${nodeId}-${port}`; returns the port part
+export const getHandlePort = (handleId: string | undefined, nodeId: string): string => {
+  if (!handleId) return 'default';
+  return handleId.startsWith(`${nodeId}-`) ? handleId.slice(nodeId.length + 1) : handleId;
+};
+
+// Config values come from saved and imported workflows, so they are read as the type expected
+export const configString = (config: NodeConfig | undefined, key: string): string | undefined => {
+  const value = config?.[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+export const configStrings = (config: NodeConfig | undefined, key: string): string[] => {
+  const value = config?.[key];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+export const configRecord = (config: NodeConfig | undefined, key: string): NodeConfig | undefined => {
+  const value = config?.[key];
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as NodeConfig : undefined;
+};
@@ -0,0 +1,282 @@
+/**
+ * Workflow Validation
+ * Static checks run before a workflow executes. Errors block the run;
+ * warnings are shown on the canvas but the workflow can still execute.
+ */
+
+import { getWorkflowAction, validateActionConfig } from './workflowActions';
+import { buildWorkflowGraph } from './workflowEngine';
+import { validateExpression } from './workflowExpressions';
+import { getJoinConfig, validateJoinConfig } from './workflowJoin';
+import { ERROR_PORT, getNodePolicy, validateNodePolicy } from './workflowNodePolicy';
+import { getConnectionTypeError } from './workflowPorts';
+import { SUBWORKFLOW_INPUT_PREFIX, buildSubworkflowWithPorts, getSubworkflowDefinition } from './workflowSubworkflows';
+import { findUnresolvedReferences, validateVariableName } from './workflowTemplates';
+import { getTriggerConfig, validateTriggerConfig } from './workflowTriggers';
+import { configRecord, configString, getHandlePort, type Workflow } from './workflowTypes';
+
+export type WorkflowIssueSeverity = 'error' | 'warning';
+
+export interface WorkflowIssue {
+  severity: WorkflowIssueSeverity;
+  code:
+    | 'cycle'
+    | 'unreachable'
+    | 'missing_instructions'
+    | 'invalid_condition'
+    | 'missing_branch'
+    | 'trigger_has_input'
+    | 'output_to_output'
+    | 'input_to_input'
+    | 'reversed_connection'
+    | 'invalid_action'
+    | 'invalid_trigger'
+    | 'invalid_join'
+    | 'invalid_policy'
+    | 'invalid_template'
+    | 'invalid_variable'
+    | 'invalid_subworkflow'
+    | 'incompatible_ports';
+  message: string;
+  nodeId?: string;
+  connectionId?: string;
+}
+
+// Handle ports that receive connections; every other port is an output
+const INPUT_PORTS = ['top', 'left'];
+
+const isInputHandle = (handleId: string | undefined, nodeId: string) => {
+  const port = getHandlePort(handleId, nodeId);
+  return INPUT_PORTS.includes(port) || port.startsWith(SUBWORKFLOW_INPUT_PREFIX);
+};
+
+// Nodes that can reach themselves again through their outgoing connections
+const findCycleNodes = (workflow: Workflow): Set<string> => {
+  const graph = buildWorkflowGraph(workflow);
+  const onCycle = new Set<string>();
+
+  for (const start of graph.nodes.keys()) {
+    const stack = graph.outgoing.get(start)!.map(c => c.targetId);
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const nodeId = stack.pop()!;
+      if (nodeId === start) {
+        onCycle.add(start);
+        break;
+      }
+      if (seen.has(nodeId)) continue;
+      seen.add(nodeId);
+      stack.push(...graph.outgoing.get(nodeId)!.map(c => c.targetId));
+    }
+  }
+
+  return onCycle;
+};
+
+// Nodes reached from the triggers, or from every root when there are no triggers
+const findReachableNodes = (workflow: Workflow): Set<string> => {
+  const graph = buildWorkflowGraph(workflow);
+  const triggers = workflow.nodes.filter(node => node.type === 'trigger').map(node => node.id);
+  const starts = triggers.length > 0
+    ? triggers
+    : workflow.nodes.filter(node => graph.incoming.get(node.id)!.length === 0).map(node => node.id);
+
+  const reachable = new Set<string>();
+  const stack = [...starts];
+  while (stack.length > 0) {
+    const nodeId = stack.pop()!;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    stack.push(...graph.outgoing.get(nodeId)!.map(c => c.targetId));
+  }
+  return reachable;
+};
+
+export const validateWorkflow = (workflow: Workflow): WorkflowIssue[] => {
+  const issues: WorkflowIssue[] = [];
+  const cycleNodes = findCycleNodes(workflow);
+  const reachable = findReachableNodes(workflow);
+
+  for (const name of Object.keys(workflow.variables ?? {})) {
+    const nameError = validateVariableName(name);
+    if (nameError) {
+      issues.push({ severity: 'error', code: 'invalid_variable', message: `Variable "${name}": ${nameError}` });
+    }
+  }
+
+  // Placeholders that will render as empty text
+  const checkTemplate = (nodeId: string, label: string, template: unknown) => {
+    if (typeof template !== 'string') return;
+    const unresolved = findUnresolvedReferences(template, workflow);
+    const notRun = findUnresolvedReferences(template, workflow, nodeId).filter(path => !unresolved.includes(path));
+    const placeholders = (paths: string[]) => paths.map(path => `{{${path}}}`).join(', ');
+    if (unresolved.length > 0) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid_template',
+        nodeId,
+        message: `"${label}" uses unknown placeholders: ${placeholders(unresolved)}`,
+      });
+    }
+    if (notRun.length > 0) {
+      issues.push({
+        severity: 'warning',
+        code: 'invalid_template',
+        nodeId,
+        message: `"${label}" uses nodes that are not upstream of it and will not have run: ${placeholders(notRun)}`,
+      });
+    }
+  };
+
+  for (const node of workflow.nodes) {
+    const config = node.data.config || {};
+    const label = node.data.label;
+    const incoming = workflow.connections.filter(c => c.targetId === node.id);
+    const outgoing = workflow.connections.filter(c => c.sourceId === node.id);
+
+    if (cycleNodes.has(node.id)) {
+      issues.push({ severity: 'error', code: 'cycle', nodeId: node.id, message: `"${label}" is part of a cycle` });
+    } else if (!reachable.has(node.id)) {
+      issues.push({ severity: 'warning', code: 'unreachable', nodeId: node.id, message: `"${label}" can never run: no trigger leads to it` });
+    }
+
+    const policyError = validateNodePolicy(node);
+    if (policyError) {
+      issues.push({ severity: 'error', code: 'invalid_policy', nodeId: node.id, message: `"${label}": ${policyError}` });
+    }
+    const usesErrorPort = outgoing.some(c => getHandlePort(c.sourceHandle, node.id) === ERROR_PORT);
+    const routesErrors = getNodePolicy(node).onFailure === 'error_port';
+    if (routesErrors && !usesErrorPort) {
+      issues.push({ severity: 'warning', code: 'missing_branch', nodeId: node.id, message: `"${label}" routes failures to its error handle but nothing is connected to it` });
+    } else if (usesErrorPort && !routesErrors) {
+      issues.push({ severity: 'warning', code: 'invalid_policy', nodeId: node.id, message: `"${label}" has an error branch that never runs: its failure handling is not set to the error handle` });
+    }
+
+    switch (node.type) {
+      case 'agent': {
+        const instructions = configString(config, 'instructions');
+        if (!instructions?.trim()) {
+          issues.push({ severity: 'error', code: 'missing_instructions', nodeId: node.id, message: `Agent "${label}" has no instructions` });
+        }
+        checkTemplate(node.id, label, instructions);
+        break;
+      }
+
+      case 'condition': {
+        const condition = configString(config, 'condition');
+        const expressionError = condition?.trim() ? validateExpression(condition) : 'Expression is empty';
+        if (expressionError) {
+          issues.push({ severity: 'error', code: 'invalid_condition', nodeId: node.id, message: `Condition "${label}": ${expressionError}` });
+        }
+        const missing = ['true', 'false'].filter(branch =>
+          !outgoing.some(c => getHandlePort(c.sourceHandle, node.id) === branch)
+        );
+        if (missing.length > 0) {
+          issues.push({
+            severity: missing.length === 2 ? 'error' : 'warning',
+            code: 'missing_branch',
+            nodeId: node.id,
+            message: `Condition "${label}" has no ${missing.join(' or ')} branch connected`,
+          });
+        }
+        break;
+      }
+
+      case 'action': {
+        const action = getWorkflowAction(configString(config, 'actionType'));
+        const actionConfig = configRecord(config, 'actionConfig');
+        const problems = action ? validateActionConfig(action, actionConfig) : ['No action selected'];
+        if (problems.length > 0) {
+          issues.push({ severity: 'error', code: 'invalid_action', nodeId: node.id, message: `Action "${label}": ${problems.join('; ')}` });
+        }
+        action?.fields
+          .filter(field => field.templated)
+          .forEach(field => checkTemplate(node.id, label, configString(actionConfig, field.key)));
+        break;
+      }
+
+      case 'parallel':
+        if (outgoing.length < 2) {
+          issues.push({ severity: 'warning', code: 'missing_branch', nodeId: node.id, message: `Parallel "${label}" should fan out to at least two branches` });
+        }
+        break;
+
+      case 'join': {
+        if (incoming.length < 2) {
+          issues.push({ severity: 'warning', code: 'missing_branch', nodeId: node.id, message: `Join "${label}" should merge at least two branches` });
+        }
+        const joinError = validateJoinConfig(getJoinConfig(node), incoming.length);
+        if (joinError) {
+          issues.push({ severity: 'error', code: 'invalid_join', nodeId: node.id, message: `Join "${label}": ${joinError}` });
+        }
+        break;
+      }
+
+      case 'subworkflow': {
+        const definition = getSubworkflowDefinition(node);
+        if (!definition || definition.nodes.length === 0) {
+          issues.push({ severity: 'error', code: 'invalid_subworkflow', nodeId: node.id, message: `Sub-workflow "${label}" has no nodes` });
+          break;
+        }
+        // Errors inside block the run as well; variables are checked once, above. Inner
+        // nodes fed by an input and ports exposed as outputs are connected through the node.
+        validateWorkflow(buildSubworkflowWithPorts(workflow, node, definition, { withOutputs: true }))
+          .filter(issue => issue.severity === 'error' && issue.code !== 'invalid_variable')
+          .forEach(issue => issues.push({
+            severity: 'error',
+            code: 'invalid_subworkflow',
+            nodeId: node.id,
+            message: `Sub-workflow "${label}": ${issue.message}`,
+          }));
+        break;
+      }
+
+      case 'trigger': {
+        incoming.forEach(connection => issues.push({
+          severity: 'error',
+          code: 'trigger_has_input',
+          nodeId: node.id,
+          connectionId: connection.id,
+          message: `Trigger "${label}" cannot have incoming connections`,
+        }));
+        const triggerError = validateTriggerConfig(getTriggerConfig(node));
+        if (triggerError) {
+          issues.push({ severity: 'warning', code: 'invalid_trigger', nodeId: node.id, message: `Trigger "${label}": ${triggerError}` });
+        }
+        break;
+      }
+    }
+  }
+
+  for (const connection of workflow.connections) {
+    // The engine runs every connection from source to target, so each end must face the right way
+    const sourceIsOutput = !isInputHandle(connection.sourceHandle, connection.sourceId);
+    const targetIsInput = connection.targetHandle === undefined || isInputHandle(connection.targetHandle, connection.targetId);
+    if (!sourceIsOutput || !targetIsInput) {
+      const [code, message]: [WorkflowIssue['code'], string] = sourceIsOutput
+        ? ['output_to_output', 'Connection links two output handles']
+        : targetIsInput
+          ? ['input_to_input', 'Connection links two input handles']
+          : ['reversed_connection', 'Connection runs from an input handle to an output handle'];
+      issues.push({ severity: 'error', code, connectionId: connection.id, nodeId: connection.targetId, message });
+      continue;
+    }
+
+    // Wired before port types were checked, or imported
+    const typeError = getConnectionTypeError(workflow, connection);
+    if (typeError) {
+      issues.push({
+        severity: 'warning',
+        code: 'incompatible_ports',
+        connectionId: connection.id,
+        nodeId: connection.targetId,
+        message: typeError,
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: WorkflowIssue[]) =>
+  issues.some(issue => issue.severity === 'error');
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { Principal } from '@dfinity/principal'
+import {
+  ConversationStore,
+  MemoryConversationStorage,
+  getConversationTitle,
+  searchConversations,
+  toConversationRecord
+} from '../services/conversationStore'
+import { MessageRole, QuantizedModel, type ConversationSession } from '../services/llmService'
+
+const NANOS_PER_MS = 1_000_000n
+
+const session = (id: string, lastActivityMs: number, contents: string[], extra: Partial<ConversationSession> = {}): ConversationSession => ({
+  session_id: id,
+  user_principal: Principal.fromText('aaaaa-aa'),
+  model: QuantizedModel.Llama3_1_8B,
+  messages: contents.map((content, index) => ({
+    role: index % 2 === 0 ? MessageRole.User : MessageRole.Assistant,
+    content,
+    timestamp: BigInt(lastActivityMs) * NANOS_PER_MS,
+    model: QuantizedModel.Llama3_1_8B,
+  })),
+  created_at: BigInt(lastActivityMs) * NANOS_PER_MS,
+  last_activity: BigInt(lastActivityMs) * NANOS_PER_MS,
+  token_usage: {
+    input_tokens: 2n ** 64n,
+    output_tokens: 12n,
+    total_tokens: 2n ** 64n + 12n,
+    estimated_cost: 0,
+  },
+  ...extra,
+})
+
+describe('Conversation Store', () => {
+  it('round-trips bigints and principals through plain records, per principal', async () => {
+    const storage = new MemoryConversationStorage()
+    const mine = new ConversationStore(storage, 'alice')
+    const original = session('c1', 1_700_000_000_000, ['How do canisters store state?', 'In stable memory.'])
+
+    const record = toConversationRecord(original)
+    expect(JSON.parse(JSON.stringify(record))).toEqual(record)
+
+    await mine.save(original)
+    expect(await new ConversationStore(storage, 'bob').list()).toEqual([])
+
+    const [loaded] = await mine.list()
+    expect(loaded).toEqual(original)
+    expect(loaded.token_usage.total_tokens).toBe(18446744073709551628n)
+    expect(loaded.user_principal.toText()).toBe('aaaaa-aa')
+
+    await mine.delete('c1')
+    expect(await mine.list()).toEqual([])
+  })
+
+  it('lists pinned conversations first, then the most recent', async () => {
+    const store = new ConversationStore(new MemoryConversationStorage(), 'alice')
+    await store.save(session('old', 1000, ['old']))
+    await store.save(session('new', 3000, ['new']))
+    await store.save(session('pinned', 2000, ['pinned'], { pinned: true }))
+
+    expect((await store.list()).map(s => s.session_id)).toEqual(['pinned', 'new', 'old'])
+  })
+
+  it('searches titles and message contents for every word of the query', () => {
+    const sessions = [
+      session('rust', 2000, ['Explain the borrow checker', 'The borrow checker enforces ownership rules at compile time.']),
+      session('motoko', 1000, ['Motoko actors', 'Actors keep state between calls.'], { title: 'Canister notes' }),
+    ]
+
+    expect(searchConversations(sessions, '').map(r => r.session.session_id)).toEqual(['rust', 'motoko'])
+    expect(searchConversations(sessions, 'BORROW ownership')).toEqual([
+      expect.objectContaining({ matchCount: 4, snippet: 'Explain the borrow checker' }),
+    ])
+    expect(searchConversations(sessions, 'canister').map(r => r.session.session_id)).toEqual(['motoko'])
+    expect(searchConversations(sessions, 'borrow actors')).toEqual([])
+  })
+
+  it('titles untitled conversations after their first message', () => {
+    expect(getConversationTitle(session('a', 0, []))).toBe('New conversation')
+    expect(getConversationTitle(session('b', 0, ['A very long first question that goes on and on and on']))).toBe('A very long first question that goes on…')
+    expect(getConversationTitle(session('c', 0, ['hi'], { title: '  Notes ' }))).toBe('Notes')
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_DECODING_SETTINGS,
+  getDecodingPreset,
+  matchDecodingPreset,
+  parseDecodingDraft,
+  toDecodingDraft,
+  toInferDecodeParams
+} from '../services/decodingSettings'
+import { conversationTranscript, formatTranscript } from '../services/chatTranscript'
+import { LlmService, QuantizedModel } from '../services/llmService'
+import type { LlmStreamRequest } from '../services/llmTransport'
+
+describe('Decoding Settings', () => {
+  it('names presets, with a fixed seed only for Deterministic', () => {
+    expect(matchDecodingPreset(DEFAULT_DECODING_SETTINGS)?.name).toBe('Balanced')
+    expect(getDecodingPreset('deterministic')?.settings).toMatchObject({ temperature: 0, top_k: 1, seed: 42 })
+    expect(getDecodingPreset('creative')?.settings.seed).toBeNull()
+    expect(matchDecodingPreset({ ...DEFAULT_DECODING_SETTINGS, temperature: 0.71 })).toBeUndefined()
+  })
+
+  it('validates form values field by field', () => {
+    const draft = toDecodingDraft(DEFAULT_DECODING_SETTINGS)
+    expect(draft.top_k).toBe('')
+    expect(parseDecodingDraft(draft)).toEqual({ settings: DEFAULT_DECODING_SETTINGS, errors: {} })
+
+    const { settings, errors } = parseDecodingDraft({
+      ...draft,
+      max_tokens: '100.5',
+      temperature: '3',
+      top_p: 'abc',
+      seed: '7',
+    })
+    expect(settings).toBeNull()
+    expect(errors).toEqual({
+      max_tokens: 'Enter a whole number',
+      temperature: 'Must be between 0 and 2',
+      top_p: 'Enter a number',
+    })
+    expect(parseDecodingDraft({ ...draft, max_tokens: '' }).errors).toEqual({ max_tokens: 'Enter a number' })
+  })
+
+  it('builds the infer decode params with Candid optionals', () => {
+    expect(toInferDecodeParams(getDecodingPreset('deterministic')!.settings)).toEqual({
+      seed: 42n,
+      decode_params: { max_tokens: [1024], temperature: [0], top_p: [1], top_k: [1], repetition_penalty: [1.1] },
+    })
+    expect(toInferDecodeParams(DEFAULT_DECODING_SETTINGS, 7).decode_params.top_k).toEqual([])
+  })
+
+  it('sends each conversation with its own settings and exports them in the transcript', async () => {
+    const requests: LlmStreamRequest[] = []
+    const service = new LlmService()
+    service.setTransport({
+      async *stream(request) {
+        requests.push(request)
+        yield 'Forty-two.'
+      },
+    })
+    await service.initialize({})
+    const conversation = await service.createConversation(QuantizedModel.Llama3_1_8B)
+    const deterministic = getDecodingPreset('deterministic')!.settings
+    await service.setConversationDecoding(conversation.session_id, deterministic)
+    await service.sendMessage('What is the answer?')
+
+    expect(requests[0]).toMatchObject({ decoding: deterministic, seed: 42 })
+    const session = service.getConversation(conversation.session_id)!
+    expect(session.messages[1].seed).toBe(42)
+
+    const transcript = formatTranscript(conversationTranscript(session), new Date('2026-01-01T00:00:00Z'))
+    expect(transcript).toContain('# What is the answer?')
+    expect(transcript).toContain('- Decoding: Deterministic')
+    expect(transcript).toContain('"seed": 42')
+    expect(transcript).toMatch(/## Assistant \(.*, seed 42\)\n\nForty-two\./)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { LlmService, QuantizedModel, MessageRole } from '../services/llmService'
+import { InferTransport, replayPieces, type LlmStreamRequest, type LlmTransport } from '../services/llmTransport'
+import { DEFAULT_DECODING_SETTINGS } from '../services/decodingSettings'
+
+// Yields the given pieces, stalling after `stallAfter` of them until the request is aborted
+const scriptedTransport = (pieces: string[], stallAfter = Infinity) => {
+  const requests: LlmStreamRequest[] = []
+  const transport: LlmTransport = {
+    async *stream({ signal, ...request }) {
+      requests.push({ signal, ...request })
+      for (const [index, piece] of pieces.entries()) {
+        if (index >= stallAfter && !signal.aborted) {
+          await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }))
+        }
+        if (signal.aborted) return
+        yield piece
+      }
+    },
+  }
+  return { transport, requests }
+}
+
+const createService = async (transport: LlmTransport) => {
+  const service = new LlmService()
+  service.setTransport(transport)
+  await service.initialize({})
+  await service.createConversation(QuantizedModel.Llama3_1_8B)
+  return service
+}
+
+describe('LLM Streaming', () => {
+  it('yields the reply as it is generated and records the exchange at the end', async () => {
+    const { transport, requests } = scriptedTransport(['Stable ', 'memory', '.'])
+    const service = await createService(transport)
+
+    const seen: string[] = []
+    const stream = service.streamMessage('Where is state kept?')
+    let result = await stream.next()
+    while (!result.done) {
+      seen.push(result.value.content)
+      expect(service.getState().currentConversation?.messages).toHaveLength(0)
+      result = await stream.next()
+    }
+
+    expect(seen).toEqual(['Stable ', 'Stable memory', 'Stable memory.'])
+    expect(requests[0].prompt).toContain('Where is state kept?')
+    expect(result.value).toMatchObject({ role: MessageRole.Assistant, content: 'Stable memory.' })
+    expect(result.value?.stopped).toBeUndefined()
+    expect(service.getState().currentConversation?.messages.map(m => m.content)).toEqual(['Where is state kept?', 'Stable memory.'])
+    expect(service.getState().streaming).toBeNull()
+    expect(service.getState().isLoading).toBe(false)
+  })
+
+  it('keeps the partial reply, marked as stopped, when generation is stopped', async () => {
+    const service = await createService(scriptedTransport(['One, ', 'two, ', 'three'], 2).transport)
+
+    const contents: string[] = []
+    for await (const chunk of service.streamMessage('Count to three')) {
+      contents.push(chunk.content)
+      if (contents.length === 2) setTimeout(() => service.stopGenerating(), 0)
+    }
+
+    expect(contents).toEqual(['One, ', 'One, two, '])
+    const messages = service.getState().currentConversation?.messages ?? []
+    expect(messages.map(m => m.content)).toEqual(['Count to three', 'One, two, '])
+    expect(messages[1].stopped).toBe(true)
+
+    // Stopped before any text: only the question is kept
+    service.setTransport(scriptedTransport(['Too late'], 0).transport)
+    const next = service.streamMessage('Anyone there?').next()
+    service.stopGenerating()
+    expect(await next).toEqual({ done: true, value: null })
+    expect(service.getState().currentConversation?.messages.map(m => m.content).slice(2)).toEqual(['Anyone there?'])
+  })
+
+  it('records the exchange when the caller stops reading early', async () => {
+    const service = await createService(scriptedTransport(['Hello', ' there']).transport)
+
+    for await (const chunk of service.streamMessage('Hi')) {
+      expect(chunk.content).toBe('Hello')
+      break
+    }
+
+    const messages = service.getState().currentConversation?.messages ?? []
+    expect(messages.map(m => m.content)).toEqual(['Hi', 'Hello'])
+    expect(messages[1].stopped).toBe(true)
+  })
+
+  it('replays infer tokens, falling back to words when they do not spell the text', async () => {
+    expect(replayPieces({ tokens: ['Hel', 'lo', '!'], generated_text: 'Hello!' })).toEqual(['Hel', 'lo', '!'])
+    expect(replayPieces({ tokens: ['ĠHello', 'Ġworld'], generated_text: 'Hello world' })).toEqual(['Hello ', 'world'])
+
+    const request = () => ({ prompt: 'p', model: 'm', decoding: DEFAULT_DECODING_SETTINGS, seed: 1, signal: new AbortController().signal })
+    const transport = new InferTransport({
+      tokenDelayMs: 0,
+      infer: async () => ({ success: true, data: { Ok: { tokens: ['A', 'B'], generated_text: 'AB' } } }),
+    })
+    const pieces: string[] = []
+    for await (const piece of transport.stream(request())) {
+      pieces.push(piece)
+    }
+    expect(pieces).toEqual(['A', 'B'])
+
+    const failing = new InferTransport({ infer: async () => ({ success: false, error: { code: 'CANISTER_ERROR', message: 'Canister trapped' } }) })
+    await expect(failing.stream(request()).next())
+      .rejects.toThrow('LLM API call failed: Canister trapped')
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { assemblePrompt, formatPrompt, summarizeTurns, truncateToTokens, type PromptMessage } from '../services/promptAssembler'
+
+// One token per word keeps budgets easy to reason about
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+const history: PromptMessage[] = [
+  { role: 'User', content: 'first question about rust' },
+  { role: 'Assistant', content: 'first answer. with detail' },
+  { role: 'User', content: 'second question' },
+  { role: 'Assistant', content: 'second answer' },
+]
+
+describe('Prompt Assembler', () => {
+  it('sends the system prompt and every earlier turn when they fit', async () => {
+    const assembled = await assemblePrompt(history, 'third question', { systemPrompt: 'Be brief.', maxPromptTokens: 1000 })
+
+    expect(assembled.messages.map(m => m.content)).toEqual([
+      'Be brief.',
+      ...history.map(m => m.content),
+      'third question',
+    ])
+    expect(assembled.prompt).toBe(formatPrompt(assembled.messages))
+    expect(assembled.prompt).toMatch(/^<\|begin_of_text\|><\|start_header_id\|>system<\|end_header_id\|>\n\nBe brief\.<\|eot_id\|>/)
+    expect(assembled.prompt.endsWith('<|start_header_id|>assistant<|end_header_id|>\n\n')).toBe(true)
+    expect(assembled.droppedMessages).toEqual([])
+  })
+
+  it('drops the oldest whole turns first and never the system prompt or latest message', async () => {
+    const options = { systemPrompt: 'Be brief.', maxPromptTokens: 14, countTokens: countWords }
+    const assembled = await assemblePrompt(history, 'third question', options)
+
+    expect(assembled.messages.map(m => m.content)).toEqual(['Be brief.', 'second question', 'second answer', 'third question'])
+    expect(assembled.droppedMessages).toEqual(history.slice(0, 2))
+    expect(assembled.tokenCount).toBeLessThanOrEqual(14)
+
+    const tiny = await assemblePrompt(history, 'a very long latest message indeed', { ...options, maxPromptTokens: 3 })
+    expect(tiny.messages.map(m => m.content)).toEqual(['Be brief.', 'a very long latest message indeed'])
+    expect(tiny.overBudget).toBe(true)
+  })
+
+  it('replaces dropped turns with a summary inside its own budget', async () => {
+    const longHistory: PromptMessage[] = [
+      { role: 'User', content: 'a b c d e f g h i j' },
+      { role: 'Assistant', content: 'k l m n o p q r s t' },
+      ...history.slice(2),
+    ]
+    const options = { maxPromptTokens: 30, countTokens: countWords, summary: { maxTokens: 16 } }
+    const assembled = await assemblePrompt(longHistory, 'third question', options)
+
+    expect(assembled.summary).toBe('Summary of the earlier conversation:\n- User: a b c d e f g h…')
+    expect(assembled.messages.map(m => m.role)).toEqual(['system', 'User', 'Assistant', 'user'])
+    expect(assembled.droppedMessages).toEqual(longHistory.slice(0, 2))
+    expect(assembled.tokenCount).toBeLessThanOrEqual(30)
+
+    const custom = await assemblePrompt(longHistory, 'third question', {
+      ...options,
+      summary: { maxTokens: 16, summarize: (dropped: PromptMessage[]) => `${dropped.length} earlier messages` },
+    })
+    expect(custom.summary).toContain('2 earlier messages')
+  })
+
+  it('summarizes and truncates without a model call', () => {
+    expect(summarizeTurns([{ role: 'system', content: 'hidden' }, { role: 'user', content: 'Hi there! How are you?' }]))
+      .toBe('- User: Hi there!')
+    expect(truncateToTokens('one two three four five', 3, countWords)).toBe('one two three…')
+    expect(truncateToTokens('abcdefghij klmnopqrst', 4, text => text.length)).toBe('abc…')
+    expect(truncateToTokens('short', 3, countWords)).toBe('short')
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { Principal } from '@dfinity/principal'
+import { countTokens, countTokensExact, encodeTokens, isTokenizerLoaded, loadTokenizer } from '../services/tokenizer'
+import { estimateTokens } from '../services/promptAssembler'
+import {
+  LlmQuotaExceededError,
+  LlmService,
+  QuantizedModel,
+  checkDailyQuota,
+  type UserQuota
+} from '../services/llmService'
+import type { LlmTransport } from '../services/llmTransport'
+
+const quota = (limit: bigint, used: bigint): UserQuota => ({
+  user_principal: Principal.anonymous(),
+  daily_token_limit: limit,
+  monthly_token_limit: limit * 30n,
+  current_daily_usage: used,
+  current_monthly_usage: used,
+  last_reset: 0n,
+  is_premium: false,
+})
+
+const replyWith = (text: string): LlmTransport => ({
+  async *stream() {
+    yield text
+  },
+})
+
+describe('Tokenizer', () => {
+  it('estimates until the bundled vocabulary loads, then counts exactly', async () => {
+    expect(isTokenizerLoaded()).toBe(false)
+    expect(countTokens('const answer = 42;')).toBe(estimateTokens('const answer = 42;'))
+
+    expect(await countTokensExact('Hello world')).toBe(2)
+    expect(isTokenizerLoaded()).toBe(true)
+    expect(encodeTokens('Hello world')).toEqual([9906, 1917])
+    // Chat template markers are single special tokens
+    expect(encodeTokens('<|start_header_id|>user<|end_header_id|>')).toEqual([128006, 882, 128007])
+    // Non-English text takes far more tokens than the four-characters estimate suggests
+    expect(countTokens('日本語のテキスト')).toBeGreaterThan(estimateTokens('日本語のテキスト'))
+  })
+
+  it('checks a request against what is left of the daily quota', () => {
+    expect(checkDailyQuota(null, 1_000_000)).toEqual({ allowed: true, remaining: null })
+    expect(checkDailyQuota(quota(1000n, 900n), 100)).toEqual({ allowed: true, remaining: 100n })
+    expect(checkDailyQuota(quota(1000n, 900n), 101)).toEqual({ allowed: false, remaining: 100n })
+    expect(checkDailyQuota(quota(1000n, 1200n), 1)).toEqual({ allowed: false, remaining: 0n })
+  })
+
+  it('accounts exact prompt and reply tokens and refuses prompts over quota', async () => {
+    await loadTokenizer()
+    const service = new LlmService()
+    service.setTransport(replyWith('Bonjour à tous'))
+    await service.initialize({})
+    const conversation = await service.createConversation(QuantizedModel.Llama3_1_8B)
+    service.setUserQuota(quota(10_000n, 0n))
+
+    const prompt = await service.previewPrompt('Say hello in French')
+    await service.sendMessage('Say hello in French')
+
+    const usage = service.getConversation(conversation.session_id)!.token_usage
+    expect(usage.input_tokens).toBe(BigInt(prompt.tokenCount))
+    expect(usage.output_tokens).toBe(BigInt(countTokens('Bonjour à tous')))
+    expect(service.getState().userQuota?.current_daily_usage).toBe(usage.total_tokens)
+
+    service.setUserQuota(quota(10_000n, 9_990n))
+    await expect(service.sendMessage('Another question')).rejects.toBeInstanceOf(LlmQuotaExceededError)
+    expect(service.getState().error?.error).toBe('QuotaExceeded')
+    expect(service.getConversation(conversation.session_id)!.messages).toHaveLength(2)
+  })
+})
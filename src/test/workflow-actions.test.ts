@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  getWorkflowAction,
+  resolveActionConfig,
+  runWorkflowAction,
+  validateActionConfig
+} from '../services/workflowActions'
+import { getDecodingPreset } from '../services/decodingSettings'
+import type { NodeInput } from '../services/workflowEngine'
+
+const canister = vi.hoisted(() => ({
+  estimateJobCost: vi.fn(async () => ({
+    quote_id: 'q1',
+    estimated_cost: 120n,
+    base_cost: 100n,
+    protocol_fee: 20n,
+    priority_multiplier: 1.5,
+  })),
+  sendMessageToAgent: vi.fn(async (agentId: string, message: string) => ({
+    response: `${agentId} read: ${message}`,
+    metadata: { tokens: [] },
+  })),
+}))
+vi.mock('../services/canisterService', () => canister)
+
+const action = (type: string) => getWorkflowAction(type)!
+
+const inputs = (...outputs: unknown[]): NodeInput[] =>
+  outputs.map((output, index) => ({ nodeId: `n${index + 1}`, port: 'bottom', output }))
+
+describe('Workflow Actions', () => {
+  it('fills defaults, coerces numbers and drops empty fields', () => {
+    expect(resolveActionConfig(action('delay'))).toEqual({ durationMs: 1000 })
+    expect(resolveActionConfig(action('text_transform'), { operation: 'truncate', maxLength: '5', find: '' }))
+      .toEqual({ operation: 'truncate', maxLength: 5 })
+    expect(resolveActionConfig(action('send_to_agent'), { agentId: 'a1' }))
+      .toEqual({ agentId: 'a1', decodingPreset: 'balanced' })
+  })
+
+  it('reports one message per invalid field', () => {
+    expect(validateActionConfig(action('delay'))).toEqual([])
+    expect(validateActionConfig(action('template'))).toEqual(['Template is required'])
+    expect(validateActionConfig(action('delay'), { durationMs: 'soon' })).toEqual(['Duration (ms) must be a number'])
+    expect(validateActionConfig(action('delay'), { durationMs: -1 })).toEqual(['Duration (ms) must be at least 0'])
+    expect(validateActionConfig(action('delay'), { durationMs: 300001 })).toEqual(['Duration (ms) must be at most 300000'])
+    expect(validateActionConfig(action('merge'), { mode: 'zip' }))
+      .toEqual(['Mode must be one of concatenate, array, object'])
+    expect(validateActionConfig(action('send_to_agent'), { decodingPreset: 'wild' })).toEqual([
+      'Agent ID is required',
+      'Decoding must be one of precise, balanced, creative, deterministic',
+    ])
+  })
+
+  it('refuses to run unknown actions or invalid configs', async () => {
+    await expect(runWorkflowAction('teleport', {}, [])).rejects.toThrow('Unknown action type: teleport')
+    await expect(runWorkflowAction('json_extract', {}, [])).rejects.toThrow('Invalid Extract JSON configuration: JSON path is required')
+  })
+
+  it('transforms the upstream text', async () => {
+    const run = (config: Record<string, unknown>) => runWorkflowAction('text_transform', config, inputs('  Hello World  '))
+    expect((await run({ operation: 'uppercase' })).output).toBe('  HELLO WORLD  ')
+    expect((await run({ operation: 'lowercase' })).output).toBe('  hello world  ')
+    expect((await run({})).output).toBe('Hello World')
+    expect((await run({ operation: 'replace', find: 'World', replaceWith: 'There' })).output).toBe('  Hello There  ')
+    expect((await run({ operation: 'truncate', maxLength: 7 })).output).toBe('  Hello')
+  })
+
+  it('renders templates from the inputs and the run scope', async () => {
+    const result = await runWorkflowAction(
+      'template',
+      { template: '{{vars.lang}}: {{input}} / {{inputs.1}}' },
+      inputs('first', 'second'),
+      { scope: { nodes: {}, trigger: null, vars: { lang: 'fr' }, input: '', inputs: [] } }
+    )
+    expect(result.output).toBe('fr: first\n\nsecond / second')
+  })
+
+  it('extracts JSON values and fails when the path finds nothing', async () => {
+    const upstream = inputs(JSON.stringify({ items: [{ title: 'First' }] }))
+    expect((await runWorkflowAction('json_extract', { path: '$.items[0].title' }, upstream)).output).toBe('First')
+    await expect(runWorkflowAction('json_extract', { path: '$.missing' }, upstream)).rejects.toThrow('Nothing found at $.missing')
+  })
+
+  it('merges upstream outputs as text, an array or an object', async () => {
+    const upstream = inputs('a', { b: 1 })
+    expect((await runWorkflowAction('merge', {}, upstream)).output).toBe('a\n\n{"b":1}')
+    expect((await runWorkflowAction('merge', { separator: ' | ' }, inputs('a', 'b'))).output).toBe('a | b')
+    expect((await runWorkflowAction('merge', { mode: 'array' }, upstream)).output).toEqual(['a', { b: 1 }])
+    expect((await runWorkflowAction('merge', { mode: 'object' }, upstream)).output).toEqual({ n1: 'a', n2: { b: 1 } })
+  })
+
+  it('passes the upstream output on after the delay, unless stopped', async () => {
+    expect((await runWorkflowAction('delay', { durationMs: 0 }, inputs('x'))).output).toBe('x')
+    expect((await runWorkflowAction('delay', { durationMs: 0 }, inputs('x', 'y'))).output).toEqual(['x', 'y'])
+
+    const controller = new AbortController()
+    const waiting = runWorkflowAction('delay', { durationMs: 60_000 }, inputs('x'), { signal: controller.signal })
+    controller.abort()
+    await expect(waiting).rejects.toThrow()
+  })
+
+  it('quotes the cost of the upstream text', async () => {
+    const result = await runWorkflowAction('cost_estimate', {}, inputs('x'.repeat(40)))
+    expect(canister.estimateJobCost).toHaveBeenCalledWith('llama3.1-8b', 10, 'normal')
+    expect(result).toEqual({
+      output: { estimated_tokens: 10, estimated_cost: 120, base_cost: 100, protocol_fee: 20, priority_multiplier: 1.5 },
+      metadata: { quoteId: 'q1' },
+    })
+  })
+
+  it('sends the rendered message to the agent with the chosen decoding preset', async () => {
+    const result = await runWorkflowAction(
+      'send_to_agent',
+      { agentId: 'agent_1', message: 'Review: {{input}}', decodingPreset: 'deterministic' },
+      inputs('draft')
+    )
+    expect(canister.sendMessageToAgent).toHaveBeenCalledWith(
+      'agent_1',
+      'Review: draft',
+      undefined,
+      getDecodingPreset('deterministic')!.settings
+    )
+    expect(result).toEqual({ output: 'agent_1 read: Review: draft', metadata: { agentId: 'agent_1', response: { tokens: [] } } })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addConnectionCommand,
+  addFragmentCommand,
+  addNodeCommand,
+  deleteConnectionCommand,
+  layoutCommand,
+  moveNodeCommand,
+  moveNodesCommand,
+  pushCommand,
+  replaceGraphCommand,
+  updateNodeDataCommand,
+  type CommandHistory
+} from '../services/workflowCommands'
+import { captureLayout, layoutWorkflow } from '../services/workflowLayout'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string): WorkflowNode => ({ id, type: 'agent', position: { x: 0, y: 0 }, data: { label: id } })
+
+const workflow: Workflow = {
+  id: 'wf',
+  name: 'Test',
+  nodes: [node('a'), node('b')],
+  connections: [
+    { id: 'c1', sourceId: 'a', targetId: 'b' },
+    { id: 'c2', sourceId: 'b', targetId: 'a' },
+  ],
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Workflow Commands', () => {
+  it('reverts every command to the original workflow', () => {
+    const commands = [
+      addNodeCommand(node('c')),
+      moveNodeCommand('a', { x: 0, y: 0 }, { x: 50, y: 80 }),
+      updateNodeDataCommand('b', workflow.nodes[1].data, { label: 'b', config: { instructions: 'x' } }),
+      addConnectionCommand({ id: 'c3', sourceId: 'a', targetId: 'b' }),
+      deleteConnectionCommand(workflow.connections[0], 0),
+      layoutCommand(captureLayout(workflow), layoutWorkflow(workflow)),
+      moveNodesCommand([{ nodeId: 'a', from: { x: 0, y: 0 }, to: { x: 40, y: 40 } }, { nodeId: 'b', from: { x: 0, y: 0 }, to: { x: 40, y: 40 } }]),
+      addFragmentCommand({ nodes: [node('c')], connections: [{ id: 'c3', sourceId: 'c', targetId: 'a' }] }),
+      replaceGraphCommand('Group', workflow, { nodes: [node('g')], connections: [] }),
+    ]
+    for (const command of commands) {
+      const applied = command.apply(workflow)
+      expect(applied).not.toEqual(workflow)
+      expect(command.revert(applied)).toEqual(workflow)
+    }
+  })
+
+  it('coalesces consecutive drags of the same node', () => {
+    let history: CommandHistory = { undo: [], redo: [] }
+    history = pushCommand(history, moveNodeCommand('a', { x: 0, y: 0 }, { x: 10, y: 10 }))
+    history = pushCommand(history, moveNodeCommand('a', { x: 10, y: 10 }, { x: 20, y: 20 }))
+    history = pushCommand(history, moveNodeCommand('b', { x: 0, y: 0 }, { x: 5, y: 5 }))
+    history = pushCommand(history, moveNodeCommand('a', { x: 20, y: 20 }, { x: 30, y: 30 }))
+
+    expect(history.undo).toHaveLength(3)
+    const [firstDrag] = history.undo
+    expect(firstDrag.apply(workflow).nodes[0].position).toEqual({ x: 20, y: 20 })
+    expect(firstDrag.revert(firstDrag.apply(workflow)).nodes[0].position).toEqual({ x: 0, y: 0 })
+  })
+
+  it('coalesces typing into one setting but not edits of different settings', () => {
+    let history: CommandHistory = { undo: [], redo: [] }
+    history = pushCommand(history, updateNodeDataCommand('b', { label: 'b', config: { instructions: '' } }, { label: 'b', config: { instructions: 'n' } }))
+    history = pushCommand(history, updateNodeDataCommand('b', { label: 'b', config: { instructions: 'n' } }, { label: 'b', config: { instructions: 'new' } }))
+    expect(history.undo).toHaveLength(1)
+
+    history = pushCommand(history, updateNodeDataCommand('b', { label: 'b', config: { instructions: 'new' } }, { label: 'Reviewer', config: { instructions: 'new' } }))
+    history = pushCommand(history, updateNodeDataCommand('b', { label: 'Reviewer', config: { instructions: 'new' } }, { label: 'Reviewer', config: { instructions: 'new', priority: 'high' } }))
+    expect(history.undo.map(command => command.label)).toEqual(['Edit b', 'Edit Reviewer', 'Edit Reviewer'])
+  })
+
+  it('undoes only the settings an edit changed', () => {
+    const before = { label: 'b', config: { instructions: 'old' } }
+    const command = updateNodeDataCommand('b', before, { label: 'Reviewer', config: { instructions: 'new' } })
+    const edited = command.apply({ ...workflow, nodes: [node('a'), { ...node('b'), data: before }] })
+    expect(edited.nodes[1].data).toEqual({ label: 'Reviewer', config: { instructions: 'new' } })
+
+    // A run records its agent on the node before the edit is undone
+    const ran = { ...edited, nodes: [edited.nodes[0], { ...edited.nodes[1], data: { label: 'Reviewer', config: { instructions: 'new', agentId: 'agent_1', lastResponse: 'ok' } } }] }
+    expect(command.revert(ran).nodes[1].data).toEqual({
+      label: 'b',
+      config: { instructions: 'old', agentId: 'agent_1', lastResponse: 'ok' },
+    })
+  })
+
+  it('clears the redo stack when a new edit is recorded', () => {
+    const history = pushCommand({ undo: [], redo: [addNodeCommand(node('x'))] }, addNodeCommand(node('y')))
+    expect(history.redo).toEqual([])
+  })
+})
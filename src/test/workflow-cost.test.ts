@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { buildWorkflowJobSpecs, estimateWorkflowCost, parseTokenQuotaCheck, type JobSpec } from '../services/workflowCost'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, type: WorkflowNode['type'], config: Record<string, unknown> = {}): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, config },
+})
+
+const workflow: Workflow = {
+  id: 'wf',
+  name: 'Test',
+  nodes: [
+    node('start', 'trigger'),
+    node('research', 'agent', { instructions: 'x'.repeat(400), priority: 'high' }),
+    node('summarize', 'agent', { instructions: 'Summarize' }),
+    node('empty', 'agent'),
+  ],
+  connections: [],
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Workflow Cost', () => {
+  it('builds one job spec per agent node with instructions', () => {
+    const specs = buildWorkflowJobSpecs(workflow).map(({ node, spec }) => [node.id, spec.estimated_tokens, spec.priority])
+    expect(specs).toEqual([
+      ['research', 100, { High: null }],
+      ['summarize', 3, { Normal: null }],
+    ])
+  })
+
+  it('totals the quotes and keeps nodes that could not be quoted', async () => {
+    const quote = async (spec: JobSpec) => {
+      if (spec.estimated_tokens < 10) throw new Error('model unavailable')
+      return {
+        job_id: spec.job_id,
+        quote_id: 'q1',
+        estimated_cost: 120n,
+        base_cost: 100n,
+        priority_multiplier: 1.2,
+        protocol_fee: 20n,
+        quote_expires_at: 0n,
+      }
+    }
+
+    const estimate = await estimateWorkflowCost(workflow, quote)
+    expect(estimate.totalTokens).toBe(103)
+    expect(estimate.totalCost).toBe(120n)
+    expect(estimate.totalProtocolFee).toBe(20n)
+    expect(estimate.nodes.map(n => n.error)).toEqual([undefined, 'model unavailable'])
+  })
+
+  it('reads the quota check result', () => {
+    const check = parseTokenQuotaCheck({
+      Ok: { allowed: false, reason: ['Daily limit reached'], remaining_quota: [{ tokens_remaining: 5n, inferences_remaining: 1, agents_remaining: 0 }] },
+    })
+    expect(check).toEqual({ allowed: false, reason: 'Daily limit reached', tokensRemaining: 5n, inferencesRemaining: 1, agentsRemaining: 0 })
+    expect(parseTokenQuotaCheck({ Err: 'Not subscribed' })).toEqual({ allowed: false, reason: 'Not subscribed' })
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { exportDot, exportMermaid, exportSvg, importMermaid } from '../services/workflowDiagrams'
+import { WorkflowImportError } from '../services/workflowSchema'
+import { getHandlePort, type Workflow, type WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, type: WorkflowNode['type'], label: string, config?: Record<string, unknown>): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label, config },
+})
+
+// start → check → (true) write / (error) alert
+const workflow: Workflow = {
+  id: 'wf',
+  name: 'Triage "inbox"',
+  nodes: [
+    { ...node('start', 'trigger', 'Start'), position: { x: 0, y: 0 } },
+    { ...node('check', 'condition', 'Urgent?', { condition: 'input.priority > 2' }), position: { x: 240, y: 0 } },
+    { ...node('write', 'agent', 'Writer <draft>', { agentId: 'agent-42' }), position: { x: 480, y: 0 } },
+    { ...node('alert', 'action', 'Alert', { actionType: 'transform' }), position: { x: 480, y: 160 } },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'check', sourceHandle: 'start-right', targetHandle: 'check-left' },
+    { id: 'c2', sourceId: 'check', targetId: 'write', sourceHandle: 'check-true', targetHandle: 'write-left' },
+    { id: 'c3', sourceId: 'write', targetId: 'alert', sourceHandle: 'write-error', targetHandle: 'alert-top' },
+  ],
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Workflow Diagrams', () => {
+  it('exports Mermaid with a shape per node type and agent names in labels', () => {
+    const mermaid = exportMermaid(workflow)
+
+    expect(mermaid).toContain('title: Triage "inbox"')
+    expect(mermaid).toContain('flowchart LR')
+    expect(mermaid).toContain('n1(["Start"])')
+    expect(mermaid).toContain('n2{"Urgent?"}')
+    expect(mermaid).toContain('n3["Writer #lt;draft#gt;<br/>agent: agent-42"]')
+    expect(mermaid).toContain('n4[/"Alert"/]')
+    expect(mermaid).toContain('n1 --> n2')
+    expect(mermaid).toContain('n2 -->|"true"| n3')
+    expect(mermaid).toContain('n3 -.->|"error"| n4')
+  })
+
+  it('exports DOT with shapes and dashed error edges', () => {
+    const dot = exportDot(workflow)
+
+    expect(dot).toContain('digraph "Triage \\"inbox\\"" {')
+    expect(dot).toContain('n2 [label="Urgent?", shape=diamond')
+    expect(dot).toContain('n3 [label="Writer <draft>\\nagent: agent-42", shape=box')
+    expect(dot).toContain('n2 -> n3 [label="true"];')
+    expect(dot).toContain('n3 -> n4 [label="error", style=dashed, color="#ef4444"];')
+  })
+
+  it('renders an SVG snapshot from the canvas connection paths', () => {
+    const svg = exportSvg(workflow, { connectionPath: (source, target) => `M ${source.position.x} 0 L ${target.position.x} 0` })
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)
+    expect(svg).toContain('viewBox="-40 -40 720 336"')
+    expect(svg).toContain('d="M 240 0 L 480 0"')
+    expect(svg).toContain('Writer &lt;draft&gt;')
+    expect(svg).toContain('agent: agent-42')
+    expect(svg).toContain('input.priority &gt; 2')
+    expect(svg.match(/<path /g)).toHaveLength(3)
+  })
+
+  it('imports what it exports, down to branches and error handles', () => {
+    const imported = importMermaid(exportMermaid(workflow))
+
+    expect(imported.name).toBe('Triage "inbox"')
+    expect(imported.nodes.map(n => [n.type, n.data.label])).toEqual([
+      ['trigger', 'Start'],
+      ['condition', 'Urgent?'],
+      ['agent', 'Writer <draft>'],
+      ['action', 'Alert'],
+    ])
+    expect(imported.nodes[2].data.config).toMatchObject({ agentId: 'agent-42', policy: { onFailure: 'error_port' } })
+    expect(imported.connections[1].sourceHandle).toBe('node_2-true')
+    expect(imported.connections[2].sourceHandle).toBe('node_3-error')
+    expect(new Set(imported.nodes.map(n => `${n.position.x},${n.position.y}`)).size).toBe(4)
+  })
+
+  it('keeps # and entity-like text in labels through export and import', () => {
+    const tagged: Workflow = { ...workflow, nodes: [node('a', 'agent', 'Issue #12 says #quot; & #35;')], connections: [] }
+    const mermaid = exportMermaid(tagged)
+
+    expect(mermaid).toContain('n1["Issue #35;12 says #35;quot; #amp; #35;35;"]')
+    expect(importMermaid(mermaid).nodes[0].data.label).toBe('Issue #12 says #quot; & #35;')
+  })
+
+  it('reads hand-written flowcharts and reports lines it cannot parse', () => {
+    const imported = importMermaid([
+      'graph TD',
+      '  %% a sketch',
+      '  A((Go)) --> B{Ok?} -- yes --> C[Draft] & D[Review]',
+      '  B -->|no| E{{Fan out}}',
+      '  classDef hot fill:#f00',
+    ].join('\n'), 'Sketch')
+
+    expect(imported.name).toBe('Sketch')
+    expect(imported.nodes.map(n => n.type)).toEqual(['trigger', 'condition', 'agent', 'agent', 'parallel'])
+    expect(imported.connections.map(c => `${c.sourceId}>${c.targetId}:${getHandlePort(c.sourceHandle, c.sourceId)}`)).toEqual([
+      'node_1>node_2:right',
+      'node_2>node_3:true',
+      'node_2>node_4:true',
+      'node_2>node_5:false',
+    ])
+
+    expect(() => importMermaid('sequenceDiagram\n  A->>B: hi')).toThrow(WorkflowImportError)
+    expect(() => importMermaid('flowchart LR\n  A --> ')).toThrow(WorkflowImportError)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { runWorkflowGraph, topologicalOrder, buildWorkflowGraph, WorkflowCancelledError, WorkflowCycleError, WorkflowExecutionError } from '../services/workflowEngine'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, type: WorkflowNode['type'] = 'action'): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, config: {} },
+})
+
+const workflow = (nodeIds: string[], edges: Array<[string, string, string?]>): Workflow => ({
+  id: 'wf_test',
+  name: 'Test',
+  nodes: nodeIds.map(id => node(id)),
+  connections: edges.map(([sourceId, targetId, port]) => ({
+    id: `${sourceId}->${targetId}`,
+    sourceId,
+    targetId,
+    sourceHandle: `${sourceId}-${port ?? 'bottom'}`,
+    targetHandle: `${targetId}-top`,
+  })),
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+describe('Workflow Engine', () => {
+  it('orders nodes by their connections rather than creation order', () => {
+    const wf = workflow(['c', 'b', 'a'], [['a', 'b'], ['b', 'c']])
+    expect(topologicalOrder(buildWorkflowGraph(wf))).toEqual(['a', 'b', 'c'])
+  })
+
+  it('rejects cyclic workflows', () => {
+    const wf = workflow(['a', 'b'], [['a', 'b'], ['b', 'a']])
+    expect(() => topologicalOrder(buildWorkflowGraph(wf))).toThrow(WorkflowCycleError)
+  })
+
+  it('passes upstream outputs to downstream nodes', async () => {
+    const wf = workflow(['a', 'b', 'c'], [['a', 'c'], ['b', 'c']])
+    const run = await runWorkflowGraph(wf, async (n, { inputs }) => ({
+      output: inputs.length ? inputs.map(i => i.output).join('+') : n.id,
+    }))
+
+    expect(run.results.find(r => r.nodeId === 'c')?.output).toBe('a+b')
+  })
+
+  it('runs independent branches concurrently', async () => {
+    const wf = workflow(['root', 'left', 'right'], [['root', 'left'], ['root', 'right']])
+    let active = 0
+    let peak = 0
+
+    await runWorkflowGraph(wf, async () => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise(resolve => setTimeout(resolve, 10))
+      active--
+      return { output: null }
+    })
+
+    expect(peak).toBe(2)
+  })
+
+  it('skips nodes reached only through inactive ports', async () => {
+    const wf = workflow(['check', 'yes', 'no'], [['check', 'yes', 'true'], ['check', 'no', 'false']])
+    const run = await runWorkflowGraph(wf, async n => ({
+      output: n.id,
+      activePorts: n.id === 'check' ? ['true'] : undefined,
+    }))
+
+    expect(run.results.find(r => r.nodeId === 'yes')?.status).toBe('completed')
+    expect(run.results.find(r => r.nodeId === 'no')?.status).toBe('skipped')
+  })
+
+  it('stops scheduling after a node fails', async () => {
+    const wf = workflow(['a', 'b'], [['a', 'b']])
+    const executed: string[] = []
+
+    await expect(runWorkflowGraph(wf, async n => {
+      executed.push(n.id)
+      throw new Error('boom')
+    })).rejects.toBeInstanceOf(WorkflowExecutionError)
+    expect(executed).toEqual(['a'])
+  })
+
+  it('reports progress and stops cleanly when cancelled before a node', async () => {
+    const wf = workflow(['a', 'b', 'c'], [['a', 'b'], ['b', 'c']])
+    const events: string[] = []
+    const run = runWorkflowGraph(wf, async (n) => ({ output: n.id }), {
+      maxConcurrency: 1,
+      beforeNode: (n) => {
+        if (n.id === 'b') throw new WorkflowCancelledError()
+      },
+      onNodeEvent: (event) => events.push(event.type === 'started' ? `start:${event.nodeId}` : `done:${event.result.nodeId}`),
+    })
+    const error = await run.catch(e => e)
+    expect(error).toBeInstanceOf(WorkflowCancelledError)
+    expect(error.results.map((r: { nodeId: string }) => r.nodeId)).toEqual(['a'])
+    expect(events).toEqual(['start:a', 'done:a'])
+  })
+
+  it('discards in-flight results and starts nothing new once the signal aborts', async () => {
+    const wf = workflow(['a', 'b', 'c'], [['a', 'c'], ['b', 'c']])
+    const controller = new AbortController()
+    const started: string[] = []
+    const run = runWorkflowGraph(wf, async (n, { signal }) => {
+      started.push(n.id)
+      if (n.id === 'a') return { output: 'a' }
+      controller.abort()
+      await new Promise(resolve => setTimeout(resolve, 5))
+      expect(signal?.aborted).toBe(true)
+      return { output: 'late' }
+    }, { signal: controller.signal })
+
+    const error = await run.catch(e => e)
+    expect(error).toBeInstanceOf(WorkflowCancelledError)
+    expect(error.results.map((r: { nodeId: string }) => r.nodeId)).toEqual(['a'])
+    expect(started).toEqual(['a', 'b'])
+  })
+
+  it('retries failed nodes and records every attempt', async () => {
+    const wf = workflow(['a', 'b'], [['a', 'b']])
+    wf.nodes[0].data.config = { policy: { maxRetries: 2, backoffMs: 1 } }
+    let calls = 0
+    const run = await runWorkflowGraph(wf, async (n) => {
+      if (n.id === 'a' && ++calls < 3) throw new Error(`flaky ${calls}`)
+      return { output: n.id }
+    })
+    const a = run.results.find(r => r.nodeId === 'a')!
+    expect(a.status).toBe('completed')
+    expect(a.attempts!.map(attempt => attempt.error)).toEqual(['flaky 1', 'flaky 2', undefined])
+  })
+
+  it('continues or routes to the error port when a node keeps failing', async () => {
+    const wf = workflow(['a', 'next', 'handler'], [['a', 'next'], ['a', 'handler', 'error']])
+    wf.nodes[0].data.config = { policy: { onFailure: 'error_port', timeoutMs: 5 } }
+    const executor = async (n: WorkflowNode) => {
+      if (n.id === 'a') await new Promise(resolve => setTimeout(resolve, 50))
+      return { output: n.id }
+    }
+
+    const routed = await runWorkflowGraph(wf, executor)
+    expect(routed.results.map(r => `${r.nodeId}:${r.status}`).sort()).toEqual(['a:failed', 'handler:completed', 'next:skipped'])
+    expect(routed.results[0].error).toBe('Timed out after 5ms')
+
+    wf.nodes[0].data.config = { policy: { onFailure: 'continue', timeoutMs: 5 } }
+    const continued = await runWorkflowGraph(wf, executor)
+    expect(continued.results.map(r => `${r.nodeId}:${r.status}`).sort()).toEqual(['a:failed', 'handler:skipped', 'next:completed'])
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateCondition, evaluateExpression, validateExpression, ExpressionError } from '../services/workflowExpressions'
+
+const context = (output: unknown) => ({ output, inputs: [output] })
+
+describe('Workflow Expressions', () => {
+  it('evaluates text helpers over the upstream output', () => {
+    expect(evaluateCondition('contains(output, "error")', context('Fatal ERROR occurred'))).toBe(true)
+    expect(evaluateCondition('length(output) > 200', context('short'))).toBe(false)
+    expect(evaluateCondition('!empty(output) && startsWith(output, "ok")', context('ok then'))).toBe(true)
+  })
+
+  it('compares JSON paths of the upstream output', () => {
+    const output = JSON.stringify({ status: 'ok', items: [{ score: 0.9 }] })
+    expect(evaluateCondition('$.status == "ok" && $.items[0].score >= 0.8', context(output))).toBe(true)
+    expect(evaluateCondition('$.missing.deep == null', context(output))).toBe(true)
+  })
+
+  it('respects operator precedence', () => {
+    expect(evaluateExpression('1 + 2 * 3', context(''))).toBe(7)
+    expect(evaluateExpression('(1 + 2) * 3', context(''))).toBe(9)
+    expect(evaluateCondition('false || true && false', context(''))).toBe(false)
+  })
+
+  it('refuses anything outside the sandbox', () => {
+    expect(() => evaluateExpression('alert(1)', context(''))).toThrow(ExpressionError)
+    expect(() => evaluateExpression('window', context(''))).toThrow(ExpressionError)
+    expect(() => evaluateExpression('$.__proto__', context('{}'))).toThrow(ExpressionError)
+    expect(() => evaluateExpression('output.constructor', context('x'))).toThrow(ExpressionError)
+  })
+
+  it('only calls its own functions, not inherited object members', () => {
+    for (const name of ['constructor', 'toString', 'valueOf', 'hasOwnProperty', '__proto__']) {
+      expect(validateExpression(`${name}(output)`)).toMatch(`Unknown function "${name}"`)
+      expect(() => evaluateExpression(`${name}("x")`, context('x'))).toThrow(ExpressionError)
+    }
+  })
+
+  it('reports syntax errors without evaluating', () => {
+    expect(validateExpression('length(output) >')).toMatch(/Unexpected end/)
+    expect(validateExpression('"unterminated')).toMatch(/Unterminated string/)
+    expect(validateExpression('length(output) > 3')).toBeNull()
+  })
+
+  it('reports unknown variables at their position, before and while running', () => {
+    expect(validateExpression('length(output) > 2 && outptu > 2')).toBe('Unknown variable "outptu" (at position 22)')
+    expect(validateExpression('contains(inputs[0], $.name)')).toBeNull()
+    expect(validateExpression('score > 1', ['output', 'score'])).toBeNull()
+    expect(() => evaluateExpression('1 + outptu', context('x'))).toThrow('Unknown variable "outptu" (at position 4)')
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { getJoinConfig, getJoinQuorum, mergeBranchOutputs, validateJoinConfig } from '../services/workflowJoin'
+import { runWorkflowGraph, type NodeInput } from '../services/workflowEngine'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const join = (config: Record<string, unknown> = {}): WorkflowNode => ({
+  id: 'join',
+  type: 'join',
+  position: { x: 0, y: 0 },
+  data: { label: 'Join', config },
+})
+
+const inputs = (...outputs: string[]): NodeInput[] =>
+  outputs.map((output, index) => ({ nodeId: `branch${index}`, port: 'bottom', output }))
+
+describe('Workflow Join', () => {
+  it('merges branch outputs by concatenation, majority vote and best-of score', () => {
+    const answers = inputs('Paris', ' paris ', 'Lyon, the largest city in the region')
+
+    expect(mergeBranchOutputs(answers, getJoinConfig(join({ separator: ' | ' }))).output)
+      .toBe('Paris |  paris  | Lyon, the largest city in the region')
+
+    const majority = mergeBranchOutputs(answers, getJoinConfig(join({ mergeStrategy: 'majority' })))
+    expect(majority.output).toBe('Paris')
+    expect(majority.details.votes).toBe(2)
+
+    const best = mergeBranchOutputs(answers, getJoinConfig(join({ mergeStrategy: 'best_of' })))
+    expect(best.winner).toBe(2)
+  })
+
+  it('reports misspelt variables in the best-of score expression', () => {
+    expect(validateJoinConfig(getJoinConfig(join({ mergeStrategy: 'best_of', scoreExpression: 'words(outptu)' })), 2))
+      .toBe('Score expression: Unknown variable "outptu" (at position 6)')
+    expect(validateJoinConfig(getJoinConfig(join({ mergeStrategy: 'best_of', scoreExpression: 'words(output)' })), 2)).toBeNull()
+  })
+
+  it('starts an N-of-M join once enough branches completed', async () => {
+    const nodes: WorkflowNode[] = [
+      { id: 'split', type: 'parallel', position: { x: 0, y: 0 }, data: { label: 'Split' } },
+      ...['fast1', 'fast2', 'slow'].map((id): WorkflowNode => ({ id, type: 'action', position: { x: 0, y: 0 }, data: { label: id } })),
+      join({ joinMode: 'n_of_m', required: 2 }),
+    ]
+    const edge = (sourceId: string, targetId: string) => ({
+      id: `${sourceId}->${targetId}`,
+      sourceId,
+      targetId,
+      sourceHandle: `${sourceId}-bottom`,
+      targetHandle: `${targetId}-top`,
+    })
+    const wf: Workflow = {
+      id: 'wf',
+      name: 'Fan out',
+      nodes,
+      connections: ['fast1', 'fast2', 'slow'].flatMap(id => [edge('split', id), edge(id, 'join')]),
+      status: 'draft',
+      created_at: new Date(),
+      updated_at: new Date(),
+    }
+
+    let slowDone = false
+    let joinInputs: string[] = []
+    await runWorkflowGraph(wf, async (node, { inputs }) => {
+      if (node.id === 'slow') {
+        await new Promise(resolve => setTimeout(resolve, 20))
+        slowDone = true
+      }
+      if (node.id === 'join') {
+        expect(slowDone).toBe(false)
+        joinInputs = inputs.map(input => input.nodeId)
+      }
+      return { output: node.id }
+    }, { minInputs: getJoinQuorum })
+
+    expect(joinInputs).toEqual(['fast1', 'fast2'])
+    expect(slowDone).toBe(true)
+  })
+})
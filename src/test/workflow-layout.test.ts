@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  fitViewport,
+  getWorkflowBounds,
+  layoutWorkflow,
+  screenToWorld,
+  zoomAround,
+} from '../services/workflowLayout'
+import type { Workflow, WorkflowConnection, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string): WorkflowNode => ({ id, type: 'agent', position: { x: 0, y: 0 }, data: { label: id } })
+
+const connect = (sourceId: string, targetId: string): WorkflowConnection => ({
+  id: `${sourceId}_${targetId}`,
+  sourceId,
+  targetId,
+  sourceHandle: `${sourceId}-bottom`,
+  targetHandle: `${targetId}-top`,
+})
+
+const workflowOf = (ids: string[], connections: WorkflowConnection[]): Workflow => ({
+  id: 'wf',
+  name: 'Test',
+  nodes: ids.map(node),
+  connections,
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+describe('Workflow Layout', () => {
+  it('places each node one layer right of its deepest input', () => {
+    const layout = layoutWorkflow(workflowOf(['d', 'a', 'b', 'c'], [connect('a', 'b'), connect('b', 'c'), connect('a', 'd'), connect('c', 'd')]))
+    const xs = ['a', 'b', 'c', 'd'].map(id => layout.positions[id].x)
+    expect(xs).toEqual([...xs].sort((x, y) => x - y))
+    expect(new Set(xs).size).toBe(4)
+    expect(layout.connections.a_b).toMatchObject({ sourceHandle: 'a-right', targetHandle: 'b-left', route: undefined })
+  })
+
+  it('routes connections that skip layers through lanes clear of nodes', () => {
+    const layout = layoutWorkflow(workflowOf(['a', 'b', 'c', 'd'], [connect('a', 'b'), connect('b', 'c'), connect('c', 'd'), connect('a', 'd')]))
+    const route = layout.connections.a_d.route!
+    expect(route.waypoints).toHaveLength(4)
+
+    const overlapsNode = (point: { x: number; y: number }) => Object.values(layout.positions).some(position =>
+      point.x >= position.x && point.x <= position.x + NODE_WIDTH &&
+      point.y >= position.y && point.y <= position.y + NODE_HEIGHT
+    )
+    for (let i = 0; i < route.waypoints.length; i += 2) {
+      const [start, end] = [route.waypoints[i], route.waypoints[i + 1]]
+      for (let x = start.x; x <= end.x; x += 10) {
+        expect(overlapsNode({ x, y: start.y })).toBe(false)
+      }
+    }
+  })
+
+  it('orders layers to avoid crossing connections', () => {
+    const layout = layoutWorkflow(workflowOf(['a', 'b', 'x', 'y'], [connect('a', 'y'), connect('b', 'x')]))
+    expect(layout.positions.a.y < layout.positions.b.y).toBe(layout.positions.y.y < layout.positions.x.y)
+  })
+
+  it('keeps cycles in place without routing them', () => {
+    const layout = layoutWorkflow(workflowOf(['a', 'b'], [connect('a', 'b'), connect('b', 'a')]))
+    expect(layout.positions.a.x).toBeLessThan(layout.positions.b.x)
+    expect(layout.connections.b_a).toEqual({ sourceHandle: 'b-bottom', targetHandle: 'a-top' })
+  })
+
+  it('zooms around a point and fits bounds into view', () => {
+    const zoomed = zoomAround({ x: 0, y: 0, zoom: 1 }, { x: 100, y: 50 }, 2)
+    expect(screenToWorld(zoomed, { x: 100, y: 50 })).toEqual({ x: 100, y: 50 })
+
+    const bounds = getWorkflowBounds([{ ...node('a'), position: { x: 0, y: 0 } }, { ...node('b'), position: { x: 1840, y: 0 } }])!
+    expect(bounds).toEqual({ x: 0, y: 0, width: 2000, height: NODE_HEIGHT })
+    const viewport = fitViewport(bounds, { width: 1080, height: 600 })
+    expect(viewport.zoom).toBe(0.5)
+    expect(screenToWorld(viewport, { x: 540, y: 300 })).toEqual({ x: 1000, y: 48 })
+  })
+})
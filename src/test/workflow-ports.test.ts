@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { getConnectionTypeError, getInputAccepts, getOutputType } from '../services/workflowPorts'
+import { getConnectionRejection, type ConnectionHandle } from '../hooks/useConnectionManager'
+import { collapseToSubworkflow } from '../services/workflowSubworkflows'
+import { validateWorkflow } from '../services/workflowValidation'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, type: WorkflowNode['type'], config: Record<string, unknown> = {}): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, config },
+})
+
+const workflow = (nodes: WorkflowNode[], edges: Array<[string, string, string?]>): Workflow => ({
+  id: 'wf',
+  name: 'Ports',
+  nodes,
+  connections: edges.map(([sourceId, targetId, port]) => ({
+    id: `${sourceId}->${targetId}`,
+    sourceId,
+    targetId,
+    sourceHandle: `${sourceId}-${port ?? 'bottom'}`,
+    targetHandle: `${targetId}-top`,
+  })),
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const transform = () => node('transform', 'action', { actionType: 'text_transform' })
+
+describe('Workflow Ports', () => {
+  it('types outputs by node and follows pass-through nodes upstream', () => {
+    const wf = workflow(
+      [node('start', 'trigger'), node('writer', 'agent'), node('check', 'condition'), node('split', 'parallel')],
+      [['start', 'split'], ['writer', 'check'], ['split', 'check']]
+    )
+    const [start, writer, check, split] = wf.nodes
+
+    expect(getOutputType(wf, start, 'bottom')).toBe('trigger-signal')
+    expect(getOutputType(wf, writer, 'bottom')).toBe('agent-result')
+    expect(getOutputType(wf, writer, 'error')).toBe('json')
+    expect(getOutputType(wf, split, 'right')).toBe('trigger-signal')
+    // Inputs disagree, so the branch type is only known at run time
+    expect(getOutputType(wf, check, 'true')).toBeUndefined()
+    expect(getInputAccepts(start, 'top')).toBeNull()
+  })
+
+  it('refuses handles whose data the input cannot take', () => {
+    const handle = (id: string, type: ConnectionHandle['type'], extra: Partial<ConnectionHandle> = {}): ConnectionHandle => ({
+      id, nodeId: id.split('-')[0], type, position: { x: 0, y: 0 }, ...extra,
+    })
+    const signal = handle('start-bottom', 'output', { dataType: 'trigger-signal' })
+
+    expect(getConnectionRejection(signal, handle('writer-top', 'input', { accepts: ['text', 'trigger-signal'] }))).toBeNull()
+    expect(getConnectionRejection(signal, handle('transform-top', 'input', { accepts: ['text'] })))
+      .toBe('Trigger signal cannot go into an input that takes Text')
+    expect(getConnectionRejection(handle('transform-top', 'input', { accepts: ['text'] }), signal)).not.toBeNull()
+    expect(getConnectionRejection(signal, handle('other-top', 'input', { accepts: [] }))).toBe('This node takes no input')
+    expect(getConnectionRejection(handle('check-true', 'output'), handle('writer-top', 'input', { accepts: ['text'] }))).toBeNull()
+  })
+
+  it('warns about existing connections between incompatible ports', () => {
+    const wf = workflow([node('start', 'trigger'), transform()], [['start', 'transform']])
+
+    expect(getConnectionTypeError(wf, wf.connections[0])).toContain('"start" → "transform"')
+    expect(validateWorkflow(wf)).toContainEqual(expect.objectContaining({
+      severity: 'warning',
+      code: 'incompatible_ports',
+      connectionId: 'start->transform',
+    }))
+  })
+
+  it('types sub-workflow ports by the inner nodes they expose', () => {
+    const wf = workflow(
+      [node('start', 'trigger'), node('writer', 'agent'), transform(), node('editor', 'agent')],
+      [['start', 'writer'], ['writer', 'transform'], ['transform', 'editor']]
+    )
+    const { workflow: collapsed, node: group } = collapseToSubworkflow(wf, ['transform'], { id: 'group', label: 'Clean up' })
+
+    expect(getInputAccepts(group, 'in-transform')).toEqual(['text', 'agent-result'])
+    expect(getInputAccepts(group, 'top')).toBeNull()
+    expect(getOutputType(collapsed, group, 'out-transform')).toBe('text')
+  })
+})
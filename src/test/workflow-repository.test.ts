@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryWorkflowStorage, WorkflowRepository } from '../services/workflowRepository'
+import type { Workflow } from '../services/workflowTypes'
+
+const workflow = (name: string): Workflow => ({
+  id: 'wf_1',
+  name,
+  nodes: [{ id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start' } }],
+  connections: [],
+  status: 'draft',
+  created_at: new Date(2026, 0, 1),
+  updated_at: new Date(2026, 0, 1),
+})
+
+describe('Workflow Repository', () => {
+  it('keeps workflows separate per principal', async () => {
+    const storage = new MemoryWorkflowStorage()
+    await new WorkflowRepository(storage, 'alice').saveDraft(workflow('Alice flow'))
+
+    expect(await new WorkflowRepository(storage, 'alice').list()).toHaveLength(1)
+    expect(await new WorkflowRepository(storage, 'bob').list()).toHaveLength(0)
+  })
+
+  it('records an immutable snapshot on every save', async () => {
+    const repository = new WorkflowRepository(new MemoryWorkflowStorage(), 'alice')
+    const first = await repository.save(workflow('First'))
+    await repository.save({ ...first.workflow, name: 'Second' })
+
+    const versions = await repository.listVersions('wf_1')
+    expect(versions.map(v => [v.version, v.workflow.name])).toEqual([[2, 'Second'], [1, 'First']])
+    expect(versions[1].savedAt).toEqual(first.workflow.updated_at)
+    expect(first.workflow.created_at).toEqual(new Date(2026, 0, 1))
+    expect(Object.isFrozen(versions[0].workflow.nodes[0])).toBe(true)
+  })
+
+  it('restores a version as a new version without rewriting history', async () => {
+    const repository = new WorkflowRepository(new MemoryWorkflowStorage(), 'alice')
+    const first = await repository.save(workflow('First'))
+    await repository.save({ ...first.workflow, name: 'Second' })
+
+    const restored = await repository.restoreVersion('wf_1', 1)
+    expect(restored.workflow.name).toBe('First')
+    expect(restored.version.version).toBe(3)
+    expect((await repository.list())[0].name).toBe('First')
+    expect(await repository.listVersions('wf_1')).toHaveLength(3)
+  })
+
+  it('never hands out the number of a deleted version again', async () => {
+    const repository = new WorkflowRepository(new MemoryWorkflowStorage(), 'alice')
+    const first = await repository.save(workflow('First'))
+    await repository.save({ ...first.workflow, name: 'Second' })
+
+    await repository.deleteVersion('wf_1', 2)
+    const third = await repository.save({ ...first.workflow, name: 'Third' })
+    expect(third.version.version).toBe(3)
+    expect((await repository.listVersions('wf_1')).map(v => [v.version, v.workflow.name])).toEqual([[3, 'Third'], [1, 'First']])
+  })
+
+  it('deletes single versions and whole workflows', async () => {
+    const repository = new WorkflowRepository(new MemoryWorkflowStorage(), 'alice')
+    const first = await repository.save(workflow('First'))
+    await repository.save({ ...first.workflow, name: 'Second' })
+
+    await repository.deleteVersion('wf_1', 1)
+    expect((await repository.listVersions('wf_1')).map(v => v.version)).toEqual([2])
+
+    await repository.delete('wf_1')
+    expect(await repository.list()).toEqual([])
+    expect(await repository.listVersions('wf_1')).toEqual([])
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_RUNS_PER_WORKFLOW,
+  MemoryWorkflowRunStorage,
+  WorkflowRunHistory,
+  buildRunRecord,
+  diffLines,
+  diffRuns
+} from '../services/workflowRunHistory'
+import type { NodeExecutionResult } from '../services/workflowEngine'
+import type { Workflow } from '../services/workflowTypes'
+
+const workflow: Workflow = {
+  id: 'wf_1',
+  name: 'Digest',
+  nodes: [
+    { id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start' } },
+    { id: 'other', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Other' } },
+    { id: 'writer', type: 'agent', position: { x: 0, y: 0 }, data: { label: 'Writer' } },
+  ],
+  connections: [],
+  status: 'draft',
+  created_at: new Date(2026, 0, 1),
+  updated_at: new Date(2026, 0, 1),
+}
+
+const result = (nodeId: string, output: unknown, startedAt = 0): NodeExecutionResult => ({
+  nodeId,
+  status: 'completed',
+  output,
+  startedAt,
+  finishedAt: startedAt + 10,
+})
+
+const run = (startedAt: number, writerOutput: string) => buildRunRecord(workflow, {
+  startedAt: new Date(startedAt),
+  finishedAt: new Date(startedAt + 100),
+  results: [result('start', { topic: 'ai' }, startedAt), result('other', null, startedAt), result('writer', writerOutput, startedAt + 20)],
+  status: 'completed',
+})
+
+describe('Workflow Run History', () => {
+  it('records the payloads trigger nodes emitted for replays', () => {
+    const record = run(1000, 'Hello')
+    expect(record.triggerPayloads).toEqual({ start: { topic: 'ai' } })
+    expect(record.nodes.map(node => node.label)).toEqual(['Start', 'Other', 'Writer'])
+  })
+
+  it('lists runs newest first, per principal, and prunes old ones', async () => {
+    const storage = new MemoryWorkflowRunStorage()
+    const history = new WorkflowRunHistory(storage, 'alice')
+    for (let i = 0; i <= MAX_RUNS_PER_WORKFLOW; i++) {
+      await history.record({ ...run(i * 1000, `v${i}`), id: `run_${i}` })
+    }
+
+    const runs = await history.list('wf_1')
+    expect(runs).toHaveLength(MAX_RUNS_PER_WORKFLOW)
+    expect(runs[0].id).toBe(`run_${MAX_RUNS_PER_WORKFLOW}`)
+    expect(runs.some(r => r.id === 'run_0')).toBe(false)
+    expect(await new WorkflowRunHistory(storage, 'bob').list('wf_1')).toEqual([])
+  })
+
+  it('diffs node outputs between two runs', () => {
+    const changes = diffRuns(run(0, 'line one\nline two'), run(1000, 'line one\nline 2'))
+    expect(changes.map(c => `${c.nodeId}:${c.change}`)).toEqual(['start:unchanged', 'other:unchanged', 'writer:changed'])
+    expect(diffLines('line one\nline two', 'line one\nline 2')).toEqual([
+      { kind: 'same', text: 'line one' },
+      { kind: 'removed', text: 'line two' },
+      { kind: 'added', text: 'line 2' },
+    ])
+  })
+
+  it('diffs long outputs without a full comparison table', () => {
+    const lines = (prefix: string) => Array.from({ length: 3000 }, (_, index) => `${prefix} ${index}`)
+    const before = ['header', ...lines('old'), 'footer'].join('\n')
+    const after = ['header', ...lines('new'), 'footer'].join('\n')
+
+    const diff = diffLines(before, after)
+    expect(diff).toHaveLength(6002)
+    expect(diff[0]).toEqual({ kind: 'same', text: 'header' })
+    expect(diff[1]).toEqual({ kind: 'removed', text: 'old 0' })
+    expect(diff[3001]).toEqual({ kind: 'added', text: 'new 0' })
+    expect(diff[6001]).toEqual({ kind: 'same', text: 'footer' })
+  })
+})
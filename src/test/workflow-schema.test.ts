@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  WORKFLOW_SCHEMA_VERSION,
+  WorkflowImportError,
+  exportWorkflow,
+  getWorkflowAgentIds,
+  importWorkflow,
+  remapAgentIds
+} from '../services/workflowSchema'
+import { getSubworkflowDefinition } from '../services/workflowSubworkflows'
+import type { Workflow } from '../services/workflowTypes'
+
+const workflow: Workflow = {
+  id: 'wf_1',
+  name: 'Research',
+  nodes: [
+    { id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start', config: { triggerType: 'manual' } } },
+    {
+      id: 'writer',
+      type: 'agent',
+      position: { x: 0, y: 150 },
+      data: { label: 'Writer', config: { instructions: 'Write', agentId: 'agent_a', lastResponse: 'old output' } },
+    },
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'writer', sourceHandle: 'start-bottom', targetHandle: 'writer-top', path: 'M 0 0' },
+  ],
+  status: 'draft',
+  created_at: new Date('2026-01-01T00:00:00.000Z'),
+  updated_at: new Date('2026-01-02T00:00:00.000Z'),
+}
+
+const issuesOf = (text: string): string[] => {
+  try {
+    importWorkflow(text)
+  } catch (error) {
+    if (error instanceof WorkflowImportError) return error.issues
+    throw error
+  }
+  return []
+}
+
+describe('Workflow Schema', () => {
+  it('round-trips a workflow without run results or paths', () => {
+    const text = exportWorkflow(workflow)
+    expect(JSON.parse(text).schemaVersion).toBe(WORKFLOW_SCHEMA_VERSION)
+
+    const imported = importWorkflow(text)
+    expect(imported.created_at).toEqual(workflow.created_at)
+    expect(imported.nodes[1].data.config).toEqual({ instructions: 'Write', agentId: 'agent_a' })
+    expect(imported.connections[0].path).toBeUndefined()
+  })
+
+  it('reports every structural problem at once', () => {
+    const file = JSON.parse(exportWorkflow(workflow))
+    file.workflow.nodes.push({ id: 'start', type: 'webhook', position: { x: 0, y: 0 }, data: { label: 'Dup' } })
+    file.workflow.connections.push({ id: 'c1', sourceId: 'writer', targetId: 'ghost' })
+
+    const issues = issuesOf(JSON.stringify(file))
+    expect(issues).toContain('Duplicate node ID "start"')
+    expect(issues).toContain('nodes[2] has unknown node type "webhook"')
+    expect(issues).toContain('Duplicate connection ID "c1"')
+    expect(issues).toContain('connections[1].targetId "ghost" does not match any node')
+  })
+
+  it('checks the graph nested in sub-workflow nodes', () => {
+    const file = JSON.parse(exportWorkflow(workflow))
+    file.workflow.nodes.push({
+      id: 'group',
+      type: 'subworkflow',
+      position: { x: 0, y: 300 },
+      data: {
+        label: 'Group',
+        config: {
+          subworkflow: {
+            nodes: [
+              { id: 'inner', type: 'agent', position: { x: 0, y: 0 }, data: { label: 'Inner' } },
+              { id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start' } },
+            ],
+            connections: [{ id: 'ic1', sourceId: 'inner', targetId: 'ghost', path: 'M 0 0' }],
+            inputs: [{ key: 'inner', label: 'Inner', nodeId: 'inner' }],
+            outputs: [{ key: 'out', label: 'Out', nodeId: 'missing' }],
+          },
+        },
+      },
+    })
+
+    const where = 'nodes[2].data.config.subworkflow'
+    expect(issuesOf(JSON.stringify(file))).toEqual([
+      `${where}.nodes[1] is a trigger; triggers cannot be inside a sub-workflow`,
+      `${where}.connections[0].targetId "ghost" does not match any node`,
+      `${where}.outputs[0].nodeId "missing" does not match any node`,
+    ])
+
+    const group = file.workflow.nodes[2].data.config.subworkflow
+    group.nodes.pop()
+    group.connections = [{ id: 'ic1', sourceId: 'inner', targetId: 'inner', path: 'M 0 0' }]
+    group.outputs[0].nodeId = 'inner'
+    const imported = importWorkflow(JSON.stringify(file))
+    expect(getSubworkflowDefinition(imported.nodes[2])?.connections[0].path).toBeUndefined()
+
+    file.workflow.nodes[2].data.config.subworkflow = { nodes: [] }
+    expect(issuesOf(JSON.stringify(file))).toEqual([
+      `${where}.connections must be an array`,
+      `${where}.inputs must be an array`,
+      `${where}.outputs must be an array`,
+    ])
+  })
+
+  it('rejects newer schema versions and other formats', () => {
+    expect(issuesOf(JSON.stringify({ format: 'ohms-workflow', schemaVersion: 99, workflow: {} }))[0]).toMatch(/schema version 99/)
+    expect(issuesOf(JSON.stringify({ format: 'something-else' }))[0]).toMatch(/Unknown file format/)
+    expect(issuesOf('not json')[0]).toMatch(/not valid JSON/)
+  })
+
+  it('migrates bare version 1 workflows', () => {
+    const legacy = {
+      ...JSON.parse(JSON.stringify(workflow)),
+      nodes: [{ id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start', config: { triggerType: 'timer' } } }],
+      connections: [],
+    }
+    const imported = importWorkflow(JSON.stringify(legacy))
+    expect(imported.nodes[0].data.config?.triggerType).toBe('schedule')
+  })
+
+  it('remaps or clears unknown agent IDs', () => {
+    expect(getWorkflowAgentIds(workflow)).toEqual(['agent_a'])
+    expect(remapAgentIds(workflow, { agent_a: 'agent_b' }).nodes[1].data.config?.agentId).toBe('agent_b')
+    expect(remapAgentIds(workflow, { agent_a: null }).nodes[1].data.config?.agentId).toBeUndefined()
+  })
+})
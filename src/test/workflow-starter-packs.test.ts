@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  STARTER_PACKS,
+  StarterPackAgentError,
+  createStarterPackAgents,
+  filterStarterPacks,
+  getDefaultParameterValues,
+  getNodesNeedingAgents,
+  getStarterPack,
+  instantiateStarterPack,
+  validateStarterPackParameters
+} from '../services/workflowStarterPacks'
+import { validateWorkflow } from '../services/workflowValidation'
+
+describe('Workflow Starter Packs', () => {
+  it('bundles packs that instantiate into valid workflows', () => {
+    for (const pack of STARTER_PACKS) {
+      const values = Object.fromEntries(pack.parameters.map(p => [p.key, p.defaultValue || 'value']))
+      const workflow = instantiateStarterPack(pack, values, 'wf')
+
+      expect(validateWorkflow(workflow).filter(issue => issue.severity === 'error')).toEqual([])
+      expect(JSON.stringify(workflow)).not.toContain('{{params.')
+    }
+  })
+
+  it('filters by category and tag', () => {
+    expect(filterStarterPacks(STARTER_PACKS, { category: 'Research' }).map(p => p.id)).toEqual(['market-research-brief'])
+    expect(filterStarterPacks(STARTER_PACKS, { tag: 'research' }).map(p => p.id)).toEqual(['blog-post-pipeline', 'market-research-brief'])
+    expect(filterStarterPacks(STARTER_PACKS, { category: 'Content', tag: 'code' })).toEqual([])
+    expect(filterStarterPacks(STARTER_PACKS, { category: 'all' })).toHaveLength(STARTER_PACKS.length)
+  })
+
+  it('fills parameters into labels and configuration', () => {
+    const pack = getStarterPack('support-triage')!
+    expect(validateStarterPackParameters(pack, getDefaultParameterValues(pack))).toEqual(['Product name is required'])
+
+    const workflow = instantiateStarterPack(pack, { ...getDefaultParameterValues(pack), product: ' Acme ' }, 'wf')
+    const classifier = workflow.nodes.find(n => n.id === 'wf_classify')!
+
+    expect(classifier.data.config?.instructions).toContain('support tickets for Acme.')
+    expect(workflow.connections.find(c => c.targetId === 'wf_escalate')?.sourceHandle).toBe('wf_urgent-true')
+    expect(workflow.status).toBe('draft')
+  })
+
+  it('creates an agent per agent step and keeps the ones made before a failure', async () => {
+    const workflow = instantiateStarterPack(getStarterPack('blog-post-pipeline')!, { topic: 'ICP', audience: 'devs' }, 'wf')
+    const progress: string[] = []
+
+    const withAgents = await createStarterPackAgents(workflow, async node => `agent-${node.id}`, (done, total) => progress.push(`${done}/${total}`))
+    expect(getNodesNeedingAgents(withAgents)).toEqual([])
+    expect(withAgents.nodes.find(n => n.id === 'wf_draft')?.data.config?.agentId).toBe('agent-wf_draft')
+    expect(progress).toEqual(['0/3', '1/3', '2/3', '3/3'])
+
+    const failure = await createStarterPackAgents(workflow, async node => {
+      if (node.id === 'wf_draft') throw new Error('quota exceeded')
+      return `agent-${node.id}`
+    }).catch(error => error)
+    expect(failure).toBeInstanceOf(StarterPackAgentError)
+    expect(failure.message).toContain('"Writer": quota exceeded')
+    expect(getNodesNeedingAgents(failure.workflow).map(n => n.id)).toEqual(['wf_draft', 'wf_edit'])
+  })
+})
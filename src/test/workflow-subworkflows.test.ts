@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SubworkflowError,
+  collapseToSubworkflow,
+  extractFragment,
+  flattenNodes,
+  getSubworkflowDefinition,
+  instantiateFragment,
+  runSubworkflow,
+  withSubworkflowAgentIds
+} from '../services/workflowSubworkflows'
+import { MemoryWorkflowLibraryStorage, WorkflowLibrary } from '../services/workflowLibrary'
+import { validateWorkflow } from '../services/workflowValidation'
+import type { NodeExecutor } from '../services/workflowEngine'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, x = 0): WorkflowNode => ({
+  id,
+  type: 'agent',
+  position: { x, y: 0 },
+  data: { label: id.toUpperCase() },
+})
+
+// trigger → draft → critique → publish
+const workflow: Workflow = {
+  id: 'wf',
+  name: 'Review',
+  nodes: [
+    { ...node('start'), type: 'trigger' },
+    node('draft', 200),
+    node('critique', 400),
+    node('publish', 600),
+  ],
+  connections: [
+    { id: 'c1', sourceId: 'start', targetId: 'draft', sourceHandle: 'start-bottom', targetHandle: 'draft-top' },
+    { id: 'c2', sourceId: 'draft', targetId: 'critique', sourceHandle: 'draft-right', targetHandle: 'critique-left' },
+    { id: 'c3', sourceId: 'critique', targetId: 'publish', sourceHandle: 'critique-bottom', targetHandle: 'publish-top' },
+  ],
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+describe('Workflow Sub-workflows', () => {
+  it('pastes copies under fresh IDs and keeps their internal connections', () => {
+    let next = 0
+    const copy = instantiateFragment(extractFragment(workflow, ['draft', 'critique']), { x: 40, y: 40 }, () => `n${++next}`)
+
+    expect(copy.nodes.map(n => [n.id, n.position])).toEqual([
+      ['n1', { x: 240, y: 40 }],
+      ['n2', { x: 440, y: 40 }],
+    ])
+    expect(copy.connections).toEqual([
+      expect.objectContaining({ sourceId: 'n1', targetId: 'n2', sourceHandle: 'n1-right', targetHandle: 'n2-left' }),
+    ])
+    expect(copy.connections[0].id).not.toBe('c2')
+  })
+
+  it('collapses a selection into a node with explicit inputs and outputs', () => {
+    const { workflow: collapsed, node: group } = collapseToSubworkflow(workflow, ['draft', 'critique'], { id: 'group', label: 'Review' })
+
+    expect(collapsed.nodes.map(n => n.id)).toEqual(['start', 'publish', 'group'])
+    expect(group.position).toEqual({ x: 200, y: 0 })
+    expect(group.data.config?.subworkflow).toMatchObject({
+      inputs: [{ key: 'draft', nodeId: 'draft' }],
+      outputs: [{ key: 'critique', nodeId: 'critique' }],
+      connections: [expect.objectContaining({ id: 'c2' })],
+    })
+    expect(collapsed.connections).toEqual([
+      expect.objectContaining({ sourceId: 'start', targetId: 'group', targetHandle: 'group-in-draft' }),
+      expect.objectContaining({ sourceId: 'group', targetId: 'publish', sourceHandle: 'group-out-critique' }),
+    ])
+    expect(flattenNodes(collapsed.nodes).map(n => n.id)).toEqual(['start', 'publish', 'group/draft', 'group/critique'])
+  })
+
+  it('refuses selections that would loop through the new node', () => {
+    expect(() => collapseToSubworkflow(workflow, ['draft', 'publish'], { id: 'group', label: 'Loop' }))
+      .toThrow(SubworkflowError)
+    expect(() => collapseToSubworkflow(workflow, ['start', 'draft'], { id: 'group', label: 'Start' }))
+      .toThrow(SubworkflowError)
+  })
+
+  it('runs the inner nodes with what arrived on each input', async () => {
+    const { workflow: collapsed, node: group } = collapseToSubworkflow(workflow, ['draft', 'critique'], { id: 'group', label: 'Review' })
+    const executeNode: NodeExecutor = async (inner, { inputs }) => ({
+      output: `${inner.data.label}(${inputs.map(input => input.output).join(',')})`,
+    })
+
+    const outcome = await runSubworkflow(group, {
+      workflow: collapsed,
+      inputs: [{ nodeId: 'start', port: 'bottom', output: 'topic' }],
+      results: new Map(),
+    }, executeNode)
+
+    expect(outcome.output).toBe('CRITIQUE(DRAFT(topic))')
+    expect(outcome.activePorts).toEqual(['out-critique'])
+  })
+
+  it('reports the agents inner nodes ran on so the next run reuses them', async () => {
+    const { workflow: collapsed, node: group } = collapseToSubworkflow(workflow, ['draft', 'critique'], { id: 'group', label: 'Review' })
+    const executeNode: NodeExecutor = async inner => ({ output: inner.id, metadata: { agentId: `agent-${inner.id}` } })
+
+    const outcome = await runSubworkflow(group, {
+      workflow: collapsed,
+      inputs: [{ nodeId: 'start', port: 'bottom', output: 'topic' }],
+      results: new Map(),
+    }, executeNode)
+    expect(outcome.metadata?.agentIds).toEqual({ draft: 'agent-draft', critique: 'agent-critique' })
+
+    const outer = { ...group, id: 'outer', data: { label: 'Outer', config: { subworkflow: { nodes: [group], connections: [], inputs: [], outputs: [] } } } }
+    const updated = withSubworkflowAgentIds(outer, { 'group/draft': 'agent-1' })
+    expect(flattenNodes([updated]).map(n => [n.id, n.data.config?.agentId])).toEqual([
+      ['outer/group/draft', 'agent-1'],
+      ['outer/group/critique', undefined],
+    ])
+  })
+
+  it('validates a collapsed condition whose branches leave the selection', () => {
+    // trigger → a → c, with c branching to yes and no outside the selection
+    const agent = (id: string): WorkflowNode => ({ ...node(id), data: { label: id, config: { instructions: 'Reply' } } })
+    const branching: Workflow = {
+      ...workflow,
+      nodes: [
+        { ...node('t'), type: 'trigger' },
+        agent('a'),
+        { ...node('c'), type: 'condition', data: { label: 'c', config: { condition: '$.ok' } } },
+        agent('yes'),
+        agent('no'),
+      ],
+      connections: [
+        { id: 'c1', sourceId: 't', targetId: 'a', sourceHandle: 't-bottom', targetHandle: 'a-top' },
+        { id: 'c2', sourceId: 'a', targetId: 'c', sourceHandle: 'a-bottom', targetHandle: 'c-top' },
+        { id: 'c3', sourceId: 'c', targetId: 'yes', sourceHandle: 'c-true', targetHandle: 'yes-top' },
+        { id: 'c4', sourceId: 'c', targetId: 'no', sourceHandle: 'c-false', targetHandle: 'no-top' },
+      ],
+    }
+
+    const { workflow: collapsed } = collapseToSubworkflow(branching, ['a', 'c'], { id: 'sub', label: 'Sub' })
+    expect(validateWorkflow(collapsed).filter(issue => issue.severity === 'error')).toEqual([])
+  })
+
+  it('keeps library entries per principal', async () => {
+    const storage = new MemoryWorkflowLibraryStorage()
+    const mine = new WorkflowLibrary(storage, 'alice')
+    const group = collapseToSubworkflow(workflow, ['draft', 'critique'], { id: 'group', label: 'Review' }).node
+    const definition = getSubworkflowDefinition(group)!
+
+    const entry = await mine.save('  Review loop ', definition)
+    expect(entry.name).toBe('Review loop')
+    expect(await new WorkflowLibrary(storage, 'bob').list()).toEqual([])
+    expect((await mine.list()).map(e => e.id)).toEqual([entry.id])
+
+    await mine.delete(entry.id)
+    expect(await mine.list()).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { buildTemplateScope, findUnresolvedReferences, getNodeTemplateKeys, renderTemplate } from '../services/workflowTemplates'
+import type { NodeExecutionResult } from '../services/workflowEngine'
+import type { Workflow, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, label: string, type: WorkflowNode['type'] = 'agent'): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label, config: {} },
+})
+
+const workflow: Workflow = {
+  id: 'wf',
+  name: 'Research',
+  nodes: [node('t', 'Start', 'trigger'), node('n1', 'Summarizer'), node('n2', 'Summarizer'), node('n3', 'Translate')],
+  connections: [],
+  variables: { language: 'French' },
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+}
+
+const result = (nodeId: string, output: unknown): NodeExecutionResult => ({
+  nodeId,
+  status: 'completed',
+  output,
+  startedAt: 0,
+  finishedAt: 0,
+})
+
+describe('Workflow Templates', () => {
+  it('keys nodes by label and falls back to the ID when labels collide', () => {
+    expect([...getNodeTemplateKeys(workflow).values()]).toEqual(['start', 'summarizer', 'n2', 'translate'])
+  })
+
+  it('renders node outputs, trigger payloads and variables', () => {
+    const scope = buildTemplateScope(
+      workflow,
+      [result('t', { topic: 'bees' }), result('n1', 'Bees pollinate.')],
+      [{ nodeId: 'n1', port: 'bottom', output: 'Bees pollinate.' }]
+    )
+    const rendered = renderTemplate(
+      'Translate to {{vars.language}}: {{nodes.summarizer.output}} ({{trigger.payload.topic}}, {{input}})',
+      scope
+    )
+    expect(rendered).toBe('Translate to French: Bees pollinate. (bees, Bees pollinate.)')
+  })
+
+  it('reports placeholders that can never resolve', () => {
+    const template = '{{nodes.translate.output}} {{nodes.missing.output}} {{vars.language}} {{vars.tone}} {{secrets.key}}'
+    expect(findUnresolvedReferences(template, workflow)).toEqual(['nodes.missing.output', 'vars.tone', 'secrets.key'])
+  })
+
+  it('reports nodes that have not run yet when the template is used', () => {
+    // Start → Summarizer → Translate, with n2 on a parallel branch off Start
+    const wired: Workflow = {
+      ...workflow,
+      connections: [
+        { id: 'c1', sourceId: 't', targetId: 'n1' },
+        { id: 'c2', sourceId: 'n1', targetId: 'n3' },
+        { id: 'c3', sourceId: 't', targetId: 'n2' },
+      ],
+    }
+    const template = '{{nodes.start.output}} {{nodes.summarizer.output}} {{nodes.n2.output}} {{nodes.translate.output}}'
+    expect(findUnresolvedReferences(template, wired, 'n3')).toEqual(['nodes.n2.output', 'nodes.translate.output'])
+    expect(findUnresolvedReferences(template, wired, 'n1')).toEqual([
+      'nodes.summarizer.output',
+      'nodes.n2.output',
+      'nodes.translate.output',
+    ])
+    expect(findUnresolvedReferences(template, wired)).toEqual([])
+  })
+})
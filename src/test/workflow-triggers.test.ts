@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { emitAppEvent } from '../services/appEvents'
+import { MAX_INTERVAL_MINUTES, armWorkflowTriggers, cronMatches, parseTriggerPayload, validateTriggerConfig } from '../services/workflowTriggers'
+import type { Workflow } from '../services/workflowTypes'
+
+const workflowWithTrigger = (config: Record<string, unknown>): Workflow => ({
+  id: 'wf',
+  name: 'Triggered',
+  nodes: [{ id: 'start', type: 'trigger', position: { x: 0, y: 0 }, data: { label: 'Start', config } }],
+  connections: [],
+  status: 'active',
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+describe('Workflow Triggers', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('matches cron expressions field by field', () => {
+    const mondayMorning = new Date(2026, 0, 5, 9, 30)
+    expect(cronMatches('*/15 9-17 * * 1-5', mondayMorning)).toBe(true)
+    expect(cronMatches('0 9 * * *', mondayMorning)).toBe(false)
+    expect(cronMatches('30 9 5 1 1', mondayMorning)).toBe(true)
+    expect(cronMatches('0,30 * * * 0,6', mondayMorning)).toBe(false)
+  })
+
+  it('matches either day when both day fields are restricted, and 7 as Sunday', () => {
+    const firstOfMonth = new Date(2026, 0, 1, 0, 0)
+    const monday = new Date(2026, 0, 5, 0, 0)
+    const sunday = new Date(2026, 0, 4, 0, 0)
+    expect(cronMatches('0 0 1 * 1', firstOfMonth)).toBe(true)
+    expect(cronMatches('0 0 1 * 1', monday)).toBe(true)
+    expect(cronMatches('0 0 1 * 1', sunday)).toBe(false)
+    expect(cronMatches('0 0 * * 1', firstOfMonth)).toBe(false)
+    expect(cronMatches('0 0 1 * *', monday)).toBe(false)
+    expect(cronMatches('0 0 * * 7', sunday)).toBe(true)
+    expect(cronMatches('0 0 * * 5-7', sunday)).toBe(true)
+  })
+
+  it('rejects invalid schedules', () => {
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'cron', cron: '* * *' })).toMatch(/5 fields/)
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'cron', cron: '61 * * * *' })).toMatch(/minute/)
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: 0 })).toMatch(/at least/)
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: MAX_INTERVAL_MINUTES })).toBeNull()
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: MAX_INTERVAL_MINUTES + 1 })).toMatch(/at most/)
+    expect(validateTriggerConfig({ triggerType: 'schedule', scheduleMode: 'cron', cron: '0 9 * * 1-5' })).toBeNull()
+  })
+
+  it('parses JSON payloads and keeps plain text', () => {
+    expect(parseTriggerPayload('{"topic":"news"}')).toEqual({ topic: 'news' })
+    expect(parseTriggerPayload('hello')).toBe('hello')
+    expect(parseTriggerPayload('  ')).toBeNull()
+  })
+
+  it('fires interval triggers until disarmed', () => {
+    vi.useFakeTimers()
+    const fires: unknown[] = []
+    const disarm = armWorkflowTriggers(
+      workflowWithTrigger({ triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: 5, payload: '{"n":1}' }),
+      fire => fires.push(fire.payload)
+    )
+
+    vi.advanceTimersByTime(10 * 60_000)
+    expect(fires).toEqual([{ n: 1 }, { n: 1 }])
+
+    disarm()
+    vi.advanceTimersByTime(10 * 60_000)
+    expect(fires).toHaveLength(2)
+  })
+
+  it('does not arm intervals longer than a browser timer can wait', () => {
+    vi.useFakeTimers()
+    const fires: unknown[] = []
+    const disarm = armWorkflowTriggers(
+      workflowWithTrigger({ triggerType: 'schedule', scheduleMode: 'interval', intervalMinutes: MAX_INTERVAL_MINUTES + 1 }),
+      fire => fires.push(fire.payload)
+    )
+
+    vi.advanceTimersByTime(60 * 60_000)
+    disarm()
+    expect(fires).toEqual([])
+  })
+
+  it('fires event triggers with the event data as payload', () => {
+    const fires: unknown[] = []
+    const disarm = armWorkflowTriggers(
+      workflowWithTrigger({ triggerType: 'event', eventName: 'agent_created' }),
+      fire => fires.push(fire.payload)
+    )
+
+    emitAppEvent('agent_created', { agentId: 'a1' })
+    emitAppEvent('quota_updated', { remaining: 10 })
+    disarm()
+    emitAppEvent('agent_created', { agentId: 'a2' })
+
+    expect(fires).toEqual([{ agentId: 'a1' }])
+  })
+
+  it('ignores events its own runs led to and passes the chain on', () => {
+    const fires: Array<string[] | undefined> = []
+    const disarm = armWorkflowTriggers(
+      workflowWithTrigger({ triggerType: 'event', eventName: 'agent_created' }),
+      fire => fires.push(fire.causedBy)
+    )
+
+    emitAppEvent('agent_created', { agentId: 'a1' }, ['wf'])
+    emitAppEvent('agent_created', { agentId: 'a2' }, ['other', 'wf'])
+    emitAppEvent('agent_created', { agentId: 'a3' }, ['other'])
+    disarm()
+
+    expect(fires).toEqual([['other']])
+  })
+})
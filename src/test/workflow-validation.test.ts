@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { hasBlockingIssues, validateWorkflow } from '../services/workflowValidation'
+import type { Workflow, WorkflowConnection, WorkflowNode } from '../services/workflowTypes'
+
+const node = (id: string, type: WorkflowNode['type'], config: Record<string, unknown> = {}): WorkflowNode => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id, config },
+})
+
+const edge = (sourceId: string, targetId: string, sourcePort = 'bottom', targetPort = 'top'): WorkflowConnection => ({
+  id: `${sourceId}->${targetId}`,
+  sourceId,
+  targetId,
+  sourceHandle: `${sourceId}-${sourcePort}`,
+  targetHandle: `${targetId}-${targetPort}`,
+})
+
+const workflow = (nodes: WorkflowNode[], connections: WorkflowConnection[]): Workflow => ({
+  id: 'wf',
+  name: 'Test',
+  nodes,
+  connections,
+  status: 'draft',
+  created_at: new Date(),
+  updated_at: new Date(),
+})
+
+const codes = (wf: Workflow) => validateWorkflow(wf).map(issue => `${issue.severity}:${issue.code}:${issue.nodeId ?? issue.connectionId}`)
+
+describe('Workflow Validation', () => {
+  it('accepts a well-formed workflow', () => {
+    const wf = workflow(
+      [node('start', 'trigger'), node('writer', 'agent', { instructions: 'Write a summary' })],
+      [edge('start', 'writer')]
+    )
+    expect(validateWorkflow(wf)).toEqual([])
+  })
+
+  it('flags cycles, missing instructions and unreachable nodes', () => {
+    const wf = workflow(
+      [node('start', 'trigger'), node('a', 'agent', { instructions: 'x' }), node('b', 'agent'), node('orphan', 'agent', { instructions: 'x' })],
+      [edge('start', 'a'), edge('a', 'b'), edge('b', 'a')]
+    )
+    const found = codes(wf)
+    expect(found).toContain('error:cycle:a')
+    expect(found).toContain('error:cycle:b')
+    expect(found).toContain('error:missing_instructions:b')
+    expect(found).toContain('warning:unreachable:orphan')
+    expect(found).not.toContain('error:cycle:start')
+  })
+
+  it('requires both condition branches and blocks only on errors', () => {
+    const check = node('check', 'condition', { condition: 'length(output) > 10' })
+    const yes = node('yes', 'agent', { instructions: 'x' })
+    const oneBranch = workflow([node('start', 'trigger'), check, yes], [edge('start', 'check'), edge('check', 'yes', 'true')])
+    expect(codes(oneBranch)).toEqual(['warning:missing_branch:check'])
+    expect(hasBlockingIssues(validateWorkflow(oneBranch))).toBe(false)
+
+    const noBranch = workflow([node('start', 'trigger'), check], [edge('start', 'check')])
+    expect(codes(noBranch)).toEqual(['error:missing_branch:check'])
+    expect(hasBlockingIssues(validateWorkflow(noBranch))).toBe(true)
+  })
+
+  it('flags trigger inputs and output-to-output wiring', () => {
+    const wf = workflow(
+      [node('start', 'trigger'), node('a', 'agent', { instructions: 'x' }), node('b', 'agent', { instructions: 'x' })],
+      [edge('start', 'a'), edge('a', 'start'), edge('a', 'b', 'bottom', 'right')]
+    )
+    const found = codes(wf)
+    expect(found).toContain('error:trigger_has_input:start')
+    expect(found).toContain('error:output_to_output:b')
+  })
+
+  it('flags input-to-input and reversed connections', () => {
+    const nodes = [node('start', 'trigger'), node('a', 'agent', { instructions: 'x' }), node('b', 'agent', { instructions: 'x' })]
+    const inputToInput = workflow(nodes, [edge('start', 'a'), edge('a', 'b'), edge('a', 'b', 'left', 'top')])
+    expect(codes(inputToInput)).toContain('error:input_to_input:b')
+
+    // As imported from a file that lists the ends the wrong way round
+    const reversed = workflow(nodes, [edge('start', 'a'), edge('a', 'b'), edge('b', 'a', 'top', 'bottom')])
+    expect(codes(reversed)).toContain('error:reversed_connection:a')
+  })
+})